@@ -0,0 +1,265 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AudioProbeError, probeAudio } from './audioProbe';
+
+// Minimal but well-formed files, built by hand so the parsers are checked against known header values.
+
+const u16le = (value: number) => {
+    const buf = Buffer.alloc(2);
+    buf.writeUInt16LE(value);
+    return buf;
+};
+
+const u32le = (value: number) => {
+    const buf = Buffer.alloc(4);
+    buf.writeUInt32LE(value);
+    return buf;
+};
+
+const u32be = (value: number) => {
+    const buf = Buffer.alloc(4);
+    buf.writeUInt32BE(value);
+    return buf;
+};
+
+const wav = (options: { dataSize?: number; declaredSize?: number } = {}) => {
+    const dataSize = options.dataSize ?? 176400;
+    const fmt = Buffer.concat([u16le(1), u16le(2), u32le(44100), u32le(176400), u16le(4), u16le(16)]);
+    return Buffer.concat([
+        Buffer.from('RIFF'),
+        u32le(36 + dataSize),
+        Buffer.from('WAVE'),
+        Buffer.from('fmt '),
+        u32le(fmt.length),
+        fmt,
+        Buffer.from('data'),
+        u32le(options.declaredSize ?? dataSize),
+        Buffer.alloc(dataSize),
+    ]);
+};
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo: 417-byte frames.
+const MP3_FRAME_LENGTH = 417;
+const mp3Frame = () => Buffer.concat([Buffer.from([0xff, 0xfb, 0x90, 0x00]), Buffer.alloc(MP3_FRAME_LENGTH - 4)]);
+
+const mp3 = (frames: number, options: { id3?: boolean; xingFrames?: number } = {}) => {
+    const body = Buffer.concat(Array.from({ length: frames }, mp3Frame));
+    if (options.xingFrames !== undefined) {
+        // Stereo MPEG-1 side info is 32 bytes; the Xing header follows it.
+        const xing = Buffer.concat([Buffer.from('Xing'), u32be(0x01), u32be(options.xingFrames)]);
+        xing.copy(body, 4 + 32);
+    }
+    if (!options.id3) return body;
+    const tag = Buffer.alloc(10 + 20);
+    tag.write('ID3', 0, 'ascii');
+    tag[3] = 4;
+    tag[9] = 20;
+    return Buffer.concat([tag, body]);
+};
+
+const flac = (options: { withFrames?: boolean } = {}) => {
+    const streamInfo = Buffer.alloc(34);
+    // 44100 Hz, 2 channels, 16 bits per sample, 88200 samples (2 s).
+    streamInfo[10] = 0x0a;
+    streamInfo[11] = 0xc4;
+    streamInfo[12] = 0x42;
+    streamInfo[13] = 0xf0;
+    streamInfo.writeUInt32BE(88200, 14);
+    const header = Buffer.from([0x80, 0x00, 0x00, streamInfo.length]);
+    const frames = options.withFrames === false ? Buffer.alloc(0) : Buffer.from([0xff, 0xf8, 0x00, 0x00]);
+    return Buffer.concat([Buffer.from('fLaC'), header, streamInfo, frames]);
+};
+
+const oggPage = (granule: number, body: Buffer, options: { declaredLength?: number } = {}) => {
+    const header = Buffer.alloc(27);
+    header.write('OggS', 0, 'ascii');
+    header.writeUInt32LE(granule % 2 ** 32, 6);
+    header.writeInt32LE(Math.floor(granule / 2 ** 32), 10);
+    header.writeUInt32LE(1234, 14);
+    header[26] = 1;
+    return Buffer.concat([header, Buffer.from([options.declaredLength ?? body.length]), body]);
+};
+
+const opusHead = () =>
+    Buffer.concat([Buffer.from('OpusHead'), Buffer.from([1, 2]), u16le(312), u32le(48000), Buffer.from([0, 0, 0])]);
+
+const box = (type: string, ...children: Buffer[]) => {
+    const body = Buffer.concat(children);
+    return Buffer.concat([u32be(8 + body.length), Buffer.from(type, 'latin1'), body]);
+};
+
+// Version 0 mvhd/mdhd: version+flags, creation, modification, timescale, duration.
+const durationBox = (type: string, timescale: number, duration: number) =>
+    box(type, Buffer.alloc(12), u32be(timescale), u32be(duration), Buffer.alloc(8));
+
+const mp4 = (options: { withMdat?: boolean } = {}) => {
+    const entry = Buffer.alloc(36);
+    entry.writeUInt32BE(36, 0);
+    entry.write('mp4a', 4, 'latin1');
+    entry.writeUInt16BE(2, 24);
+    entry.writeUInt16BE(44100, 32);
+    const stsd = box('stsd', Buffer.alloc(4), u32be(1), entry);
+    const hdlr = box('hdlr', Buffer.alloc(8), Buffer.from('soun'), Buffer.alloc(12));
+    const trak = box('trak', box('mdia', hdlr, durationBox('mdhd', 44100, 44100 * 3), box('minf', box('stbl', stsd))));
+    return Buffer.concat([
+        box('ftyp', Buffer.from('M4A '), u32be(0)),
+        box('moov', durationBox('mvhd', 1000, 2900), trak),
+        options.withMdat === false ? Buffer.alloc(0) : box('mdat', Buffer.alloc(64)),
+    ]);
+};
+
+const ebmlId = (id: number) => {
+    const bytes: number[] = [];
+    for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value % 256);
+    return Buffer.from(bytes);
+};
+
+const ebml = (id: number, ...children: Buffer[]) => {
+    const body = Buffer.concat(children);
+    if (body.length > 126) throw new Error('test element too large');
+    return Buffer.concat([ebmlId(id), Buffer.from([0x80 | body.length]), body]);
+};
+
+// Live recordings write the segment and clusters with an "unknown" size.
+const ebmlUnknownSize = (id: number, ...children: Buffer[]) =>
+    Buffer.concat([ebmlId(id), Buffer.from([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]), ...children]);
+
+const float32 = (value: number) => {
+    const buf = Buffer.alloc(4);
+    buf.writeFloatBE(value);
+    return buf;
+};
+
+const simpleBlock = (timecode: number) => {
+    const buf = Buffer.alloc(4 + 8);
+    buf[0] = 0x81;
+    buf.writeInt16BE(timecode, 1);
+    return ebml(0xa3, buf);
+};
+
+const webm = (options: { duration?: number; blocks?: number[] } = {}) => {
+    const audioTrack = ebml(
+        0xae,
+        ebml(0xd7, Buffer.from([1])),
+        ebml(0x83, Buffer.from([2])),
+        ebml(0x86, Buffer.from('A_OPUS')),
+        ebml(0xe1, ebml(0xb5, float32(48000)), ebml(0x9f, Buffer.from([2])))
+    );
+    const info = ebml(
+        0x1549a966,
+        ebml(0x2ad7b1, Buffer.from([0x0f, 0x42, 0x40])),
+        ...(options.duration === undefined ? [] : [ebml(0x4489, float32(options.duration))])
+    );
+    const clusters = options.blocks
+        ? [ebmlUnknownSize(0x1f43b675, ebml(0xe7, Buffer.from([0])), ...options.blocks.map(simpleBlock))]
+        : [];
+    return Buffer.concat([
+        ebml(0x1a45dfa3, ebml(0x4282, Buffer.from('webm'))),
+        ebmlUnknownSize(0x18538067, info, ebml(0x1654ae6b, audioTrack), ...clusters),
+    ]);
+};
+
+const assertProbeError = (buf: Buffer, message: RegExp) =>
+    assert.throws(() => probeAudio(buf), (err: unknown) => err instanceof AudioProbeError && message.test(err.message));
+
+describe('probeAudio', () => {
+    test('reads PCM WAV headers', () => {
+        assert.deepEqual(probeAudio(wav()), {
+            container: 'wav',
+            codec: 'pcm',
+            mimeType: 'audio/wav',
+            durationSeconds: 1,
+            sampleRate: 44100,
+            channels: 2,
+            bitrate: 1411200,
+        });
+    });
+
+    test('uses the available bytes when a streaming WAV writer left a placeholder size', () => {
+        assert.equal(probeAudio(wav({ dataSize: 88200, declaredSize: 0xffffffff })).durationSeconds, 0.5);
+    });
+
+    test('rejects a WAV whose data chunk is cut off', () => {
+        assertProbeError(wav({ dataSize: 1000, declaredSize: 2000 }), /обрезан/);
+    });
+
+    test('estimates CBR MP3 duration from the frame bitrate', () => {
+        const result = probeAudio(mp3(10));
+        assert.equal(result.container, 'mp3');
+        assert.equal(result.codec, 'mp3');
+        assert.equal(result.sampleRate, 44100);
+        assert.equal(result.channels, 2);
+        assert.equal(result.bitrate, 128000);
+        assert.equal(result.durationSeconds, (10 * MP3_FRAME_LENGTH * 8) / 128000);
+    });
+
+    test('skips an ID3v2 tag before the first MP3 frame', () => {
+        assert.equal(probeAudio(mp3(3, { id3: true })).container, 'mp3');
+    });
+
+    test('takes the MP3 frame count from a Xing header', () => {
+        const result = probeAudio(mp3(3, { xingFrames: 100 }));
+        assert.equal(result.durationSeconds, (100 * 1152) / 44100);
+    });
+
+    test('reads FLAC STREAMINFO', () => {
+        const result = probeAudio(flac());
+        assert.equal(result.codec, 'flac');
+        assert.equal(result.durationSeconds, 2);
+        assert.equal(result.sampleRate, 44100);
+        assert.equal(result.channels, 2);
+    });
+
+    test('rejects a FLAC file with metadata but no frames', () => {
+        assertProbeError(flac({ withFrames: false }), /обрезан/);
+    });
+
+    test('takes Ogg Opus duration from the last granule position minus pre-skip', () => {
+        const result = probeAudio(Buffer.concat([oggPage(0, opusHead()), oggPage(48000 * 3 + 312, Buffer.alloc(20))]));
+        assert.equal(result.container, 'ogg');
+        assert.equal(result.codec, 'opus');
+        assert.equal(result.mimeType, 'audio/ogg; codecs=opus');
+        assert.equal(result.channels, 2);
+        assert.equal(result.durationSeconds, 3);
+    });
+
+    test('rejects an Ogg stream whose last page is incomplete', () => {
+        const truncated = Buffer.concat([oggPage(0, opusHead()), oggPage(48000, Buffer.alloc(5), { declaredLength: 50 })]);
+        assertProbeError(truncated, /обрезан/);
+    });
+
+    test('prefers the sound track duration in MP4 over the movie header', () => {
+        const result = probeAudio(mp4());
+        assert.equal(result.container, 'mp4');
+        assert.equal(result.codec, 'aac');
+        assert.equal(result.durationSeconds, 3);
+        assert.equal(result.sampleRate, 44100);
+        assert.equal(result.channels, 2);
+    });
+
+    test('rejects an MP4 without media data', () => {
+        assertProbeError(mp4({ withMdat: false }), /обрезан/);
+    });
+
+    test('reads the declared WebM duration and audio track', () => {
+        const result = probeAudio(webm({ duration: 2500 }));
+        assert.equal(result.container, 'webm');
+        assert.equal(result.codec, 'opus');
+        assert.equal(result.mimeType, 'audio/webm; codecs=opus');
+        assert.equal(result.durationSeconds, 2.5);
+        assert.equal(result.sampleRate, 48000);
+        assert.equal(result.channels, 2);
+    });
+
+    test('falls back to the last block timestamp for WebM without a duration', () => {
+        assert.equal(probeAudio(webm({ blocks: [0, 500, 1500] })).durationSeconds, 1.5);
+    });
+
+    test('rejects data that is not audio', () => {
+        assertProbeError(Buffer.from('<!doctype html><html></html>'), /не похож на аудио/);
+    });
+
+    test('rejects files too short to identify', () => {
+        assertProbeError(Buffer.from('RIFF'), /обрезан/);
+    });
+});
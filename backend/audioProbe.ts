@@ -0,0 +1,610 @@
+// Lightweight container/codec sniffing for uploaded audio. Reads magic bytes and headers only,
+// nothing is decoded, so it is cheap enough to run on every upload.
+
+export type AudioContainer = 'wav' | 'mp3' | 'flac' | 'ogg' | 'mp4' | 'webm';
+
+export type AudioProbeResult = {
+    container: AudioContainer;
+    codec: string;
+    mimeType: string;
+    durationSeconds: number | null;
+    sampleRate: number | null;
+    channels: number | null;
+    bitrate: number | null;
+};
+
+// The message is meant for the uploader and is returned with a 400.
+export class AudioProbeError extends Error {}
+
+const NOT_AUDIO = 'Файл не похож на аудио: неизвестный или неподдерживаемый формат';
+const TRUNCATED = 'Аудиофайл повреждён или обрезан';
+
+const finiteOrNull = (value: number | null | undefined) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+
+const averageBitrate = (bytes: number, durationSeconds: number | null) =>
+    durationSeconds ? Math.round((bytes * 8) / durationSeconds) : null;
+
+// WAV
+
+const probeWav = (buf: Buffer): AudioProbeResult => {
+    let offset = 12;
+    let fmt: { format: number; channels: number; sampleRate: number; byteRate: number; bitsPerSample: number } | null =
+        null;
+    let dataSize: number | null = null;
+
+    while (offset + 8 <= buf.length) {
+        const id = buf.toString('ascii', offset, offset + 4);
+        const size = buf.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (id === 'fmt ') {
+            if (body + 16 > buf.length) throw new AudioProbeError(TRUNCATED);
+            fmt = {
+                format: buf.readUInt16LE(body),
+                channels: buf.readUInt16LE(body + 2),
+                sampleRate: buf.readUInt32LE(body + 4),
+                byteRate: buf.readUInt32LE(body + 8),
+                bitsPerSample: buf.readUInt16LE(body + 14),
+            };
+        } else if (id === 'data') {
+            const available = buf.length - body;
+            // Streaming writers leave 0 or 0xFFFFFFFF as a placeholder; anything else must fit in the file.
+            const placeholder = size === 0 || size === 0xffffffff;
+            if (!placeholder && size > available) throw new AudioProbeError(TRUNCATED);
+            dataSize = placeholder ? available : size;
+            break;
+        }
+
+        offset = body + size + (size % 2);
+    }
+
+    if (!fmt || dataSize === null) throw new AudioProbeError(TRUNCATED);
+    if (!fmt.channels || !fmt.sampleRate || !fmt.byteRate) throw new AudioProbeError(NOT_AUDIO);
+
+    const codecs: Record<number, string> = { 1: 'pcm', 3: 'pcm_float', 6: 'alaw', 7: 'mulaw', 0xfffe: 'pcm' };
+    const durationSeconds = finiteOrNull(dataSize / fmt.byteRate);
+    return {
+        container: 'wav',
+        codec: codecs[fmt.format] || `wav_0x${fmt.format.toString(16)}`,
+        mimeType: 'audio/wav',
+        durationSeconds,
+        sampleRate: fmt.sampleRate,
+        channels: fmt.channels,
+        bitrate: fmt.byteRate * 8,
+    };
+};
+
+// MP3
+
+const MP3_BITRATES: Record<string, number[]> = {
+    '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+    1: [44100, 48000, 32000],
+    2: [22050, 24000, 16000],
+    25: [11025, 12000, 8000],
+};
+
+type Mp3Frame = {
+    version: 1 | 2 | 25;
+    layer: 1 | 2 | 3;
+    bitrate: number;
+    sampleRate: number;
+    channels: number;
+    length: number;
+    samplesPerFrame: number;
+};
+
+const parseMp3FrameHeader = (buf: Buffer, offset: number): Mp3Frame | null => {
+    if (offset + 4 > buf.length) return null;
+    const b1 = buf[offset + 1];
+    const b2 = buf[offset + 2];
+    const b3 = buf[offset + 3];
+    if (buf[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+    const versionBits = (b1 >> 3) & 0x03;
+    const layerBits = (b1 >> 1) & 0x03;
+    if (versionBits === 1 || layerBits === 0) return null;
+    const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 25;
+    const layer = (4 - layerBits) as 1 | 2 | 3;
+
+    const bitrateIndex = (b2 >> 4) & 0x0f;
+    const sampleRateIndex = (b2 >> 2) & 0x03;
+    if (bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+    const bitrate = MP3_BITRATES[`${version === 1 ? 1 : 2}-${layer}`][bitrateIndex] * 1000;
+    const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex];
+    const padding = (b2 >> 1) & 0x01;
+    const channels = ((b3 >> 6) & 0x03) === 3 ? 1 : 2;
+
+    let length: number;
+    let samplesPerFrame: number;
+    if (layer === 1) {
+        length = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+        samplesPerFrame = 384;
+    } else if (layer === 3 && version !== 1) {
+        length = Math.floor((72 * bitrate) / sampleRate) + padding;
+        samplesPerFrame = 576;
+    } else {
+        length = Math.floor((144 * bitrate) / sampleRate) + padding;
+        samplesPerFrame = 1152;
+    }
+    if (length < 4) return null;
+
+    return { version, layer, bitrate, sampleRate, channels, length, samplesPerFrame };
+};
+
+const skipId3v2 = (buf: Buffer) => {
+    if (buf.length < 10 || buf.toString('ascii', 0, 3) !== 'ID3') return 0;
+    const size = ((buf[6] & 0x7f) << 21) | ((buf[7] & 0x7f) << 14) | ((buf[8] & 0x7f) << 7) | (buf[9] & 0x7f);
+    const hasFooter = (buf[5] & 0x10) !== 0;
+    return 10 + size + (hasFooter ? 10 : 0);
+};
+
+const probeMp3 = (buf: Buffer): AudioProbeResult | null => {
+    const start = skipId3v2(buf);
+    if (start >= buf.length) {
+        if (start > 0) throw new AudioProbeError(TRUNCATED);
+        return null;
+    }
+
+    // A real stream has consecutive frames; requiring two avoids matching random 0xFFE bit patterns.
+    const searchEnd = Math.min(buf.length - 4, start + 64 * 1024);
+    let frameOffset = -1;
+    let frame: Mp3Frame | null = null;
+    for (let offset = start; offset <= searchEnd; offset += 1) {
+        const candidate = parseMp3FrameHeader(buf, offset);
+        if (!candidate) continue;
+        const next = offset + candidate.length;
+        if (next + 4 <= buf.length && !parseMp3FrameHeader(buf, next)) continue;
+        if (next > buf.length) continue;
+        frameOffset = offset;
+        frame = candidate;
+        break;
+    }
+    if (!frame || frameOffset < 0) return null;
+
+    const hasId3v1 = buf.length >= 128 && buf.toString('ascii', buf.length - 128, buf.length - 125) === 'TAG';
+    const audioBytes = buf.length - frameOffset - (hasId3v1 ? 128 : 0);
+
+    let totalFrames: number | null = null;
+    const sideInfoSize = frame.version === 1 ? (frame.channels === 1 ? 17 : 32) : frame.channels === 1 ? 9 : 17;
+    const xingOffset = frameOffset + 4 + sideInfoSize;
+    const xingTag = xingOffset + 8 <= buf.length ? buf.toString('ascii', xingOffset, xingOffset + 4) : '';
+    if ((xingTag === 'Xing' || xingTag === 'Info') && (buf.readUInt32BE(xingOffset + 4) & 0x01) !== 0) {
+        if (xingOffset + 12 <= buf.length) totalFrames = buf.readUInt32BE(xingOffset + 8);
+    } else {
+        const vbriOffset = frameOffset + 4 + 32;
+        if (vbriOffset + 18 <= buf.length && buf.toString('ascii', vbriOffset, vbriOffset + 4) === 'VBRI') {
+            totalFrames = buf.readUInt32BE(vbriOffset + 14);
+        }
+    }
+
+    const durationSeconds = totalFrames
+        ? finiteOrNull((totalFrames * frame.samplesPerFrame) / frame.sampleRate)
+        : finiteOrNull((audioBytes * 8) / frame.bitrate);
+
+    return {
+        container: 'mp3',
+        codec: frame.layer === 3 ? 'mp3' : `mp${frame.layer}`,
+        mimeType: 'audio/mpeg',
+        durationSeconds,
+        sampleRate: frame.sampleRate,
+        channels: frame.channels,
+        bitrate: totalFrames ? averageBitrate(audioBytes, durationSeconds) : frame.bitrate,
+    };
+};
+
+// FLAC
+
+const readFlacStreamInfo = (buf: Buffer, offset: number) => {
+    const sampleRate = (buf[offset + 10] << 12) | (buf[offset + 11] << 4) | (buf[offset + 12] >> 4);
+    const channels = ((buf[offset + 12] >> 1) & 0x07) + 1;
+    const totalSamples = (buf[offset + 13] & 0x0f) * 2 ** 32 + buf.readUInt32BE(offset + 14);
+    return { sampleRate, channels, totalSamples };
+};
+
+const probeFlac = (buf: Buffer): AudioProbeResult => {
+    let offset = 4;
+    let streamInfo: ReturnType<typeof readFlacStreamInfo> | null = null;
+    let last = false;
+
+    while (!last) {
+        if (offset + 4 > buf.length) throw new AudioProbeError(TRUNCATED);
+        last = (buf[offset] & 0x80) !== 0;
+        const type = buf[offset] & 0x7f;
+        const length = buf.readUIntBE(offset + 1, 3);
+        const body = offset + 4;
+        if (body + length > buf.length) throw new AudioProbeError(TRUNCATED);
+        if (type === 0 && length >= 34) streamInfo = readFlacStreamInfo(buf, body);
+        offset = body + length;
+    }
+
+    if (!streamInfo || !streamInfo.sampleRate) throw new AudioProbeError(TRUNCATED);
+    // Metadata only, no frames after it.
+    if (offset + 2 > buf.length) throw new AudioProbeError(TRUNCATED);
+
+    const durationSeconds = finiteOrNull(streamInfo.totalSamples / streamInfo.sampleRate);
+    return {
+        container: 'flac',
+        codec: 'flac',
+        mimeType: 'audio/flac',
+        durationSeconds,
+        sampleRate: streamInfo.sampleRate,
+        channels: streamInfo.channels,
+        bitrate: averageBitrate(buf.length - offset, durationSeconds),
+    };
+};
+
+// Ogg (Vorbis / Opus / FLAC)
+
+const readOggPage = (buf: Buffer, offset: number) => {
+    if (offset + 27 > buf.length || buf.toString('ascii', offset, offset + 4) !== 'OggS') return null;
+    const segments = buf[offset + 26];
+    const headerLength = 27 + segments;
+    if (offset + headerLength > buf.length) return { complete: false as const };
+    let bodyLength = 0;
+    for (let i = 0; i < segments; i += 1) bodyLength += buf[offset + 27 + i];
+    const granuleLow = buf.readUInt32LE(offset + 6);
+    const granuleHigh = buf.readInt32LE(offset + 10);
+    return {
+        complete: offset + headerLength + bodyLength <= buf.length,
+        granule: granuleHigh * 2 ** 32 + granuleLow,
+        serial: buf.readUInt32LE(offset + 14),
+        body: offset + headerLength,
+        bodyLength,
+    };
+};
+
+const probeOgg = (buf: Buffer): AudioProbeResult => {
+    const first = readOggPage(buf, 0);
+    if (!first || !first.complete) throw new AudioProbeError(TRUNCATED);
+
+    const packet = buf.subarray(first.body, first.body + first.bodyLength);
+    let codec: string;
+    let mimeType = 'audio/ogg';
+    let sampleRate: number | null = null;
+    let channels: number | null = null;
+    let granuleRate: number | null = null;
+    let preSkip = 0;
+    let nominalBitrate: number | null = null;
+
+    if (packet.length >= 30 && packet[0] === 0x01 && packet.toString('ascii', 1, 7) === 'vorbis') {
+        codec = 'vorbis';
+        channels = packet[11];
+        sampleRate = packet.readUInt32LE(12);
+        granuleRate = sampleRate;
+        nominalBitrate = finiteOrNull(packet.readInt32LE(20));
+    } else if (packet.length >= 19 && packet.toString('ascii', 0, 8) === 'OpusHead') {
+        codec = 'opus';
+        mimeType = 'audio/ogg; codecs=opus';
+        channels = packet[9];
+        preSkip = packet.readUInt16LE(10);
+        sampleRate = finiteOrNull(packet.readUInt32LE(12)) || 48000;
+        // Opus granule positions always count 48 kHz samples.
+        granuleRate = 48000;
+    } else if (packet.length >= 51 && packet[0] === 0x7f && packet.toString('ascii', 1, 5) === 'FLAC') {
+        codec = 'flac';
+        const info = readFlacStreamInfo(packet, 17);
+        channels = info.channels;
+        sampleRate = info.sampleRate;
+        granuleRate = sampleRate;
+    } else {
+        throw new AudioProbeError(NOT_AUDIO);
+    }
+
+    // Duration is the granule position of the last page of the stream.
+    let durationSeconds: number | null = null;
+    const tailStart = Math.max(0, buf.length - 128 * 1024);
+    for (let offset = buf.lastIndexOf('OggS', buf.length - 4); offset >= tailStart; ) {
+        const page = readOggPage(buf, offset);
+        if (page && page.complete && page.serial === first.serial && page.granule > 0 && granuleRate) {
+            durationSeconds = finiteOrNull((page.granule - preSkip) / granuleRate);
+            break;
+        }
+        if (offset === 0) break;
+        offset = buf.lastIndexOf('OggS', offset - 1);
+    }
+
+    const lastPageOffset = buf.lastIndexOf('OggS', buf.length - 4);
+    const lastPage = lastPageOffset >= 0 ? readOggPage(buf, lastPageOffset) : null;
+    if (lastPage && !lastPage.complete) throw new AudioProbeError(TRUNCATED);
+
+    return {
+        container: 'ogg',
+        codec,
+        mimeType,
+        durationSeconds,
+        sampleRate,
+        channels,
+        bitrate: averageBitrate(buf.length, durationSeconds) || nominalBitrate,
+    };
+};
+
+// MP4 / M4A
+
+type Mp4Box = { type: string; start: number; body: number; end: number };
+
+const readMp4Boxes = (buf: Buffer, start: number, end: number) => {
+    const boxes: Mp4Box[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = buf.readUInt32BE(offset);
+        const type = buf.toString('latin1', offset + 4, offset + 8);
+        let body = offset + 8;
+        if (size === 1) {
+            if (offset + 16 > end) throw new AudioProbeError(TRUNCATED);
+            size = buf.readUInt32BE(offset + 8) * 2 ** 32 + buf.readUInt32BE(offset + 12);
+            body = offset + 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < body - offset || offset + size > end) throw new AudioProbeError(TRUNCATED);
+        boxes.push({ type, start: offset, body, end: offset + size });
+        offset += size;
+    }
+    return boxes;
+};
+
+const findMp4Box = (buf: Buffer, parent: Mp4Box, type: string) =>
+    readMp4Boxes(buf, parent.body, parent.end).find((box) => box.type === type) || null;
+
+const readMp4Duration = (buf: Buffer, box: Mp4Box) => {
+    const version = buf[box.body];
+    if (version === 1) {
+        if (box.body + 32 > box.end) return null;
+        const timescale = buf.readUInt32BE(box.body + 20);
+        const duration = buf.readUInt32BE(box.body + 24) * 2 ** 32 + buf.readUInt32BE(box.body + 28);
+        return timescale ? duration / timescale : null;
+    }
+    if (box.body + 20 > box.end) return null;
+    const timescale = buf.readUInt32BE(box.body + 12);
+    const duration = buf.readUInt32BE(box.body + 16);
+    return timescale ? duration / timescale : null;
+};
+
+const MP4_AUDIO_CODECS: Record<string, string> = {
+    mp4a: 'aac',
+    alac: 'alac',
+    Opus: 'opus',
+    fLaC: 'flac',
+    'ac-3': 'ac3',
+    'ec-3': 'eac3',
+    '.mp3': 'mp3',
+};
+
+const probeMp4 = (buf: Buffer): AudioProbeResult => {
+    const root: Mp4Box = { type: 'root', start: 0, body: 0, end: buf.length };
+    const topLevel = readMp4Boxes(buf, root.body, root.end);
+    const moov = topLevel.find((box) => box.type === 'moov');
+    if (!moov || !topLevel.some((box) => box.type === 'mdat')) throw new AudioProbeError(TRUNCATED);
+
+    const mvhd = findMp4Box(buf, moov, 'mvhd');
+    let durationSeconds = mvhd ? finiteOrNull(readMp4Duration(buf, mvhd)) : null;
+
+    for (const trak of readMp4Boxes(buf, moov.body, moov.end).filter((box) => box.type === 'trak')) {
+        const mdia = findMp4Box(buf, trak, 'mdia');
+        const hdlr = mdia ? findMp4Box(buf, mdia, 'hdlr') : null;
+        if (!mdia || !hdlr || buf.toString('latin1', hdlr.body + 8, hdlr.body + 12) !== 'soun') continue;
+
+        const mdhd = findMp4Box(buf, mdia, 'mdhd');
+        const trackDuration = mdhd ? finiteOrNull(readMp4Duration(buf, mdhd)) : null;
+        if (trackDuration) durationSeconds = trackDuration;
+
+        const minf = findMp4Box(buf, mdia, 'minf');
+        const stbl = minf ? findMp4Box(buf, minf, 'stbl') : null;
+        const stsd = stbl ? findMp4Box(buf, stbl, 'stsd') : null;
+        // stsd: version/flags (4) + entry count (4), then sample entries; the audio fields sit at fixed offsets.
+        const entryStart = stsd ? stsd.body + 8 : -1;
+        let codec = 'unknown';
+        let channels: number | null = null;
+        let sampleRate: number | null = null;
+        if (stsd && entryStart + 36 <= stsd.end) {
+            const entryType = buf.toString('latin1', entryStart + 4, entryStart + 8);
+            codec = MP4_AUDIO_CODECS[entryType] || entryType.trim();
+            channels = buf.readUInt16BE(entryStart + 24) || null;
+            sampleRate = buf.readUInt16BE(entryStart + 32) || null;
+        }
+
+        return {
+            container: 'mp4',
+            codec,
+            mimeType: 'audio/mp4',
+            durationSeconds,
+            sampleRate,
+            channels,
+            bitrate: averageBitrate(buf.length, durationSeconds),
+        };
+    }
+
+    throw new AudioProbeError(NOT_AUDIO);
+};
+
+// WebM / Matroska
+
+const EBML = {
+    header: 0x1a45dfa3,
+    docType: 0x4282,
+    segment: 0x18538067,
+    info: 0x1549a966,
+    timecodeScale: 0x2ad7b1,
+    duration: 0x4489,
+    tracks: 0x1654ae6b,
+    trackEntry: 0xae,
+    trackType: 0x83,
+    codecId: 0x86,
+    audio: 0xe1,
+    samplingFrequency: 0xb5,
+    channels: 0x9f,
+    cluster: 0x1f43b675,
+    clusterTimecode: 0xe7,
+    simpleBlock: 0xa3,
+    blockGroup: 0xa0,
+    block: 0xa1,
+};
+
+// Master elements whose children are walked in place (their size may be "unknown" in live recordings).
+const EBML_DESCEND = new Set([EBML.segment, EBML.info, EBML.tracks, EBML.trackEntry, EBML.audio, EBML.cluster, EBML.blockGroup]);
+
+const readVint = (buf: Buffer, offset: number, keepMarker: boolean) => {
+    if (offset >= buf.length) return null;
+    const first = buf[offset];
+    let length = 1;
+    while (length <= 8 && (first & (0x80 >> (length - 1))) === 0) length += 1;
+    if (length > 8 || offset + length > buf.length) return null;
+
+    let value = keepMarker ? first : first & (0xff >> length);
+    let allOnes = value === (0xff >> length);
+    for (let i = 1; i < length; i += 1) {
+        value = value * 256 + buf[offset + i];
+        if (buf[offset + i] !== 0xff) allOnes = false;
+    }
+    return { value, length, unknown: !keepMarker && allOnes };
+};
+
+const readEbmlUint = (buf: Buffer, offset: number, size: number) => {
+    let value = 0;
+    for (let i = 0; i < size; i += 1) value = value * 256 + buf[offset + i];
+    return value;
+};
+
+const readEbmlFloat = (buf: Buffer, offset: number, size: number) => {
+    if (size === 4) return buf.readFloatBE(offset);
+    if (size === 8) return buf.readDoubleBE(offset);
+    return null;
+};
+
+const probeWebm = (buf: Buffer): AudioProbeResult => {
+    let docType = 'webm';
+    let timecodeScale = 1_000_000;
+    let declaredDuration: number | null = null;
+    let maxTimecode = 0;
+    let clusterTimecode = 0;
+    let audioTrackNumber: number | null = null;
+    let currentTrack: { number?: number; type?: number; codec?: string; sampleRate?: number; channels?: number } = {};
+    let audioTrack: typeof currentTrack | null = null;
+
+    let offset = 0;
+    while (offset < buf.length) {
+        const id = readVint(buf, offset, true);
+        const size = id ? readVint(buf, offset + id.length, false) : null;
+        if (!id || !size) break;
+        const body = offset + id.length + size.length;
+
+        if (id.value === EBML.trackEntry) {
+            if (currentTrack.type === 2 && !audioTrack) audioTrack = currentTrack;
+            currentTrack = {};
+        }
+
+        if (id.value === EBML.header) {
+            const end = body + size.value;
+            if (size.unknown || end > buf.length) throw new AudioProbeError(TRUNCATED);
+            for (let inner = body; inner < end; ) {
+                const innerId = readVint(buf, inner, true);
+                const innerSize = innerId ? readVint(buf, inner + innerId.length, false) : null;
+                if (!innerId || !innerSize) break;
+                const innerBody = inner + innerId.length + innerSize.length;
+                if (innerId.value === EBML.docType) docType = buf.toString('ascii', innerBody, innerBody + innerSize.value);
+                inner = innerBody + innerSize.value;
+            }
+            offset = end;
+            continue;
+        }
+
+        if (EBML_DESCEND.has(id.value)) {
+            offset = body;
+            continue;
+        }
+
+        if (size.unknown) break;
+        const end = body + size.value;
+        if (end > buf.length) {
+            // A block cut off at the very end is what an interrupted upload looks like.
+            throw new AudioProbeError(TRUNCATED);
+        }
+
+        switch (id.value) {
+            case EBML.timecodeScale:
+                timecodeScale = readEbmlUint(buf, body, size.value) || timecodeScale;
+                break;
+            case EBML.duration:
+                declaredDuration = readEbmlFloat(buf, body, size.value);
+                break;
+            case 0xd7: // TrackNumber
+                currentTrack.number = readEbmlUint(buf, body, size.value);
+                break;
+            case EBML.trackType:
+                currentTrack.type = readEbmlUint(buf, body, size.value);
+                break;
+            case EBML.codecId:
+                currentTrack.codec = buf.toString('ascii', body, end);
+                break;
+            case EBML.samplingFrequency:
+                currentTrack.sampleRate = readEbmlFloat(buf, body, size.value) ?? undefined;
+                break;
+            case EBML.channels:
+                currentTrack.channels = readEbmlUint(buf, body, size.value);
+                break;
+            case EBML.clusterTimecode:
+                clusterTimecode = readEbmlUint(buf, body, size.value);
+                if (currentTrack.type === 2 && !audioTrack) audioTrack = currentTrack;
+                break;
+            case EBML.simpleBlock:
+            case EBML.block: {
+                if (!audioTrack && currentTrack.type === 2) audioTrack = currentTrack;
+                audioTrackNumber = audioTrack?.number ?? audioTrackNumber;
+                const track = readVint(buf, body, false);
+                if (track && body + track.length + 2 <= end && (audioTrackNumber === null || track.value === audioTrackNumber)) {
+                    maxTimecode = Math.max(maxTimecode, clusterTimecode + buf.readInt16BE(body + track.length));
+                }
+                break;
+            }
+            default:
+                break;
+        }
+
+        offset = end;
+    }
+
+    if (!audioTrack && currentTrack.type === 2) audioTrack = currentTrack;
+    if (!audioTrack) throw new AudioProbeError(NOT_AUDIO);
+
+    const codecNames: Record<string, string> = { A_OPUS: 'opus', A_VORBIS: 'vorbis', A_AAC: 'aac', A_FLAC: 'flac', A_MPEG_L3: 'mp3' };
+    const codec = audioTrack.codec ? codecNames[audioTrack.codec] || audioTrack.codec.toLowerCase() : 'unknown';
+    // Live recordings (MediaRecorder) carry no Duration; fall back to the last block timestamp.
+    const durationSeconds = finiteOrNull(((declaredDuration || maxTimecode) * timecodeScale) / 1e9);
+
+    return {
+        container: 'webm',
+        codec,
+        mimeType: docType === 'matroska' ? 'audio/x-matroska' : codec === 'opus' ? 'audio/webm; codecs=opus' : 'audio/webm',
+        durationSeconds,
+        sampleRate: audioTrack.sampleRate ? Math.round(audioTrack.sampleRate) : null,
+        channels: audioTrack.channels || null,
+        bitrate: averageBitrate(buf.length, durationSeconds),
+    };
+};
+
+export const probeAudio = (buf: Buffer): AudioProbeResult => {
+    if (buf.length < 12) throw new AudioProbeError(TRUNCATED);
+
+    const head4 = buf.toString('latin1', 0, 4);
+    if (head4 === 'RIFF' && buf.toString('latin1', 8, 12) === 'WAVE') return probeWav(buf);
+    if (head4 === 'fLaC') return probeFlac(buf);
+    if (head4 === 'OggS') return probeOgg(buf);
+    if (buf.readUInt32BE(0) === EBML.header) return probeWebm(buf);
+    if (buf.toString('latin1', 4, 8) === 'ftyp') return probeMp4(buf);
+
+    // MP3 has no container magic: either an ID3 tag or a bare frame sync.
+    const mp3 = probeMp3(buf);
+    if (mp3) return mp3;
+
+    throw new AudioProbeError(NOT_AUDIO);
+};
@@ -0,0 +1,68 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMediaTokens } from './mediaTokens';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A controllable clock so expiry can be checked without waiting.
+const setup = (secret = 'test-secret') => {
+    let time = Date.UTC(2026, 0, 1, 10, 15);
+    const tokens = createMediaTokens({ secret, ttlSeconds: 60 * 60, now: () => time });
+    return { ...tokens, advance: (ms: number) => (time += ms), now: () => time };
+};
+
+describe('media tokens', () => {
+    test('accept a fresh token for the same id and kind', () => {
+        const { createMediaToken, verifyMediaToken } = setup();
+        const { token } = createMediaToken(42);
+        assert.equal(verifyMediaToken(42, token), true);
+    });
+
+    test('round the expiry up to the next TTL window', () => {
+        const { createMediaToken, now } = setup();
+        const { expiresAt } = createMediaToken(42);
+        assert.equal(expiresAt % HOUR_MS, 0);
+        assert.ok(expiresAt - now() >= HOUR_MS && expiresAt - now() < 2 * HOUR_MS);
+    });
+
+    test('give the same token within one window, so links stay cacheable', () => {
+        const { createMediaToken, advance } = setup();
+        const first = createMediaToken(42).token;
+        advance(10 * 60 * 1000);
+        assert.equal(createMediaToken(42).token, first);
+    });
+
+    test('expire once the window has passed', () => {
+        const { createMediaToken, verifyMediaToken, advance, now } = setup();
+        const { token, expiresAt } = createMediaToken(42);
+        advance(expiresAt - now() - 1);
+        assert.equal(verifyMediaToken(42, token), true);
+        advance(1);
+        assert.equal(verifyMediaToken(42, token), false);
+    });
+
+    test('are bound to the id and the kind', () => {
+        const { createMediaToken, verifyMediaToken } = setup();
+        const { token } = createMediaToken(42);
+        assert.equal(verifyMediaToken(43, token), false);
+        assert.equal(verifyMediaToken(42, token, 'collection'), false);
+        assert.equal(verifyMediaToken(42, createMediaToken(42, 'collection').token, 'collection'), true);
+    });
+
+    test('are bound to the secret', () => {
+        const { token } = setup('one').createMediaToken(42);
+        assert.equal(setup('two').verifyMediaToken(42, token), false);
+    });
+
+    test('reject a pushed-out expiry and malformed values', () => {
+        const { createMediaToken, verifyMediaToken } = setup();
+        const { token, expiresAt } = createMediaToken(42);
+        const signature = token.split('.')[1];
+        assert.equal(verifyMediaToken(42, `${expiresAt + HOUR_MS}.${signature}`), false);
+        assert.equal(verifyMediaToken(42, `${expiresAt}.${signature.slice(1)}`), false);
+        assert.equal(verifyMediaToken(42, String(expiresAt)), false);
+        assert.equal(verifyMediaToken(42, 'not-a-token'), false);
+        assert.equal(verifyMediaToken(42, undefined), false);
+        assert.equal(verifyMediaToken(42, [token]), false);
+    });
+});
@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+
+// Signed, expiring tokens for media routes of private projects and collections: <audio> and <img> cannot send the
+// Authorization header, so the token rides along in the query string.
+
+// The kind keeps a project token from opening the collection with the same id.
+export type MediaTokenKind = 'project' | 'collection';
+
+export const createMediaTokens = (options: { secret: string; ttlSeconds: number; now?: () => number }) => {
+    const now = options.now ?? Date.now;
+    const ttlMs = options.ttlSeconds * 1000;
+
+    const sign = (id: number, expiresAt: number, kind: MediaTokenKind) =>
+        crypto.createHmac('sha256', options.secret).update(`${kind}-media:${id}:${expiresAt}`).digest('base64url');
+
+    return {
+        // Expiry is rounded up to the next TTL window so the link (and the browser cache behind it) stays the same
+        // across page loads; every token is still valid for at least one full TTL.
+        createMediaToken(id: number, kind: MediaTokenKind = 'project') {
+            const expiresAt = Math.ceil((now() + ttlMs) / ttlMs) * ttlMs;
+            return { token: `${expiresAt}.${sign(id, expiresAt, kind)}`, expiresAt };
+        },
+        verifyMediaToken(id: number, token: unknown, kind: MediaTokenKind = 'project') {
+            if (typeof token !== 'string') return false;
+            const [expiresRaw, signature] = token.split('.');
+            const expiresAt = Number(expiresRaw);
+            if (!signature || !Number.isSafeInteger(expiresAt) || expiresAt <= now()) return false;
+            const expected = Buffer.from(sign(id, expiresAt, kind));
+            const actual = Buffer.from(signature);
+            return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+        },
+    };
+};
@@ -0,0 +1,45 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeKeysetCursor, encodeKeysetCursor, parsePageLimit } from './pagination';
+
+describe('keyset cursors', () => {
+    test('round-trip the sort value and id', () => {
+        for (const value of ['2026-01-01T10:15:00.123Z', 'ёжик в тумане', '0.8125', '']) {
+            assert.deepEqual(decodeKeysetCursor(encodeKeysetCursor(value, 17)), [value, 17]);
+        }
+    });
+
+    test('are URL-safe', () => {
+        assert.match(encodeKeysetCursor('a/b+c?d=e&f', 1), /^[A-Za-z0-9_-]+$/);
+    });
+
+    test('reject values that were not produced by the encoder', () => {
+        const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+        assert.equal(decodeKeysetCursor('not a cursor'), null);
+        assert.equal(decodeKeysetCursor(''), null);
+        assert.equal(decodeKeysetCursor(encode({ value: 'x', id: 1 })), null);
+        assert.equal(decodeKeysetCursor(encode(['x'])), null);
+        assert.equal(decodeKeysetCursor(encode(['x', 1, 'extra'])), null);
+        assert.equal(decodeKeysetCursor(encode([1, 1])), null);
+        assert.equal(decodeKeysetCursor(encode(['x', '1'])), null);
+        assert.equal(decodeKeysetCursor(encode(['x', 1.5])), null);
+        assert.equal(decodeKeysetCursor(encode(['x', 2 ** 53])), null);
+    });
+});
+
+describe('parsePageLimit', () => {
+    test('uses the default page size without a value', () => {
+        assert.equal(parsePageLimit(null, 24, 100), 24);
+    });
+
+    test('caps large values', () => {
+        assert.equal(parsePageLimit('10', 24, 100), 10);
+        assert.equal(parsePageLimit('1000', 24, 100), 100);
+    });
+
+    test('rejects anything but a positive integer', () => {
+        for (const value of ['0', '-5', '2.5', 'ten', '1e400']) {
+            assert.equal(parsePageLimit(value, 24, 100), null, value);
+        }
+    });
+});
@@ -0,0 +1,25 @@
+// Keyset pagination helpers for list endpoints. A cursor is the sort value and id of the last row on the page,
+// so the next page starts right after it even while rows are being added.
+
+export const encodeKeysetCursor = (value: string, id: number) => Buffer.from(JSON.stringify([value, id])).toString('base64url');
+
+// Null for anything that was not produced by encodeKeysetCursor.
+export const decodeKeysetCursor = (cursor: string): [string, number] | null => {
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (Array.isArray(decoded) && decoded.length === 2 && typeof decoded[0] === 'string' && Number.isSafeInteger(decoded[1])) {
+            return [decoded[0], decoded[1]];
+        }
+    } catch {
+        // fall through
+    }
+    return null;
+};
+
+// A missing limit gives the default page size and a large one is capped; null means the value is not a positive
+// integer.
+export const parsePageLimit = (value: string | null, defaultSize: number, maxSize: number) => {
+    const limit = value ? Number(value) : defaultSize;
+    if (!Number.isInteger(limit) || limit < 1) return null;
+    return Math.min(limit, maxSize);
+};
@@ -1,20 +1,49 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
+import type { Readable } from 'stream';
 import crypto from 'crypto';
 import { promisify } from 'util';
 import axios from 'axios';
-import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client, type PutObjectCommandInput } from '@aws-sdk/client-s3';
+import { AudioProbeError, probeAudio, type AudioProbeResult } from './audioProbe';
+import { createMediaTokens } from './mediaTokens';
+import { decodeKeysetCursor, encodeKeysetCursor, parsePageLimit } from './pagination';
+import {
+    StorageRangeError,
+    createLocalStorageDriver,
+    createMemoryStorageDriver,
+    createS3StorageDriver,
+    type StorageDriver,
+    type StorageDriverName,
+    type StoragePutOptions,
+} from './storage';
+import {
+    AUDIO_RENDITIONS,
+    TranscodeError,
+    decodeToPcm16,
+    isFfmpegAvailable,
+    transcodeAudio,
+    type AudioRenditionKind,
+} from './transcode';
+import { WAVEFORM_SAMPLE_RATE, peaksFromPcm16, peaksFromWav } from './waveform';
 
 dotenv.config();
 
 const app = express();
 const port = Number(process.env.PORT) || 3000;
 
+// Behind a reverse proxy (Railway, nginx) set TRUST_PROXY so req.ip is the client, not the proxy.
+const TRUST_PROXY = process.env.TRUST_PROXY?.trim();
+if (TRUST_PROXY) {
+    // A hop count, `true`, or anything else Express accepts (e.g. `loopback`, a subnet list).
+    app.set('trust proxy', /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : TRUST_PROXY === 'true' ? true : TRUST_PROXY);
+}
+
 app.use(cors());
 app.use(express.json());
 
@@ -64,52 +93,15 @@ const ALLOW_MOCK_AI = ['1', 'true', 'yes'].includes((getTrimmedEnv('ALLOW_MOCK_A
 
 const R2_ENABLED = Boolean(R2_ENDPOINT && R2_ACCESS_KEY_ID && R2_SECRET_ACCESS_KEY && R2_BUCKET && R2_PUBLIC_BASE_URL);
 
-const r2Client = R2_ENABLED
-    ? new S3Client({
-          region: 'auto',
-          endpoint: R2_ENDPOINT!,
-          credentials: { accessKeyId: R2_ACCESS_KEY_ID!, secretAccessKey: R2_SECRET_ACCESS_KEY! },
-          forcePathStyle: true,
-      })
-    : null;
-
-const buildR2ObjectKey = (key: string) => {
-    const normalizedKey = key.replace(/^\/+/, '');
-    if (!R2_PREFIX) return normalizedKey;
-    return `${R2_PREFIX.replace(/\/+$/, '')}/${normalizedKey}`;
-};
-
-const buildR2PublicUrl = (objectKey: string) => joinUrl(R2_PUBLIC_BASE_URL!, objectKey);
-
-const putObjectToR2 = async (params: {
-    objectKey: string;
-    body: PutObjectCommandInput['Body'];
-    contentType?: string;
-    contentLength?: number;
-    cacheControl?: string;
-}) => {
-    if (!R2_ENABLED || !r2Client) throw new Error('R2 is not configured');
-    await r2Client.send(
-        new PutObjectCommand({
-            Bucket: R2_BUCKET!,
-            Key: params.objectKey,
-            Body: params.body,
-            ContentType: params.contentType,
-            ContentLength: params.contentLength,
-            CacheControl: params.cacheControl,
-        })
-    );
-};
+// Signs the short-lived media links of private projects. Without it a random secret is used, so links die on restart.
+const MEDIA_URL_SECRET = getTrimmedEnv('MEDIA_URL_SECRET');
+const MEDIA_URL_TTL_SECONDS = Math.max(60, Number(process.env.MEDIA_URL_TTL_SECONDS) || 60 * 60);
 
-const deleteObjectFromR2 = async (objectKey: string) => {
-    if (!R2_ENABLED || !r2Client) return;
-    await r2Client.send(
-        new DeleteObjectCommand({
-            Bucket: R2_BUCKET!,
-            Key: objectKey,
-        })
-    );
-};
+const STORAGE_DRIVER = (getTrimmedEnv('STORAGE_DRIVER') || (R2_ENABLED ? 's3' : 'local')).toLowerCase();
+// Unreferenced files younger than this are left alone: the upload that created them may still be in flight.
+const STORAGE_GC_GRACE_HOURS = Math.max(1, Number(process.env.STORAGE_GC_GRACE_HOURS) || 24);
+// 0 disables the scheduled cleanup; admins can still run it by hand.
+const STORAGE_GC_INTERVAL_HOURS = Math.max(0, Number(process.env.STORAGE_GC_INTERVAL_HOURS) || 0);
 
 const getErrorInfo = (err: unknown) => {
     if (err instanceof Error) {
@@ -155,6 +147,7 @@ const extractErrorMessage = (value: unknown) => {
 };
 
 const getPublicRuntimeConfig = () => ({
+    storageDriver: fileStorage.name,
     r2Enabled: R2_ENABLED,
     r2Endpoint: R2_ENDPOINT,
     r2Bucket: R2_BUCKET,
@@ -175,24 +168,249 @@ const pool = new Pool({
     port: parseInt(process.env.POSTGRES_PORT || '5455'),
 });
 
+const withTransaction = async <T>(run: (client: PoolClient) => Promise<T>) => {
+    const client = await pool.connect();
+    try {
+        await client.query('BEGIN');
+        const result = await run(client);
+        await client.query('COMMIT');
+        return result;
+    } catch (err) {
+        await client.query('ROLLBACK').catch((rollbackErr) => console.error('Rollback failed:', rollbackErr));
+        throw err;
+    } finally {
+        client.release();
+    }
+};
+
 const uploadsDir = path.join(__dirname, 'uploads');
 fs.mkdirSync(uploadsDir, { recursive: true });
 
-const coversDir = path.join(uploadsDir, 'covers');
-fs.mkdirSync(coversDir, { recursive: true });
+const localStorageDriver = createLocalStorageDriver({ rootDir: uploadsDir, urlPrefix: '/uploads' });
+
+const s3StorageDriver = R2_ENABLED
+    ? createS3StorageDriver({
+          endpoint: R2_ENDPOINT!,
+          bucket: R2_BUCKET!,
+          accessKeyId: R2_ACCESS_KEY_ID!,
+          secretAccessKey: R2_SECRET_ACCESS_KEY!,
+          publicBaseUrl: R2_PUBLIC_BASE_URL!,
+      })
+    : null;
+
+const resolveFileStorage = (): StorageDriver => {
+    if (STORAGE_DRIVER === 'memory') return createMemoryStorageDriver();
+    if (STORAGE_DRIVER === 's3') {
+        if (s3StorageDriver) return s3StorageDriver;
+        console.warn('STORAGE_DRIVER=s3 but R2_* is not fully configured, falling back to local uploads');
+    }
+    return localStorageDriver;
+};
+
+// Where new files are written.
+const fileStorage = resolveFileStorage();
+
+// Rows carry either an object key (the bucket-style driver) or a `/uploads/...` URL (local disk). Both kinds can
+// coexist, e.g. local projects created before R2 was configured.
+const objectStorage = fileStorage === localStorageDriver ? s3StorageDriver : fileStorage;
+
+type StoredFileRef = { url: string | null; objectKey: string | null };
 
-app.use('/uploads', express.static(uploadsDir));
+const locateStoredFile = (file: StoredFileRef) => {
+    if (file.objectKey) return objectStorage ? { driver: objectStorage, key: file.objectKey } : null;
+    if (file.url?.startsWith('/uploads/')) return { driver: localStorageDriver, key: file.url.slice('/uploads/'.length) };
+    return null;
+};
+
+const STORAGE_PREFIX = R2_PREFIX ? R2_PREFIX.replace(/^\/+|\/+$/g, '') : '';
+
+// R2_PREFIX namespaces keys inside a shared bucket; local disk has the uploads dir for that.
+const applyStoragePrefix = (key: string) => {
+    const normalizedKey = key.replace(/^\/+/, '');
+    return STORAGE_PREFIX ? `${STORAGE_PREFIX}/${normalizedKey}` : normalizedKey;
+};
+
+const stripStoragePrefix = (key: string) =>
+    STORAGE_PREFIX && key.startsWith(`${STORAGE_PREFIX}/`) ? key.slice(STORAGE_PREFIX.length + 1) : key;
+
+const buildStorageKey = (key: string) =>
+    fileStorage === localStorageDriver ? key.replace(/^\/+/, '') : applyStoragePrefix(key);
+
+// Returns the pair to keep in the row: url for clients, objectKey when the driver addresses files by key.
+const putStoredFile = async (key: string, body: Buffer | Readable, options: StoragePutOptions) => {
+    const storageKey = buildStorageKey(key);
+    await fileStorage.put(storageKey, body, options);
+    return {
+        url: fileStorage.publicUrl(storageKey),
+        objectKey: fileStorage === localStorageDriver ? null : storageKey,
+    };
+};
+
+const deleteStoredFile = async (file: StoredFileRef) => {
+    const location = locateStoredFile(file);
+    if (!location) return;
+    try {
+        await location.driver.delete(location.key);
+    } catch (err) {
+        console.error(`Failed to delete stored file ${location.key}:`, err);
+    }
+};
+
+// Reads a whole file into memory; null when it does not exist.
+const readStoredFile = async (file: StoredFileRef & { url: string }) => {
+    const location = locateStoredFile(file);
+    if (location) {
+        const object = await location.driver.get(location.key);
+        if (!object) return null;
+        return {
+            buffer: await streamToBuffer(object.body),
+            contentType: object.contentType,
+            filename: path.basename(location.key),
+        };
+    }
+
+    if (isHttpUrl(file.url)) {
+        const response = await axios.get<ArrayBuffer>(file.url, { responseType: 'arraybuffer' });
+        let filename = '';
+        try {
+            filename = path.basename(new URL(file.url).pathname);
+        } catch {
+            // ignore
+        }
+        return {
+            buffer: Buffer.from(response.data),
+            contentType: String(response.headers['content-type'] || '') || null,
+            filename,
+        };
+    }
 
+    return null;
+};
+
+// Every column pair that points at a stored file. Storage maintenance (migration, GC) walks this list, so a new
+// table with files only needs an entry here.
+const STORED_FILE_COLUMNS = [
+    { table: 'projects', url: 'audio_url', objectKey: 'audio_object_key' },
+    { table: 'projects', url: 'analysis_audio_url', objectKey: 'analysis_audio_object_key' },
+    { table: 'projects', url: 'playback_audio_url', objectKey: 'playback_audio_object_key' },
+    { table: 'projects', url: 'waveform_url', objectKey: 'waveform_object_key' },
+    { table: 'projects', url: 'cover_url', objectKey: 'cover_object_key' },
+    { table: 'project_covers', url: 'url', objectKey: 'object_key' },
+    { table: 'users', url: 'avatar_url', objectKey: 'avatar_object_key' },
+    { table: 'collections', url: 'cover_url', objectKey: 'cover_object_key' },
+] as const;
+
+type StoredFileColumn = (typeof STORED_FILE_COLUMNS)[number];
+
+const listStoredFileRows = async (column: StoredFileColumn) => {
+    const result = await pool.query<{ id: number; url: string; object_key: string | null }>(
+        `SELECT id, ${column.url} AS url, ${column.objectKey} AS object_key FROM ${column.table} WHERE ${column.url} IS NOT NULL ORDER BY id`
+    );
+    return result.rows;
+};
+
+const incomingUploadsDir = path.join(os.tmpdir(), 'audio-uploads');
+fs.mkdirSync(incomingUploadsDir, { recursive: true });
+
+// Multer only stages the upload; the route moves it into fileStorage once it has been validated.
 const storage = multer.diskStorage({
     destination: (_req, _file, cb) => {
-        cb(null, uploadsDir);
+        cb(null, incomingUploadsDir);
     },
     filename: (_req, file, cb) => {
         cb(null, `${Date.now()}-${path.basename(file.originalname)}`);
     },
 });
 
-const upload = multer({ storage });
+const MAX_UPLOAD_MB = Math.max(1, Number(process.env.MAX_UPLOAD_MB) || 50);
+
+const ALLOWED_AUDIO_EXTENSIONS = ['.mp3', '.wav', '.flac', '.m4a', '.ogg', '.oga', '.opus', '.webm'];
+const ALLOWED_AUDIO_MIME_TYPES = [
+    'audio/mpeg',
+    'audio/mp3',
+    'audio/wav',
+    'audio/x-wav',
+    'audio/wave',
+    'audio/vnd.wave',
+    'audio/flac',
+    'audio/x-flac',
+    'audio/mp4',
+    'audio/m4a',
+    'audio/x-m4a',
+    'audio/aac',
+    'audio/ogg',
+    'application/ogg',
+    'audio/opus',
+    'audio/webm',
+    // Chrome labels audio-only MediaRecorder/webm files as video/webm.
+    'video/webm',
+];
+
+// Rejections from the upload filter; the message is returned to the client with a 400.
+class UploadValidationError extends Error {}
+
+const upload = multer({
+    storage,
+    limits: { fileSize: MAX_UPLOAD_MB * 1024 * 1024, files: 1 },
+    fileFilter: (_req, file, cb) => {
+        const ext = path.extname(file.originalname).toLowerCase();
+        const mimeType = file.mimetype.split(';')[0]?.trim().toLowerCase() || '';
+        const mimeOk = ALLOWED_AUDIO_MIME_TYPES.includes(mimeType) || mimeType === 'application/octet-stream';
+        if (!ALLOWED_AUDIO_EXTENSIONS.includes(ext) || !mimeOk) {
+            cb(new UploadValidationError(`Поддерживаются только аудиофайлы: ${ALLOWED_AUDIO_EXTENSIONS.join(', ')}`));
+            return;
+        }
+        cb(null, true);
+    },
+});
+
+const uploadAudioFile: express.RequestHandler = (req, res, next) => {
+    upload.single('audio')(req, res, (err: unknown) => {
+        if (!err) {
+            next();
+            return;
+        }
+        if (err instanceof multer.MulterError) {
+            if (err.code === 'LIMIT_FILE_SIZE') {
+                res.status(413).json({ error: `Файл слишком большой (максимум ${MAX_UPLOAD_MB} МБ)` });
+                return;
+            }
+            res.status(400).json({ error: 'Некорректная загрузка файла' });
+            return;
+        }
+        if (err instanceof UploadValidationError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        next(err);
+    });
+};
+
+const MAX_AVATAR_MB = 2;
+
+// Avatars are small, so they stay in memory; the route checks the actual bytes before storing them.
+const avatarUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_AVATAR_MB * 1024 * 1024, files: 1 },
+});
+
+const uploadAvatarFile: express.RequestHandler = (req, res, next) => {
+    avatarUpload.single('avatar')(req, res, (err: unknown) => {
+        if (!err) {
+            next();
+            return;
+        }
+        if (err instanceof multer.MulterError) {
+            if (err.code === 'LIMIT_FILE_SIZE') {
+                res.status(413).json({ error: `Аватар слишком большой (максимум ${MAX_AVATAR_MB} МБ)` });
+                return;
+            }
+            res.status(400).json({ error: 'Некорректная загрузка файла' });
+            return;
+        }
+        next(err);
+    });
+};
 
 type UserRole = 'user' | 'admin';
 
@@ -202,6 +420,21 @@ type AuthUser = {
     role: UserRole;
 };
 
+type AudioAnalysis = {
+    lyrics: string | null;
+    vibe: string;
+    emotions: { name: string; weight: number }[];
+    genre: string;
+    tempo: { bpm: number | null; description: string };
+    instruments: string[];
+    visual_associations: string[];
+    target_audience: string;
+    commercial_potential: { score: number | null; summary: string };
+};
+
+const PROJECT_VISIBILITIES = ['public', 'unlisted', 'private'] as const;
+type ProjectVisibility = (typeof PROJECT_VISIBILITIES)[number];
+
 type ProjectRow = {
     id: number;
     name: string;
@@ -209,11 +442,89 @@ type ProjectRow = {
     audio_object_key?: string | null;
     transcription: string | null;
     emotional_analysis: string | null;
+    analysis: AudioAnalysis | null;
+    duration_seconds: number | null;
+    sample_rate: number | null;
+    channels: number | null;
+    bitrate: number | null;
+    audio_format: string | null;
+    audio_codec: string | null;
+    audio_mime_type: string | null;
+    audio_size_bytes: number | null;
+    analysis_audio_url: string | null;
+    analysis_audio_object_key: string | null;
+    playback_audio_url: string | null;
+    playback_audio_object_key: string | null;
+    waveform_url: string | null;
+    waveform_object_key: string | null;
     cover_url: string | null;
     cover_object_key?: string | null;
+    cover_id?: number | null;
+    visibility: ProjectVisibility;
+    like_count: number;
+    play_count: number;
+    trending_score: number;
     created_at: string;
     user_id: number | null;
     owner_username?: string | null;
+    // Whether the viewer liked it; only set by queries that know the viewer.
+    liked?: boolean;
+};
+
+type ProjectCoverRow = {
+    id: number;
+    project_id: number;
+    url: string;
+    object_key: string | null;
+    prompt: string | null;
+    model: string | null;
+    seed: string | null;
+    size_bytes: number | null;
+    status: 'candidate' | 'kept';
+    job_id: number | null;
+    preset: string | null;
+    created_by: number | null;
+    created_at: string;
+};
+
+type CoverStylePresetRow = {
+    id: number;
+    slug: string;
+    name: string;
+    prompt: string;
+    builtin: boolean;
+    created_by: number | null;
+    created_at: string;
+    updated_at: string;
+};
+
+type JobType =
+    | 'transcribe'
+    | 'generate_cover'
+    | 'generate_collection_cover'
+    | 'ingest_audio'
+    | 'migrate_storage'
+    | 'collect_orphans';
+
+type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+type JobRow = {
+    id: number;
+    type: JobType;
+    status: JobStatus;
+    project_id: number | null;
+    collection_id: number | null;
+    user_id: number | null;
+    payload: Record<string, unknown>;
+    progress: number;
+    error: string | null;
+    error_details: Record<string, unknown> | null;
+    result: Record<string, unknown> | null;
+    attempts: number;
+    created_at: string;
+    started_at: string | null;
+    finished_at: string | null;
+    updated_at: string;
 };
 
 declare global {
@@ -222,11 +533,16 @@ declare global {
         interface Request {
             user?: AuthUser;
             sessionToken?: string;
+            sessionId?: number;
         }
     }
 }
 
 const SESSION_TTL_DAYS = Number(process.env.SESSION_TTL_DAYS) || 30;
+const PASSWORD_RESET_TTL_HOURS = Math.max(1, Number(process.env.PASSWORD_RESET_TTL_HOURS) || 24);
+const SESSION_CLEANUP_INTERVAL_MINUTES = Math.max(1, Number(process.env.SESSION_CLEANUP_INTERVAL_MINUTES) || 60);
+// last_used_at is only bumped this often, so an active tab doesn't write to the DB on every request.
+const SESSION_TOUCH_INTERVAL_SECONDS = 60;
 
 const scryptAsync = promisify(crypto.scrypt);
 
@@ -251,6 +567,21 @@ const verifyPassword = async (password: string, storedHash: string) => {
 const generateSessionToken = () => crypto.randomBytes(32).toString('base64url');
 const hashSessionToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
 
+const getClientIp = (req: express.Request) => (req.ip || req.socket.remoteAddress || '').slice(0, 64) || null;
+
+const createSession = async (userId: number, req: express.Request) => {
+    const token = generateSessionToken();
+    const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+    await pool.query(
+        `
+        INSERT INTO sessions (token_hash, user_id, expires_at, user_agent, ip, last_used_at)
+        VALUES ($1, $2, $3, $4, $5, NOW())
+        `,
+        [hashSessionToken(token), userId, expiresAt, req.header('user-agent')?.slice(0, 512) || null, getClientIp(req)]
+    );
+    return token;
+};
+
 const getAuthTokenFromRequest = (req: express.Request) => {
     const header = req.header('authorization');
     if (!header) return null;
@@ -268,20 +599,27 @@ const authMiddleware: express.RequestHandler = async (req, _res, next) => {
         }
 
         const tokenHash = hashSessionToken(token);
-        const result = await pool.query(
+        const result = await pool.query<AuthUser & { session_id: number; needs_touch: boolean }>(
             `
-            SELECT u.id, u.username, u.role
+            SELECT u.id, u.username, u.role, s.id AS session_id,
+                (s.last_used_at IS NULL OR s.last_used_at < NOW() - make_interval(secs => $2)) AS needs_touch
             FROM sessions s
             JOIN users u ON u.id = s.user_id
-            WHERE s.token_hash = $1 AND s.expires_at > NOW()
+            WHERE s.token_hash = $1 AND s.expires_at > NOW() AND u.disabled_at IS NULL
             `,
-            [tokenHash]
+            [tokenHash, SESSION_TOUCH_INTERVAL_SECONDS]
         );
 
         if (result.rows.length > 0) {
-            const row = result.rows[0] as AuthUser;
+            const row = result.rows[0];
             req.user = { id: row.id, username: row.username, role: row.role };
             req.sessionToken = token;
+            req.sessionId = row.session_id;
+            if (row.needs_touch) {
+                pool.query('UPDATE sessions SET last_used_at = NOW(), ip = $1 WHERE id = $2', [getClientIp(req), row.session_id]).catch(
+                    (touchErr) => console.error('Failed to update session last_used_at:', touchErr)
+                );
+            }
         }
 
         next();
@@ -300,6 +638,18 @@ const requireAuth: express.RequestHandler = (req, res, next) => {
     next();
 };
 
+const requireAdmin: express.RequestHandler = (req, res, next) => {
+    if (!req.user) {
+        res.status(401).json({ error: 'Требуется авторизация' });
+        return;
+    }
+    if (req.user.role !== 'admin') {
+        res.status(403).json({ error: 'Доступ запрещён' });
+        return;
+    }
+    next();
+};
+
 const normalizeUsername = (username: unknown) => {
     if (typeof username !== 'string') return null;
     const normalized = username.trim().toLowerCase();
@@ -307,23 +657,266 @@ const normalizeUsername = (username: unknown) => {
     return normalized;
 };
 
+// Row ids from the URL or a JSON body; anything but a positive integer is rejected before it reaches SQL.
+const parseRowId = (value: unknown) => {
+    const id = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+    return typeof id === 'number' && Number.isSafeInteger(id) && id > 0 ? id : null;
+};
+
 const validatePassword = (password: unknown) => {
     if (typeof password !== 'string') return null;
     if (password.length < 6 || password.length > 200) return null;
     return password;
 };
 
-const resolveUploadsPath = (uploadsUrl: string) => {
-    if (!uploadsUrl.startsWith('/uploads/')) {
-        throw new Error('Invalid uploads URL');
+// Rate limiting
+// Counters live in the rate_limits table, so limits hold across restarts and several backend instances.
+const readLimitEnv = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// Login, register and password reset/change all run scrypt; this caps how often one IP may hit them. 0 disables.
+const AUTH_RATE_LIMIT = readLimitEnv('AUTH_RATE_LIMIT', 30);
+const AUTH_RATE_LIMIT_WINDOW_MINUTES = Math.max(1, readLimitEnv('AUTH_RATE_LIMIT_WINDOW_MINUTES', 15));
+// Failed logins before a username (or IP) is locked; every further failure doubles the lock.
+const LOGIN_MAX_FAILURES = Math.max(1, readLimitEnv('LOGIN_MAX_FAILURES', 5));
+const LOGIN_MAX_FAILURES_PER_IP = Math.max(1, readLimitEnv('LOGIN_MAX_FAILURES_PER_IP', 20));
+const LOGIN_LOCKOUT_SECONDS = Math.max(1, readLimitEnv('LOGIN_LOCKOUT_SECONDS', 30));
+const LOGIN_LOCKOUT_MAX_SECONDS = Math.max(LOGIN_LOCKOUT_SECONDS, readLimitEnv('LOGIN_LOCKOUT_MAX_SECONDS', 60 * 60));
+// Failures are forgotten after this long without new ones.
+const LOGIN_FAILURE_MEMORY_SECONDS = 24 * 60 * 60;
+// AI jobs per user per window (cover quota counts images, so count=4 uses four). 0 disables; admins are exempt.
+const AI_QUOTA_ANALYSIS = readLimitEnv('AI_QUOTA_ANALYSIS', 30);
+const AI_QUOTA_COVERS = readLimitEnv('AI_QUOTA_COVERS', 40);
+const AI_QUOTA_WINDOW_HOURS = Math.max(1, readLimitEnv('AI_QUOTA_WINDOW_HOURS', 24));
+
+type RateLimitDecision = { ok: true } | { ok: false; retryAfterSeconds: number };
+
+// Fixed window: the first hit starts the window, hits that would go over the limit are refused and not counted.
+const consumeRateLimit = async (key: string, options: { limit: number; windowSeconds: number; cost?: number }) => {
+    const cost = options.cost ?? 1;
+    if (options.limit <= 0) return { ok: true } as RateLimitDecision;
+    if (cost <= options.limit) {
+        const result = await pool.query(
+            `
+            INSERT INTO rate_limits (key, hits, expires_at)
+            VALUES ($1, $2, NOW() + make_interval(secs => $3))
+            ON CONFLICT (key) DO UPDATE SET
+                hits = CASE WHEN rate_limits.expires_at <= NOW() THEN EXCLUDED.hits ELSE rate_limits.hits + EXCLUDED.hits END,
+                expires_at = CASE WHEN rate_limits.expires_at <= NOW() THEN EXCLUDED.expires_at ELSE rate_limits.expires_at END
+            WHERE rate_limits.expires_at <= NOW() OR rate_limits.hits + EXCLUDED.hits <= $4
+            RETURNING hits
+            `,
+            [key, cost, options.windowSeconds, options.limit]
+        );
+        if (result.rows.length > 0) return { ok: true } as RateLimitDecision;
+    }
+
+    const existing = await pool.query<{ retry_after: number }>(
+        'SELECT CEIL(EXTRACT(EPOCH FROM (expires_at - NOW())))::int AS retry_after FROM rate_limits WHERE key = $1',
+        [key]
+    );
+    const retryAfterSeconds = Math.max(1, existing.rows[0]?.retry_after ?? options.windowSeconds);
+    return { ok: false, retryAfterSeconds } as RateLimitDecision;
+};
+
+// Seconds until the longest of the given locks ends; 0 when none is active.
+const getLockoutSeconds = async (keys: string[]) => {
+    const result = await pool.query<{ retry_after: number | null }>(
+        `
+        SELECT CEIL(MAX(EXTRACT(EPOCH FROM (locked_until - NOW()))))::int AS retry_after
+        FROM rate_limits
+        WHERE key = ANY($1::text[]) AND locked_until > NOW()
+        `,
+        [keys]
+    );
+    return Math.max(0, result.rows[0]?.retry_after ?? 0);
+};
+
+// Counts a failure and, past `maxFailures`, locks the key for LOGIN_LOCKOUT_SECONDS * 2^(extra failures).
+const recordFailure = async (key: string, maxFailures: number) => {
+    const result = await pool.query<{ hits: number }>(
+        `
+        INSERT INTO rate_limits (key, hits, expires_at)
+        VALUES ($1, 1, NOW() + make_interval(secs => $2))
+        ON CONFLICT (key) DO UPDATE SET
+            hits = CASE WHEN rate_limits.expires_at <= NOW() THEN 1 ELSE rate_limits.hits + 1 END,
+            expires_at = GREATEST(EXCLUDED.expires_at, rate_limits.locked_until)
+        RETURNING hits
+        `,
+        [key, LOGIN_FAILURE_MEMORY_SECONDS]
+    );
+    const failures = result.rows[0]?.hits ?? 1;
+    if (failures < maxFailures) return;
+
+    const lockSeconds = Math.min(LOGIN_LOCKOUT_MAX_SECONDS, LOGIN_LOCKOUT_SECONDS * 2 ** Math.min(failures - maxFailures, 30));
+    await pool.query(
+        `
+        UPDATE rate_limits
+        SET locked_until = NOW() + make_interval(secs => $2),
+            expires_at = GREATEST(expires_at, NOW() + make_interval(secs => $2))
+        WHERE key = $1
+        `,
+        [key, lockSeconds]
+    );
+};
+
+const formatRetryAfter = (seconds: number) => {
+    if (seconds < 60) return `${seconds} сек.`;
+    if (seconds < 60 * 60) return `${Math.ceil(seconds / 60)} мин.`;
+    return `${Math.ceil(seconds / 3600)} ч.`;
+};
+
+const sendTooManyRequests = (res: express.Response, retryAfterSeconds: number, error: string) => {
+    res.set('Retry-After', String(retryAfterSeconds));
+    res.status(429).json({ error: `${error} Повторите через ${formatRetryAfter(retryAfterSeconds)}`, retryAfter: retryAfterSeconds });
+};
+
+const getLoginLimitKeys = (username: string, req: express.Request) => ({
+    user: `login:user:${username}`,
+    ip: `login:ip:${getClientIp(req) || 'unknown'}`,
+});
+
+const limitAuthRequests: express.RequestHandler = async (req, res, next) => {
+    try {
+        const decision = await consumeRateLimit(`auth:ip:${getClientIp(req) || 'unknown'}`, {
+            limit: AUTH_RATE_LIMIT,
+            windowSeconds: AUTH_RATE_LIMIT_WINDOW_MINUTES * 60,
+        });
+        if (!decision.ok) {
+            sendTooManyRequests(res, decision.retryAfterSeconds, 'Слишком много запросов.');
+            return;
+        }
+        next();
+    } catch (err) {
+        next(err);
+    }
+};
+
+type AiQuotaKind = 'analysis' | 'covers';
+
+const AI_QUOTAS: Record<AiQuotaKind, number> = { analysis: AI_QUOTA_ANALYSIS, covers: AI_QUOTA_COVERS };
+
+const consumeAiQuota = async (user: AuthUser, kind: AiQuotaKind, cost = 1) => {
+    if (user.role === 'admin') return { ok: true } as RateLimitDecision;
+    return consumeRateLimit(`ai:${kind}:user:${user.id}`, {
+        limit: AI_QUOTAS[kind],
+        windowSeconds: AI_QUOTA_WINDOW_HOURS * 60 * 60,
+        cost,
+    });
+};
+
+// Audit log
+type AuditTarget = { type: 'user' | 'project' | 'collection' | 'batch' | 'cover_preset' | 'storage'; id?: string | number | null };
+
+// Who did what to which object. The username is copied so events stay readable after the account is deleted.
+// `actor` defaults to the session user; auth routes pass the account they just identified.
+const recordAuditEvent = async (
+    req: express.Request,
+    action: string,
+    target: AuditTarget,
+    details: Record<string, unknown> | null = null,
+    actor: Pick<AuthUser, 'id' | 'username'> | null = req.user ?? null
+) => {
+    await pool.query(
+        `
+        INSERT INTO audit_events (actor_id, actor_username, action, target_type, target_id, ip, details)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        `,
+        [
+            actor?.id ?? null,
+            actor?.username ?? null,
+            action,
+            target.type,
+            target.id == null ? null : String(target.id),
+            getClientIp(req),
+            details ? JSON.stringify(details) : null,
+        ]
+    );
+};
+
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+const MAX_AUDIT_PAGE_SIZE = 200;
+
+type AuditEventRow = {
+    id: number;
+    actor_id: number | null;
+    actor_username: string | null;
+    action: string;
+    target_type: string;
+    target_id: string | null;
+    ip: string | null;
+    details: Record<string, unknown> | null;
+    created_at: string;
+};
+
+type AuditEventFilters = {
+    targetType?: string;
+    targetId?: string;
+    actor?: string | null;
+    // Exact action, or every action of a group when it ends with a dot (`project.`).
+    action?: string | null;
+    cursor?: string | null;
+    limit?: string | null;
+};
+
+// Bad query parameters; the message is returned to the client with a 400.
+class AuditQueryError extends Error {}
+
+// Newest first, paged by id. IPs are only shown to admins: a project owner sees who acted, not where from.
+const listAuditEvents = async (filters: AuditEventFilters, options: { includeIp: boolean }) => {
+    const limit = filters.limit ? Number(filters.limit) : DEFAULT_AUDIT_PAGE_SIZE;
+    const cursor = filters.cursor ? Number(filters.cursor) : null;
+    if (!Number.isInteger(limit) || limit < 1) throw new AuditQueryError('limit должен быть положительным числом');
+    if (cursor !== null && !Number.isInteger(cursor)) throw new AuditQueryError('Некорректный cursor');
+
+    const params: unknown[] = [];
+    const param = (value: unknown) => {
+        params.push(value);
+        return `$${params.length}`;
+    };
+    const conditions = ['TRUE'];
+    if (filters.targetType) conditions.push(`target_type = ${param(filters.targetType)}`);
+    if (filters.targetId) conditions.push(`target_id = ${param(filters.targetId)}`);
+    if (filters.actor) conditions.push(`actor_username = ${param(filters.actor.trim().toLowerCase())}`);
+    if (filters.action) {
+        conditions.push(
+            filters.action.endsWith('.')
+                ? `starts_with(action, ${param(filters.action)})`
+                : `action = ${param(filters.action)}`
+        );
     }
-    const relativePath = uploadsUrl.slice('/uploads/'.length);
-    const fullPath = path.resolve(uploadsDir, relativePath);
-    const uploadsRoot = path.resolve(uploadsDir) + path.sep;
-    if (!fullPath.startsWith(uploadsRoot)) {
-        throw new Error('Invalid uploads path');
+    if (cursor !== null) conditions.push(`id < ${param(cursor)}`);
+
+    const pageSize = Math.min(limit, MAX_AUDIT_PAGE_SIZE);
+    const result = await pool.query<AuditEventRow>(
+        `SELECT * FROM audit_events WHERE ${conditions.join(' AND ')} ORDER BY id DESC LIMIT ${param(pageSize + 1)}`,
+        params
+    );
+    const rows = result.rows.slice(0, pageSize);
+    return {
+        items: rows.map((row) => ({
+            id: row.id,
+            action: row.action,
+            actor: row.actor_username ? { id: row.actor_id, username: row.actor_username } : null,
+            target_type: row.target_type,
+            target_id: row.target_id,
+            ip: options.includeIp ? row.ip : undefined,
+            details: row.details,
+            created_at: row.created_at,
+        })),
+        nextCursor: result.rows.length > pageSize ? String(rows[rows.length - 1].id) : null,
+    };
+};
+
+// `{ field: { from, to } }` for the fields that actually changed; null when nothing did.
+const diffFields = <T extends Record<string, unknown>>(before: T, after: { [K in keyof T]?: T[K] | null }) => {
+    const diff: Record<string, { from: unknown; to: unknown }> = {};
+    for (const [field, value] of Object.entries(after)) {
+        if (value !== undefined && value !== null && value !== before[field]) diff[field] = { from: before[field], to: value };
     }
-    return fullPath;
+    return Object.keys(diff).length > 0 ? diff : null;
 };
 
 const requireProjectWriteAccess = async (projectId: string, user: AuthUser) => {
@@ -336,99 +929,822 @@ const requireProjectWriteAccess = async (projectId: string, user: AuthUser) => {
     return { ok: true as const, project };
 };
 
-const getProjectWithOwner = async (projectId: number | string) => {
+const getProjectWithOwner = async (projectId: number | string, viewer?: AuthUser) => {
     const result = await pool.query<ProjectRow>(
         `
-        SELECT p.*, u.username AS owner_username
+        SELECT p.*, u.username AS owner_username, ${projectLikedSql('$2')} AS liked
         FROM projects p
         LEFT JOIN users u ON u.id = p.user_id
         WHERE p.id = $1
         `,
-        [projectId]
+        [projectId, viewer?.id ?? null]
     );
     if (result.rows.length === 0) return null;
     return result.rows[0] as ProjectRow;
 };
 
-const getSafeFileExtension = (filename: string) => {
-    const ext = path.extname(filename).toLowerCase();
-    if (!ext) return '';
-    if (!/^\.[a-z0-9]{1,10}$/.test(ext)) return '';
-    return ext;
+const parseProjectVisibility = (value: unknown): ProjectVisibility | null =>
+    typeof value === 'string' && (PROJECT_VISIBILITIES as readonly string[]).includes(value) ? (value as ProjectVisibility) : null;
+
+// Unlisted projects are readable by anyone with the link, they are just left out of the gallery.
+const canViewProject = (project: Pick<ProjectRow, 'visibility' | 'user_id'>, user: AuthUser | undefined) =>
+    project.visibility !== 'private' || Boolean(user && (user.role === 'admin' || user.id === project.user_id));
+
+const mediaUrlSecret = MEDIA_URL_SECRET || crypto.randomBytes(32).toString('hex');
+if (!MEDIA_URL_SECRET) console.warn('MEDIA_URL_SECRET is not set: signed media links of private projects expire on restart');
+
+const { createMediaToken, verifyMediaToken } = createMediaTokens({
+    secret: mediaUrlSecret,
+    ttlSeconds: MEDIA_URL_TTL_SECONDS,
+});
+
+// Media routes accept either a session that may view the project or a signed token from the project payload
+// (<audio> and <img> cannot send the Authorization header).
+const canAccessProjectMedia = (req: express.Request, project: Pick<ProjectRow, 'id' | 'visibility' | 'user_id'>) =>
+    canViewProject(project, req.user) || verifyMediaToken(project.id, req.query.token);
+
+// Cache headers for media responses: private files must not end up in shared caches.
+const projectMediaCacheControl = (project: Pick<ProjectRow, 'visibility'>) =>
+    project.visibility === 'private' ? `private, max-age=${MEDIA_URL_TTL_SECONDS}` : undefined;
+
+// Private projects never expose storage URLs or keys (with R2 those are permanent public links): file fields are
+// replaced with signed API routes and the token is returned for the client to build its own media URLs.
+const serializeProject = <T extends ProjectRow>(project: T) => {
+    if (project.visibility !== 'private') return project;
+
+    const { token, expiresAt } = createMediaToken(project.id);
+    const mediaUrl = (route: string) => `/api/projects/${project.id}/${route}?token=${encodeURIComponent(token)}`;
+    return {
+        ...project,
+        audio_url: mediaUrl('audio'),
+        audio_object_key: null,
+        analysis_audio_url: null,
+        analysis_audio_object_key: null,
+        playback_audio_url: project.playback_audio_url ? mediaUrl('audio') : null,
+        playback_audio_object_key: null,
+        waveform_url: project.waveform_url ? mediaUrl('waveform') : null,
+        waveform_object_key: null,
+        cover_url: project.cover_url ? mediaUrl('cover') : null,
+        cover_object_key: null,
+        media_token: token,
+        media_token_expires_at: new Date(expiresAt).toISOString(),
+    };
 };
 
-const mimeTypeToImageExtension = (mimeType: string) => {
-    const normalized = mimeType.split(';')[0]?.trim().toLowerCase();
-    if (normalized === 'image/png') return 'png';
-    if (normalized === 'image/jpeg') return 'jpg';
-    if (normalized === 'image/webp') return 'webp';
-    if (normalized === 'image/gif') return 'gif';
-    return 'png';
+// Copies a file to a fresh random key in the same folder; null when it is not in storage (legacy external URLs).
+const copyStoredFileToNewKey = async (file: StoredFileRef) => {
+    const location = locateStoredFile(file);
+    if (!location) return null;
+    const object = await location.driver.get(location.key);
+    if (!object) return null;
+
+    const key = location.driver === localStorageDriver ? location.key : stripStoragePrefix(location.key);
+    const filename = `${Date.now()}-${crypto.randomBytes(8).toString('hex')}${path.extname(key)}`;
+    const buffer = await streamToBuffer(object.body);
+    return putStoredFile(path.posix.join(path.posix.dirname(key), filename), buffer, {
+        contentType: object.contentType || undefined,
+        contentLength: buffer.length,
+        cacheControl: object.cacheControl || 'public, max-age=31536000, immutable',
+    });
 };
 
-const downloadCoverToStorage = async (sourceUrl: string, projectId: string) => {
-    try {
-        let coverBuffer: Buffer;
-        let mimeType: string;
+// Copies keyed by the old URL: the active project cover is both a project_covers row and projects.cover_url.
+type StoredFileCopies = Map<string, { old: StoredFileRef; copy: StoredFileRef }>;
 
-        if (sourceUrl.startsWith('data:image/')) {
-            const match = sourceUrl.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,(.+)$/);
-            if (!match) return null;
-            const [, dataMimeType, b64] = match;
-            coverBuffer = Buffer.from(b64, 'base64');
-            mimeType = dataMimeType;
-        } else {
-            const response = await axios.get<ArrayBuffer>(sourceUrl, { responseType: 'arraybuffer' });
-            coverBuffer = Buffer.from(response.data);
-            mimeType = String(response.headers['content-type'] || 'image/png');
-        }
+// `copy` undoes a copy whose rows were never switched; `old` finishes one once the rows point at the copies.
+const deleteFileCopies = async (copies: StoredFileCopies, which: 'old' | 'copy') => {
+    for (const entry of copies.values()) await deleteStoredFile(entry[which]);
+};
 
-        const normalizedMimeType = mimeType.split(';')[0]?.trim() || 'image/png';
-        const extension = mimeTypeToImageExtension(normalizedMimeType);
-        const filename = `${Date.now()}-project-${projectId}-${crypto.randomBytes(8).toString('hex')}.${extension}`;
-
-        if (R2_ENABLED) {
-            const objectKey = buildR2ObjectKey(`covers/project-${projectId}/${filename}`);
-            await putObjectToR2({
-                objectKey,
-                body: coverBuffer,
-                contentType: normalizedMimeType,
-                contentLength: coverBuffer.length,
-                cacheControl: 'public, max-age=31536000, immutable',
-            });
-            return { url: buildR2PublicUrl(objectKey), objectKey };
+// Storage URLs are permanent (with R2 they are public bucket links), so hiding a project or collection is not
+// enough: whatever was handed out while it was public keeps working. Its files are copied to new keys first, the
+// rows switch to the copies in the same transaction as `update`, and the old objects are deleted after the commit.
+// Any failure removes the copies and leaves the rows and the old files as they were.
+const replaceFilesWithCopies = async (
+    files: StoredFileRef[],
+    update: (client: PoolClient, copies: StoredFileCopies) => Promise<void>
+) => {
+    const copies: StoredFileCopies = new Map();
+    try {
+        for (const file of files) {
+            if (!file.url || copies.has(file.url)) continue;
+            const copy = await copyStoredFileToNewKey(file);
+            if (copy) copies.set(file.url, { old: file, copy });
         }
-
-        const filePath = path.join(coversDir, filename);
-        fs.writeFileSync(filePath, coverBuffer);
-        return { url: `/uploads/covers/${filename}`, objectKey: null };
+        await withTransaction((client) => update(client, copies));
     } catch (err) {
-        console.error('Failed to store cover:', err);
-        return null;
+        await deleteFileCopies(copies, 'copy');
+        throw err;
     }
+    await deleteFileCopies(copies, 'old');
 };
 
-const streamToBuffer = (stream: NodeJS.ReadableStream) =>
-    new Promise<Buffer>((resolve, reject) => {
-        const chunks: Buffer[] = [];
-        stream.on('data', (chunk: unknown) => {
-            if (Buffer.isBuffer(chunk)) chunks.push(chunk);
-            else if (chunk instanceof Uint8Array) chunks.push(Buffer.from(chunk));
-            else chunks.push(Buffer.from(String(chunk)));
-        });
-        stream.on('end', () => resolve(Buffer.concat(chunks)));
-        stream.on('error', (err) => reject(err));
-    });
+const PROJECT_FILE_COLUMNS = STORED_FILE_COLUMNS.filter((column) => column.table === 'projects');
 
-const initDb = async () => {
-    try {
-        await pool.query(`
-            CREATE TABLE IF NOT EXISTS users (
-                id SERIAL PRIMARY KEY,
-                username VARCHAR(64) UNIQUE NOT NULL,
-                password_hash TEXT NOT NULL,
-                role VARCHAR(16) NOT NULL DEFAULT 'user',
-                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+const listProjectFiles = async (project: ProjectRow): Promise<StoredFileRef[]> => {
+    const covers = await pool.query<Pick<ProjectCoverRow, 'url' | 'object_key'>>(
+        'SELECT url, object_key FROM project_covers WHERE project_id = $1',
+        [project.id]
+    );
+    return [
+        ...PROJECT_FILE_COLUMNS.map((column) => ({ url: project[column.url], objectKey: project[column.objectKey] ?? null })),
+        ...covers.rows.map((cover) => ({ url: cover.url, objectKey: cover.object_key })),
+    ];
+};
+
+// Points the file columns and cover rows of `project` at the copies made by replaceFilesWithCopies.
+const switchProjectFilesToCopies = async (client: PoolClient, project: ProjectRow, copies: StoredFileCopies) => {
+    const assignments: string[] = [];
+    const values: unknown[] = [];
+    for (const column of PROJECT_FILE_COLUMNS) {
+        const url = project[column.url];
+        const entry = url ? copies.get(url) : undefined;
+        if (!entry) continue;
+        values.push(entry.copy.url, entry.copy.objectKey);
+        assignments.push(`${column.url} = $${values.length - 1}`, `${column.objectKey} = $${values.length}`);
+    }
+    if (assignments.length > 0) {
+        values.push(project.id);
+        await client.query(`UPDATE projects SET ${assignments.join(', ')} WHERE id = $${values.length}`, values);
+    }
+    for (const { old, copy } of copies.values()) {
+        await client.query('UPDATE project_covers SET url = $1, object_key = $2 WHERE project_id = $3 AND url = $4', [
+            copy.url,
+            copy.objectKey,
+            project.id,
+            old.url,
+        ]);
+    }
+};
+
+// Gallery listing
+const PROJECT_SORTS = ['newest', 'oldest', 'name', 'trending'] as const;
+type ProjectSort = (typeof PROJECT_SORTS)[number];
+
+const DEFAULT_PROJECT_PAGE_SIZE = 24;
+const MAX_PROJECT_PAGE_SIZE = 100;
+const MAX_SEARCH_TERMS = 8;
+
+type ProjectListFilters = {
+    limit: number;
+    cursor: [string, number] | null;
+    sort: ProjectSort;
+    search: string | null;
+    owner: string | null;
+    visibility: ProjectVisibility | null;
+    hasCover: boolean | null;
+    hasAnalysis: boolean | null;
+    from: string | null;
+    to: string | null;
+};
+
+// Bad query parameters; the message is returned to the client with a 400.
+class ProjectListQueryError extends Error {}
+
+// Name weighs more than the analysis text. 'simple' keeps Russian and English words as-is, which is what people type
+// into a search box; the same expression backs the GIN index, so the two must stay identical.
+const projectSearchVectorSql = (alias = '') => `(
+    setweight(to_tsvector('simple', coalesce(${alias}name, '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(${alias}emotional_analysis, '') || ' ' || coalesce(${alias}transcription, '')), 'B')
+    || setweight(jsonb_to_tsvector('simple', coalesce(${alias}analysis, '{}'::jsonb), '["string"]'), 'B')
+)`;
+
+// Every word is matched as a prefix, so results show up while the user is still typing.
+const buildSearchQuery = (search: string) => {
+    const terms = search.toLowerCase().match(/[\p{L}\p{N}]+/gu)?.slice(0, MAX_SEARCH_TERMS) ?? [];
+    return terms.length > 0 ? terms.map((term) => `${term}:*`).join(' & ') : null;
+};
+
+const PROJECT_SORT_SQL: Record<ProjectSort, { key: string; direction: 'ASC' | 'DESC'; cast: string }> = {
+    newest: { key: 'p.created_at', direction: 'DESC', cast: 'timestamp' },
+    oldest: { key: 'p.created_at', direction: 'ASC', cast: 'timestamp' },
+    name: { key: 'lower(p.name)', direction: 'ASC', cast: 'text' },
+    // Precomputed by refreshTrendingScores, so the order doesn't shift between pages.
+    trending: { key: 'p.trending_score', direction: 'DESC', cast: 'float8' },
+};
+
+const decodeProjectCursor = (cursor: string) => {
+    const decoded = decodeKeysetCursor(cursor);
+    if (!decoded) throw new ProjectListQueryError('Некорректный cursor');
+    return decoded;
+};
+
+const parseBooleanParam = (value: unknown, name: string) => {
+    if (value === undefined || value === '') return null;
+    if (value === '1' || value === 'true') return true;
+    if (value === '0' || value === 'false') return false;
+    throw new ProjectListQueryError(`${name} должен быть true или false`);
+};
+
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Accepts YYYY-MM-DD or a full ISO timestamp. A bare `to` date includes the whole day.
+const parseDateParam = (value: unknown, name: string, endOfDay: boolean) => {
+    if (value === undefined || value === '') return null;
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        throw new ProjectListQueryError(`${name} должен быть датой в формате YYYY-MM-DD или ISO 8601`);
+    }
+    if (!DATE_ONLY_RE.test(value)) return new Date(value).toISOString();
+    const date = new Date(`${value}T00:00:00.000Z`);
+    if (endOfDay) date.setUTCDate(date.getUTCDate() + 1);
+    return date.toISOString();
+};
+
+const getStringParam = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+const parseProjectListQuery = (query: express.Request['query']): ProjectListFilters => {
+    const limit = parsePageLimit(getStringParam(query.limit), DEFAULT_PROJECT_PAGE_SIZE, MAX_PROJECT_PAGE_SIZE);
+    if (limit === null) throw new ProjectListQueryError('limit должен быть положительным числом');
+
+    const sortParam = getStringParam(query.sort) ?? 'newest';
+    if (!(PROJECT_SORTS as readonly string[]).includes(sortParam)) {
+        throw new ProjectListQueryError(`sort должен быть одним из: ${PROJECT_SORTS.join(', ')}`);
+    }
+
+    const visibilityParam = getStringParam(query.visibility);
+    const visibility = visibilityParam ? parseProjectVisibility(visibilityParam) : null;
+    if (visibilityParam && !visibility) {
+        throw new ProjectListQueryError(`visibility должен быть одним из: ${PROJECT_VISIBILITIES.join(', ')}`);
+    }
+
+    // An unusable owner must not silently widen the result to the whole gallery.
+    const owner = normalizeUsername(query.owner);
+    if (query.owner !== undefined && query.owner !== '' && !owner) {
+        throw new ProjectListQueryError('owner должен быть логином длиной от 3 до 64 символов');
+    }
+
+    const cursorParam = getStringParam(query.cursor);
+    return {
+        limit,
+        cursor: cursorParam ? decodeProjectCursor(cursorParam) : null,
+        sort: sortParam as ProjectSort,
+        search: getStringParam(query.q),
+        owner,
+        visibility,
+        hasCover: parseBooleanParam(query.hasCover, 'hasCover'),
+        hasAnalysis: parseBooleanParam(query.hasAnalysis, 'hasAnalysis'),
+        from: parseDateParam(query.from, 'from', false),
+        to: parseDateParam(query.to, 'to', true),
+    };
+};
+
+// Keyset pagination: the cursor carries the sort value and id of the last row, so pages stay stable while new
+// projects are added. The gallery shows public projects plus the viewer's own, whatever their visibility;
+// `allVisibilities` lifts that for the admin console.
+const listProjects = async (
+    filters: ProjectListFilters,
+    viewer: AuthUser | undefined,
+    options: { allVisibilities?: boolean } = {}
+) => {
+    const params: unknown[] = [];
+    const param = (value: unknown) => {
+        params.push(value);
+        return `$${params.length}`;
+    };
+
+    const conditions = options.allVisibilities
+        ? ['TRUE']
+        : [`(p.visibility = 'public' OR p.user_id = ${param(viewer?.id ?? null)})`];
+    if (filters.owner) conditions.push(`u.username = ${param(filters.owner)}`);
+    if (filters.visibility) conditions.push(`p.visibility = ${param(filters.visibility)}`);
+    if (filters.hasCover !== null) conditions.push(`p.cover_url IS ${filters.hasCover ? 'NOT NULL' : 'NULL'}`);
+    if (filters.hasAnalysis !== null) {
+        const hasAnalysis = '(p.analysis IS NOT NULL OR p.emotional_analysis IS NOT NULL OR p.transcription IS NOT NULL)';
+        conditions.push(filters.hasAnalysis ? hasAnalysis : `NOT ${hasAnalysis}`);
+    }
+    if (filters.from) conditions.push(`p.created_at >= ${param(filters.from)}::timestamptz`);
+    if (filters.to) conditions.push(`p.created_at < ${param(filters.to)}::timestamptz`);
+
+    const searchQuery = filters.search ? buildSearchQuery(filters.search) : null;
+    if (searchQuery) conditions.push(`${projectSearchVectorSql('p.')} @@ to_tsquery('simple', ${param(searchQuery)})`);
+
+    const sort = PROJECT_SORT_SQL[filters.sort];
+    if (filters.cursor) {
+        const operator = sort.direction === 'DESC' ? '<' : '>';
+        conditions.push(
+            `(${sort.key}, p.id) ${operator} (${param(filters.cursor[0])}::${sort.cast}, ${param(filters.cursor[1])})`
+        );
+    }
+
+    const result = await pool.query<ProjectRow & { cursor_value: string }>(
+        `
+        SELECT p.*, u.username AS owner_username, ${sort.key}::text AS cursor_value,
+            ${projectLikedSql(param(viewer?.id ?? null))} AS liked
+        FROM projects p
+        LEFT JOIN users u ON u.id = p.user_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY ${sort.key} ${sort.direction}, p.id ${sort.direction}
+        LIMIT ${param(filters.limit + 1)}
+        `,
+        params
+    );
+
+    const rows = result.rows.slice(0, filters.limit);
+    const last = rows[rows.length - 1];
+    return {
+        items: rows.map(({ cursor_value: _cursorValue, ...project }) => serializeProject(project)),
+        nextCursor: result.rows.length > filters.limit && last ? encodeKeysetCursor(last.cursor_value, last.id) : null,
+    };
+};
+
+// Likes, plays and trending
+const PLAY_DEDUP_MINUTES = Math.max(1, Number(process.env.PLAY_DEDUP_MINUTES) || 30);
+const TRENDING_WINDOW_DAYS = Math.max(1, Number(process.env.TRENDING_WINDOW_DAYS) || 7);
+const TRENDING_HALF_LIFE_HOURS = Math.max(1, Number(process.env.TRENDING_HALF_LIFE_HOURS) || 24);
+const TRENDING_REFRESH_MINUTES = Math.max(1, Number(process.env.TRENDING_REFRESH_MINUTES) || 10);
+// A like says more than a play.
+const TRENDING_LIKE_WEIGHT = 3;
+
+const projectLikedSql = (viewerIdParam: string) =>
+    `EXISTS (SELECT 1 FROM project_likes l WHERE l.project_id = p.id AND l.user_id = ${viewerIdParam})`;
+
+// Media requests carry no session, so anonymous listeners are told apart by IP and user agent. The HMAC keeps raw
+// addresses out of the table.
+const getListenerHash = (req: express.Request) =>
+    crypto
+        .createHmac('sha256', mediaUrlSecret)
+        .update(req.user ? `user:${req.user.id}` : `anon:${getClientIp(req) ?? ''}|${req.header('user-agent') ?? ''}`)
+        .digest('hex');
+
+// One play per listener and project per dedup window; the counter only moves when the play row is new.
+const recordProjectPlay = async (projectId: number, req: express.Request) => {
+    await pool.query(
+        `
+        WITH inserted AS (
+            INSERT INTO project_plays (project_id, listener_hash, dedup_bucket)
+            VALUES ($1, $2, FLOOR(EXTRACT(EPOCH FROM NOW()) / $3)::bigint)
+            ON CONFLICT DO NOTHING
+            RETURNING project_id
+        )
+        UPDATE projects SET play_count = play_count + 1 WHERE id IN (SELECT project_id FROM inserted)
+        `,
+        [projectId, getListenerHash(req), PLAY_DEDUP_MINUTES * 60]
+    );
+};
+
+// Likes and plays from the last TRENDING_WINDOW_DAYS, each worth less the older it is (halved every
+// TRENDING_HALF_LIFE_HOURS). Play rows older than the window are only needed for dedup, so they are dropped here.
+const refreshTrendingScores = async () => {
+    await pool.query(
+        `
+        WITH activity AS (
+            SELECT project_id, created_at, $3::float8 AS weight FROM project_likes
+            WHERE created_at > NOW() - make_interval(days => $1)
+            UNION ALL
+            SELECT project_id, created_at, 1 FROM project_plays
+            WHERE created_at > NOW() - make_interval(days => $1)
+        ),
+        scores AS (
+            SELECT project_id, SUM(weight * power(0.5, EXTRACT(EPOCH FROM NOW() - created_at) / 3600 / $2)) AS score
+            FROM activity
+            GROUP BY project_id
+        )
+        UPDATE projects p SET trending_score = COALESCE(s.score, 0)
+        FROM projects target
+        LEFT JOIN scores s ON s.project_id = target.id
+        WHERE p.id = target.id AND p.trending_score IS DISTINCT FROM COALESCE(s.score, 0)
+        `,
+        [TRENDING_WINDOW_DAYS, TRENDING_HALF_LIFE_HOURS, TRENDING_LIKE_WEIGHT]
+    );
+    await pool.query('DELETE FROM project_plays WHERE created_at <= NOW() - make_interval(days => $1)', [TRENDING_WINDOW_DAYS]);
+};
+
+const scheduleTrendingRefresh = () => {
+    const refresh = () => refreshTrendingScores().catch((err) => console.error('Failed to refresh trending scores:', err));
+    void refresh();
+    setInterval(() => void refresh(), TRENDING_REFRESH_MINUTES * 60 * 1000).unref();
+};
+
+const getSafeFileExtension = (filename: string) => {
+    const ext = path.extname(filename).toLowerCase();
+    if (!ext) return '';
+    if (!/^\.[a-z0-9]{1,10}$/.test(ext)) return '';
+    return ext;
+};
+
+// Identifies an image by its magic bytes; null for anything we don't accept as an avatar.
+const sniffImageMimeType = (buf: Buffer) => {
+    if (buf.length >= 8 && buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        return 'image/png';
+    }
+    if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return 'image/jpeg';
+    if (buf.length >= 6 && ['GIF87a', 'GIF89a'].includes(buf.toString('ascii', 0, 6))) return 'image/gif';
+    if (buf.length >= 12 && buf.toString('ascii', 0, 4) === 'RIFF' && buf.toString('ascii', 8, 12) === 'WEBP') return 'image/webp';
+    return null;
+};
+
+const mimeTypeToImageExtension = (mimeType: string) => {
+    const normalized = mimeType.split(';')[0]?.trim().toLowerCase();
+    if (normalized === 'image/png') return 'png';
+    if (normalized === 'image/jpeg') return 'jpg';
+    if (normalized === 'image/webp') return 'webp';
+    if (normalized === 'image/gif') return 'gif';
+    return 'png';
+};
+
+// `owner` names the folder the cover goes to: `project-<id>` or `collection-<id>`.
+const downloadCoverToStorage = async (sourceUrl: string, owner: string) => {
+    try {
+        let coverBuffer: Buffer;
+        let mimeType: string;
+
+        if (sourceUrl.startsWith('data:image/')) {
+            const match = sourceUrl.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,(.+)$/);
+            if (!match) return null;
+            const [, dataMimeType, b64] = match;
+            coverBuffer = Buffer.from(b64, 'base64');
+            mimeType = dataMimeType;
+        } else {
+            const response = await axios.get<ArrayBuffer>(sourceUrl, { responseType: 'arraybuffer' });
+            coverBuffer = Buffer.from(response.data);
+            mimeType = String(response.headers['content-type'] || 'image/png');
+        }
+
+        const normalizedMimeType = mimeType.split(';')[0]?.trim() || 'image/png';
+        const extension = mimeTypeToImageExtension(normalizedMimeType);
+        const filename = `${Date.now()}-${owner}-${crypto.randomBytes(8).toString('hex')}.${extension}`;
+
+        const stored = await putStoredFile(`covers/${owner}/${filename}`, coverBuffer, {
+            contentType: normalizedMimeType,
+            contentLength: coverBuffer.length,
+            cacheControl: 'public, max-age=31536000, immutable',
+        });
+        return { ...stored, sizeBytes: coverBuffer.length };
+    } catch (err) {
+        console.error('Failed to store cover:', err);
+        return null;
+    }
+};
+
+const setActiveProjectCover = async (projectId: number, cover: ProjectCoverRow) => {
+    await pool.query("UPDATE project_covers SET status = 'kept' WHERE id = $1 AND status <> 'kept'", [cover.id]);
+    await pool.query('UPDATE projects SET cover_url = $1, cover_object_key = $2, cover_id = $3 WHERE id = $4', [
+        cover.url,
+        cover.object_key,
+        cover.id,
+        projectId,
+    ]);
+};
+
+const streamToBuffer = (stream: NodeJS.ReadableStream) =>
+    new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        stream.on('data', (chunk: unknown) => {
+            if (Buffer.isBuffer(chunk)) chunks.push(chunk);
+            else if (chunk instanceof Uint8Array) chunks.push(Buffer.from(chunk));
+            else chunks.push(Buffer.from(String(chunk)));
+        });
+        stream.on('end', () => resolve(Buffer.concat(chunks)));
+        stream.on('error', (err) => reject(err));
+    });
+
+const FFMPEG_PATH = getTrimmedEnv('FFMPEG_PATH') || 'ffmpeg';
+const TRANSCODE_TIMEOUT_MS = Math.max(10_000, Number(process.env.TRANSCODE_TIMEOUT_MS) || 5 * 60 * 1000);
+
+// Resolved once at startup; without ffmpeg the original upload is used for both playback and analysis.
+let transcodingAvailable = false;
+
+// Files derived from the upload (renditions, waveform) live next to the audio under audio/<folder>/project-<id>/.
+const storeDerivedFile = async (params: {
+    projectId: number;
+    folder: 'renditions' | 'waveforms';
+    suffix: string;
+    body: Buffer | string;
+    contentType: string;
+}) => {
+    const filename = `${Date.now()}-project-${params.projectId}-${crypto.randomBytes(8).toString('hex')}${params.suffix}`;
+    const sizeBytes = typeof params.body === 'string' ? fs.statSync(params.body).size : params.body.length;
+    const stored = await putStoredFile(
+        `audio/${params.folder}/project-${params.projectId}/${filename}`,
+        typeof params.body === 'string' ? fs.createReadStream(params.body) : params.body,
+        { contentType: params.contentType, contentLength: sizeBytes, cacheControl: 'public, max-age=31536000, immutable' }
+    );
+    return { ...stored, sizeBytes };
+};
+
+const storeAudioRendition = (projectId: number, kind: AudioRenditionKind, filePath: string) =>
+    storeDerivedFile({
+        projectId,
+        folder: 'renditions',
+        suffix: `-${kind}${AUDIO_RENDITIONS[kind].ext}`,
+        body: filePath,
+        contentType: AUDIO_RENDITIONS[kind].mimeType,
+    });
+
+const JOB_WORKER_CONCURRENCY = Math.max(1, Number(process.env.JOB_WORKER_CONCURRENCY) || 2);
+const JOB_POLL_INTERVAL_MS = Math.max(200, Number(process.env.JOB_POLL_INTERVAL_MS) || 1000);
+const JOB_MAX_ATTEMPTS = Math.max(1, Number(process.env.JOB_MAX_ATTEMPTS) || 3);
+
+// Thrown by job handlers for expected failures; the message is shown to the user as is.
+class JobError extends Error {}
+
+type JobContext = {
+    setProgress: (progress: number) => Promise<void>;
+};
+
+type JobHandler = (job: JobRow, ctx: JobContext) => Promise<Record<string, unknown>>;
+
+const jobHandlers: Partial<Record<JobType, JobHandler>> = {};
+
+const serializeJob = (job: JobRow) => ({
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    project_id: job.project_id,
+    collection_id: job.collection_id,
+    progress: job.progress,
+    error: job.error,
+    error_details: job.error_details,
+    result: job.result,
+    created_at: job.created_at,
+    started_at: job.started_at,
+    finished_at: job.finished_at,
+});
+
+const getJobById = async (jobId: number | string) => {
+    const result = await pool.query<JobRow>('SELECT * FROM jobs WHERE id = $1', [jobId]);
+    if (result.rows.length === 0) return null;
+    return result.rows[0] as JobRow;
+};
+
+const enqueueJob = async (params: {
+    type: JobType;
+    projectId: number | string | null;
+    collectionId?: number | null;
+    userId: number | null;
+    payload?: Record<string, unknown>;
+}) => {
+    // One active job per project (or collection) and type: repeated clicks reuse the job that is already queued/running.
+    const collectionId = params.collectionId ?? null;
+    if (params.projectId != null || collectionId != null) {
+        const ownerColumn = params.projectId != null ? 'project_id' : 'collection_id';
+        const existing = await pool.query<JobRow>(
+            `
+            SELECT * FROM jobs
+            WHERE ${ownerColumn} = $1 AND type = $2 AND status IN ('queued', 'running')
+            ORDER BY created_at DESC
+            LIMIT 1
+            `,
+            [params.projectId ?? collectionId, params.type]
+        );
+        if (existing.rows.length > 0) return existing.rows[0] as JobRow;
+    }
+
+    const result = await pool.query<JobRow>(
+        'INSERT INTO jobs (type, project_id, collection_id, user_id, payload) VALUES ($1, $2, $3, $4, $5) RETURNING *',
+        [params.type, params.projectId, collectionId, params.userId, JSON.stringify(params.payload || {})]
+    );
+    setImmediate(() => void pollJobs());
+    return result.rows[0] as JobRow;
+};
+
+const claimNextJob = async () => {
+    const result = await pool.query<JobRow>(
+        `
+        UPDATE jobs
+        SET status = 'running', attempts = attempts + 1, started_at = NOW(), updated_at = NOW()
+        WHERE id = (
+            SELECT id FROM jobs
+            WHERE status = 'queued'
+            ORDER BY created_at, id
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+        `
+    );
+    if (result.rows.length === 0) return null;
+    return result.rows[0] as JobRow;
+};
+
+const describeJobError = (err: any, fallbackError: string) => {
+    if (err instanceof JobError) return { error: err.message, details: null };
+    if (err instanceof TranscodeError) {
+        return { error: err.message, details: err.stderr ? { details: truncateText(err.stderr) } : null };
+    }
+
+    const status = err?.response?.status as number | undefined;
+    const upstreamMessage = extractErrorMessage(err?.response?.data) || extractErrorMessage(err?.message);
+    const details = upstreamMessage ? truncateText(upstreamMessage) : undefined;
+
+    if (typeof status === 'number') {
+        let error = 'OpenRouter error';
+        if (status === 401) error = 'OpenRouter unauthorized';
+        else if (status === 404) error = 'OpenRouter not found';
+        else if (status === 429) error = 'OpenRouter rate limited';
+        else if (status === 400) error = 'OpenRouter bad request';
+        else if (status >= 500) error = 'OpenRouter upstream error';
+
+        const hint =
+            status === 404
+                ? 'Check OPENROUTER_ANALYSIS_MODEL / OPENROUTER_IMAGE_MODEL and that the model exists / is available for your key.'
+                : status === 401
+                    ? 'Check OPENROUTER_API_KEY (and that Railway env quoting is handled).'
+                    : status === 400
+                        ? 'The selected model may not support audio/file input. Try a Gemini model that supports audio.'
+                        : undefined;
+
+        const errorDetails: Record<string, unknown> = { upstreamStatus: status };
+        if (details) errorDetails.details = details;
+        if (hint) errorDetails.hint = hint;
+        if (DEBUG_ERRORS_ENABLED) errorDetails.config = getPublicRuntimeConfig();
+        return { error, details: errorDetails };
+    }
+
+    return { error: fallbackError, details: details ? { details } : null };
+};
+
+const jobFallbackErrors: Record<JobType, string> = {
+    transcribe: 'Failed to transcribe',
+    generate_cover: 'Failed to generate cover',
+    generate_collection_cover: 'Failed to generate cover',
+    ingest_audio: 'Failed to prepare audio',
+    migrate_storage: 'Storage migration failed',
+    collect_orphans: 'Orphan cleanup failed',
+};
+
+const runJob = async (job: JobRow) => {
+    const handler = jobHandlers[job.type];
+    try {
+        if (!handler) throw new JobError(`Unknown job type: ${job.type}`);
+
+        const setProgress = async (progress: number) => {
+            const clamped = Math.max(0, Math.min(99, Math.round(progress)));
+            await pool.query('UPDATE jobs SET progress = $1, updated_at = NOW() WHERE id = $2', [clamped, job.id]);
+        };
+
+        const result = await handler(job, { setProgress });
+        await pool.query(
+            `
+            UPDATE jobs
+            SET status = 'succeeded', progress = 100, result = $1, error = NULL, error_details = NULL,
+                finished_at = NOW(), updated_at = NOW()
+            WHERE id = $2
+            `,
+            [JSON.stringify(result), job.id]
+        );
+    } catch (err: any) {
+        console.error(`Job ${job.id} (${job.type}) failed:`, err?.response?.data || err?.message || err);
+        const { error, details } = describeJobError(err, jobFallbackErrors[job.type] || 'Job failed');
+        try {
+            await pool.query(
+                `
+                UPDATE jobs
+                SET status = 'failed', error = $1, error_details = $2, finished_at = NOW(), updated_at = NOW()
+                WHERE id = $3
+                `,
+                [error, details ? JSON.stringify(details) : null, job.id]
+            );
+        } catch (updateErr) {
+            console.error(`Failed to mark job ${job.id} as failed:`, updateErr);
+        }
+    }
+};
+
+let activeJobCount = 0;
+let jobPollInProgress = false;
+
+const pollJobs = async () => {
+    if (jobPollInProgress) return;
+    jobPollInProgress = true;
+    try {
+        while (activeJobCount < JOB_WORKER_CONCURRENCY) {
+            const job = await claimNextJob();
+            if (!job) break;
+            activeJobCount += 1;
+            void runJob(job).finally(() => {
+                activeJobCount -= 1;
+                setImmediate(() => void pollJobs());
+                // Batch items wait for these jobs; see advanceBatches.
+                if (job.type === 'transcribe' || job.type === 'generate_cover') void advanceBatches();
+            });
+        }
+    } catch (err) {
+        console.error('Job poll failed:', err);
+    } finally {
+        jobPollInProgress = false;
+    }
+};
+
+const startJobWorker = async () => {
+    // The worker runs in-process, so anything left "running" belongs to a previous process that died mid-job.
+    try {
+        await pool.query(
+            `
+            UPDATE jobs
+            SET status = 'failed', error = 'Задача прервана перезапуском сервера', finished_at = NOW(), updated_at = NOW()
+            WHERE status = 'running' AND attempts >= $1
+            `,
+            [JOB_MAX_ATTEMPTS]
+        );
+        const requeued = await pool.query(
+            "UPDATE jobs SET status = 'queued', started_at = NULL, updated_at = NOW() WHERE status = 'running'"
+        );
+        if (requeued.rowCount) console.log(`Requeued ${requeued.rowCount} interrupted job(s)`);
+    } catch (err) {
+        console.error('Failed to recover interrupted jobs:', err);
+    }
+
+    setInterval(() => void pollJobs(), JOB_POLL_INTERVAL_MS);
+    void pollJobs();
+};
+
+const DEFAULT_COVER_PRESET = 'vinyl-photo';
+const MAX_COVER_SUBJECT_LENGTH = 1000;
+const COVER_FRAME_RULES = 'Square format, just the cover filling the entire frame, no background, no borders.';
+
+const BUILTIN_COVER_PRESETS: { slug: string; name: string; prompt: string }[] = [
+    {
+        slug: DEFAULT_COVER_PRESET,
+        name: 'Винил, фото',
+        prompt: "Vinyl record cardboard sleeve cover art. The artwork shows a vivid scene that captures the song's emotion and style. NO TEXT, NO LETTERS, NO WORDS on the cover.",
+    },
+    {
+        slug: 'minimal-vector',
+        name: 'Минималистичный вектор',
+        prompt: 'Minimal flat vector illustration album cover: clean geometric shapes, a limited palette of 2-4 colors, lots of negative space. NO TEXT, NO LETTERS, NO WORDS on the cover.',
+    },
+    {
+        slug: 'oil-painting',
+        name: 'Масляная живопись',
+        prompt: 'Album cover painted in oil on canvas: expressive visible brushstrokes, rich textured color, classical fine-art lighting. NO TEXT, NO LETTERS, NO WORDS on the cover.',
+    },
+    {
+        slug: 'anime',
+        name: 'Аниме',
+        prompt: 'Anime-style album cover illustration: cel shading, expressive characters, a detailed cinematic background in the style of modern Japanese animation. NO TEXT, NO LETTERS, NO WORDS on the cover.',
+    },
+    {
+        slug: 'brutalist-typography',
+        name: 'Брутальная типографика',
+        prompt: 'Brutalist typographic album cover: oversized bold grotesque lettering as the main visual, raw grid layout, high contrast, a few stark photographic or geometric elements. At most one or two short words.',
+    },
+];
+
+const getCoverStylePreset = async (slug: string) => {
+    const result = await pool.query<CoverStylePresetRow>('SELECT * FROM cover_style_presets WHERE slug = $1', [slug]);
+    if (result.rows.length > 0) return result.rows[0] as CoverStylePresetRow;
+    // The default must always resolve, even if an admin deleted it.
+    const builtin = BUILTIN_COVER_PRESETS.find((preset) => preset.slug === slug && slug === DEFAULT_COVER_PRESET);
+    if (!builtin) return null;
+    return { id: 0, ...builtin, builtin: true, created_by: null, created_at: '', updated_at: '' } as CoverStylePresetRow;
+};
+
+// Default cover subject derived from the analysis; users can replace it with their own text.
+const getCoverSubject = (project: ProjectRow) => {
+    const analysisText = project.analysis
+        ? [
+              project.analysis.visual_associations.join('; '),
+              project.analysis.vibe,
+              project.analysis.emotions.map((e) => e.name).join(', '),
+              project.analysis.genre,
+          ]
+              .filter(Boolean)
+              .join('. ')
+        : project.emotional_analysis || project.transcription;
+    return analysisText ? analysisText.substring(0, 300) : null;
+};
+
+const buildCoverPrompt = (stylePrompt: string, subject: string) =>
+    `${stylePrompt.trim()} ${COVER_FRAME_RULES} Visual imagery based on: ${subject.trim()}`;
+
+const parseCoverSubject = (value: unknown) => {
+    if (value === undefined || value === null) return { ok: true as const, subject: null };
+    if (typeof value !== 'string') return { ok: false as const, error: 'prompt должен быть строкой' };
+    const subject = value.trim();
+    if (subject.length > MAX_COVER_SUBJECT_LENGTH) {
+        return { ok: false as const, error: `prompt не длиннее ${MAX_COVER_SUBJECT_LENGTH} символов` };
+    }
+    return { ok: true as const, subject: subject || null };
+};
+
+const deleteExpiredSessions = async () => {
+    const result = await pool.query('DELETE FROM sessions WHERE expires_at <= NOW()');
+    // Spent and expired reset tokens are useless too.
+    await pool.query('DELETE FROM password_reset_tokens WHERE expires_at <= NOW() OR used_at IS NOT NULL');
+    await pool.query('DELETE FROM rate_limits WHERE expires_at <= NOW()');
+    return result.rowCount ?? 0;
+};
+
+const scheduleSessionCleanup = () => {
+    setInterval(() => {
+        deleteExpiredSessions()
+            .then((deleted) => {
+                if (deleted > 0) console.log(`Removed ${deleted} expired session(s)`);
+            })
+            .catch((err) => console.error('Failed to clean up sessions:', err));
+    }, SESSION_CLEANUP_INTERVAL_MINUTES * 60 * 1000).unref();
+};
+
+const initDb = async () => {
+    try {
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS users (
+                id SERIAL PRIMARY KEY,
+                username VARCHAR(64) UNIQUE NOT NULL,
+                password_hash TEXT NOT NULL,
+                role VARCHAR(16) NOT NULL DEFAULT 'user',
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
             )
         `);
 
@@ -447,6 +1763,14 @@ const initDb = async () => {
             )
         `);
 
+        await pool.query(`
+            ALTER TABLE users
+            ADD COLUMN IF NOT EXISTS display_name VARCHAR(64),
+            ADD COLUMN IF NOT EXISTS bio TEXT,
+            ADD COLUMN IF NOT EXISTS avatar_url TEXT,
+            ADD COLUMN IF NOT EXISTS avatar_object_key TEXT
+        `);
+
         await pool.query(`
             CREATE TABLE IF NOT EXISTS sessions (
                 id SERIAL PRIMARY KEY,
@@ -457,6 +1781,83 @@ const initDb = async () => {
             )
         `);
 
+        await pool.query(`
+            ALTER TABLE sessions
+            ADD COLUMN IF NOT EXISTS user_agent TEXT,
+            ADD COLUMN IF NOT EXISTS ip VARCHAR(64),
+            ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP
+        `);
+
+        await pool.query('CREATE INDEX IF NOT EXISTS sessions_user_idx ON sessions (user_id)');
+
+        await pool.query(`
+            ALTER TABLE users
+            ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP,
+            ADD COLUMN IF NOT EXISTS disabled_reason TEXT
+        `);
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS audit_events (
+                id SERIAL PRIMARY KEY,
+                actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+                actor_username VARCHAR(64),
+                action VARCHAR(64) NOT NULL,
+                target_type VARCHAR(32) NOT NULL,
+                target_id TEXT,
+                ip VARCHAR(64),
+                details JSONB,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await pool.query('CREATE INDEX IF NOT EXISTS audit_events_created_idx ON audit_events (created_at DESC, id DESC)');
+        await pool.query('CREATE INDEX IF NOT EXISTS audit_events_target_idx ON audit_events (target_type, target_id, id DESC)');
+        await pool.query('CREATE INDEX IF NOT EXISTS audit_events_actor_idx ON audit_events (actor_username, id DESC)');
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS rate_limits (
+                key TEXT PRIMARY KEY,
+                hits INTEGER NOT NULL DEFAULT 0,
+                locked_until TIMESTAMP,
+                expires_at TIMESTAMP NOT NULL
+            )
+        `);
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS password_reset_tokens (
+                id SERIAL PRIMARY KEY,
+                token_hash TEXT UNIQUE NOT NULL,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                expires_at TIMESTAMP NOT NULL,
+                used_at TIMESTAMP
+            )
+        `);
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS jobs (
+                id SERIAL PRIMARY KEY,
+                type VARCHAR(32) NOT NULL,
+                status VARCHAR(16) NOT NULL DEFAULT 'queued',
+                project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+                user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+                payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+                progress INTEGER NOT NULL DEFAULT 0,
+                error TEXT,
+                error_details JSONB,
+                result JSONB,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                started_at TIMESTAMP,
+                finished_at TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await pool.query('CREATE INDEX IF NOT EXISTS jobs_status_created_idx ON jobs (status, created_at)');
+        await pool.query('CREATE INDEX IF NOT EXISTS jobs_project_idx ON jobs (project_id, created_at DESC)');
+
         await pool.query(`
             ALTER TABLE projects
             ADD COLUMN IF NOT EXISTS user_id INTEGER REFERENCES users(id) ON DELETE SET NULL
@@ -468,8 +1869,222 @@ const initDb = async () => {
             ADD COLUMN IF NOT EXISTS cover_object_key TEXT
         `);
 
-        const adminUsername = normalizeUsername(process.env.ADMIN_USERNAME);
-        const adminPassword = validatePassword(process.env.ADMIN_PASSWORD);
+        await pool.query('ALTER TABLE projects ADD COLUMN IF NOT EXISTS analysis JSONB');
+
+        await pool.query(`
+            ALTER TABLE projects
+            ADD COLUMN IF NOT EXISTS duration_seconds DOUBLE PRECISION,
+            ADD COLUMN IF NOT EXISTS sample_rate INTEGER,
+            ADD COLUMN IF NOT EXISTS channels SMALLINT,
+            ADD COLUMN IF NOT EXISTS bitrate INTEGER,
+            ADD COLUMN IF NOT EXISTS audio_format VARCHAR(16),
+            ADD COLUMN IF NOT EXISTS audio_codec VARCHAR(32),
+            ADD COLUMN IF NOT EXISTS audio_mime_type VARCHAR(64),
+            ADD COLUMN IF NOT EXISTS audio_size_bytes BIGINT
+        `);
+
+        await pool.query(`
+            ALTER TABLE projects
+            ADD COLUMN IF NOT EXISTS analysis_audio_url TEXT,
+            ADD COLUMN IF NOT EXISTS analysis_audio_object_key TEXT,
+            ADD COLUMN IF NOT EXISTS playback_audio_url TEXT,
+            ADD COLUMN IF NOT EXISTS playback_audio_object_key TEXT
+        `);
+
+        await pool.query(`
+            ALTER TABLE projects
+            ADD COLUMN IF NOT EXISTS waveform_url TEXT,
+            ADD COLUMN IF NOT EXISTS waveform_object_key TEXT
+        `);
+
+        await pool.query(`
+            ALTER TABLE projects
+            ADD COLUMN IF NOT EXISTS visibility VARCHAR(16) NOT NULL DEFAULT 'public'
+            CHECK (visibility IN ('public', 'unlisted', 'private'))
+        `);
+
+        await pool.query(`
+            ALTER TABLE projects
+            ADD COLUMN IF NOT EXISTS like_count INTEGER NOT NULL DEFAULT 0,
+            ADD COLUMN IF NOT EXISTS play_count INTEGER NOT NULL DEFAULT 0,
+            ADD COLUMN IF NOT EXISTS trending_score DOUBLE PRECISION NOT NULL DEFAULT 0
+        `);
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS project_likes (
+                project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (project_id, user_id)
+            )
+        `);
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS project_plays (
+                project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+                listener_hash TEXT NOT NULL,
+                dedup_bucket BIGINT NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (project_id, listener_hash, dedup_bucket)
+            )
+        `);
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS project_comments (
+                id SERIAL PRIMARY KEY,
+                project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                parent_id INTEGER REFERENCES project_comments(id) ON DELETE CASCADE,
+                body TEXT,
+                timestamp_seconds DOUBLE PRECISION CHECK (timestamp_seconds >= 0),
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                edited_at TIMESTAMP,
+                deleted_at TIMESTAMP
+            )
+        `);
+
+        await pool.query('CREATE INDEX IF NOT EXISTS project_comments_project_idx ON project_comments (project_id, created_at, id)');
+        await pool.query('CREATE INDEX IF NOT EXISTS project_comments_parent_idx ON project_comments (parent_id)');
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS collections (
+                id SERIAL PRIMARY KEY,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                title VARCHAR(200) NOT NULL,
+                description TEXT,
+                visibility VARCHAR(16) NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'unlisted', 'private')),
+                cover_url TEXT,
+                cover_object_key TEXT,
+                cover_prompt TEXT,
+                cover_size_bytes INTEGER,
+                cover_updated_at TIMESTAMP,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS collection_items (
+                collection_id INTEGER NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+                project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+                position INTEGER NOT NULL,
+                PRIMARY KEY (collection_id, project_id)
+            )
+        `);
+
+        await pool.query('CREATE INDEX IF NOT EXISTS collections_user_idx ON collections (user_id, created_at DESC)');
+        await pool.query('CREATE INDEX IF NOT EXISTS collection_items_project_idx ON collection_items (project_id)');
+        await pool.query(
+            'ALTER TABLE jobs ADD COLUMN IF NOT EXISTS collection_id INTEGER REFERENCES collections(id) ON DELETE CASCADE'
+        );
+        await pool.query('CREATE INDEX IF NOT EXISTS jobs_collection_idx ON jobs (collection_id, created_at DESC)');
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS batches (
+                id SERIAL PRIMARY KEY,
+                user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                run_analysis BOOLEAN NOT NULL,
+                run_cover BOOLEAN NOT NULL,
+                cover_preset VARCHAR(64) NOT NULL,
+                site_url TEXT,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                finished_at TIMESTAMP
+            )
+        `);
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS batch_items (
+                batch_id INTEGER NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+                project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+                position INTEGER NOT NULL,
+                status VARCHAR(16) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+                step VARCHAR(16) CHECK (step IN ('analysis', 'cover')),
+                job_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL,
+                error TEXT,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (batch_id, project_id)
+            )
+        `);
+
+        await pool.query('CREATE INDEX IF NOT EXISTS batches_user_idx ON batches (user_id, created_at DESC)');
+        await pool.query('CREATE INDEX IF NOT EXISTS batches_active_idx ON batches (id) WHERE finished_at IS NULL');
+        await pool.query('CREATE INDEX IF NOT EXISTS batch_items_project_idx ON batch_items (project_id)');
+        await pool.query('CREATE INDEX IF NOT EXISTS project_likes_created_idx ON project_likes (created_at)');
+        await pool.query('CREATE INDEX IF NOT EXISTS project_plays_created_idx ON project_plays (created_at)');
+        await pool.query('CREATE INDEX IF NOT EXISTS projects_trending_idx ON projects (trending_score DESC, id DESC)');
+        await pool.query('CREATE INDEX IF NOT EXISTS projects_created_idx ON projects (created_at DESC, id DESC)');
+        await pool.query('CREATE INDEX IF NOT EXISTS projects_name_idx ON projects (lower(name), id)');
+        await pool.query(`CREATE INDEX IF NOT EXISTS projects_search_idx ON projects USING GIN (${projectSearchVectorSql()})`);
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS project_covers (
+                id SERIAL PRIMARY KEY,
+                project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+                url TEXT NOT NULL,
+                object_key TEXT,
+                prompt TEXT,
+                model TEXT,
+                seed TEXT,
+                size_bytes INTEGER,
+                created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        await pool.query(`
+            ALTER TABLE project_covers
+            ADD COLUMN IF NOT EXISTS status VARCHAR(16) NOT NULL DEFAULT 'kept',
+            ADD COLUMN IF NOT EXISTS job_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL
+        `);
+
+        await pool.query('ALTER TABLE project_covers ADD COLUMN IF NOT EXISTS preset VARCHAR(64)');
+
+        await pool.query(`
+            CREATE TABLE IF NOT EXISTS cover_style_presets (
+                id SERIAL PRIMARY KEY,
+                slug VARCHAR(64) UNIQUE NOT NULL,
+                name VARCHAR(128) NOT NULL,
+                prompt TEXT NOT NULL,
+                builtin BOOLEAN NOT NULL DEFAULT FALSE,
+                created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+
+        // Built-ins are only inserted once, so admin edits to them survive restarts.
+        for (const preset of BUILTIN_COVER_PRESETS) {
+            await pool.query(
+                `
+                INSERT INTO cover_style_presets (slug, name, prompt, builtin)
+                VALUES ($1, $2, $3, TRUE)
+                ON CONFLICT (slug) DO NOTHING
+                `,
+                [preset.slug, preset.name, preset.prompt]
+            );
+        }
+
+        await pool.query('CREATE INDEX IF NOT EXISTS project_covers_project_idx ON project_covers (project_id, created_at DESC)');
+
+        await pool.query(`
+            ALTER TABLE projects
+            ADD COLUMN IF NOT EXISTS cover_id INTEGER REFERENCES project_covers(id) ON DELETE SET NULL
+        `);
+
+        // Covers generated before history existed become the first version of their project.
+        await pool.query(`
+            WITH inserted AS (
+                INSERT INTO project_covers (project_id, url, object_key, created_at)
+                SELECT p.id, p.cover_url, p.cover_object_key, p.created_at
+                FROM projects p
+                WHERE p.cover_url IS NOT NULL AND p.cover_id IS NULL
+                RETURNING id, project_id
+            )
+            UPDATE projects p SET cover_id = inserted.id FROM inserted WHERE p.id = inserted.project_id
+        `);
+
+        const adminUsername = normalizeUsername(process.env.ADMIN_USERNAME);
+        const adminPassword = validatePassword(process.env.ADMIN_PASSWORD);
         if (adminUsername && adminPassword) {
             const existingAdmin = await pool.query('SELECT id, role FROM users WHERE username = $1', [adminUsername]);
             if (existingAdmin.rows.length === 0) {
@@ -485,7 +2100,7 @@ const initDb = async () => {
             }
         }
 
-        await pool.query('DELETE FROM sessions WHERE expires_at <= NOW()');
+        await deleteExpiredSessions();
 
         console.log('Database initialized successfully');
     } catch (err) {
@@ -493,10 +2108,42 @@ const initDb = async () => {
     }
 };
 
-void initDb();
+// Projects uploaded before ingest existed get their renditions and waveform once.
+const backfillAudioIngest = async () => {
+    try {
+        const result = await pool.query(
+            `
+            INSERT INTO jobs (type, project_id, user_id)
+            SELECT 'ingest_audio', p.id, p.user_id
+            FROM projects p
+            WHERE (p.waveform_url IS NULL OR ($1 AND p.playback_audio_url IS NULL))
+              AND ($1 OR p.audio_format = 'wav')
+              AND NOT EXISTS (SELECT 1 FROM jobs j WHERE j.project_id = p.id AND j.type = 'ingest_audio')
+            `,
+            [transcodingAvailable]
+        );
+        if (result.rowCount) console.log(`Queued audio ingest for ${result.rowCount} existing project(s)`);
+    } catch (err) {
+        console.error('Failed to backfill audio ingest:', err);
+    }
+};
+
+void initDb().then(async () => {
+    transcodingAvailable = await isFfmpegAvailable(FFMPEG_PATH);
+    if (!transcodingAvailable) {
+        console.warn(`ffmpeg not found at "${FFMPEG_PATH}": uploads are kept as-is, set FFMPEG_PATH to enable transcoding`);
+    }
+    await backfillAudioIngest();
+    await startJobWorker();
+    // Picks up batch jobs that finished, or were failed by the restart, while the server was down.
+    void advanceBatches();
+    scheduleStorageGc();
+    scheduleSessionCleanup();
+    scheduleTrendingRefresh();
+});
 
 // Auth
-app.post('/api/auth/register', async (req, res) => {
+app.post('/api/auth/register', limitAuthRequests, async (req, res) => {
 	    try {
 	        const username = normalizeUsername(req.body?.username);
 	        const password = validatePassword(req.body?.password);
@@ -518,14 +2165,8 @@ app.post('/api/auth/register', async (req, res) => {
         );
 
         const user = insertResult.rows[0] as AuthUser;
-        const token = generateSessionToken();
-        const tokenHash = hashSessionToken(token);
-        const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
-        await pool.query('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES ($1, $2, $3)', [
-            tokenHash,
-            user.id,
-            expiresAt,
-        ]);
+        const token = await createSession(user.id, req);
+        await recordAuditEvent(req, 'auth.register', { type: 'user', id: user.id }, null, user);
 
         res.json({ token, user });
 	    } catch (err) {
@@ -534,7 +2175,7 @@ app.post('/api/auth/register', async (req, res) => {
 	    }
 	});
 
-	app.post('/api/auth/login', async (req, res) => {
+	app.post('/api/auth/login', limitAuthRequests, async (req, res) => {
 	    try {
 	        const username = normalizeUsername(req.body?.username);
 	        const password = validatePassword(req.body?.password);
@@ -543,11 +2184,32 @@ app.post('/api/auth/register', async (req, res) => {
 	            return;
 	        }
 
-        const result = await pool.query<{ id: number; username: string; role: UserRole; password_hash: string }>(
-            'SELECT id, username, role, password_hash FROM users WHERE username = $1',
+        // Checked before the user lookup, so unknown usernames are throttled the same way and can't be told apart.
+        const limitKeys = getLoginLimitKeys(username, req);
+        const lockedFor = await getLockoutSeconds([limitKeys.user, limitKeys.ip]);
+        if (lockedFor > 0) {
+            sendTooManyRequests(res, lockedFor, 'Слишком много неудачных попыток входа.');
+            return;
+        }
+        const recordLoginFailure = (userId: number | null) =>
+            Promise.all([
+                recordFailure(limitKeys.user, LOGIN_MAX_FAILURES),
+                recordFailure(limitKeys.ip, LOGIN_MAX_FAILURES_PER_IP),
+                recordAuditEvent(req, 'auth.login_failed', { type: 'user', id: userId }, { username }, null),
+            ]);
+
+        const result = await pool.query<{
+            id: number;
+            username: string;
+            role: UserRole;
+            password_hash: string;
+            disabled_at: string | null;
+        }>(
+            'SELECT id, username, role, password_hash, disabled_at FROM users WHERE username = $1',
             [username]
 	        );
 	        if (result.rows.length === 0) {
+	            await recordLoginFailure(null);
 	            res.status(401).json({ error: 'Неверный логин или пароль' });
 	            return;
 	        }
@@ -555,20 +2217,23 @@ app.post('/api/auth/register', async (req, res) => {
         const row = result.rows[0];
 	        const ok = await verifyPassword(password, row.password_hash);
 	        if (!ok) {
+	            await recordLoginFailure(row.id);
 	            res.status(401).json({ error: 'Неверный логин или пароль' });
 	            return;
 	        }
 
-        const token = generateSessionToken();
-        const tokenHash = hashSessionToken(token);
-        const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
-        await pool.query('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES ($1, $2, $3)', [
-            tokenHash,
-            row.id,
-            expiresAt,
-        ]);
+        // The IP counter is kept: one valid account must not reset it for guesses against others.
+        await pool.query('DELETE FROM rate_limits WHERE key = $1', [limitKeys.user]);
+        // Only told after the password matched, so it doesn't reveal which accounts exist.
+        if (row.disabled_at) {
+            res.status(403).json({ error: 'Аккаунт заблокирован' });
+            return;
+        }
+
+        const token = await createSession(row.id, req);
 
         const user: AuthUser = { id: row.id, username: row.username, role: row.role };
+        await recordAuditEvent(req, 'auth.login', { type: 'user', id: user.id }, null, user);
         res.json({ token, user });
 	    } catch (err) {
 	        console.error(err);
@@ -582,6 +2247,7 @@ app.post('/api/auth/logout', requireAuth, async (req, res) => {
         if (token) {
             await pool.query('DELETE FROM sessions WHERE token_hash = $1', [hashSessionToken(token)]);
         }
+        await recordAuditEvent(req, 'auth.logout', { type: 'user', id: req.user!.id });
         res.json({ ok: true });
 	    } catch (err) {
 	        console.error(err);
@@ -589,791 +2255,3533 @@ app.post('/api/auth/logout', requireAuth, async (req, res) => {
 	    }
 	});
 
+app.post('/api/auth/change-password', requireAuth, limitAuthRequests, async (req, res) => {
+    try {
+        const currentPassword = typeof req.body?.currentPassword === 'string' ? req.body.currentPassword : '';
+        const newPassword = validatePassword(req.body?.newPassword);
+        if (!newPassword) {
+            res.status(400).json({ error: 'Новый пароль должен быть от 6 до 200 символов' });
+            return;
+        }
+
+        const result = await pool.query<{ password_hash: string }>('SELECT password_hash FROM users WHERE id = $1', [
+            req.user!.id,
+        ]);
+        const row = result.rows[0];
+        if (!row || !(await verifyPassword(currentPassword, row.password_hash))) {
+            res.status(403).json({ error: 'Неверный текущий пароль' });
+            return;
+        }
+
+        await pool.query('UPDATE users SET password_hash = $1 WHERE id = $2', [await hashPassword(newPassword), req.user!.id]);
+        // Whoever knew the old password may still be logged in elsewhere.
+        const revoked = await pool.query('DELETE FROM sessions WHERE user_id = $1 AND id <> $2', [
+            req.user!.id,
+            req.sessionId,
+        ]);
+        await recordAuditEvent(req, 'auth.password_change', { type: 'user', id: req.user!.id }, {
+            revokedSessions: revoked.rowCount ?? 0,
+        });
+        res.json({ ok: true, revokedSessions: revoked.rowCount ?? 0 });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось сменить пароль' });
+    }
+});
+
+// Redeems a one-time code issued by an admin: sets the new password, signs out everywhere and logs in here.
+app.post('/api/auth/reset-password', limitAuthRequests, async (req, res) => {
+    try {
+        const resetToken = typeof req.body?.token === 'string' ? req.body.token.trim() : '';
+        const newPassword = validatePassword(req.body?.newPassword);
+        if (!resetToken || !newPassword) {
+            res.status(400).json({ error: 'Нужны код сброса и новый пароль от 6 до 200 символов' });
+            return;
+        }
+
+        // Claiming the token and checking it is one statement, so a code can't be redeemed twice.
+        const claimed = await pool.query<{ user_id: number }>(
+            `
+            UPDATE password_reset_tokens SET used_at = NOW()
+            WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+                AND user_id IN (SELECT id FROM users WHERE disabled_at IS NULL)
+            RETURNING user_id
+            `,
+            [hashSessionToken(resetToken)]
+        );
+        if (claimed.rows.length === 0) {
+            res.status(400).json({ error: 'Код сброса недействителен или истёк' });
+            return;
+        }
+
+        const userId = claimed.rows[0].user_id;
+        const updated = await pool.query<AuthUser>(
+            'UPDATE users SET password_hash = $1 WHERE id = $2 RETURNING id, username, role',
+            [await hashPassword(newPassword), userId]
+        );
+        await pool.query('DELETE FROM sessions WHERE user_id = $1', [userId]);
+        await pool.query('DELETE FROM password_reset_tokens WHERE user_id = $1 AND used_at IS NULL', [userId]);
+
+        const user = updated.rows[0] as AuthUser;
+        const token = await createSession(user.id, req);
+        await recordAuditEvent(req, 'auth.password_reset', { type: 'user', id: user.id }, null, user);
+        res.json({ token, user: { id: user.id, username: user.username, role: user.role } });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось сбросить пароль' });
+    }
+});
+
+app.get('/api/auth/sessions', requireAuth, async (req, res) => {
+    try {
+        const result = await pool.query<{
+            id: number;
+            user_agent: string | null;
+            ip: string | null;
+            created_at: string;
+            last_used_at: string | null;
+            expires_at: string;
+        }>(
+            `
+            SELECT id, user_agent, ip, created_at, last_used_at, expires_at
+            FROM sessions
+            WHERE user_id = $1 AND expires_at > NOW()
+            ORDER BY COALESCE(last_used_at, created_at) DESC
+            `,
+            [req.user!.id]
+        );
+        res.json(result.rows.map((session) => ({ ...session, current: session.id === req.sessionId })));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить сессии' });
+    }
+});
+
+app.delete('/api/auth/sessions/:id', requireAuth, async (req, res) => {
+    try {
+        const sessionId = parseRowId(req.params.id);
+        const result = sessionId
+            ? await pool.query('DELETE FROM sessions WHERE id = $1 AND user_id = $2', [sessionId, req.user!.id])
+            : null;
+        if (!result?.rowCount) {
+            res.status(404).json({ error: 'Сессия не найдена' });
+            return;
+        }
+        await recordAuditEvent(req, 'auth.session_revoke', { type: 'user', id: req.user!.id }, { sessionId });
+        res.json({ ok: true, current: sessionId === req.sessionId });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось завершить сессию' });
+    }
+});
+
+app.post('/api/auth/sessions/revoke-others', requireAuth, async (req, res) => {
+    try {
+        const result = await pool.query('DELETE FROM sessions WHERE user_id = $1 AND id <> $2', [
+            req.user!.id,
+            req.sessionId,
+        ]);
+        await recordAuditEvent(req, 'auth.session_revoke_others', { type: 'user', id: req.user!.id }, {
+            revoked: result.rowCount ?? 0,
+        });
+        res.json({ ok: true, revoked: result.rowCount ?? 0 });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось завершить сессии' });
+    }
+});
+
 app.get('/api/auth/me', requireAuth, async (req, res) => {
     res.json({ user: req.user });
 });
 
-app.get('/api/health', (req, res) => {
-    const requestBaseUrl = getRequestBaseUrl(req);
-    res.json({
-        ok: true,
-        r2Enabled: R2_ENABLED,
-        openrouterConfigured: Boolean(OPENROUTER_API_KEY),
-        openrouterAnalysisModel: OPENROUTER_ANALYSIS_MODEL,
-        openrouterImageModel: OPENROUTER_IMAGE_MODEL,
-        openrouterSiteUrl: OPENROUTER_SITE_URL || requestBaseUrl,
-        requestBaseUrl,
-        allowMockAi: ALLOW_MOCK_AI,
-        timestamp: new Date().toISOString(),
-    });
+// Users
+const MAX_DISPLAY_NAME_LENGTH = 64;
+const MAX_BIO_LENGTH = 1000;
+
+type UserProfileRow = {
+    id: number;
+    username: string;
+    display_name: string | null;
+    bio: string | null;
+    avatar_url: string | null;
+    avatar_object_key: string | null;
+    created_at: string;
+};
+
+const getUserProfileRow = async (username: string) => {
+    const normalized = normalizeUsername(username);
+    if (!normalized) return null;
+    const result = await pool.query<UserProfileRow>(
+        'SELECT id, username, display_name, bio, avatar_url, avatar_object_key, created_at FROM users WHERE username = $1',
+        [normalized]
+    );
+    return result.rows[0] ?? null;
+};
+
+// The count follows the gallery rules, so it matches what the viewer sees on the profile page.
+const serializeUserProfile = async (user: UserProfileRow, viewer: AuthUser | undefined) => {
+    const count = await pool.query<{ count: string }>(
+        "SELECT COUNT(*) AS count FROM projects WHERE user_id = $1 AND (visibility = 'public' OR user_id = $2)",
+        [user.id, viewer?.id ?? null]
+    );
+    return {
+        username: user.username,
+        display_name: user.display_name,
+        bio: user.bio,
+        has_avatar: Boolean(user.avatar_url),
+        project_count: Number(count.rows[0]?.count ?? 0),
+        created_at: user.created_at,
+    };
+};
+
+// Invalid profile fields; the message is returned to the client with a 400.
+class ProfileValidationError extends Error {}
+
+// `undefined` leaves the field alone, an empty string clears it.
+const parseProfileText = (value: unknown, maxLength: number, label: string) => {
+    if (value === undefined) return undefined;
+    if (value === null) return null;
+    if (typeof value !== 'string') throw new ProfileValidationError(`${label}: ожидается строка`);
+    const trimmed = value.trim();
+    if (trimmed.length > maxLength) throw new ProfileValidationError(`${label}: не длиннее ${maxLength} символов`);
+    return trimmed || null;
+};
+
+app.get('/api/users/:username', async (req, res) => {
+    try {
+        const user = await getUserProfileRow(req.params.username);
+        if (!user) {
+            res.status(404).json({ error: 'Пользователь не найден' });
+            return;
+        }
+        res.json(await serializeUserProfile(user, req.user));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить профиль' });
+    }
+});
+
+app.get('/api/users/:username/projects', async (req, res) => {
+    try {
+        const user = await getUserProfileRow(req.params.username);
+        if (!user) {
+            res.status(404).json({ error: 'Пользователь не найден' });
+            return;
+        }
+        const filters = parseProjectListQuery(req.query);
+        res.json(await listProjects({ ...filters, owner: user.username }, req.user));
+    } catch (err) {
+        if (err instanceof ProjectListQueryError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить проекты' });
+    }
+});
+
+app.get('/api/users/:username/avatar', async (req, res) => {
+    try {
+        const user = await getUserProfileRow(req.params.username);
+        if (!user || !user.avatar_url) {
+            res.status(404).json({ error: 'Аватар не найден' });
+            return;
+        }
+        // Short cache: the URL stays the same when the avatar changes.
+        await sendStoredFile(req, res, { url: user.avatar_url, objectKey: user.avatar_object_key }, 'Аватар не найден', {
+            cacheControl: 'public, max-age=300',
+        });
+    } catch (err) {
+        console.error('Failed to serve avatar:', err);
+        res.status(500).json({ error: 'Не удалось получить аватар' });
+    }
+});
+
+app.put('/api/users/me', requireAuth, async (req, res) => {
+    try {
+        let displayName: string | null | undefined;
+        let bio: string | null | undefined;
+        try {
+            displayName = parseProfileText(req.body?.displayName, MAX_DISPLAY_NAME_LENGTH, 'Имя');
+            bio = parseProfileText(req.body?.bio, MAX_BIO_LENGTH, 'О себе');
+        } catch (validationErr) {
+            if (validationErr instanceof ProfileValidationError) {
+                res.status(400).json({ error: validationErr.message });
+                return;
+            }
+            throw validationErr;
+        }
+
+        await pool.query(
+            `
+            UPDATE users SET
+                display_name = CASE WHEN $1 THEN $2 ELSE display_name END,
+                bio = CASE WHEN $3 THEN $4 ELSE bio END
+            WHERE id = $5
+            `,
+            [displayName !== undefined, displayName ?? null, bio !== undefined, bio ?? null, req.user!.id]
+        );
+
+        const user = await getUserProfileRow(req.user!.username);
+        res.json(user && (await serializeUserProfile(user, req.user)));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось сохранить профиль' });
+    }
+});
+
+app.put('/api/users/me/avatar', requireAuth, uploadAvatarFile, async (req, res) => {
+    let storedAvatar: StoredFileRef | null = null;
+    try {
+        const file = req.file;
+        if (!file) {
+            res.status(400).json({ error: 'Нужно изображение' });
+            return;
+        }
+        const mimeType = sniffImageMimeType(file.buffer);
+        if (!mimeType) {
+            res.status(400).json({ error: 'Поддерживаются только PNG, JPEG, WebP и GIF' });
+            return;
+        }
+
+        const filename = `${Date.now()}-${crypto.randomBytes(8).toString('hex')}.${mimeTypeToImageExtension(mimeType)}`;
+        storedAvatar = await putStoredFile(`avatars/user-${req.user!.id}/${filename}`, file.buffer, {
+            contentType: mimeType,
+            contentLength: file.size,
+            cacheControl: 'public, max-age=31536000, immutable',
+        });
+
+        const previous = await pool.query<{ avatar_url: string | null; avatar_object_key: string | null }>(
+            'SELECT avatar_url, avatar_object_key FROM users WHERE id = $1',
+            [req.user!.id]
+        );
+        await pool.query('UPDATE users SET avatar_url = $1, avatar_object_key = $2 WHERE id = $3', [
+            storedAvatar.url,
+            storedAvatar.objectKey,
+            req.user!.id,
+        ]);
+        storedAvatar = null;
+
+        const old = previous.rows[0];
+        if (old?.avatar_url) await deleteStoredFile({ url: old.avatar_url, objectKey: old.avatar_object_key });
+
+        const user = await getUserProfileRow(req.user!.username);
+        res.json(user && (await serializeUserProfile(user, req.user)));
+    } catch (err) {
+        console.error(err);
+        if (storedAvatar) await deleteStoredFile(storedAvatar);
+        res.status(500).json({ error: 'Не удалось сохранить аватар' });
+    }
+});
+
+app.delete('/api/users/me/avatar', requireAuth, async (req, res) => {
+    try {
+        const previous = await pool.query<{ avatar_url: string | null; avatar_object_key: string | null }>(
+            `
+            UPDATE users u SET avatar_url = NULL, avatar_object_key = NULL
+            FROM (SELECT id, avatar_url, avatar_object_key FROM users WHERE id = $1) old
+            WHERE u.id = old.id
+            RETURNING old.avatar_url, old.avatar_object_key
+            `,
+            [req.user!.id]
+        );
+        const old = previous.rows[0];
+        if (old?.avatar_url) await deleteStoredFile({ url: old.avatar_url, objectKey: old.avatar_object_key });
+
+        const user = await getUserProfileRow(req.user!.username);
+        res.json(user && (await serializeUserProfile(user, req.user)));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось удалить аватар' });
+    }
+});
+
+app.get('/api/health', (req, res) => {
+    const requestBaseUrl = getRequestBaseUrl(req);
+    res.json({
+        ok: true,
+        r2Enabled: R2_ENABLED,
+        storageDriver: fileStorage.name,
+        openrouterConfigured: Boolean(OPENROUTER_API_KEY),
+        openrouterAnalysisModel: OPENROUTER_ANALYSIS_MODEL,
+        openrouterImageModel: OPENROUTER_IMAGE_MODEL,
+        openrouterSiteUrl: OPENROUTER_SITE_URL || requestBaseUrl,
+        requestBaseUrl,
+        allowMockAi: ALLOW_MOCK_AI,
+        maxUploadMb: MAX_UPLOAD_MB,
+        transcodingAvailable,
+        timestamp: new Date().toISOString(),
+    });
+});
+
+// Projects
+app.post('/api/projects', requireAuth, uploadAudioFile, async (req, res) => {
+    let storedAudio: { url: string; objectKey: string | null } | null = null;
+    try {
+        const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+        const file = req.file;
+        const visibility = req.body?.visibility === undefined ? 'public' : parseProjectVisibility(req.body.visibility);
+
+	        if (!file) {
+	            res.status(400).json({ error: 'Нужен аудиофайл' });
+	            return;
+	        }
+
+        if (file.size < 512) {
+	            res.status(400).json({ error: 'Аудиофайл пустой' });
+	            return;
+	        }
+
+        if (!visibility) {
+            res.status(400).json({ error: 'Видимость должна быть public, unlisted или private' });
+            return;
+        }
+
+        // Don't trust the extension or the browser's mime type: check what is actually inside.
+        let probe: AudioProbeResult;
+        try {
+            probe = probeAudio(await fs.promises.readFile(file.path));
+        } catch (probeErr) {
+            if (probeErr instanceof AudioProbeError) {
+                res.status(400).json({ error: probeErr.message });
+                return;
+            }
+            throw probeErr;
+        }
+
+        const ext = getSafeFileExtension(file.originalname);
+        storedAudio = await putStoredFile(
+            `audio/${Date.now()}-${crypto.randomBytes(8).toString('hex')}${ext}`,
+            fs.createReadStream(file.path),
+            { contentType: probe.mimeType, contentLength: file.size, cacheControl: 'public, max-age=31536000, immutable' }
+        );
+
+        const insertResult = await pool.query<{ id: number }>(
+            `
+            INSERT INTO projects (
+                name, audio_url, audio_object_key, user_id, visibility,
+                duration_seconds, sample_rate, channels, bitrate, audio_format, audio_codec, audio_mime_type, audio_size_bytes
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+            RETURNING id
+            `,
+            [
+                name || 'Без названия',
+                storedAudio.url,
+                storedAudio.objectKey,
+                req.user!.id,
+                visibility,
+                probe.durationSeconds,
+                probe.sampleRate,
+                probe.channels,
+                probe.bitrate,
+                probe.container,
+                probe.codec,
+                probe.mimeType,
+                file.size,
+            ]
+        );
+        const projectId = insertResult.rows[0].id;
+
+        // Renditions and the waveform are produced in the background; until then the original is served and analysed.
+        if (transcodingAvailable || probe.container === 'wav') {
+            try {
+                await enqueueJob({ type: 'ingest_audio', projectId, userId: req.user!.id });
+            } catch (enqueueErr) {
+                console.error(`Project ${projectId}: failed to enqueue audio ingest:`, enqueueErr);
+            }
+        }
+
+        const project = await getProjectWithOwner(projectId, req.user);
+        await recordAuditEvent(req, 'project.create', { type: 'project', id: projectId }, {
+            name: project?.name,
+            visibility: project?.visibility,
+        });
+        res.json(project && serializeProject(project));
+    } catch (err) {
+        console.error('Failed to create project:', { ...getErrorInfo(err), ...getPublicRuntimeConfig() });
+        if (storedAudio) await deleteStoredFile(storedAudio);
+	        if (DEBUG_ERRORS_ENABLED) {
+	            res.status(500).json({
+	                error: 'Не удалось создать проект',
+	                details: getErrorInfo(err),
+	                config: getPublicRuntimeConfig(),
+	            });
+	            return;
+	        }
+	        res.status(500).json({ error: 'Не удалось создать проект' });
+	    } finally {
+        if (req.file?.path) {
+            try {
+                fs.unlinkSync(req.file.path);
+            } catch {
+                // ignore
+            }
+        }
+    }
+});
+
+app.get('/api/projects', async (req, res) => {
+    try {
+        const filters = parseProjectListQuery(req.query);
+        res.json(await listProjects(filters, req.user));
+	    } catch (err) {
+        if (err instanceof ProjectListQueryError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+	        console.error(err);
+	        res.status(500).json({ error: 'Не удалось загрузить проекты' });
+	    }
+	});
+
+// Streams a stored file to the client, passing Range through so audio can seek. Legacy rows that point at an
+// external URL are proxied.
+const sendStoredFile = async (
+    req: express.Request,
+    res: express.Response,
+    file: StoredFileRef,
+    notFoundError: string,
+    options: { cacheControl?: string } = {}
+) => {
+    const rangeHeader = req.header('range') || undefined;
+    const location = locateStoredFile(file);
+
+    if (location) {
+        let object;
+        try {
+            object = await location.driver.get(location.key, { range: rangeHeader });
+        } catch (err) {
+            if (err instanceof StorageRangeError) {
+                res.status(416).end();
+                return;
+            }
+            throw err;
+        }
+        if (!object) {
+            res.status(404).json({ error: notFoundError });
+            return;
+        }
+
+        res.status(object.statusCode);
+        if (object.contentType) res.setHeader('content-type', object.contentType);
+        res.setHeader('content-length', String(object.contentLength));
+        res.setHeader('accept-ranges', 'bytes');
+        if (object.contentRange) res.setHeader('content-range', object.contentRange);
+        if (object.etag) res.setHeader('etag', object.etag);
+        if (object.lastModified) res.setHeader('last-modified', object.lastModified.toUTCString());
+        const cacheControl = options.cacheControl || object.cacheControl;
+        if (cacheControl) res.setHeader('cache-control', cacheControl);
+
+        const body = object.body;
+        res.on('close', () => body.destroy());
+        body.on('error', (err: unknown) => {
+            console.error(`Storage stream error for ${location.key}:`, err);
+            if (!res.headersSent) res.status(502);
+            res.end();
+        });
+        body.pipe(res);
+        return;
+    }
+
+    if (!file.url || !isHttpUrl(file.url)) {
+        res.status(400).json({ error: 'Некорректный URL файла' });
+        return;
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    const upstream = await axios.get(file.url, {
+        responseType: 'stream',
+        signal: controller.signal,
+        headers: rangeHeader ? { Range: rangeHeader } : {},
+        validateStatus: (status) => status >= 200 && status < 500,
+    });
+
+    if (upstream.status >= 400) {
+        res.status(upstream.status).send(upstream.statusText || 'Failed to fetch file');
+        return;
+    }
+
+    res.status(upstream.status);
+
+    const passthroughHeaders = [
+        'content-type',
+        'content-length',
+        'accept-ranges',
+        'content-range',
+        'etag',
+        'last-modified',
+        'cache-control',
+    ];
+    for (const headerName of passthroughHeaders) {
+        const value = upstream.headers[headerName];
+        if (typeof value === 'string' && value.length > 0) res.setHeader(headerName, value);
+    }
+    if (options.cacheControl) res.setHeader('cache-control', options.cacheControl);
+
+    upstream.data.on('error', (err: unknown) => {
+        console.error('File proxy stream error:', err);
+        if (!res.headersSent) res.status(502);
+        res.end();
+    });
+
+    upstream.data.pipe(res);
+};
+
+// Local files go through the same code path as the API routes instead of express.static, so a file that belongs
+// to a private project or collection cannot be fetched by its /uploads URL.
+const isPrivateLocalFile = async (url: string) => {
+    const result = await pool.query(
+        `
+        SELECT 1 FROM projects
+        WHERE visibility = 'private' AND $1 IN (audio_url, analysis_audio_url, playback_audio_url, waveform_url, cover_url)
+        UNION ALL
+        SELECT 1 FROM project_covers c JOIN projects p ON p.id = c.project_id WHERE p.visibility = 'private' AND c.url = $1
+        UNION ALL
+        SELECT 1 FROM collections WHERE visibility = 'private' AND cover_url = $1
+        LIMIT 1
+        `,
+        [url]
+    );
+    return result.rows.length > 0;
+};
+
+app.get('/uploads/*', async (req, res) => {
+    try {
+        const url = decodeURIComponent(req.path);
+        if (await isPrivateLocalFile(url)) {
+            res.status(404).json({ error: 'Файл не найден' });
+            return;
+        }
+        await sendStoredFile(req, res, { url, objectKey: null }, 'Файл не найден');
+    } catch (err) {
+        console.error(err);
+        if (!res.headersSent) res.status(500).json({ error: 'Не удалось отдать файл' });
+    }
+});
+
+app.get('/api/projects/:id/audio', async (req, res) => {
+    const { id } = req.params;
+    try {
+        const result = await pool.query<
+            Pick<
+                ProjectRow,
+                | 'id'
+                | 'visibility'
+                | 'user_id'
+                | 'audio_url'
+                | 'audio_object_key'
+                | 'playback_audio_url'
+                | 'playback_audio_object_key'
+            >
+        >(
+            `
+            SELECT id, visibility, user_id, audio_url, audio_object_key, playback_audio_url, playback_audio_object_key
+            FROM projects WHERE id = $1
+            `,
+            [id]
+        );
+        if (result.rows.length === 0 || !canAccessProjectMedia(req, result.rows[0])) {
+            res.status(404).json({ error: 'Проект не найден' });
+            return;
+        }
+
+        // The transcoded playback file is served by default; ?variant=original returns the upload as-is.
+        const row = result.rows[0];
+        const usePlayback = req.query.variant !== 'original' && Boolean(row.playback_audio_url);
+        const audioUrl = usePlayback ? row.playback_audio_url : row.audio_url;
+        const audioObjectKey = usePlayback ? row.playback_audio_object_key : row.audio_object_key;
+
+        await sendStoredFile(req, res, { url: audioUrl, objectKey: audioObjectKey ?? null }, 'Аудио не найдено', {
+            cacheControl: projectMediaCacheControl(row),
+        });
+
+        // A play is a GET for the start of the file; HEAD probes, seeks (later ranges) and ?variant=original downloads
+        // are not.
+        const range = req.header('range');
+        const isStartOfFile = !range || /^bytes=0-/.test(range.trim());
+        if (req.method === 'GET' && req.query.variant !== 'original' && isStartOfFile && res.statusCode < 300) {
+            recordProjectPlay(row.id, req).catch((playErr) => console.error(`Project ${row.id}: failed to record play:`, playErr));
+        }
+	    } catch (err) {
+	        console.error('Failed to serve project audio:', { ...getErrorInfo(err), ...getPublicRuntimeConfig() });
+	        if (DEBUG_ERRORS_ENABLED) {
+	            res.status(500).json({
+	                error: 'Не удалось получить аудио',
+	                details: getErrorInfo(err),
+	                config: getPublicRuntimeConfig(),
+	            });
+	            return;
+	        }
+	        res.status(500).json({ error: 'Не удалось получить аудио' });
+	    }
+	});
+
+app.get('/api/projects/:id/waveform', async (req, res) => {
+    try {
+        const result = await pool.query<Pick<ProjectRow, 'id' | 'visibility' | 'user_id' | 'waveform_url' | 'waveform_object_key'>>(
+            'SELECT id, visibility, user_id, waveform_url, waveform_object_key FROM projects WHERE id = $1',
+            [req.params.id]
+        );
+        if (result.rows.length === 0 || !canAccessProjectMedia(req, result.rows[0])) {
+            res.status(404).json({ error: 'Проект не найден' });
+            return;
+        }
+
+        const { waveform_url: waveformUrl, waveform_object_key: waveformObjectKey } = result.rows[0];
+        if (!waveformUrl) {
+            res.status(404).json({ error: 'Волна для этого трека ещё не готова' });
+            return;
+        }
+
+        // Peaks are written once per project, so a day of caching is safe.
+        await sendStoredFile(req, res, { url: waveformUrl, objectKey: waveformObjectKey }, 'Волна не найдена', {
+            cacheControl: projectMediaCacheControl(result.rows[0]) || 'public, max-age=86400',
+        });
+    } catch (err) {
+        console.error('Failed to serve waveform:', err);
+        res.status(500).json({ error: 'Не удалось получить волну' });
+    }
+});
+
+app.get('/api/projects/:id/cover', async (req, res) => {
+    const { id } = req.params;
+    try {
+        const result = await pool.query<Pick<ProjectRow, 'id' | 'visibility' | 'user_id' | 'cover_url' | 'cover_object_key'>>(
+            'SELECT id, visibility, user_id, cover_url, cover_object_key FROM projects WHERE id = $1',
+            [id]
+        );
+        if (result.rows.length === 0 || !canAccessProjectMedia(req, result.rows[0])) {
+            res.status(404).json({ error: 'Проект не найден' });
+            return;
+        }
+
+	        const { cover_url: coverUrl, cover_object_key: coverObjectKey } = result.rows[0];
+	        if (!coverUrl && !coverObjectKey) {
+	            res.status(404).json({ error: 'Обложка не найдена' });
+	            return;
+	        }
+
+        await sendStoredFile(req, res, { url: coverUrl, objectKey: coverObjectKey ?? null }, 'Обложка не найдена', {
+            cacheControl: projectMediaCacheControl(result.rows[0]),
+        });
+	    } catch (err) {
+	        console.error('Failed to serve project cover:', { ...getErrorInfo(err), ...getPublicRuntimeConfig() });
+	        if (DEBUG_ERRORS_ENABLED) {
+	            res.status(500).json({
+	                error: 'Не удалось получить обложку',
+	                details: getErrorInfo(err),
+	                config: getPublicRuntimeConfig(),
+	            });
+	            return;
+	        }
+	        res.status(500).json({ error: 'Не удалось получить обложку' });
+	    }
+	});
+
+app.get('/api/projects/:id/covers', async (req, res) => {
+    try {
+        const project = await getProjectWithOwner(req.params.id);
+        if (!project || !canViewProject(project, req.user)) {
+            res.status(404).json({ error: 'Проект не найден' });
+            return;
+        }
+
+        const result = await pool.query<ProjectCoverRow>(
+            'SELECT * FROM project_covers WHERE project_id = $1 ORDER BY created_at DESC, id DESC',
+            [project.id]
+        );
+        const mediaToken = project.visibility === 'private' ? createMediaToken(project.id).token : null;
+        res.json(
+            result.rows.map((cover) => ({
+                ...cover,
+                ...(mediaToken && {
+                    url: `/api/projects/${project.id}/covers/${cover.id}/image?token=${encodeURIComponent(mediaToken)}`,
+                    object_key: null,
+                }),
+                is_active: cover.id === project.cover_id,
+            }))
+        );
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить историю обложек' });
+    }
+});
+
+app.get('/api/projects/:id/covers/:coverId/image', async (req, res) => {
+    try {
+        const result = await pool.query<ProjectCoverRow & Pick<ProjectRow, 'visibility' | 'user_id'>>(
+            `
+            SELECT c.*, p.visibility, p.user_id
+            FROM project_covers c
+            JOIN projects p ON p.id = c.project_id
+            WHERE c.id = $1 AND c.project_id = $2
+            `,
+            [req.params.coverId, req.params.id]
+        );
+        const cover = result.rows[0];
+        if (!cover || !canAccessProjectMedia(req, { ...cover, id: cover.project_id })) {
+            res.status(404).json({ error: 'Обложка не найдена' });
+            return;
+        }
+
+        await sendStoredFile(req, res, { url: cover.url, objectKey: cover.object_key }, 'Обложка не найдена', {
+            cacheControl: projectMediaCacheControl(cover),
+        });
+    } catch (err) {
+        console.error('Failed to serve cover version:', { ...getErrorInfo(err), ...getPublicRuntimeConfig() });
+        res.status(500).json({ error: 'Не удалось получить обложку' });
+    }
+});
+
+app.post('/api/projects/:id/covers/:coverId/activate', requireAuth, async (req, res) => {
+    try {
+        const access = await requireProjectWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        const result = await pool.query<ProjectCoverRow>(
+            'SELECT * FROM project_covers WHERE id = $1 AND project_id = $2',
+            [req.params.coverId, access.project.id]
+        );
+        if (result.rows.length === 0) {
+            res.status(404).json({ error: 'Обложка не найдена' });
+            return;
+        }
+
+        await setActiveProjectCover(access.project.id, result.rows[0] as ProjectCoverRow);
+        await recordAuditEvent(req, 'project.cover_activate', { type: 'project', id: access.project.id }, {
+            cover_id: { from: access.project.cover_id ?? null, to: Number(req.params.coverId) },
+        });
+        const updated = await getProjectWithOwner(access.project.id, req.user);
+        res.json(updated && serializeProject(updated));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось выбрать обложку' });
+    }
+});
+
+app.post('/api/projects/:id/covers/candidates/keep', requireAuth, async (req, res) => {
+    try {
+        const access = await requireProjectWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        const result = await pool.query(
+            "UPDATE project_covers SET status = 'kept' WHERE project_id = $1 AND status = 'candidate'",
+            [access.project.id]
+        );
+        if (result.rowCount) {
+            await recordAuditEvent(req, 'project.covers_keep', { type: 'project', id: access.project.id }, { kept: result.rowCount });
+        }
+        res.json({ ok: true, kept: result.rowCount ?? 0 });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось сохранить варианты обложки' });
+    }
+});
+
+app.post('/api/projects/:id/covers/candidates/discard', requireAuth, async (req, res) => {
+    try {
+        const access = await requireProjectWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        const result = await pool.query<ProjectCoverRow>(
+            "DELETE FROM project_covers WHERE project_id = $1 AND status = 'candidate' RETURNING *",
+            [access.project.id]
+        );
+        for (const cover of result.rows) {
+            await deleteStoredFile({ url: cover.url, objectKey: cover.object_key });
+        }
+        if (result.rows.length > 0) {
+            await recordAuditEvent(req, 'project.covers_discard', { type: 'project', id: access.project.id }, {
+                discarded: result.rows.length,
+            });
+        }
+        res.json({ ok: true, discarded: result.rows.length });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось удалить варианты обложки' });
+    }
+});
+
+app.get('/api/projects/:id', async (req, res) => {
+    try {
+        const project = await getProjectWithOwner(req.params.id, req.user);
+        if (!project || !canViewProject(project, req.user)) {
+            res.status(404).json({ error: 'Проект не найден' });
+            return;
+        }
+        res.json(serializeProject(project));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось получить проект' });
+    }
+});
+
+// Likes are idempotent: liking twice or unliking a project you never liked just returns the current state.
+const setProjectLike = async (req: express.Request, res: express.Response, liked: boolean) => {
+    try {
+        const project = await getProjectWithOwner(req.params.id);
+        if (!project || !canViewProject(project, req.user)) {
+            res.status(404).json({ error: 'Проект не найден' });
+            return;
+        }
+
+        const changeSql = liked
+            ? 'INSERT INTO project_likes (project_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING RETURNING project_id'
+            : 'DELETE FROM project_likes WHERE project_id = $1 AND user_id = $2 RETURNING project_id';
+        const result = await pool.query<{ like_count: number }>(
+            `
+            WITH changed AS (${changeSql})
+            UPDATE projects SET like_count = like_count ${liked ? '+' : '-'} (SELECT COUNT(*) FROM changed)
+            WHERE id = $1
+            RETURNING like_count
+            `,
+            [project.id, req.user!.id]
+        );
+        res.json({ liked, like_count: result.rows[0]?.like_count ?? project.like_count });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось обновить лайк' });
+    }
+};
+
+app.put('/api/projects/:id/like', requireAuth, (req, res) => setProjectLike(req, res, true));
+app.delete('/api/projects/:id/like', requireAuth, (req, res) => setProjectLike(req, res, false));
+
+app.put('/api/projects/:id', requireAuth, async (req, res) => {
+    try {
+        // Both fields are optional, but whatever is sent has to be valid.
+        const name = typeof req.body?.name === 'string' ? req.body.name.trim() : null;
+        if (req.body?.name !== undefined && !name) {
+            res.status(400).json({ error: 'Название обязательно' });
+            return;
+        }
+        const visibility = req.body?.visibility === undefined ? null : parseProjectVisibility(req.body.visibility);
+        if (req.body?.visibility !== undefined && !visibility) {
+            res.status(400).json({ error: 'Видимость должна быть public, unlisted или private' });
+            return;
+        }
+        if (!name && !visibility) {
+            res.status(400).json({ error: 'Нечего обновлять' });
+            return;
+        }
+
+        const access = await requireProjectWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        const becomesPrivate = visibility === 'private' && access.project.visibility !== 'private';
+        await replaceFilesWithCopies(becomesPrivate ? await listProjectFiles(access.project) : [], async (client, copies) => {
+            await client.query(
+                'UPDATE projects SET name = COALESCE($1, name), visibility = COALESCE($2, visibility) WHERE id = $3',
+                [name, visibility, access.project.id]
+            );
+            await switchProjectFilesToCopies(client, access.project, copies);
+        });
+        const changes = diffFields(access.project, { name, visibility });
+        if (changes) await recordAuditEvent(req, 'project.update', { type: 'project', id: access.project.id }, changes);
+        const updated = await getProjectWithOwner(req.params.id, req.user);
+        res.json(updated && serializeProject(updated));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось обновить проект' });
+    }
+});
+
+app.get('/api/projects/:id/activity', requireAuth, async (req, res) => {
+    try {
+        const access = await requireProjectWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        res.json(
+            await listAuditEvents(
+                {
+                    targetType: 'project',
+                    targetId: String(access.project.id),
+                    actor: getStringParam(req.query.actor),
+                    action: getStringParam(req.query.action),
+                    cursor: getStringParam(req.query.cursor),
+                    limit: getStringParam(req.query.limit),
+                },
+                { includeIp: req.user!.role === 'admin' }
+            )
+        );
+    } catch (err) {
+        if (err instanceof AuditQueryError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить историю проекта' });
+    }
+});
+
+app.delete('/api/projects/:id', requireAuth, async (req, res) => {
+    try {
+        const access = await requireProjectWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        const project = access.project;
+        const covers = await pool.query<ProjectCoverRow>('SELECT * FROM project_covers WHERE project_id = $1', [
+            req.params.id,
+        ]);
+        await pool.query('DELETE FROM projects WHERE id = $1', [req.params.id]);
+        await recordAuditEvent(req, 'project.delete', { type: 'project', id: project.id }, {
+            name: project.name,
+            ownerId: project.user_id,
+        });
+
+        await deleteStoredFile({ url: project.audio_url, objectKey: project.audio_object_key ?? null });
+        await deleteStoredFile({ url: project.analysis_audio_url, objectKey: project.analysis_audio_object_key });
+        await deleteStoredFile({ url: project.playback_audio_url, objectKey: project.playback_audio_object_key });
+        await deleteStoredFile({ url: project.waveform_url, objectKey: project.waveform_object_key });
+
+        const coversToDelete = new Map<string, { url: string | null; objectKey: string | null }>();
+        if (project.cover_url || project.cover_object_key) {
+            coversToDelete.set(`${project.cover_object_key}|${project.cover_url}`, {
+                url: project.cover_url,
+                objectKey: project.cover_object_key ?? null,
+            });
+        }
+        for (const cover of covers.rows) {
+            coversToDelete.set(`${cover.object_key}|${cover.url}`, { url: cover.url, objectKey: cover.object_key });
+        }
+        for (const cover of coversToDelete.values()) {
+            await deleteStoredFile(cover);
+        }
+
+        res.json({ ok: true });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось удалить проект' });
+    }
+});
+
+// Comments
+const MAX_COMMENT_LENGTH = 2000;
+
+type ProjectCommentRow = {
+    id: number;
+    project_id: number;
+    user_id: number;
+    parent_id: number | null;
+    body: string | null;
+    timestamp_seconds: number | null;
+    created_at: string;
+    edited_at: string | null;
+    deleted_at: string | null;
+    author_username: string;
+    author_display_name: string | null;
+    author_avatar_url: string | null;
+};
+
+const PROJECT_COMMENT_SELECT_SQL = `
+    SELECT c.*, u.username AS author_username, u.display_name AS author_display_name, u.avatar_url AS author_avatar_url
+    FROM project_comments c
+    JOIN users u ON u.id = c.user_id
+`;
+
+// A deleted comment that still has replies stays in the thread as a placeholder, without its text or author.
+const serializeComment = (comment: ProjectCommentRow) => {
+    const deleted = Boolean(comment.deleted_at);
+    return {
+        id: comment.id,
+        parent_id: comment.parent_id,
+        body: deleted ? null : comment.body,
+        timestamp_seconds: deleted ? null : comment.timestamp_seconds,
+        author: deleted
+            ? null
+            : {
+                  username: comment.author_username,
+                  display_name: comment.author_display_name,
+                  has_avatar: Boolean(comment.author_avatar_url),
+              },
+        created_at: comment.created_at,
+        edited_at: comment.edited_at,
+        deleted,
+    };
+};
+
+const getProjectComment = async (projectId: number, commentId: number) => {
+    const result = await pool.query<ProjectCommentRow>(`${PROJECT_COMMENT_SELECT_SQL} WHERE c.id = $1 AND c.project_id = $2`, [
+        commentId,
+        projectId,
+    ]);
+    return result.rows[0] ?? null;
+};
+
+// Invalid comment fields; the message is returned to the client with a 400.
+class CommentValidationError extends Error {}
+
+const parseCommentBody = (value: unknown) => {
+    if (typeof value !== 'string' || !value.trim()) throw new CommentValidationError('Текст комментария обязателен');
+    const body = value.trim();
+    if (body.length > MAX_COMMENT_LENGTH) {
+        throw new CommentValidationError(`Комментарий не длиннее ${MAX_COMMENT_LENGTH} символов`);
+    }
+    return body;
+};
+
+// Seconds into the track, kept to a tenth. `undefined` leaves the field alone, null removes the timestamp.
+const parseCommentTimestamp = (value: unknown, durationSeconds: number | null) => {
+    if (value === undefined) return undefined;
+    if (value === null) return null;
+    const seconds = Number(value);
+    if (typeof value === 'boolean' || !Number.isFinite(seconds) || seconds < 0) {
+        throw new CommentValidationError('Метка времени должна быть неотрицательным числом секунд');
+    }
+    if (durationSeconds && seconds > durationSeconds) {
+        throw new CommentValidationError('Метка времени за пределами трека');
+    }
+    return Math.round(seconds * 10) / 10;
+};
+
+// Everyone who can see the project can read and write comments. Threads are one level deep: a reply to a reply
+// joins the thread of its root comment.
+app.get('/api/projects/:id/comments', async (req, res) => {
+    try {
+        const project = await getProjectWithOwner(req.params.id);
+        if (!project || !canViewProject(project, req.user)) {
+            res.status(404).json({ error: 'Проект не найден' });
+            return;
+        }
+
+        const result = await pool.query<ProjectCommentRow>(
+            `${PROJECT_COMMENT_SELECT_SQL} WHERE c.project_id = $1 ORDER BY c.created_at, c.id`,
+            [project.id]
+        );
+        res.json(result.rows.map(serializeComment));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить комментарии' });
+    }
+});
+
+app.post('/api/projects/:id/comments', requireAuth, async (req, res) => {
+    try {
+        const project = await getProjectWithOwner(req.params.id);
+        if (!project || !canViewProject(project, req.user)) {
+            res.status(404).json({ error: 'Проект не найден' });
+            return;
+        }
+
+        const body = parseCommentBody(req.body?.body);
+        const timestampSeconds = parseCommentTimestamp(req.body?.timestampSeconds, project.duration_seconds) ?? null;
+
+        let parentId: number | null = null;
+        if (req.body?.parentId !== undefined && req.body?.parentId !== null) {
+            const requestedParentId = parseRowId(req.body.parentId);
+            if (requestedParentId === null) throw new CommentValidationError('parentId должен быть id комментария');
+            const parent = await getProjectComment(project.id, requestedParentId);
+            if (!parent || parent.deleted_at) {
+                res.status(400).json({ error: 'Комментарий, на который вы отвечаете, не найден' });
+                return;
+            }
+            parentId = parent.parent_id ?? parent.id;
+        }
+
+        const inserted = await pool.query<{ id: number }>(
+            `
+            INSERT INTO project_comments (project_id, user_id, parent_id, body, timestamp_seconds)
+            VALUES ($1, $2, $3, $4, $5)
+            RETURNING id
+            `,
+            [project.id, req.user!.id, parentId, body, timestampSeconds]
+        );
+        const comment = await getProjectComment(project.id, inserted.rows[0].id);
+        res.status(201).json(comment && serializeComment(comment));
+    } catch (err) {
+        if (err instanceof CommentValidationError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось добавить комментарий' });
+    }
+});
+
+// Only the author edits a comment; the text is required, the timestamp is optional.
+app.put('/api/projects/:id/comments/:commentId', requireAuth, async (req, res) => {
+    try {
+        const project = await getProjectWithOwner(req.params.id);
+        if (!project || !canViewProject(project, req.user)) {
+            res.status(404).json({ error: 'Проект не найден' });
+            return;
+        }
+        const commentId = parseRowId(req.params.commentId);
+        const comment = commentId === null ? null : await getProjectComment(project.id, commentId);
+        if (!comment || comment.deleted_at) {
+            res.status(404).json({ error: 'Комментарий не найден' });
+            return;
+        }
+        if (comment.user_id !== req.user!.id) {
+            res.status(403).json({ error: 'Редактировать можно только свои комментарии' });
+            return;
+        }
+
+        const body = parseCommentBody(req.body?.body);
+        const timestampSeconds = parseCommentTimestamp(req.body?.timestampSeconds, project.duration_seconds);
+        await pool.query(
+            `
+            UPDATE project_comments
+            SET body = $1,
+                timestamp_seconds = CASE WHEN $2 THEN $3::float8 ELSE timestamp_seconds END,
+                edited_at = NOW()
+            WHERE id = $4
+            `,
+            [body, timestampSeconds !== undefined, timestampSeconds ?? null, comment.id]
+        );
+        const updated = await getProjectComment(project.id, comment.id);
+        res.json(updated && serializeComment(updated));
+    } catch (err) {
+        if (err instanceof CommentValidationError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось изменить комментарий' });
+    }
+});
+
+// Authors delete their own comments; the project owner and admins can remove any. Comments with replies are blanked
+// instead, so the thread keeps its shape, and a blanked root goes away with its last reply.
+app.delete('/api/projects/:id/comments/:commentId', requireAuth, async (req, res) => {
+    try {
+        const project = await getProjectWithOwner(req.params.id);
+        if (!project) {
+            res.status(404).json({ error: 'Проект не найден' });
+            return;
+        }
+        const commentId = parseRowId(req.params.commentId);
+        const comment = commentId === null ? null : await getProjectComment(project.id, commentId);
+        if (!comment || comment.deleted_at) {
+            res.status(404).json({ error: 'Комментарий не найден' });
+            return;
+        }
+        const user = req.user!;
+        const isAuthor = comment.user_id === user.id;
+        if (!isAuthor && user.role !== 'admin' && project.user_id !== user.id) {
+            res.status(403).json({ error: 'Доступ запрещён' });
+            return;
+        }
+
+        const softDeleted = await pool.query(
+            `
+            UPDATE project_comments
+            SET body = NULL, timestamp_seconds = NULL, deleted_at = NOW()
+            WHERE id = $1 AND EXISTS (SELECT 1 FROM project_comments r WHERE r.parent_id = $1)
+            `,
+            [comment.id]
+        );
+        if (!softDeleted.rowCount) {
+            await pool.query('DELETE FROM project_comments WHERE id = $1', [comment.id]);
+            if (comment.parent_id) {
+                await pool.query(
+                    `
+                    DELETE FROM project_comments
+                    WHERE id = $1 AND deleted_at IS NOT NULL
+                      AND NOT EXISTS (SELECT 1 FROM project_comments r WHERE r.parent_id = $1)
+                    `,
+                    [comment.parent_id]
+                );
+            }
+        }
+
+        // Authors tidying up after themselves are not worth an audit entry; moderation is.
+        if (!isAuthor) {
+            await recordAuditEvent(req, 'project.comment_delete', { type: 'project', id: project.id }, {
+                commentId: comment.id,
+                author: comment.author_username,
+            });
+        }
+        res.json({ ok: true });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось удалить комментарий' });
+    }
+});
+
+// Collections
+const MAX_COLLECTION_TITLE_LENGTH = 200;
+const MAX_COLLECTION_DESCRIPTION_LENGTH = 2000;
+const MAX_COLLECTION_TRACKS = 100;
+
+type CollectionRow = {
+    id: number;
+    user_id: number;
+    title: string;
+    description: string | null;
+    visibility: ProjectVisibility;
+    cover_url: string | null;
+    cover_object_key: string | null;
+    cover_prompt: string | null;
+    cover_size_bytes: number | null;
+    cover_updated_at: string | null;
+    created_at: string;
+    updated_at: string;
+    owner_username?: string | null;
+    track_count?: number;
+};
+
+// The track count follows the gallery rules, so it matches the tracks the viewer will actually get.
+// track_count counts the tracks the viewer can see, by the same rule as canViewProject in listCollectionTracks.
+const collectionSelectSql = (viewerIdParam: string, viewerIsAdminParam: string) => `
+    SELECT c.*, u.username AS owner_username,
+        (
+            SELECT COUNT(*)::int
+            FROM collection_items i
+            JOIN projects p ON p.id = i.project_id
+            WHERE i.collection_id = c.id
+                AND (p.visibility <> 'private' OR p.user_id = ${viewerIdParam} OR ${viewerIsAdminParam})
+        ) AS track_count
+    FROM collections c
+    JOIN users u ON u.id = c.user_id
+`;
+
+const getCollectionWithOwner = async (collectionId: number | string, viewer?: AuthUser) => {
+    const result = await pool.query<CollectionRow>(`${collectionSelectSql('$2', '$3')} WHERE c.id = $1`, [
+        collectionId,
+        viewer?.id ?? null,
+        viewer?.role === 'admin',
+    ]);
+    return result.rows[0] ?? null;
+};
+
+const requireCollectionWriteAccess = async (collectionId: string, user: AuthUser) => {
+    const result = await pool.query<CollectionRow>('SELECT * FROM collections WHERE id = $1', [collectionId]);
+    if (result.rows.length === 0) return { ok: false as const, status: 404 as const, error: 'Коллекция не найдена' };
+    const collection = result.rows[0] as CollectionRow;
+    if (user.role !== 'admin' && collection.user_id !== user.id) {
+        return { ok: false as const, status: 403 as const, error: 'Доступ запрещён' };
+    }
+    return { ok: true as const, collection };
+};
+
+// Same rules and the same signed-link scheme as projects: a private collection never exposes its storage URL.
+const serializeCollection = (collection: CollectionRow) => {
+    if (collection.visibility !== 'private') return collection;
+
+    const { token, expiresAt } = createMediaToken(collection.id, 'collection');
+    return {
+        ...collection,
+        cover_url: collection.cover_url ? `/api/collections/${collection.id}/cover?token=${encodeURIComponent(token)}` : null,
+        cover_object_key: null,
+        media_token: token,
+        media_token_expires_at: new Date(expiresAt).toISOString(),
+    };
+};
+
+// Tracks in collection order. Private tracks are only listed for those who may open them; unlisted ones are, since
+// the collection is the link.
+const listCollectionTracks = async (collectionId: number, viewer: AuthUser | undefined) => {
+    const result = await pool.query<ProjectRow & { position: number }>(
+        `
+        SELECT p.*, u.username AS owner_username, ${projectLikedSql('$2')} AS liked, i.position
+        FROM collection_items i
+        JOIN projects p ON p.id = i.project_id
+        LEFT JOIN users u ON u.id = p.user_id
+        WHERE i.collection_id = $1
+        ORDER BY i.position, p.id
+        `,
+        [collectionId, viewer?.id ?? null]
+    );
+    return result.rows.filter((project) => canViewProject(project, viewer)).map(serializeProject);
+};
+
+const getCollectionPayload = async (collectionId: number | string, viewer: AuthUser | undefined) => {
+    const collection = await getCollectionWithOwner(collectionId, viewer);
+    if (!collection) return null;
+    return { ...serializeCollection(collection), tracks: await listCollectionTracks(collection.id, viewer) };
+};
+
+// Invalid collection fields; the message is returned to the client with a 400.
+class CollectionValidationError extends Error {}
+
+// `undefined` leaves the field alone; only the description may be cleared.
+const parseCollectionText = (value: unknown, maxLength: number, label: string, required: boolean) => {
+    if (value === undefined) return undefined;
+    if (value !== null && typeof value !== 'string') throw new CollectionValidationError(`${label}: ожидается строка`);
+    const trimmed = (value ?? '').trim();
+    if (!trimmed && required) throw new CollectionValidationError(`${label}: обязательное поле`);
+    if (trimmed.length > maxLength) throw new CollectionValidationError(`${label}: не длиннее ${maxLength} символов`);
+    return trimmed || null;
+};
+
+const parseCollectionVisibility = (value: unknown) => {
+    if (value === undefined) return undefined;
+    const visibility = parseProjectVisibility(value);
+    if (!visibility) throw new CollectionValidationError('Видимость должна быть public, unlisted или private');
+    return visibility;
+};
+
+const parseCollectionProjectIds = (value: unknown) => {
+    if (!Array.isArray(value)) throw new CollectionValidationError('projectIds: ожидается массив');
+    const ids = value.map(Number);
+    if (ids.some((id) => !Number.isSafeInteger(id) || id <= 0)) {
+        throw new CollectionValidationError('projectIds: ожидаются идентификаторы проектов');
+    }
+    if (new Set(ids).size !== ids.length) throw new CollectionValidationError('Трек не может повторяться в коллекции');
+    if (ids.length > MAX_COLLECTION_TRACKS) {
+        throw new CollectionValidationError(`В коллекции не больше ${MAX_COLLECTION_TRACKS} треков`);
+    }
+    return ids;
+};
+
+// Replaces the track list with `projectIds` in that order. Collections are built from the owner's own projects.
+const setCollectionTracks = async (collection: Pick<CollectionRow, 'id' | 'user_id'>, projectIds: number[]) => {
+    const owned = await pool.query<{ count: number }>(
+        'SELECT COUNT(*)::int AS count FROM projects WHERE id = ANY($1::int[]) AND user_id = $2',
+        [projectIds, collection.user_id]
+    );
+    if ((owned.rows[0]?.count ?? 0) !== projectIds.length) {
+        throw new CollectionValidationError('В коллекцию можно добавить только треки её автора');
+    }
+
+    await pool.query(
+        `
+        WITH input AS (
+            SELECT t.id, t.ord::int AS position FROM unnest($2::int[]) WITH ORDINALITY AS t(id, ord)
+        ), upserted AS (
+            INSERT INTO collection_items (collection_id, project_id, position)
+            SELECT $1, id, position FROM input
+            ON CONFLICT (collection_id, project_id) DO UPDATE SET position = EXCLUDED.position
+        )
+        DELETE FROM collection_items WHERE collection_id = $1 AND project_id <> ALL($2::int[])
+        `,
+        [collection.id, projectIds]
+    );
+    await pool.query('UPDATE collections SET updated_at = NOW() WHERE id = $1', [collection.id]);
+};
+
+// Public and the viewer's own collections, like the projects on the same profile page.
+app.get('/api/users/:username/collections', async (req, res) => {
+    try {
+        const user = await getUserProfileRow(req.params.username);
+        if (!user) {
+            res.status(404).json({ error: 'Пользователь не найден' });
+            return;
+        }
+        const result = await pool.query<CollectionRow>(
+            `
+            ${collectionSelectSql('$2', '$3')}
+            WHERE c.user_id = $1 AND (c.visibility = 'public' OR c.user_id = $2)
+            ORDER BY c.created_at DESC, c.id DESC
+            `,
+            [user.id, req.user?.id ?? null, req.user?.role === 'admin']
+        );
+        res.json(result.rows.map(serializeCollection));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить коллекции' });
+    }
+});
+
+app.post('/api/collections', requireAuth, async (req, res) => {
+    try {
+        const title = parseCollectionText(req.body?.title ?? null, MAX_COLLECTION_TITLE_LENGTH, 'Название', true)!;
+        const description = parseCollectionText(req.body?.description, MAX_COLLECTION_DESCRIPTION_LENGTH, 'Описание', false);
+        const visibility = parseCollectionVisibility(req.body?.visibility) ?? 'public';
+        const projectIds = req.body?.projectIds === undefined ? [] : parseCollectionProjectIds(req.body.projectIds);
+
+        const inserted = await pool.query<CollectionRow>(
+            'INSERT INTO collections (user_id, title, description, visibility) VALUES ($1, $2, $3, $4) RETURNING *',
+            [req.user!.id, title, description ?? null, visibility]
+        );
+        const collection = inserted.rows[0] as CollectionRow;
+        if (projectIds.length > 0) {
+            try {
+                await setCollectionTracks(collection, projectIds);
+            } catch (err) {
+                // Don't leave an empty collection behind because one of the ids was wrong.
+                await pool.query('DELETE FROM collections WHERE id = $1', [collection.id]);
+                throw err;
+            }
+        }
+
+        await recordAuditEvent(req, 'collection.create', { type: 'collection', id: collection.id }, {
+            title,
+            visibility,
+            tracks: projectIds.length,
+        });
+        res.status(201).json(await getCollectionPayload(collection.id, req.user));
+    } catch (err) {
+        if (err instanceof CollectionValidationError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось создать коллекцию' });
+    }
+});
+
+app.get('/api/collections/:id', async (req, res) => {
+    try {
+        const collection = await getCollectionWithOwner(req.params.id, req.user);
+        if (!collection || !canViewProject(collection, req.user)) {
+            res.status(404).json({ error: 'Коллекция не найдена' });
+            return;
+        }
+        res.json({ ...serializeCollection(collection), tracks: await listCollectionTracks(collection.id, req.user) });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить коллекцию' });
+    }
+});
+
+app.put('/api/collections/:id', requireAuth, async (req, res) => {
+    try {
+        const title = parseCollectionText(req.body?.title, MAX_COLLECTION_TITLE_LENGTH, 'Название', true);
+        const description = parseCollectionText(req.body?.description, MAX_COLLECTION_DESCRIPTION_LENGTH, 'Описание', false);
+        const visibility = parseCollectionVisibility(req.body?.visibility);
+        if (title === undefined && description === undefined && visibility === undefined) {
+            res.status(400).json({ error: 'Нечего обновлять' });
+            return;
+        }
+
+        const access = await requireCollectionWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        const { collection } = access;
+        const cover = { url: collection.cover_url, objectKey: collection.cover_object_key };
+        const becomesPrivate = visibility === 'private' && collection.visibility !== 'private';
+        await replaceFilesWithCopies(becomesPrivate ? [cover] : [], async (client, copies) => {
+            await client.query(
+                `
+                UPDATE collections
+                SET title = COALESCE($1, title),
+                    description = CASE WHEN $2 THEN $3 ELSE description END,
+                    visibility = COALESCE($4, visibility),
+                    updated_at = NOW()
+                WHERE id = $5
+                `,
+                [title ?? null, description !== undefined, description ?? null, visibility ?? null, collection.id]
+            );
+            const coverCopy = cover.url ? copies.get(cover.url) : undefined;
+            if (coverCopy) {
+                await client.query('UPDATE collections SET cover_url = $1, cover_object_key = $2 WHERE id = $3', [
+                    coverCopy.copy.url,
+                    coverCopy.copy.objectKey,
+                    collection.id,
+                ]);
+            }
+        });
+        const changes = diffFields(access.collection, { title, description, visibility });
+        if (changes) await recordAuditEvent(req, 'collection.update', { type: 'collection', id: access.collection.id }, changes);
+        res.json(await getCollectionPayload(access.collection.id, req.user));
+    } catch (err) {
+        if (err instanceof CollectionValidationError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось обновить коллекцию' });
+    }
+});
+
+// The whole ordered list at once: adding, removing and reordering are all the same call.
+app.put('/api/collections/:id/tracks', requireAuth, async (req, res) => {
+    try {
+        const projectIds = parseCollectionProjectIds(req.body?.projectIds);
+        const access = await requireCollectionWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        await setCollectionTracks(access.collection, projectIds);
+        await recordAuditEvent(req, 'collection.tracks_update', { type: 'collection', id: access.collection.id }, {
+            projectIds,
+        });
+        res.json(await getCollectionPayload(access.collection.id, req.user));
+    } catch (err) {
+        if (err instanceof CollectionValidationError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось сохранить треки коллекции' });
+    }
+});
+
+app.get('/api/collections/:id/cover', async (req, res) => {
+    try {
+        const result = await pool.query<Pick<CollectionRow, 'id' | 'visibility' | 'user_id' | 'cover_url' | 'cover_object_key'>>(
+            'SELECT id, visibility, user_id, cover_url, cover_object_key FROM collections WHERE id = $1',
+            [req.params.id]
+        );
+        const collection = result.rows[0];
+        if (!collection || !(canViewProject(collection, req.user) || verifyMediaToken(collection.id, req.query.token, 'collection'))) {
+            res.status(404).json({ error: 'Коллекция не найдена' });
+            return;
+        }
+        if (!collection.cover_url && !collection.cover_object_key) {
+            res.status(404).json({ error: 'Обложка не найдена' });
+            return;
+        }
+
+        await sendStoredFile(req, res, { url: collection.cover_url, objectKey: collection.cover_object_key }, 'Обложка не найдена', {
+            cacheControl: projectMediaCacheControl(collection) || 'public, max-age=86400',
+        });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось получить обложку' });
+    }
+});
+
+// Tracks stay where they are; only the grouping and its cover go away.
+app.delete('/api/collections/:id', requireAuth, async (req, res) => {
+    try {
+        const access = await requireCollectionWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        const collection = access.collection;
+        await pool.query('DELETE FROM collections WHERE id = $1', [collection.id]);
+        await recordAuditEvent(req, 'collection.delete', { type: 'collection', id: collection.id }, {
+            title: collection.title,
+            ownerId: collection.user_id,
+        });
+        await deleteStoredFile({ url: collection.cover_url, objectKey: collection.cover_object_key });
+        res.json({ ok: true });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось удалить коллекцию' });
+    }
+});
+
+// AI Processing
+const audioMimeTypeFromExt = (ext: string) => {
+    const normalized = ext.toLowerCase();
+    if (normalized === '.mp3') return 'audio/mpeg';
+    if (normalized === '.webm') return 'audio/webm';
+    if (normalized === '.ogg') return 'audio/ogg';
+    if (normalized === '.m4a') return 'audio/mp4';
+    if (normalized === '.flac') return 'audio/flac';
+    if (normalized === '.wav') return 'audio/wav';
+    return 'audio/wav';
+};
+
+const getProjectForJob = async (job: JobRow) => {
+    if (job.project_id == null) throw new JobError('Проект не найден');
+    const result = await pool.query<ProjectRow>('SELECT * FROM projects WHERE id = $1', [job.project_id]);
+    if (result.rows.length === 0) throw new JobError('Проект не найден');
+    return result.rows[0] as ProjectRow;
+};
+
+const getJobSiteUrl = (job: JobRow) =>
+    OPENROUTER_SITE_URL || (typeof job.payload?.siteUrl === 'string' ? job.payload.siteUrl : null) || 'http://localhost:3000';
+
+const loadStoredAudio = async (audio: { url: string; objectKey: string | null }, fallbackFilename: string) => {
+    if (!locateStoredFile(audio) && !isHttpUrl(audio.url)) throw new JobError('Некорректный URL аудио');
+    const file = await readStoredFile(audio);
+    if (!file) throw new JobError('Аудиофайл не найден в хранилище');
+
+    const audioFilename = file.filename || fallbackFilename;
+    const headerMime = file.contentType?.split(';')[0]?.trim();
+    const mimeType = headerMime && headerMime !== 'application/octet-stream' ? headerMime : audioMimeTypeFromExt(path.extname(audioFilename));
+    return { audioBuffer: file.buffer, audioFilename, mimeType };
+};
+
+const getAudioRendition = (project: ProjectRow, kind: AudioRenditionKind) => {
+    const url = kind === 'analysis' ? project.analysis_audio_url : project.playback_audio_url;
+    const objectKey = kind === 'analysis' ? project.analysis_audio_object_key : project.playback_audio_object_key;
+    return url ? { url, objectKey } : null;
+};
+
+const withTempDir = async <T>(fn: (dir: string) => Promise<T>) => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'audio-'));
+    try {
+        return await fn(dir);
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+};
+
+const loadOriginalAudio = (project: ProjectRow) =>
+    loadStoredAudio({ url: project.audio_url, objectKey: project.audio_object_key ?? null }, `project-${project.id}`);
+
+const writeAudioToTemp = async (audio: { audioBuffer: Buffer; audioFilename: string }, workDir: string) => {
+    const inputPath = path.join(workDir, `original${path.extname(audio.audioFilename)}`);
+    await fs.promises.writeFile(inputPath, audio.audioBuffer);
+    return inputPath;
+};
+
+const createAudioRendition = async (projectId: number, kind: AudioRenditionKind, inputPath: string, workDir: string) => {
+    const outputPath = path.join(workDir, `${kind}${AUDIO_RENDITIONS[kind].ext}`);
+    await transcodeAudio(FFMPEG_PATH, inputPath, outputPath, kind, TRANSCODE_TIMEOUT_MS);
+    const stored = await storeAudioRendition(projectId, kind, outputPath);
+    return { outputPath, stored };
+};
+
+const buildWaveform = async (audioBuffer: Buffer, inputPath: string) => {
+    if (transcodingAvailable) {
+        const pcm = await decodeToPcm16(FFMPEG_PATH, inputPath, WAVEFORM_SAMPLE_RATE, TRANSCODE_TIMEOUT_MS);
+        return peaksFromPcm16(pcm, WAVEFORM_SAMPLE_RATE);
+    }
+    return peaksFromWav(audioBuffer);
+};
+
+// Prepares everything derived from the upload. Steps whose output already exists are skipped,
+// so the job can be re-run safely (e.g. the startup backfill for older projects).
+jobHandlers.ingest_audio = async (job, { setProgress }) => {
+    const project = await getProjectForJob(job);
+
+    return withTempDir(async (workDir) => {
+        const original = await loadOriginalAudio(project);
+        const inputPath = await writeAudioToTemp(original, workDir);
+        await setProgress(10);
+
+        const result: Record<string, unknown> = { project_id: project.id };
+        const kinds: AudioRenditionKind[] = transcodingAvailable ? ['analysis', 'playback'] : [];
+        for (const [index, kind] of kinds.entries()) {
+            if (getAudioRendition(project, kind)) continue;
+            const { stored } = await createAudioRendition(project.id, kind, inputPath, workDir);
+            const update = await pool.query(
+                `UPDATE projects SET ${kind}_audio_url = $1, ${kind}_audio_object_key = $2 WHERE id = $3`,
+                [stored.url, stored.objectKey, project.id]
+            );
+            if (!update.rowCount) {
+                await deleteStoredFile(stored);
+                throw new JobError('Проект не найден');
+            }
+            result[kind] = { url: stored.url, size_bytes: stored.sizeBytes };
+            await setProgress(10 + ((index + 1) / kinds.length) * 70);
+        }
+
+        if (!project.waveform_url) {
+            const waveform = await buildWaveform(original.audioBuffer, inputPath);
+            if (waveform) {
+                const stored = await storeDerivedFile({
+                    projectId: project.id,
+                    folder: 'waveforms',
+                    suffix: '.json',
+                    body: Buffer.from(JSON.stringify(waveform)),
+                    contentType: 'application/json',
+                });
+                const update = await pool.query('UPDATE projects SET waveform_url = $1, waveform_object_key = $2 WHERE id = $3', [
+                    stored.url,
+                    stored.objectKey,
+                    project.id,
+                ]);
+                if (!update.rowCount) await deleteStoredFile(stored);
+                result.waveform = { url: stored.url, peaks: waveform.peaks.length };
+            } else {
+                // Without ffmpeg only PCM WAV can be decoded; the player simply shows no waveform.
+                result.waveform = null;
+            }
+        }
+        return result;
+    });
+};
+
+// What OpenRouter accepts as input_audio; everything else has to be converted first.
+const MODEL_AUDIO_FORMATS: Record<string, 'mp3' | 'wav'> = {
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+    'audio/wav': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/wave': 'wav',
+};
+
+const loadAnalysisAudio = async (project: ProjectRow) => {
+    const rendition = getAudioRendition(project, 'analysis');
+    if (rendition) {
+        const audio = await loadStoredAudio(rendition, `project-${project.id}.mp3`);
+        return { audioBuffer: audio.audioBuffer, format: 'mp3' as const };
+    }
+
+    const original = await loadOriginalAudio(project);
+    const mimeType = project.audio_mime_type?.split(';')[0]?.trim() || original.mimeType;
+    const format = MODEL_AUDIO_FORMATS[mimeType];
+    if (format) return { audioBuffer: original.audioBuffer, format };
+
+    if (!transcodingAvailable) {
+        throw new JobError(`Модель не принимает ${mimeType}, а конвертация недоступна (не найден ffmpeg)`);
+    }
+
+    // Ingest hasn't produced the rendition yet (or failed): convert now and keep the result for next time.
+    return withTempDir(async (workDir) => {
+        const inputPath = await writeAudioToTemp(original, workDir);
+        const { outputPath, stored } = await createAudioRendition(project.id, 'analysis', inputPath, workDir);
+        const update = await pool.query(
+            `
+            UPDATE projects SET analysis_audio_url = $1, analysis_audio_object_key = $2
+            WHERE id = $3 AND analysis_audio_url IS NULL
+            `,
+            [stored.url, stored.objectKey, project.id]
+        );
+        if (!update.rowCount) await deleteStoredFile(stored);
+        return { audioBuffer: await fs.promises.readFile(outputPath), format: 'mp3' as const };
+    });
+};
+
+const ANALYSIS_PROMPT = `Ты — искусствовед и музыкальный критик. Прослушай аудио и верни ТОЛЬКО JSON-объект, без markdown и пояснений, строго по схеме:
+
+{
+  "lyrics": "дословный текст песни/речи на языке оригинала или null, если слов нет",
+  "vibe": "вайб и атмосфера трека, 2-3 предложения",
+  "emotions": [{ "name": "эмоция", "weight": 0.0-1.0 }],
+  "genre": "жанр и поджанр",
+  "tempo": { "bpm": число или null, "description": "медленный/средний/быстрый и характер ритма" },
+  "instruments": ["инструмент"],
+  "visual_associations": ["конкретный визуальный образ для обложки"],
+  "target_audience": "кому понравится этот трек",
+  "commercial_potential": { "score": 1-10, "summary": "оценка коммерческого потенциала" }
+}
+
+Эмоциональная палитра: 3-6 эмоций, веса в сумме около 1. Визуальные ассоциации: 3-6 пунктов, будь конкретным — не "грусть", а "одинокая фигура на пустом пирсе в тумане". Все тексты, кроме lyrics, — на русском.`;
+
+const MOCK_ANALYSIS: AudioAnalysis = {
+    lyrics: 'This is a mock transcription.',
+    vibe: 'Современный, молодежный, динамичный',
+    emotions: [
+        { name: 'Энергичность', weight: 0.45 },
+        { name: 'Драйв', weight: 0.35 },
+        { name: 'Позитив', weight: 0.2 },
+    ],
+    genre: 'Electronic/Pop',
+    tempo: { bpm: 124, description: 'Быстрый, ровный танцевальный бит' },
+    instruments: ['Синтезаторы', 'Драм-машина', 'Бас'],
+    visual_associations: ['Неоновые огни', 'Ночной город', 'Движение'],
+    target_audience: 'Слушатели современной электронной музыки',
+    commercial_potential: { score: 7, summary: 'Хит в стиле современной электронной музыки' },
+};
+
+const extractJsonObject = (text: string) => {
+    const withoutFences = text.replace(/```(?:json)?/gi, '');
+    const start = withoutFences.indexOf('{');
+    const end = withoutFences.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+    try {
+        return JSON.parse(withoutFences.slice(start, end + 1)) as unknown;
+    } catch {
+        return null;
+    }
+};
+
+const asTrimmedString = (value: unknown, maxLength = 4000) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    if (typeof value !== 'string') return '';
+    return value.trim().slice(0, maxLength);
+};
+
+const asStringList = (value: unknown, maxItems = 12) => {
+    const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;\n]/) : [];
+    return items
+        .map((item) => asTrimmedString(item, 300))
+        .filter((item) => item.length > 0)
+        .slice(0, maxItems);
+};
+
+const asFiniteNumber = (value: unknown) => {
+    const num = typeof value === 'string' ? Number(value.replace(',', '.')) : value;
+    return typeof num === 'number' && Number.isFinite(num) ? num : null;
+};
+
+// Validates and normalizes whatever the model returned; null means the reply is unusable as structured data.
+const parseAudioAnalysis = (raw: unknown): AudioAnalysis | null => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+    const obj = raw as Record<string, unknown>;
+
+    const emotions = (Array.isArray(obj.emotions) ? obj.emotions : [])
+        .map((item) => {
+            if (typeof item === 'string') return { name: asTrimmedString(item, 100), weight: null };
+            if (!item || typeof item !== 'object') return null;
+            const e = item as Record<string, unknown>;
+            return { name: asTrimmedString(e.name, 100), weight: asFiniteNumber(e.weight) };
+        })
+        .filter((item): item is { name: string; weight: number | null } => !!item && item.name.length > 0)
+        .slice(0, 10);
+    // Models sometimes answer in percent; bring everything to 0..1.
+    const usesPercent = emotions.some((e) => e.weight != null && e.weight > 1);
+    const normalizedEmotions = emotions.map((e) => {
+        const weight = e.weight == null ? 1 / emotions.length : usesPercent ? e.weight / 100 : e.weight;
+        return { name: e.name, weight: Math.round(Math.max(0, Math.min(1, weight)) * 100) / 100 };
+    });
+
+    const tempoRaw = obj.tempo && typeof obj.tempo === 'object' ? (obj.tempo as Record<string, unknown>) : {};
+    const bpm = asFiniteNumber(tempoRaw.bpm ?? obj.bpm);
+    const potentialRaw =
+        obj.commercial_potential && typeof obj.commercial_potential === 'object'
+            ? (obj.commercial_potential as Record<string, unknown>)
+            : { summary: obj.commercial_potential };
+    const score = asFiniteNumber(potentialRaw.score);
+    const lyrics = asTrimmedString(obj.lyrics, 20000);
+
+    const analysis: AudioAnalysis = {
+        lyrics: lyrics && lyrics.toLowerCase() !== 'null' ? lyrics : null,
+        vibe: asTrimmedString(obj.vibe),
+        emotions: normalizedEmotions,
+        genre: asTrimmedString(obj.genre, 300),
+        tempo: {
+            bpm: bpm != null && bpm >= 20 && bpm <= 400 ? Math.round(bpm) : null,
+            description: asTrimmedString(tempoRaw.description ?? (typeof obj.tempo === 'string' ? obj.tempo : ''), 500),
+        },
+        instruments: asStringList(obj.instruments),
+        visual_associations: asStringList(obj.visual_associations),
+        target_audience: asTrimmedString(obj.target_audience, 1000),
+        commercial_potential: {
+            score: score != null ? Math.max(1, Math.min(10, Math.round(score))) : null,
+            summary: asTrimmedString(potentialRaw.summary, 2000),
+        },
+    };
+
+    const hasContent =
+        analysis.vibe || analysis.genre || analysis.emotions.length > 0 || analysis.visual_associations.length > 0;
+    return hasContent ? analysis : null;
+};
+
+// Plain-text rendering kept in emotional_analysis for clients and prompts that only understand text.
+const formatAudioAnalysisText = (analysis: AudioAnalysis) => {
+    const sections: string[] = [];
+    if (analysis.lyrics) sections.push(`ТЕКСТ: ${analysis.lyrics}`);
+    if (analysis.emotions.length > 0) {
+        const palette = analysis.emotions.map((e) => `${e.name} (${Math.round(e.weight * 100)}%)`).join(', ');
+        sections.push(`ЭМОЦИОНАЛЬНАЯ ПАЛИТРА: ${palette}`);
+    }
+    if (analysis.vibe) sections.push(`ВАЙБ: ${analysis.vibe}`);
+    const style = [
+        analysis.genre,
+        analysis.tempo.bpm ? `${analysis.tempo.bpm} BPM` : '',
+        analysis.tempo.description,
+        analysis.instruments.join(', '),
+    ].filter(Boolean);
+    if (style.length > 0) sections.push(`СТИЛЬ: ${style.join('; ')}`);
+    if (analysis.visual_associations.length > 0) {
+        sections.push(`ВИЗУАЛЬНЫЕ АССОЦИАЦИИ: ${analysis.visual_associations.join('; ')}`);
+    }
+    if (analysis.target_audience) sections.push(`АУДИТОРИЯ: ${analysis.target_audience}`);
+    if (analysis.commercial_potential.summary || analysis.commercial_potential.score) {
+        const score = analysis.commercial_potential.score ? `${analysis.commercial_potential.score}/10. ` : '';
+        sections.push(`КОММЕРЧЕСКИЙ ПОТЕНЦИАЛ: ${score}${analysis.commercial_potential.summary}`);
+    }
+    return sections.join('\n\n');
+};
+
+const saveProjectAnalysis = async (projectId: number, analysis: AudioAnalysis) => {
+    await pool.query('UPDATE projects SET transcription = $1, emotional_analysis = $2, analysis = $3 WHERE id = $4', [
+        analysis.lyrics,
+        formatAudioAnalysisText(analysis),
+        JSON.stringify(analysis),
+        projectId,
+    ]);
+};
+
+jobHandlers.transcribe = async (job, { setProgress }) => {
+    const project = await getProjectForJob(job);
+    const id = project.id;
+
+    if (!OPENROUTER_API_KEY) {
+        if (!ALLOW_MOCK_AI) throw new JobError('OpenRouter не настроен');
+        await saveProjectAnalysis(id, MOCK_ANALYSIS);
+        return { project_id: id, mock: true, structured: true };
+    }
+
+    await setProgress(10);
+    const { audioBuffer, format } = await loadAnalysisAudio(project);
+    const audioBase64 = audioBuffer.toString('base64');
+    await setProgress(30);
+
+    const response = await axios.post(
+        'https://openrouter.ai/api/v1/chat/completions',
+        {
+            model: OPENROUTER_ANALYSIS_MODEL,
+            response_format: { type: 'json_object' },
+            messages: [
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: ANALYSIS_PROMPT },
+                        {
+                            type: 'input_audio',
+                            input_audio: { data: audioBase64, format },
+                        },
+                    ],
+                },
+            ],
+        },
+        {
+            headers: {
+                Authorization: `Bearer ${OPENROUTER_API_KEY}`,
+                'Content-Type': 'application/json',
+                'HTTP-Referer': getJobSiteUrl(job),
+                'X-Title': OPENROUTER_APP_NAME,
+            },
+        }
+    );
+    await setProgress(90);
+
+    const content = response.data.choices[0].message.content;
+    const rawText = typeof content === 'string' ? content : extractErrorMessage(content) || '';
+    const analysis = parseAudioAnalysis(extractJsonObject(rawText));
+    if (analysis) {
+        await saveProjectAnalysis(id, analysis);
+        return { project_id: id, structured: true };
+    }
+
+    // The model ignored the schema: keep its text so the user still gets something readable.
+    console.warn(`Project ${id}: analysis is not valid JSON, storing free text`);
+    await pool.query('UPDATE projects SET transcription = NULL, emotional_analysis = $1, analysis = NULL WHERE id = $2', [
+        rawText,
+        id,
+    ]);
+    return { project_id: id, structured: false };
+};
+
+const MAX_COVER_CANDIDATES = 4;
+
+// Extra instructions appended to the prompt so parallel candidates differ in more than just the seed.
+const COVER_VARIATIONS = [
+    '',
+    'Alternative take: an intimate close-up composition.',
+    'Alternative take: a wide cinematic composition with dramatic lighting.',
+    'Alternative take: a bold, more abstract graphic interpretation.',
+];
+
+const generateCoverImage = async (prompt: string, seed: number, siteUrl: string) => {
+    if (OPENROUTER_API_KEY) {
+        try {
+            const imageResponse = await axios.post(
+                'https://openrouter.ai/api/v1/chat/completions',
+                {
+                    model: OPENROUTER_IMAGE_MODEL,
+                    modalities: ['text', 'image'],
+                    seed,
+                    messages: [
+                        {
+                            role: 'user',
+                            content: [{ type: 'text', text: prompt }],
+                        },
+                    ],
+                },
+                {
+                    headers: {
+                        Authorization: `Bearer ${OPENROUTER_API_KEY}`,
+                        'Content-Type': 'application/json',
+                        'HTTP-Referer': siteUrl,
+                        'X-Title': OPENROUTER_APP_NAME,
+                    },
+                }
+            );
+
+            const message = imageResponse.data.choices[0].message;
+
+            if (message.images && message.images.length > 0) {
+                return { sourceUrl: String(message.images[0].image_url.url), model: OPENROUTER_IMAGE_MODEL };
+            }
+            if (message.content && Array.isArray(message.content)) {
+                for (const part of message.content) {
+                    if (part.type === 'image_url' && part.image_url?.url) {
+                        return { sourceUrl: String(part.image_url.url), model: OPENROUTER_IMAGE_MODEL };
+                    }
+                }
+            }
+        } catch (err: any) {
+            console.error('Gemini cover error:', err.response?.data || err.message);
+        }
+    }
+
+    return {
+        sourceUrl: `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}?width=1024&height=1024&seed=${seed}&nologo=true`,
+        model: 'pollinations',
+    };
+};
+
+jobHandlers.generate_cover = async (job, { setProgress }) => {
+    const project = await getProjectForJob(job);
+    const id = String(project.id);
+
+    const presetSlug = typeof job.payload?.preset === 'string' ? job.payload.preset : DEFAULT_COVER_PRESET;
+    const preset = await getCoverStylePreset(presetSlug);
+    if (!preset) throw new JobError('Стиль обложки не найден');
+
+    const subject = (typeof job.payload?.subject === 'string' && job.payload.subject) || getCoverSubject(project);
+    if (!subject) throw new JobError('Audio analysis required for cover generation');
+
+    const shortPrompt = buildCoverPrompt(preset.prompt, subject);
+
+    const count = Math.max(1, Math.min(MAX_COVER_CANDIDATES, Math.floor(Number(job.payload?.count) || 1)));
+    // A single cover becomes active right away; several are stored as candidates until the user picks one.
+    const asCandidates = count > 1;
+
+    await setProgress(10);
+    let completed = 0;
+    const results = await Promise.allSettled(
+        Array.from({ length: count }, async (_, index) => {
+            const seed = crypto.randomInt(0, 2 ** 31 - 1);
+            const prompt = [shortPrompt, COVER_VARIATIONS[index % COVER_VARIATIONS.length]].filter(Boolean).join(' ');
+            const { sourceUrl, model } = await generateCoverImage(prompt, seed, getJobSiteUrl(job));
+
+            const storedCover = await downloadCoverToStorage(sourceUrl, `project-${id}`);
+            if (!storedCover) throw new JobError('Failed to store cover');
+
+            const coverInsert = await pool.query<ProjectCoverRow>(
+                `
+                INSERT INTO project_covers (project_id, url, object_key, prompt, model, seed, size_bytes, status, job_id, preset, created_by)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+                RETURNING *
+                `,
+                [
+                    project.id,
+                    storedCover.url,
+                    storedCover.objectKey,
+                    prompt,
+                    model,
+                    String(seed),
+                    storedCover.sizeBytes,
+                    asCandidates ? 'candidate' : 'kept',
+                    job.id,
+                    preset.slug,
+                    job.user_id,
+                ]
+            );
+
+            completed += 1;
+            await setProgress(10 + (85 * completed) / count);
+            return coverInsert.rows[0] as ProjectCoverRow;
+        })
+    );
+
+    const covers = results
+        .filter((r): r is PromiseFulfilledResult<ProjectCoverRow> => r.status === 'fulfilled')
+        .map((r) => r.value);
+    if (covers.length === 0) {
+        const firstFailure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+        throw firstFailure?.reason ?? new JobError('Failed to generate cover');
+    }
+
+    if (!asCandidates) await setActiveProjectCover(project.id, covers[0]);
+
+    return {
+        project_id: project.id,
+        cover_ids: covers.map((cover) => cover.id),
+        candidates: asCandidates,
+        failed: count - covers.length,
+        preset: preset.slug,
+        subject,
+        // What was actually sent for each cover, variation included; `prompt` is the first one's.
+        prompt: covers[0].prompt,
+        covers: covers.map((cover) => ({ id: cover.id, prompt: cover.prompt })),
+    };
+};
+
+app.post('/api/transcribe/:id', requireAuth, async (req, res) => {
+    const { id } = req.params;
+    try {
+        const access = await requireProjectWriteAccess(id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        if (!OPENROUTER_API_KEY && !ALLOW_MOCK_AI) {
+            res.status(503).json({ error: 'OpenRouter не настроен' });
+            return;
+        }
+
+        const quota = await consumeAiQuota(req.user!, 'analysis');
+        if (!quota.ok) {
+            sendTooManyRequests(res, quota.retryAfterSeconds, 'Лимит анализов исчерпан.');
+            return;
+        }
+
+        const job = await enqueueJob({
+            type: 'transcribe',
+            projectId: access.project.id,
+            userId: req.user!.id,
+            payload: { siteUrl: getRequestBaseUrl(req) },
+        });
+        await recordAuditEvent(req, 'project.analyze', { type: 'project', id: access.project.id }, { jobId: job.id });
+        res.status(202).json({ jobId: job.id, job: serializeJob(job) });
+    } catch (err) {
+        console.error('Failed to enqueue transcription:', err);
+        res.status(500).json({ error: 'Failed to transcribe' });
+    }
+});
+
+app.post('/api/generate-cover/:id', requireAuth, async (req, res) => {
+    const { id } = req.params;
+    try {
+        const access = await requireProjectWriteAccess(id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        const parsedSubject = parseCoverSubject(req.body?.prompt);
+        if (!parsedSubject.ok) {
+            res.status(400).json({ error: parsedSubject.error });
+            return;
+        }
+        if (!parsedSubject.subject && !getCoverSubject(access.project)) {
+            res.status(400).json({ error: 'Audio analysis required for cover generation' });
+            return;
+        }
+
+        const presetSlug = typeof req.body?.preset === 'string' && req.body.preset ? req.body.preset : DEFAULT_COVER_PRESET;
+        if (!(await getCoverStylePreset(presetSlug))) {
+            res.status(400).json({ error: 'Стиль обложки не найден' });
+            return;
+        }
+
+        const count = req.body?.count === undefined ? 1 : Number(req.body.count);
+        if (!Number.isInteger(count) || count < 1 || count > MAX_COVER_CANDIDATES) {
+            res.status(400).json({ error: `count должен быть от 1 до ${MAX_COVER_CANDIDATES}` });
+            return;
+        }
+
+        const quota = await consumeAiQuota(req.user!, 'covers', count);
+        if (!quota.ok) {
+            sendTooManyRequests(res, quota.retryAfterSeconds, 'Лимит генерации обложек исчерпан.');
+            return;
+        }
+
+        const job = await enqueueJob({
+            type: 'generate_cover',
+            projectId: access.project.id,
+            userId: req.user!.id,
+            payload: { siteUrl: getRequestBaseUrl(req), count, preset: presetSlug, subject: parsedSubject.subject },
+        });
+        await recordAuditEvent(req, 'project.cover_generate', { type: 'project', id: access.project.id }, {
+            jobId: job.id,
+            count,
+            preset: presetSlug,
+            prompt: parsedSubject.subject,
+        });
+        res.status(202).json({ jobId: job.id, job: serializeJob(job) });
+    } catch (err) {
+        console.error('Failed to enqueue cover generation:', err);
+        res.status(500).json({ error: 'Failed to generate cover' });
+    }
+});
+
+app.get('/api/projects/:id/cover-prompt', requireAuth, async (req, res) => {
+    try {
+        const access = await requireProjectWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        const presetSlug = typeof req.query.preset === 'string' && req.query.preset ? req.query.preset : DEFAULT_COVER_PRESET;
+        const preset = await getCoverStylePreset(presetSlug);
+        if (!preset) {
+            res.status(400).json({ error: 'Стиль обложки не найден' });
+            return;
+        }
+
+        const parsedSubject = parseCoverSubject(req.query.prompt);
+        if (!parsedSubject.ok) {
+            res.status(400).json({ error: parsedSubject.error });
+            return;
+        }
+
+        const subject = parsedSubject.subject || getCoverSubject(access.project);
+        res.json({
+            preset: preset.slug,
+            subject,
+            prompt: subject ? buildCoverPrompt(preset.prompt, subject) : null,
+        });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось собрать промпт' });
+    }
+});
+
+// Collection covers go through the same presets and image models as project covers. The default subject is put
+// together from the analyses of the tracks, each getting an equal share of the length.
+const getCollectionCoverSubject = async (collectionId: number) => {
+    const result = await pool.query<ProjectRow>(
+        `
+        SELECT p.*
+        FROM collection_items i
+        JOIN projects p ON p.id = i.project_id
+        WHERE i.collection_id = $1
+        ORDER BY i.position, p.id
+        `,
+        [collectionId]
+    );
+    const subjects = result.rows.map(getCoverSubject).filter((subject): subject is string => !!subject);
+    if (subjects.length === 0) return null;
+    const share = Math.max(40, Math.floor(MAX_COVER_SUBJECT_LENGTH / subjects.length));
+    return subjects
+        .map((subject) => subject.substring(0, share))
+        .join(' | ')
+        .substring(0, MAX_COVER_SUBJECT_LENGTH);
+};
+
+const getCollectionForJob = async (job: JobRow) => {
+    if (job.collection_id == null) throw new JobError('Коллекция не найдена');
+    const result = await pool.query<CollectionRow>('SELECT * FROM collections WHERE id = $1', [job.collection_id]);
+    if (result.rows.length === 0) throw new JobError('Коллекция не найдена');
+    return result.rows[0] as CollectionRow;
+};
+
+// A collection has one cover, no history: the new image replaces the old one.
+jobHandlers.generate_collection_cover = async (job, { setProgress }) => {
+    const collection = await getCollectionForJob(job);
+
+    const presetSlug = typeof job.payload?.preset === 'string' ? job.payload.preset : DEFAULT_COVER_PRESET;
+    const preset = await getCoverStylePreset(presetSlug);
+    if (!preset) throw new JobError('Стиль обложки не найден');
+
+    const subject =
+        (typeof job.payload?.subject === 'string' && job.payload.subject) || (await getCollectionCoverSubject(collection.id));
+    if (!subject) throw new JobError('Сначала проанализируйте хотя бы один трек коллекции');
+    const prompt = buildCoverPrompt(preset.prompt, subject);
+
+    await setProgress(10);
+    const seed = crypto.randomInt(0, 2 ** 31 - 1);
+    const { sourceUrl, model } = await generateCoverImage(prompt, seed, getJobSiteUrl(job));
+    await setProgress(70);
+
+    const storedCover = await downloadCoverToStorage(sourceUrl, `collection-${collection.id}`);
+    if (!storedCover) throw new JobError('Failed to store cover');
+
+    const updated = await pool.query(
+        `
+        UPDATE collections
+        SET cover_url = $1, cover_object_key = $2, cover_prompt = $3, cover_size_bytes = $4,
+            cover_updated_at = NOW(), updated_at = NOW()
+        WHERE id = $5
+        `,
+        [storedCover.url, storedCover.objectKey, prompt, storedCover.sizeBytes, collection.id]
+    );
+    if (!updated.rowCount) {
+        // Deleted while the image was being generated.
+        await deleteStoredFile(storedCover);
+        throw new JobError('Коллекция не найдена');
+    }
+    await deleteStoredFile({ url: collection.cover_url, objectKey: collection.cover_object_key });
+
+    return { collection_id: collection.id, preset: preset.slug, subject, prompt, model, seed: String(seed) };
+};
+
+app.post('/api/collections/:id/generate-cover', requireAuth, async (req, res) => {
+    try {
+        const access = await requireCollectionWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        const parsedSubject = parseCoverSubject(req.body?.prompt);
+        if (!parsedSubject.ok) {
+            res.status(400).json({ error: parsedSubject.error });
+            return;
+        }
+        if (!parsedSubject.subject && !(await getCollectionCoverSubject(access.collection.id))) {
+            res.status(400).json({ error: 'Сначала проанализируйте хотя бы один трек коллекции' });
+            return;
+        }
+
+        const presetSlug = typeof req.body?.preset === 'string' && req.body.preset ? req.body.preset : DEFAULT_COVER_PRESET;
+        if (!(await getCoverStylePreset(presetSlug))) {
+            res.status(400).json({ error: 'Стиль обложки не найден' });
+            return;
+        }
+
+        const quota = await consumeAiQuota(req.user!, 'covers');
+        if (!quota.ok) {
+            sendTooManyRequests(res, quota.retryAfterSeconds, 'Лимит генерации обложек исчерпан.');
+            return;
+        }
+
+        const job = await enqueueJob({
+            type: 'generate_collection_cover',
+            projectId: null,
+            collectionId: access.collection.id,
+            userId: req.user!.id,
+            payload: { siteUrl: getRequestBaseUrl(req), preset: presetSlug, subject: parsedSubject.subject },
+        });
+        await recordAuditEvent(req, 'collection.cover_generate', { type: 'collection', id: access.collection.id }, {
+            jobId: job.id,
+            preset: presetSlug,
+            prompt: parsedSubject.subject,
+        });
+        res.status(202).json({ jobId: job.id, job: serializeJob(job) });
+    } catch (err) {
+        console.error('Failed to enqueue collection cover generation:', err);
+        res.status(500).json({ error: 'Failed to generate cover' });
+    }
 });
 
-// Projects
-app.post('/api/projects', requireAuth, upload.single('audio'), async (req, res) => {
-    let uploadedObjectKey: string | null = null;
+app.get('/api/collections/:id/cover-prompt', requireAuth, async (req, res) => {
     try {
-        const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
-        const file = req.file;
-
-	        if (!file) {
-	            res.status(400).json({ error: 'Нужен аудиофайл' });
-	            return;
-	        }
+        const access = await requireCollectionWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
 
-        if (file.size < 512) {
-            try {
-                fs.unlinkSync(file.path);
-            } catch {
-                // ignore
-            }
-	            res.status(400).json({ error: 'Аудиофайл пустой' });
-	            return;
-	        }
+        const presetSlug = typeof req.query.preset === 'string' && req.query.preset ? req.query.preset : DEFAULT_COVER_PRESET;
+        const preset = await getCoverStylePreset(presetSlug);
+        if (!preset) {
+            res.status(400).json({ error: 'Стиль обложки не найден' });
+            return;
+        }
 
-        let audioUrlToStore = `/uploads/${file.filename}`;
-        let audioObjectKeyToStore: string | null = null;
-
-        if (R2_ENABLED) {
-            const ext = getSafeFileExtension(file.originalname);
-            const objectKey = buildR2ObjectKey(`audio/${Date.now()}-${crypto.randomBytes(8).toString('hex')}${ext}`);
-            await putObjectToR2({
-                objectKey,
-                body: fs.createReadStream(file.path),
-                contentType: file.mimetype,
-                contentLength: file.size,
-                cacheControl: 'public, max-age=31536000, immutable',
-            });
-            uploadedObjectKey = objectKey;
-            audioObjectKeyToStore = objectKey;
-            audioUrlToStore = buildR2PublicUrl(objectKey);
+        const parsedSubject = parseCoverSubject(req.query.prompt);
+        if (!parsedSubject.ok) {
+            res.status(400).json({ error: parsedSubject.error });
+            return;
         }
 
-	        const insertResult = await pool.query<{ id: number }>(
-	            'INSERT INTO projects (name, audio_url, audio_object_key, user_id) VALUES ($1, $2, $3, $4) RETURNING id',
-	            [name || 'Без названия', audioUrlToStore, audioObjectKeyToStore, req.user!.id]
-	        );
-        const project = await getProjectWithOwner(insertResult.rows[0].id);
-        res.json(project);
+        const subject = parsedSubject.subject || (await getCollectionCoverSubject(access.collection.id));
+        res.json({
+            preset: preset.slug,
+            subject,
+            prompt: subject ? buildCoverPrompt(preset.prompt, subject) : null,
+        });
     } catch (err) {
-        console.error('Failed to create project:', { ...getErrorInfo(err), ...getPublicRuntimeConfig() });
-        if (uploadedObjectKey) {
-            try {
-                await deleteObjectFromR2(uploadedObjectKey);
-            } catch (cleanupErr) {
-                console.error('Failed to cleanup R2 audio object:', cleanupErr);
-            }
-        }
-	        if (DEBUG_ERRORS_ENABLED) {
-	            res.status(500).json({
-	                error: 'Не удалось создать проект',
-	                details: getErrorInfo(err),
-	                config: getPublicRuntimeConfig(),
-	            });
-	            return;
-	        }
-	        res.status(500).json({ error: 'Не удалось создать проект' });
-	    } finally {
-        if (R2_ENABLED && req.file?.path) {
-            try {
-                fs.unlinkSync(req.file.path);
-            } catch {
-                // ignore
-            }
-        }
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось собрать промпт' });
     }
 });
 
-app.get('/api/projects', async (_req, res) => {
-    try {
-        const result = await pool.query<ProjectRow>(
-            `
-            SELECT p.*, u.username AS owner_username
-            FROM projects p
-            LEFT JOIN users u ON u.id = p.user_id
-            ORDER BY p.created_at DESC
+// Batch processing
+// A batch runs analysis and then cover generation for many projects through the regular job queue. Items move
+// through their steps as jobs finish; at most BATCH_CONCURRENCY items of a batch have a job at a time.
+const BATCH_CONCURRENCY = Math.max(1, Number(process.env.BATCH_CONCURRENCY) || 2);
+const MAX_BATCH_ITEMS = 100;
+
+type BatchStep = 'analysis' | 'cover';
+type BatchItemStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+type BatchRow = {
+    id: number;
+    user_id: number;
+    run_analysis: boolean;
+    run_cover: boolean;
+    cover_preset: string;
+    site_url: string | null;
+    created_at: string;
+    finished_at: string | null;
+};
+
+type BatchItemRow = {
+    batch_id: number;
+    project_id: number;
+    position: number;
+    status: BatchItemStatus;
+    // The step the item is at, or failed at; null until it starts.
+    step: BatchStep | null;
+    job_id: number | null;
+    error: string | null;
+    updated_at: string;
+};
+
+// "My projects without ..." for batches started from a filter; same conditions as the gallery filters.
+const BATCH_FILTERS: Record<string, string> = {
+    missing_analysis: 'p.analysis IS NULL AND p.emotional_analysis IS NULL AND p.transcription IS NULL',
+    missing_cover: 'p.cover_url IS NULL',
+    all: 'TRUE',
+};
+
+// Cover-only batches can only work on these: the cover prompt is built from the analysis.
+const BATCH_HAS_ANALYSIS_SQL = '(p.analysis IS NOT NULL OR p.emotional_analysis IS NOT NULL OR p.transcription IS NOT NULL)';
+
+type BatchOwner = AuthUser & { disabled_at: string | null };
+
+// Starts `step` for one item, or fails the item when the step can't run (quota, missing analysis). Quota is taken
+// per step as it starts, so a batch larger than the quota runs until the quota is spent and the rest can be retried.
+const startBatchStep = async (batch: BatchRow, owner: BatchOwner | null, projectId: number, step: BatchStep) => {
+    const setItem = (status: BatchItemStatus, jobId: number | null, error: string | null) =>
+        pool.query(
             `
+            UPDATE batch_items SET status = $3, step = $4, job_id = $5, error = $6, updated_at = NOW()
+            WHERE batch_id = $1 AND project_id = $2
+            `,
+            [batch.id, projectId, status, step, jobId, error]
         );
-        res.json(result.rows);
-	    } catch (err) {
-	        console.error(err);
-	        res.status(500).json({ error: 'Не удалось загрузить проекты' });
-	    }
-	});
 
-app.get('/api/projects/:id/audio', async (req, res) => {
-    const { id } = req.params;
-    try {
-        const result = await pool.query<{ audio_url: string; audio_object_key: string | null }>(
-            'SELECT audio_url, audio_object_key FROM projects WHERE id = $1',
-            [id]
-	        );
-	        if (result.rows.length === 0) {
-	            res.status(404).json({ error: 'Проект не найден' });
-	            return;
-	        }
+    if (!owner || owner.disabled_at) return setItem('failed', null, 'Аккаунт отключён');
+    const result = await pool.query<ProjectRow>('SELECT * FROM projects WHERE id = $1', [projectId]);
+    const project = result.rows[0] as ProjectRow | undefined;
+    if (!project) return;
 
-        const { audio_url: audioUrl, audio_object_key: audioObjectKey } = result.rows[0];
+    if (step === 'analysis' && !OPENROUTER_API_KEY && !ALLOW_MOCK_AI) return setItem('failed', null, 'OpenRouter не настроен');
+    if (step === 'cover' && !getCoverSubject(project)) return setItem('failed', null, 'Audio analysis required for cover generation');
 
-        if (audioObjectKey && R2_ENABLED && r2Client) {
-            const rangeHeader = req.header('range');
-            const output = await r2Client.send(
-                new GetObjectCommand({
-                    Bucket: R2_BUCKET!,
-                    Key: audioObjectKey,
-                    Range: typeof rangeHeader === 'string' && rangeHeader.length > 0 ? rangeHeader : undefined,
-                })
-            );
+    const quota = await consumeAiQuota(owner, step === 'analysis' ? 'analysis' : 'covers');
+    if (!quota.ok) {
+        return setItem('failed', null, step === 'analysis' ? 'Лимит анализов исчерпан' : 'Лимит генерации обложек исчерпан');
+    }
 
-            const statusCode = output.$metadata.httpStatusCode || 200;
-            res.status(statusCode);
-
-            if (output.ContentType) res.setHeader('content-type', output.ContentType);
-            if (typeof output.ContentLength === 'number') res.setHeader('content-length', String(output.ContentLength));
-            if (output.AcceptRanges) res.setHeader('accept-ranges', output.AcceptRanges);
-            if (output.ContentRange) res.setHeader('content-range', output.ContentRange);
-            if (output.ETag) res.setHeader('etag', output.ETag);
-            if (output.LastModified instanceof Date) res.setHeader('last-modified', output.LastModified.toUTCString());
-            if (output.CacheControl) res.setHeader('cache-control', output.CacheControl);
-
-	            const body = output.Body as unknown;
-	            if (!body) {
-	                res.status(404).json({ error: 'Аудио не найдено' });
-	                return;
-	            }
-
-            if (typeof (body as { pipe?: unknown }).pipe === 'function') {
-                const stream = body as unknown as NodeJS.ReadableStream;
-                req.on('close', () => {
-                    try {
-                        (stream as unknown as { destroy?: () => void }).destroy?.();
-                    } catch {
-                        // ignore
-                    }
-                });
-                stream.on('error', (err: unknown) => {
-                    console.error('Audio R2 stream error:', err);
-                    if (!res.headersSent) res.status(502);
-                    res.end();
-                });
-                stream.pipe(res);
-                return;
-            }
+    const siteUrl = batch.site_url ?? undefined;
+    const job = await enqueueJob(
+        step === 'analysis'
+            ? { type: 'transcribe', projectId, userId: owner.id, payload: { siteUrl } }
+            : { type: 'generate_cover', projectId, userId: owner.id, payload: { siteUrl, count: 1, preset: batch.cover_preset } }
+    );
+    return setItem('running', job.id, null);
+};
 
-            if (typeof (body as { transformToByteArray?: unknown }).transformToByteArray === 'function') {
-                const bytes = await (body as { transformToByteArray: () => Promise<Uint8Array> }).transformToByteArray();
-                res.end(Buffer.from(bytes));
-                return;
-            }
+const advanceBatch = async (batch: BatchRow) => {
+    const ownerResult = await pool.query<BatchOwner>('SELECT id, username, role, disabled_at FROM users WHERE id = $1', [
+        batch.user_id,
+    ]);
+    const owner = (ownerResult.rows[0] as BatchOwner | undefined) ?? null;
 
-	            res.status(500).json({ error: 'Неподдерживаемый тип аудиопотока' });
-	            return;
-	        }
+    // Items whose job has finished (or was deleted) move on to their next step or get their result.
+    const finished = await pool.query<BatchItemRow & { job_status: JobStatus | null; job_error: string | null }>(
+        `
+        SELECT i.*, j.status AS job_status, j.error AS job_error
+        FROM batch_items i
+        LEFT JOIN jobs j ON j.id = i.job_id
+        WHERE i.batch_id = $1 AND i.status = 'running' AND (j.id IS NULL OR j.status IN ('succeeded', 'failed'))
+        `,
+        [batch.id]
+    );
+    for (const item of finished.rows) {
+        if (item.job_status === 'succeeded' && item.step === 'analysis' && batch.run_cover) {
+            await startBatchStep(batch, owner, item.project_id, 'cover');
+            continue;
+        }
+        await pool.query(
+            `
+            UPDATE batch_items SET status = $3, error = $4, updated_at = NOW()
+            WHERE batch_id = $1 AND project_id = $2
+            `,
+            item.job_status === 'succeeded'
+                ? [batch.id, item.project_id, 'succeeded', null]
+                : [batch.id, item.project_id, 'failed', item.job_error || 'Задача не выполнена']
+        );
+    }
 
-	        if (audioUrl.startsWith('/uploads/')) {
-	            const audioPath = resolveUploadsPath(audioUrl);
-	            if (!fs.existsSync(audioPath)) {
-	                res.status(404).json({ error: 'Аудиофайл не найден на сервере' });
-	                return;
-	            }
-	            res.sendFile(audioPath);
-	            return;
-	        }
+    // Fill the free slots in list order. A retried item resumes at the step it failed at.
+    for (;;) {
+        const counts = await pool.query<{ running: number }>(
+            "SELECT COUNT(*)::int AS running FROM batch_items WHERE batch_id = $1 AND status = 'running'",
+            [batch.id]
+        );
+        if ((counts.rows[0]?.running ?? 0) >= BATCH_CONCURRENCY) break;
+        const next = await pool.query<BatchItemRow>(
+            "SELECT * FROM batch_items WHERE batch_id = $1 AND status = 'pending' ORDER BY position LIMIT 1",
+            [batch.id]
+        );
+        const item = next.rows[0] as BatchItemRow | undefined;
+        if (!item) break;
+        await startBatchStep(batch, owner, item.project_id, item.step ?? (batch.run_analysis ? 'analysis' : 'cover'));
+    }
 
-	        if (!isHttpUrl(audioUrl)) {
-	            res.status(400).json({ error: 'Некорректный URL аудио' });
-	            return;
-	        }
+    await pool.query(
+        `
+        UPDATE batches SET finished_at = NOW()
+        WHERE id = $1 AND NOT EXISTS (
+            SELECT 1 FROM batch_items WHERE batch_id = $1 AND status IN ('pending', 'running')
+        )
+        `,
+        [batch.id]
+    );
+};
 
-        const controller = new AbortController();
-        req.on('close', () => controller.abort());
+let batchAdvanceInProgress = false;
+let batchAdvanceRequested = false;
 
-        const headers: Record<string, string> = {};
-        const range = req.header('range');
-        if (typeof range === 'string' && range.length > 0) headers.Range = range;
+// Runs after every finished job, on batch changes and at startup. Calls that arrive during a pass are folded into
+// one more pass, so two passes never start the same item.
+const advanceBatches = async () => {
+    if (batchAdvanceInProgress) {
+        batchAdvanceRequested = true;
+        return;
+    }
+    batchAdvanceInProgress = true;
+    try {
+        do {
+            batchAdvanceRequested = false;
+            const batches = await pool.query<BatchRow>('SELECT * FROM batches WHERE finished_at IS NULL ORDER BY id');
+            for (const batch of batches.rows) await advanceBatch(batch as BatchRow);
+        } while (batchAdvanceRequested);
+    } catch (err) {
+        console.error('Batch advance failed:', err);
+    } finally {
+        batchAdvanceInProgress = false;
+    }
+};
 
-        const upstream = await axios.get(audioUrl, {
-            responseType: 'stream',
-            signal: controller.signal,
-            headers,
-            validateStatus: (status) => status >= 200 && status < 500,
-        });
+const batchSummarySql = `
+    SELECT b.*,
+        COUNT(i.project_id)::int AS total,
+        (COUNT(*) FILTER (WHERE i.status = 'pending'))::int AS pending,
+        (COUNT(*) FILTER (WHERE i.status = 'running'))::int AS running,
+        (COUNT(*) FILTER (WHERE i.status = 'succeeded'))::int AS succeeded,
+        (COUNT(*) FILTER (WHERE i.status = 'failed'))::int AS failed
+    FROM batches b
+    LEFT JOIN batch_items i ON i.batch_id = b.id
+`;
+
+const serializeBatch = (batch: BatchRow & Record<'total' | 'pending' | 'running' | 'succeeded' | 'failed', number>) => ({
+    id: batch.id,
+    analysis: batch.run_analysis,
+    cover: batch.run_cover,
+    preset: batch.cover_preset,
+    created_at: batch.created_at,
+    finished_at: batch.finished_at,
+    counts: {
+        total: batch.total,
+        pending: batch.pending,
+        running: batch.running,
+        succeeded: batch.succeeded,
+        failed: batch.failed,
+    },
+});
 
-        if (upstream.status >= 400) {
-            res.status(upstream.status).send(upstream.statusText || 'Failed to fetch audio');
-            return;
-        }
+// The batch with every item, its project and the progress of the job it is waiting for.
+const getBatchPayload = async (batchId: number) => {
+    const batch = await pool.query(`${batchSummarySql} WHERE b.id = $1 GROUP BY b.id`, [batchId]);
+    if (batch.rows.length === 0) return null;
+    const items = await pool.query(
+        `
+        SELECT i.project_id, i.status, i.step, i.error, i.job_id, j.progress AS job_progress,
+            p.name AS project_name
+        FROM batch_items i
+        JOIN projects p ON p.id = i.project_id
+        LEFT JOIN jobs j ON j.id = i.job_id
+        WHERE i.batch_id = $1
+        ORDER BY i.position
+        `,
+        [batchId]
+    );
+    return { ...serializeBatch(batch.rows[0]), items: items.rows };
+};
+
+const requireBatchAccess = async (batchId: string, user: AuthUser) => {
+    const result = await pool.query<BatchRow>('SELECT * FROM batches WHERE id = $1', [batchId]);
+    if (result.rows.length === 0) return { ok: false as const, status: 404 as const, error: 'Пакет не найден' };
+    const batch = result.rows[0] as BatchRow;
+    if (user.role !== 'admin' && batch.user_id !== user.id) {
+        return { ok: false as const, status: 403 as const, error: 'Доступ запрещён' };
+    }
+    return { ok: true as const, batch };
+};
+
+// Invalid batch parameters; the message is returned to the client with a 400.
+class BatchValidationError extends Error {}
+
+const parseBatchFlag = (value: unknown, label: string) => {
+    if (value === undefined) return true;
+    if (typeof value !== 'boolean') throw new BatchValidationError(`${label}: ожидается true или false`);
+    return value;
+};
 
-        res.status(upstream.status);
+const parseBatchProjectIds = (value: unknown) => {
+    if (!Array.isArray(value) || value.length === 0) throw new BatchValidationError('projectIds: ожидается непустой массив');
+    const ids = value.map(Number);
+    if (ids.some((id) => !Number.isSafeInteger(id) || id <= 0)) {
+        throw new BatchValidationError('projectIds: ожидаются идентификаторы проектов');
+    }
+    const unique = [...new Set(ids)];
+    if (unique.length > MAX_BATCH_ITEMS) throw new BatchValidationError(`В пакете не больше ${MAX_BATCH_ITEMS} проектов`);
+    return unique;
+};
+
+// A cover-only batch defaults to projects without a cover; `missing_analysis` makes no sense for it.
+const parseBatchFilter = (value: unknown, runAnalysis: boolean) => {
+    const filter = value ?? (runAnalysis ? 'missing_analysis' : 'missing_cover');
+    if (typeof filter !== 'string' || !Object.keys(BATCH_FILTERS).includes(filter)) {
+        throw new BatchValidationError(`filter должен быть одним из: ${Object.keys(BATCH_FILTERS).join(', ')}`);
+    }
+    if (filter === 'missing_analysis' && !runAnalysis) {
+        throw new BatchValidationError('Обложку нельзя создать без анализа: включите анализ или выберите другой фильтр');
+    }
+    return filter;
+};
 
-        const passthroughHeaders = [
-            'content-type',
-            'content-length',
-            'accept-ranges',
-            'content-range',
-            'etag',
-            'last-modified',
-            'cache-control',
-        ];
-        for (const headerName of passthroughHeaders) {
-            const value = upstream.headers[headerName];
-            if (typeof value === 'string' && value.length > 0) res.setHeader(headerName, value);
+// Explicit ids (no filter) must all be writable by the user (admins may pick anyone's). A filter only ever selects
+// the user's own projects, oldest first, and takes at most MAX_BATCH_ITEMS of them. Without the analysis step every
+// project needs an analysis already, or its cover step could only fail.
+const resolveBatchProjectIds = async (projectIdsInput: unknown, filter: string | null, runAnalysis: boolean, user: AuthUser) => {
+    if (filter === null) {
+        const ids = parseBatchProjectIds(projectIdsInput);
+        const check = await pool.query<{ writable: number; analyzed: number }>(
+            `
+            SELECT COUNT(*)::int AS writable, COUNT(*) FILTER (WHERE ${BATCH_HAS_ANALYSIS_SQL})::int AS analyzed
+            FROM projects p WHERE p.id = ANY($1::int[]) AND ($2 OR p.user_id = $3)
+            `,
+            [ids, user.role === 'admin', user.id]
+        );
+        const { writable = 0, analyzed = 0 } = check.rows[0] ?? {};
+        if (writable !== ids.length) throw new BatchValidationError('Можно обрабатывать только свои проекты');
+        if (!runAnalysis && analyzed !== ids.length) {
+            throw new BatchValidationError(
+                `У ${ids.length - analyzed} из ${ids.length} проектов нет анализа, а без него обложку не создать: включите анализ`
+            );
         }
+        return ids;
+    }
 
-        upstream.data.on('error', (err: unknown) => {
-            console.error('Audio proxy stream error:', err);
-            if (!res.headersSent) res.status(502);
-            res.end();
-        });
+    const conditions = [BATCH_FILTERS[filter]];
+    if (!runAnalysis) conditions.push(BATCH_HAS_ANALYSIS_SQL);
+    const result = await pool.query<{ id: number }>(
+        `SELECT p.id FROM projects p WHERE p.user_id = $1 AND ${conditions.join(' AND ')} ORDER BY p.created_at, p.id LIMIT $2`,
+        [user.id, MAX_BATCH_ITEMS]
+    );
+    return result.rows.map((row) => row.id);
+};
 
-        upstream.data.pipe(res);
-	    } catch (err) {
-	        console.error('Failed to serve project audio:', { ...getErrorInfo(err), ...getPublicRuntimeConfig() });
-	        if (DEBUG_ERRORS_ENABLED) {
-	            res.status(500).json({
-	                error: 'Не удалось получить аудио',
-	                details: getErrorInfo(err),
-	                config: getPublicRuntimeConfig(),
-	            });
-	            return;
-	        }
-	        res.status(500).json({ error: 'Не удалось получить аудио' });
-	    }
-	});
+app.get('/api/batches', requireAuth, async (req, res) => {
+    try {
+        const result = await pool.query(
+            `${batchSummarySql} WHERE b.user_id = $1 GROUP BY b.id ORDER BY b.created_at DESC, b.id DESC LIMIT 20`,
+            [req.user!.id]
+        );
+        res.json(result.rows.map(serializeBatch));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить пакеты' });
+    }
+});
 
-app.get('/api/projects/:id/cover', async (req, res) => {
-    const { id } = req.params;
+app.post('/api/batches', requireAuth, async (req, res) => {
     try {
-        const result = await pool.query<{ cover_url: string | null; cover_object_key: string | null }>(
-            'SELECT cover_url, cover_object_key FROM projects WHERE id = $1',
-            [id]
-	        );
-	        if (result.rows.length === 0) {
-	            res.status(404).json({ error: 'Проект не найден' });
-	            return;
-	        }
+        const runAnalysis = parseBatchFlag(req.body?.analysis, 'analysis');
+        const runCover = parseBatchFlag(req.body?.cover, 'cover');
+        if (!runAnalysis && !runCover) throw new BatchValidationError('Выберите анализ, обложку или оба шага');
 
-	        const { cover_url: coverUrl, cover_object_key: coverObjectKey } = result.rows[0];
-	        if (!coverUrl && !coverObjectKey) {
-	            res.status(404).json({ error: 'Обложка не найдена' });
-	            return;
-	        }
+        const presetSlug = typeof req.body?.preset === 'string' && req.body.preset ? req.body.preset : DEFAULT_COVER_PRESET;
+        if (runCover && !(await getCoverStylePreset(presetSlug))) throw new BatchValidationError('Стиль обложки не найден');
 
-        if (coverObjectKey && R2_ENABLED && r2Client) {
-            const rangeHeader = req.header('range');
-            const output = await r2Client.send(
-                new GetObjectCommand({
-                    Bucket: R2_BUCKET!,
-                    Key: coverObjectKey,
-                    Range: typeof rangeHeader === 'string' && rangeHeader.length > 0 ? rangeHeader : undefined,
-                })
-            );
+        if (runAnalysis && !OPENROUTER_API_KEY && !ALLOW_MOCK_AI) {
+            res.status(503).json({ error: 'OpenRouter не настроен' });
+            return;
+        }
 
-            const statusCode = output.$metadata.httpStatusCode || 200;
-            res.status(statusCode);
-
-            if (output.ContentType) res.setHeader('content-type', output.ContentType);
-            if (typeof output.ContentLength === 'number') res.setHeader('content-length', String(output.ContentLength));
-            if (output.AcceptRanges) res.setHeader('accept-ranges', output.AcceptRanges);
-            if (output.ContentRange) res.setHeader('content-range', output.ContentRange);
-            if (output.ETag) res.setHeader('etag', output.ETag);
-            if (output.LastModified instanceof Date) res.setHeader('last-modified', output.LastModified.toUTCString());
-            if (output.CacheControl) res.setHeader('cache-control', output.CacheControl);
-
-	            const body = output.Body as unknown;
-	            if (!body) {
-	                res.status(404).json({ error: 'Обложка не найдена' });
-	                return;
-	            }
-
-            if (typeof (body as { pipe?: unknown }).pipe === 'function') {
-                const stream = body as unknown as NodeJS.ReadableStream;
-                req.on('close', () => {
-                    try {
-                        (stream as unknown as { destroy?: () => void }).destroy?.();
-                    } catch {
-                        // ignore
-                    }
-                });
-                stream.on('error', (err: unknown) => {
-                    console.error('Cover R2 stream error:', err);
-                    if (!res.headersSent) res.status(502);
-                    res.end();
-                });
-                stream.pipe(res);
-                return;
-            }
+        const filter = req.body?.projectIds === undefined ? parseBatchFilter(req.body?.filter, runAnalysis) : null;
+        const projectIds = await resolveBatchProjectIds(req.body?.projectIds, filter, runAnalysis, req.user!);
+        if (projectIds.length === 0) throw new BatchValidationError('Нет проектов для обработки');
 
-            if (typeof (body as { transformToByteArray?: unknown }).transformToByteArray === 'function') {
-                const bytes = await (body as { transformToByteArray: () => Promise<Uint8Array> }).transformToByteArray();
-                res.end(Buffer.from(bytes));
-                return;
-            }
+        const inserted = await pool.query<{ id: number }>(
+            `
+            WITH batch AS (
+                INSERT INTO batches (user_id, run_analysis, run_cover, cover_preset, site_url)
+                VALUES ($1, $2, $3, $4, $5)
+                RETURNING id
+            ), items AS (
+                INSERT INTO batch_items (batch_id, project_id, position)
+                SELECT batch.id, t.id, t.ord::int FROM batch, unnest($6::int[]) WITH ORDINALITY AS t(id, ord)
+            )
+            SELECT id FROM batch
+            `,
+            [req.user!.id, runAnalysis, runCover, presetSlug, getRequestBaseUrl(req), projectIds]
+        );
+        const batchId = inserted.rows[0]!.id;
+
+        await recordAuditEvent(req, 'batch.create', { type: 'batch', id: batchId }, {
+            projects: projectIds.length,
+            filter,
+            analysis: runAnalysis,
+            cover: runCover,
+            preset: runCover ? presetSlug : null,
+        });
+        void advanceBatches();
+        res.status(201).json(await getBatchPayload(batchId));
+    } catch (err) {
+        if (err instanceof BatchValidationError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        console.error('Failed to create batch:', err);
+        res.status(500).json({ error: 'Не удалось запустить пакетную обработку' });
+    }
+});
 
-	            res.status(500).json({ error: 'Неподдерживаемый тип потока обложки' });
-	            return;
-	        }
+app.get('/api/batches/:id', requireAuth, async (req, res) => {
+    try {
+        const access = await requireBatchAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+        res.json(await getBatchPayload(access.batch.id));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить пакет' });
+    }
+});
 
-	        if (coverUrl?.startsWith('/uploads/covers/')) {
-	            const coverPath = resolveUploadsPath(coverUrl);
-	            if (!fs.existsSync(coverPath)) {
-	                res.status(404).json({ error: 'Файл обложки не найден на сервере' });
-	                return;
-	            }
-	            res.sendFile(coverPath);
-	            return;
-	        }
+// Failed items go back to the queue at the step they failed at: a project whose analysis worked but whose cover
+// didn't only retries the cover. `projectIds` narrows the retry to some of the failed items.
+app.post('/api/batches/:id/retry', requireAuth, async (req, res) => {
+    try {
+        const access = await requireBatchAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
+            return;
+        }
+
+        const projectIds = req.body?.projectIds === undefined ? null : parseBatchProjectIds(req.body.projectIds);
+        const retried = await pool.query(
+            `
+            UPDATE batch_items SET status = 'pending', job_id = NULL, error = NULL, updated_at = NOW()
+            WHERE batch_id = $1 AND status = 'failed' AND ($2::int[] IS NULL OR project_id = ANY($2::int[]))
+            `,
+            [access.batch.id, projectIds]
+        );
+        if (!retried.rowCount) throw new BatchValidationError('Нет неудачных проектов для повтора');
 
-        if (coverUrl && isHttpUrl(coverUrl)) {
-            const controller = new AbortController();
-            req.on('close', () => controller.abort());
+        await pool.query('UPDATE batches SET finished_at = NULL WHERE id = $1', [access.batch.id]);
+        await recordAuditEvent(req, 'batch.retry', { type: 'batch', id: access.batch.id }, { projects: retried.rowCount });
+        void advanceBatches();
+        res.json(await getBatchPayload(access.batch.id));
+    } catch (err) {
+        if (err instanceof BatchValidationError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        console.error('Failed to retry batch:', err);
+        res.status(500).json({ error: 'Не удалось повторить обработку' });
+    }
+});
 
-            const upstream = await axios.get(coverUrl, {
-                responseType: 'stream',
-                signal: controller.signal,
-                validateStatus: (status) => status >= 200 && status < 500,
-            });
+// Cover style presets
+const COVER_PRESET_SLUG_RE = /^[a-z0-9][a-z0-9-]{1,63}$/;
 
-            if (upstream.status >= 400) {
-                res.status(upstream.status).send(upstream.statusText || 'Failed to fetch cover');
-                return;
-            }
+app.get('/api/cover-presets', async (_req, res) => {
+    try {
+        const result = await pool.query<CoverStylePresetRow>(
+            'SELECT * FROM cover_style_presets ORDER BY builtin DESC, name ASC'
+        );
+        res.json({ defaultPreset: DEFAULT_COVER_PRESET, presets: result.rows });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить стили обложек' });
+    }
+});
+
+app.post('/api/cover-presets', requireAdmin, async (req, res) => {
+    try {
+        const slug = typeof req.body?.slug === 'string' ? req.body.slug.trim().toLowerCase() : '';
+        const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+        const prompt = typeof req.body?.prompt === 'string' ? req.body.prompt.trim() : '';
+        if (!COVER_PRESET_SLUG_RE.test(slug) || !name || name.length > 128 || !prompt || prompt.length > 2000) {
+            res.status(400).json({ error: 'Нужны slug (a-z, 0-9, -), название и промпт стиля' });
+            return;
+        }
+
+        const result = await pool.query<CoverStylePresetRow>(
+            `
+            INSERT INTO cover_style_presets (slug, name, prompt, created_by)
+            VALUES ($1, $2, $3, $4)
+            ON CONFLICT (slug) DO NOTHING
+            RETURNING *
+            `,
+            [slug, name, prompt, req.user!.id]
+        );
+        if (result.rows.length === 0) {
+            res.status(409).json({ error: 'Стиль с таким slug уже есть' });
+            return;
+        }
+        await recordAuditEvent(req, 'cover_preset.create', { type: 'cover_preset', id: slug }, { name, prompt });
+        res.json(result.rows[0]);
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось создать стиль' });
+    }
+});
 
-            res.status(upstream.status);
+app.put('/api/cover-presets/:slug', requireAdmin, async (req, res) => {
+    try {
+        const name = typeof req.body?.name === 'string' ? req.body.name.trim() : null;
+        const prompt = typeof req.body?.prompt === 'string' ? req.body.prompt.trim() : null;
+        if ((name !== null && (!name || name.length > 128)) || (prompt !== null && (!prompt || prompt.length > 2000))) {
+            res.status(400).json({ error: 'Некорректное название или промпт стиля' });
+            return;
+        }
 
-            const passthroughHeaders = ['content-type', 'content-length', 'etag', 'last-modified', 'cache-control'];
-            for (const headerName of passthroughHeaders) {
-                const value = upstream.headers[headerName];
-                if (typeof value === 'string' && value.length > 0) res.setHeader(headerName, value);
-            }
+        const result = await pool.query<CoverStylePresetRow>(
+            `
+            UPDATE cover_style_presets
+            SET name = COALESCE($1, name), prompt = COALESCE($2, prompt), updated_at = NOW()
+            WHERE slug = $3
+            RETURNING *
+            `,
+            [name, prompt, req.params.slug]
+        );
+        if (result.rows.length === 0) {
+            res.status(404).json({ error: 'Стиль не найден' });
+            return;
+        }
+        await recordAuditEvent(req, 'cover_preset.update', { type: 'cover_preset', id: req.params.slug }, { name, prompt });
+        res.json(result.rows[0]);
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось обновить стиль' });
+    }
+});
 
-            upstream.data.on('error', (err: unknown) => {
-                console.error('Cover proxy stream error:', err);
-                if (!res.headersSent) res.status(502);
-                res.end();
-            });
+app.delete('/api/cover-presets/:slug', requireAdmin, async (req, res) => {
+    try {
+        if (req.params.slug === DEFAULT_COVER_PRESET) {
+            res.status(400).json({ error: 'Стиль по умолчанию удалить нельзя' });
+            return;
+        }
 
-            upstream.data.pipe(res);
+        const result = await pool.query('DELETE FROM cover_style_presets WHERE slug = $1', [req.params.slug]);
+        if (!result.rowCount) {
+            res.status(404).json({ error: 'Стиль не найден' });
             return;
         }
+        await recordAuditEvent(req, 'cover_preset.delete', { type: 'cover_preset', id: req.params.slug });
+        res.json({ ok: true });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось удалить стиль' });
+    }
+});
 
-	        res.status(400).json({ error: 'Некорректный URL обложки' });
-	    } catch (err) {
-	        console.error('Failed to serve project cover:', { ...getErrorInfo(err), ...getPublicRuntimeConfig() });
-	        if (DEBUG_ERRORS_ENABLED) {
-	            res.status(500).json({
-	                error: 'Не удалось получить обложку',
-	                details: getErrorInfo(err),
-	                config: getPublicRuntimeConfig(),
-	            });
-	            return;
-	        }
-	        res.status(500).json({ error: 'Не удалось получить обложку' });
-	    }
-	});
+// Admin: users
+const ADMIN_USER_SORTS = ['newest', 'username', 'storage'] as const;
+const ADMIN_USER_SORT_SQL: Record<(typeof ADMIN_USER_SORTS)[number], string> = {
+    newest: 'u.created_at DESC, u.id DESC',
+    username: 'u.username ASC',
+    storage: 'storage_bytes DESC, u.id DESC',
+};
+const MAX_ADMIN_PAGE_SIZE = 100;
+const MAX_DISABLED_REASON_LENGTH = 500;
 
-app.get('/api/projects/:id', async (req, res) => {
+type AdminUserRow = {
+    id: number;
+    username: string;
+    role: UserRole;
+    display_name: string | null;
+    created_at: string;
+    disabled_at: string | null;
+    disabled_reason: string | null;
+    project_count: string;
+    storage_bytes: string;
+    session_count: string;
+    last_seen_at: string | null;
+};
+
+// Storage is what we know the size of: original uploads, cover versions and collection covers. Renditions and
+// waveforms are derived from the upload and are small next to it.
+const ADMIN_USER_SELECT_SQL = `
+    SELECT u.id, u.username, u.role, u.display_name, u.created_at, u.disabled_at, u.disabled_reason,
+        (SELECT COUNT(*) FROM projects p WHERE p.user_id = u.id) AS project_count,
+        (SELECT COALESCE(SUM(p.audio_size_bytes), 0) FROM projects p WHERE p.user_id = u.id)
+            + (
+                SELECT COALESCE(SUM(c.size_bytes), 0)
+                FROM project_covers c
+                JOIN projects p ON p.id = c.project_id
+                WHERE p.user_id = u.id
+            )
+            + (SELECT COALESCE(SUM(c.cover_size_bytes), 0) FROM collections c WHERE c.user_id = u.id) AS storage_bytes,
+        (SELECT COUNT(*) FROM sessions s WHERE s.user_id = u.id AND s.expires_at > NOW()) AS session_count,
+        (SELECT MAX(s.last_used_at) FROM sessions s WHERE s.user_id = u.id) AS last_seen_at
+    FROM users u
+`;
+
+const serializeAdminUser = (row: AdminUserRow) => ({
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    display_name: row.display_name,
+    created_at: row.created_at,
+    disabled_at: row.disabled_at,
+    disabled_reason: row.disabled_reason,
+    project_count: Number(row.project_count),
+    storage_bytes: Number(row.storage_bytes),
+    session_count: Number(row.session_count),
+    last_seen_at: row.last_seen_at,
+});
+
+const getAdminUser = async (userId: number) => {
+    const result = await pool.query<AdminUserRow>(`${ADMIN_USER_SELECT_SQL} WHERE u.id = $1`, [userId]);
+    return result.rows[0] ? serializeAdminUser(result.rows[0]) : null;
+};
+
+app.get('/api/admin/users', requireAdmin, async (req, res) => {
     try {
-        const project = await getProjectWithOwner(req.params.id);
-        if (!project) {
-            res.status(404).json({ error: 'Проект не найден' });
+        const search = getStringParam(req.query.q);
+        const status = getStringParam(req.query.status);
+        const sort = getStringParam(req.query.sort) ?? 'newest';
+        const limit = Number(getStringParam(req.query.limit) ?? 50);
+        const offset = Number(getStringParam(req.query.offset) ?? 0);
+        if (status !== null && status !== 'active' && status !== 'disabled') {
+            res.status(400).json({ error: 'status должен быть active или disabled' });
+            return;
+        }
+        if (!(ADMIN_USER_SORTS as readonly string[]).includes(sort)) {
+            res.status(400).json({ error: `sort должен быть одним из: ${ADMIN_USER_SORTS.join(', ')}` });
+            return;
+        }
+        if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(offset) || offset < 0) {
+            res.status(400).json({ error: 'Некорректные limit или offset' });
             return;
         }
-        res.json(project);
+
+        const conditions = `
+            WHERE ($1::text IS NULL OR strpos(u.username, lower($1)) > 0 OR strpos(lower(COALESCE(u.display_name, '')), lower($1)) > 0)
+                AND ($2::text IS NULL OR ($2 = 'disabled') = (u.disabled_at IS NOT NULL))
+        `;
+        const [rows, total] = await Promise.all([
+            pool.query<AdminUserRow>(
+                `${ADMIN_USER_SELECT_SQL} ${conditions}
+                ORDER BY ${ADMIN_USER_SORT_SQL[sort as (typeof ADMIN_USER_SORTS)[number]]}
+                LIMIT $3 OFFSET $4`,
+                [search, status, Math.min(limit, MAX_ADMIN_PAGE_SIZE), offset]
+            ),
+            pool.query<{ count: string }>(`SELECT COUNT(*) AS count FROM users u ${conditions}`, [search, status]),
+        ]);
+        res.json({ items: rows.rows.map(serializeAdminUser), total: Number(total.rows[0]?.count ?? 0) });
     } catch (err) {
         console.error(err);
-        res.status(500).json({ error: 'Не удалось получить проект' });
+        res.status(500).json({ error: 'Не удалось загрузить пользователей' });
     }
 });
 
-app.put('/api/projects/:id', requireAuth, async (req, res) => {
+app.put('/api/admin/users/:username/role', requireAdmin, async (req, res) => {
     try {
-        const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
-        if (!name) {
-            res.status(400).json({ error: 'Название обязательно' });
+        const role = req.body?.role;
+        if (role !== 'user' && role !== 'admin') {
+            res.status(400).json({ error: 'role должен быть user или admin' });
             return;
         }
-
-        const access = await requireProjectWriteAccess(req.params.id, req.user!);
-        if (!access.ok) {
-            res.status(access.status).json({ error: access.error });
+        const user = await getUserProfileRow(req.params.username);
+        if (!user) {
+            res.status(404).json({ error: 'Пользователь не найден' });
+            return;
+        }
+        // Only blocks changing one's own role. That is also why demotions can't leave the site without admins: the
+        // admin making the change always stays one. Demoting any other admin is allowed.
+        if (user.id === req.user!.id) {
+            res.status(400).json({ error: 'Нельзя изменить собственную роль' });
             return;
         }
 
-        await pool.query('UPDATE projects SET name = $1 WHERE id = $2', [name, req.params.id]);
-        const updated = await getProjectWithOwner(req.params.id);
-        res.json(updated);
+        const previous = await pool.query<{ role: UserRole }>(
+            'UPDATE users u SET role = $1 FROM users old WHERE u.id = $2 AND old.id = u.id RETURNING old.role',
+            [role, user.id]
+        );
+        const previousRole = previous.rows[0]?.role;
+        if (previousRole !== role) {
+            await recordAuditEvent(req, 'user.role_change', { type: 'user', id: user.id }, {
+                username: user.username,
+                role: { from: previousRole, to: role },
+            });
+        }
+        res.json(await getAdminUser(user.id));
     } catch (err) {
         console.error(err);
-        res.status(500).json({ error: 'Не удалось обновить проект' });
+        res.status(500).json({ error: 'Не удалось изменить роль' });
     }
 });
 
-app.delete('/api/projects/:id', requireAuth, async (req, res) => {
+// Blocks login right away: sessions are dropped and the auth middleware ignores disabled accounts anyway.
+// Projects stay where they are; moderators delete them separately if needed.
+app.post('/api/admin/users/:username/disable', requireAdmin, async (req, res) => {
     try {
-        const access = await requireProjectWriteAccess(req.params.id, req.user!);
-        if (!access.ok) {
-            res.status(access.status).json({ error: access.error });
+        const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+        if (reason.length > MAX_DISABLED_REASON_LENGTH) {
+            res.status(400).json({ error: `Причина не длиннее ${MAX_DISABLED_REASON_LENGTH} символов` });
             return;
         }
-
-        const project = access.project;
-        await pool.query('DELETE FROM projects WHERE id = $1', [req.params.id]);
-
-        if (project.audio_object_key) {
-            try {
-                await deleteObjectFromR2(project.audio_object_key);
-            } catch (err) {
-                console.error('Failed to delete R2 audio object:', err);
-            }
+        const user = await getUserProfileRow(req.params.username);
+        if (!user) {
+            res.status(404).json({ error: 'Пользователь не найден' });
+            return;
+        }
+        if (user.id === req.user!.id) {
+            res.status(400).json({ error: 'Нельзя заблокировать собственный аккаунт' });
+            return;
         }
 
-        if (project.cover_object_key) {
-            try {
-                await deleteObjectFromR2(project.cover_object_key);
-            } catch (err) {
-                console.error('Failed to delete R2 cover object:', err);
-            }
+        await pool.query('UPDATE users SET disabled_at = COALESCE(disabled_at, NOW()), disabled_reason = $1 WHERE id = $2', [
+            reason || null,
+            user.id,
+        ]);
+        const revoked = await pool.query('DELETE FROM sessions WHERE user_id = $1', [user.id]);
+        await pool.query('DELETE FROM password_reset_tokens WHERE user_id = $1 AND used_at IS NULL', [user.id]);
+        await recordAuditEvent(req, 'user.disable', { type: 'user', id: user.id }, {
+            username: user.username,
+            reason: reason || null,
+            revokedSessions: revoked.rowCount ?? 0,
+        });
+        res.json(await getAdminUser(user.id));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось заблокировать пользователя' });
+    }
+});
+
+app.post('/api/admin/users/:username/enable', requireAdmin, async (req, res) => {
+    try {
+        const user = await getUserProfileRow(req.params.username);
+        if (!user) {
+            res.status(404).json({ error: 'Пользователь не найден' });
+            return;
         }
 
-        try {
-            if (project.audio_url.startsWith('/uploads/')) {
-                const audioPath = resolveUploadsPath(project.audio_url);
-                if (fs.existsSync(audioPath)) fs.unlinkSync(audioPath);
-            }
-        } catch {
-            // ignore
+        const result = await pool.query(
+            'UPDATE users SET disabled_at = NULL, disabled_reason = NULL WHERE id = $1 AND disabled_at IS NOT NULL',
+            [user.id]
+        );
+        if (result.rowCount) {
+            await recordAuditEvent(req, 'user.enable', { type: 'user', id: user.id }, { username: user.username });
         }
+        res.json(await getAdminUser(user.id));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось разблокировать пользователя' });
+    }
+});
 
-        if (project.cover_url?.startsWith('/uploads/covers/')) {
-            try {
-                const coverPath = resolveUploadsPath(project.cover_url);
-                if (fs.existsSync(coverPath)) fs.unlinkSync(coverPath);
-            } catch {
-                // ignore
-            }
+// There is no email, so the admin hands the code to the user by whatever channel they have. Issuing a new code
+// cancels the previous unused one.
+app.post('/api/admin/users/:username/password-reset', requireAdmin, async (req, res) => {
+    try {
+        const user = await getUserProfileRow(req.params.username);
+        if (!user) {
+            res.status(404).json({ error: 'Пользователь не найден' });
+            return;
         }
 
-        res.json({ ok: true });
+        const resetToken = crypto.randomBytes(12).toString('base64url');
+        const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_HOURS * 60 * 60 * 1000);
+        await pool.query('DELETE FROM password_reset_tokens WHERE user_id = $1 AND used_at IS NULL', [user.id]);
+        await pool.query(
+            'INSERT INTO password_reset_tokens (token_hash, user_id, created_by, expires_at) VALUES ($1, $2, $3, $4)',
+            [hashSessionToken(resetToken), user.id, req.user!.id, expiresAt]
+        );
+        await recordAuditEvent(req, 'user.password_reset', { type: 'user', id: user.id }, { username: user.username });
+        res.status(201).json({ token: resetToken, username: user.username, expiresAt: expiresAt.toISOString() });
     } catch (err) {
         console.error(err);
-        res.status(500).json({ error: 'Не удалось удалить проект' });
+        res.status(500).json({ error: 'Не удалось создать код сброса' });
     }
 });
 
-// AI Processing
-app.post('/api/transcribe/:id', requireAuth, async (req, res) => {
-    const { id } = req.params;
+// Admin: audit log
+app.get('/api/admin/audit', requireAdmin, async (req, res) => {
     try {
-        const access = await requireProjectWriteAccess(id, req.user!);
-        if (!access.ok) {
-            res.status(access.status).json({ error: access.error });
+        res.json(
+            await listAuditEvents(
+                {
+                    actor: getStringParam(req.query.actor),
+                    action: getStringParam(req.query.action),
+                    targetType: getStringParam(req.query.targetType) ?? undefined,
+                    targetId: getStringParam(req.query.targetId) ?? undefined,
+                    cursor: getStringParam(req.query.cursor),
+                    limit: getStringParam(req.query.limit),
+                },
+                { includeIp: true }
+            )
+        );
+    } catch (err) {
+        if (err instanceof AuditQueryError) {
+            res.status(400).json({ error: err.message });
             return;
         }
-        const project = access.project;
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить журнал' });
+    }
+});
 
-        const audioMimeTypeFromExt = (ext: string) => {
-            const normalized = ext.toLowerCase();
-            if (normalized === '.mp3') return 'audio/mpeg';
-            if (normalized === '.webm') return 'audio/webm';
-            if (normalized === '.ogg') return 'audio/ogg';
-            if (normalized === '.m4a') return 'audio/mp4';
-            if (normalized === '.flac') return 'audio/flac';
-            if (normalized === '.wav') return 'audio/wav';
-            return 'audio/wav';
-        };
+// Admin: projects
+// Same filters and paging as the gallery, but private projects of every user are included.
+app.get('/api/admin/projects', requireAdmin, async (req, res) => {
+    try {
+        const filters = parseProjectListQuery(req.query);
+        res.json(await listProjects(filters, req.user, { allVisibilities: true }));
+    } catch (err) {
+        if (err instanceof ProjectListQueryError) {
+            res.status(400).json({ error: err.message });
+            return;
+        }
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось загрузить проекты' });
+    }
+});
 
-        let audioBuffer: Buffer;
-        let audioFilename: string;
-        let mimeType = 'audio/wav';
+// Admin: storage maintenance
+// Maintenance jobs are global, so at most one of each kind runs at a time.
+const findActiveJobId = async (type: JobType) => {
+    const running = await pool.query<{ id: string }>(
+        "SELECT id FROM jobs WHERE type = $1 AND status IN ('queued', 'running') LIMIT 1",
+        [type]
+    );
+    return running.rows[0]?.id ?? null;
+};
 
-        if (project.audio_object_key && R2_ENABLED && r2Client) {
-            const output = await r2Client.send(
-                new GetObjectCommand({
-                    Bucket: R2_BUCKET!,
-                    Key: project.audio_object_key,
-                })
-            );
+type StorageTarget = 'local' | 's3';
 
-	            const body = output.Body as unknown;
-	            if (!body) {
-	                res.status(404).json({ error: 'Аудио не найдено' });
-	                return;
-	            }
+type StorageMigrationItem = {
+    source: string;
+    rows: string[];
+    status: 'copied' | 'would_copy' | 'skipped' | 'missing' | 'external' | 'failed';
+    target?: string;
+    sizeBytes?: number;
+    checksum?: string;
+    error?: string;
+};
 
-            if (typeof output.ContentType === 'string' && output.ContentType.length > 0) {
-                mimeType = output.ContentType.split(';')[0]?.trim() || mimeType;
-            }
+// Keeps job results small; the counters cover everything, the list is for eyeballing.
+const MAX_REPORTED_MIGRATION_ITEMS = 500;
+
+const sha256 = (buffer: Buffer) => crypto.createHash('sha256').update(buffer).digest('hex');
+
+// Copies every stored file onto the target driver and repoints the rows at it. Each file is committed on its own
+// (copy, verify checksum, update rows), and files already on the target are skipped, so an interrupted run
+// resumes where it stopped when the job is requeued or started again. Source files are left in place for GC.
+jobHandlers.migrate_storage = async (job, { setProgress }) => {
+    const target: StorageTarget = job.payload?.target === 's3' ? 's3' : 'local';
+    const dryRun = job.payload?.dryRun === true;
+    const targetDriver = target === 's3' ? s3StorageDriver : localStorageDriver;
+    if (!targetDriver) throw new JobError('R2 не настроен: задайте переменные R2_*');
+
+    // The same file can be referenced from several rows (the active cover lives in projects and project_covers).
+    const sources = new Map<string, { ref: StoredFileRef & { url: string }; rows: { column: StoredFileColumn; id: number }[] }>();
+    for (const column of STORED_FILE_COLUMNS) {
+        for (const row of await listStoredFileRows(column)) {
+            const id = `${row.object_key ?? ''}|${row.url}`;
+            const entry = sources.get(id) || { ref: { url: row.url, objectKey: row.object_key }, rows: [] };
+            entry.rows.push({ column, id: row.id });
+            sources.set(id, entry);
+        }
+    }
 
-            audioFilename = path.basename(project.audio_object_key) || `project-${id}.wav`;
-            if (!mimeType) {
-                mimeType = audioMimeTypeFromExt(path.extname(audioFilename));
-            }
+    const counts: Record<StorageMigrationItem['status'], number> = {
+        copied: 0,
+        would_copy: 0,
+        skipped: 0,
+        missing: 0,
+        external: 0,
+        failed: 0,
+    };
+    let bytes = 0;
+    const items: StorageMigrationItem[] = [];
+    let processed = 0;
+
+    for (const { ref, rows } of sources.values()) {
+        const item: StorageMigrationItem = {
+            source: ref.objectKey || ref.url,
+            rows: rows.map(({ column, id }) => `${column.table}.${column.url}#${id}`),
+            status: 'skipped',
+        };
 
-            if (typeof (body as { pipe?: unknown }).pipe === 'function') {
-                audioBuffer = await streamToBuffer(body as unknown as NodeJS.ReadableStream);
-            } else if (typeof (body as { transformToByteArray?: unknown }).transformToByteArray === 'function') {
-                const bytes = await (body as { transformToByteArray: () => Promise<Uint8Array> }).transformToByteArray();
-                audioBuffer = Buffer.from(bytes);
-	            } else {
-	                res.status(500).json({ error: 'Неподдерживаемый тип аудиопотока' });
-	                return;
-	            }
-	        } else if (project.audio_url.startsWith('/uploads/')) {
-	            const audioPath = resolveUploadsPath(project.audio_url);
-	            if (!fs.existsSync(audioPath)) {
-	                res.status(400).json({ error: 'Аудиофайл не найден на сервере' });
-	                return;
-	            }
-            audioBuffer = fs.readFileSync(audioPath);
-            audioFilename = path.basename(audioPath);
-            mimeType = audioMimeTypeFromExt(path.extname(audioPath));
-        } else if (isHttpUrl(project.audio_url)) {
-            const response = await axios.get<ArrayBuffer>(project.audio_url, { responseType: 'arraybuffer' });
-            audioBuffer = Buffer.from(response.data);
-
-            const headerMime = String(response.headers['content-type'] || '').split(';')[0]?.trim();
-            if (headerMime) {
-                mimeType = headerMime;
+        try {
+            const location = locateStoredFile(ref);
+            if (!location) {
+                item.status = isHttpUrl(ref.url) ? 'external' : 'missing';
+            } else if (location.driver === targetDriver) {
+                item.status = 'skipped';
             } else {
-                try {
-                    const urlPath = new URL(project.audio_url).pathname;
-                    mimeType = audioMimeTypeFromExt(path.extname(urlPath));
-                } catch {
-                    // ignore
-                }
-            }
-
-            try {
-                const urlPath = new URL(project.audio_url).pathname;
-                audioFilename = path.basename(urlPath) || `project-${id}.wav`;
-            } catch {
-                audioFilename = `project-${id}.wav`;
-            }
-	        } else {
-	            res.status(400).json({ error: 'Некорректный URL аудио' });
-	            return;
-	        }
-
-        const audioBase64 = audioBuffer.toString('base64');
+                const targetKey = target === 's3' ? applyStoragePrefix(stripStoragePrefix(location.key)) : stripStoragePrefix(location.key);
+                const targetRef = {
+                    url: targetDriver.publicUrl(targetKey),
+                    objectKey: target === 's3' ? targetKey : null,
+                };
+                item.target = targetRef.objectKey || targetRef.url;
+
+                const object = await location.driver.get(location.key);
+                if (!object) {
+                    item.status = 'missing';
+                } else if (dryRun) {
+                    object.body.destroy();
+                    item.status = 'would_copy';
+                    item.sizeBytes = object.size;
+                    bytes += object.size;
+                } else {
+                    const buffer = await streamToBuffer(object.body);
+                    const checksum = sha256(buffer);
+                    await targetDriver.put(targetKey, buffer, {
+                        contentType: object.contentType || undefined,
+                        contentLength: buffer.length,
+                        cacheControl: object.cacheControl || 'public, max-age=31536000, immutable',
+                    });
+
+                    const copy = await targetDriver.get(targetKey);
+                    const copyChecksum = copy ? sha256(await streamToBuffer(copy.body)) : null;
+                    if (copyChecksum !== checksum) {
+                        await targetDriver.delete(targetKey);
+                        throw new Error(`checksum mismatch: ${checksum} != ${copyChecksum ?? 'missing'}`);
+                    }
 
-        const emotionalPrompt = `Ты — искусствовед. Прослушай аудио и напиши краткий анализ:
+                    for (const { column, id } of rows) {
+                        // Only repoint rows that still reference the file we copied.
+                        await pool.query(
+                            `UPDATE ${column.table} SET ${column.url} = $1, ${column.objectKey} = $2 WHERE id = $3 AND ${column.url} = $4`,
+                            [targetRef.url, targetRef.objectKey, id, ref.url]
+                        );
+                    }
 
-1. ТЕКСТ (1 абзац): О чём поётся/говорится?
+                    item.status = 'copied';
+                    item.sizeBytes = buffer.length;
+                    item.checksum = checksum;
+                    bytes += buffer.length;
+                }
+            }
+        } catch (err: any) {
+            console.error(`Storage migration: failed to move ${item.source}:`, err);
+            item.status = 'failed';
+            item.error = truncateText(err?.message || String(err), 500);
+        }
 
-2. ВИЗУАЛЬНЫЙ ОБРАЗ (2-3 абзаца): Опиши конкретные визуальные образы для обложки альбома. Какие сцены, персонажи, объекты, пейзажи, цвета передадут настроение этого трека? Будь конкретным: не "грусть", а "одинокая фигура на пустом пирсе в тумане".
+        counts[item.status] += 1;
+        if (items.length < MAX_REPORTED_MIGRATION_ITEMS && item.status !== 'skipped') items.push(item);
+        processed += 1;
+        if (processed % 10 === 0) await setProgress((processed / sources.size) * 100);
+    }
 
-Пиши ёмко и образно!`;
+    return { target, dryRun, files: sources.size, bytes, counts, items, truncated: items.length >= MAX_REPORTED_MIGRATION_ITEMS };
+};
 
-	        if (!OPENROUTER_API_KEY) {
-	            if (!ALLOW_MOCK_AI) {
-	                res.status(503).json({ error: 'OpenRouter не настроен' });
-	                return;
-	            }
-            const mockAnalysis = `ТРАНСКРИПЦИЯ: This is a mock transcription.
+app.post('/api/admin/storage/migrate', requireAdmin, async (req, res) => {
+    try {
+        const target = req.body?.target;
+        if (target !== 'local' && target !== 's3') {
+            res.status(400).json({ error: 'target должен быть local или s3' });
+            return;
+        }
+        if (target === 's3' && !s3StorageDriver) {
+            res.status(400).json({ error: 'R2 не настроен: задайте переменные R2_*' });
+            return;
+        }
 
-ЭМОЦИОНАЛЬНАЯ ПАЛИТРА: Энергичность, драйв, позитив
+        const activeJobId = await findActiveJobId('migrate_storage');
+        if (activeJobId) {
+            res.status(409).json({ error: 'Миграция уже выполняется', jobId: activeJobId });
+            return;
+        }
 
-ВАЙБ: Современный, молодежный, динамичный
+        const job = await enqueueJob({
+            type: 'migrate_storage',
+            projectId: null,
+            userId: req.user!.id,
+            payload: { target, dryRun: req.body?.dryRun === true },
+        });
+        await recordAuditEvent(req, 'storage.migrate', { type: 'storage' }, {
+            target,
+            dryRun: req.body?.dryRun === true,
+            jobId: job.id,
+        });
+        res.status(202).json({ jobId: job.id, job: serializeJob(job) });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось запустить миграцию' });
+    }
+});
 
-СТИЛЬ: Electronic/Pop
+type OrphanedFile = {
+    driver: StorageDriverName;
+    key: string;
+    sizeBytes: number;
+    lastModified: string | null;
+    status: 'deleted' | 'would_delete' | 'recent' | 'failed';
+    error?: string;
+};
 
-ВИЗУАЛЬНЫЕ АССОЦИАЦИИ: Неоновые огни, ночной город, движение
+// Only these folders are ours inside the bucket, which may be shared with other apps when R2_PREFIX is empty.
+// The local uploads dir belongs to the app entirely (older uploads live in its root).
+const STORAGE_GC_FOLDERS = ['audio/', 'covers/', 'avatars/'];
+
+const MAX_REPORTED_ORPHANS = 500;
+
+// Lists what the drivers hold and deletes whatever no STORED_FILE_COLUMNS row points at, once it is older than the
+// grace period. Covers the leaks of failed uploads, failed inserts and covers that never made it into the DB.
+jobHandlers.collect_orphans = async (job, { setProgress }) => {
+    const dryRun = job.payload?.dryRun === true;
+    const graceHours = Number(job.payload?.graceHours) > 0 ? Number(job.payload?.graceHours) : STORAGE_GC_GRACE_HOURS;
+    const cutoff = Date.now() - graceHours * 60 * 60 * 1000;
+
+    // Collected before listing: anything written after this point is too new to be touched anyway.
+    const referenced = new Set<string>();
+    for (const column of STORED_FILE_COLUMNS) {
+        for (const row of await listStoredFileRows(column)) {
+            const location = locateStoredFile({ url: row.url, objectKey: row.object_key });
+            if (location) referenced.add(`${location.driver.name}:${location.key}`);
+        }
+    }
+    await setProgress(10);
+
+    const scans: { driver: StorageDriver; prefixes: string[] }[] = [{ driver: localStorageDriver, prefixes: [''] }];
+    if (objectStorage) scans.push({ driver: objectStorage, prefixes: STORAGE_GC_FOLDERS.map(applyStoragePrefix) });
+
+    let scanned = 0;
+    let orphanBytes = 0;
+    const counts: Record<OrphanedFile['status'], number> = { deleted: 0, would_delete: 0, recent: 0, failed: 0 };
+    const items: OrphanedFile[] = [];
+
+    for (const [index, { driver, prefixes }] of scans.entries()) {
+        for (const prefix of prefixes) {
+            for await (const entry of driver.list(prefix)) {
+                scanned += 1;
+                if (referenced.has(`${driver.name}:${entry.key}`)) continue;
+
+                const item: OrphanedFile = {
+                    driver: driver.name,
+                    key: entry.key,
+                    sizeBytes: entry.size,
+                    lastModified: entry.lastModified?.toISOString() ?? null,
+                    status: 'recent',
+                };
+                orphanBytes += entry.size;
+
+                // Without a timestamp the age is unknown, so the file is kept.
+                if (!entry.lastModified || entry.lastModified.getTime() > cutoff) {
+                    item.status = 'recent';
+                } else if (dryRun) {
+                    item.status = 'would_delete';
+                } else {
+                    try {
+                        await driver.delete(entry.key);
+                        item.status = 'deleted';
+                    } catch (err: any) {
+                        console.error(`Orphan cleanup: failed to delete ${driver.name}:${entry.key}:`, err);
+                        item.status = 'failed';
+                        item.error = truncateText(err?.message || String(err), 500);
+                    }
+                }
 
-КОММЕРЧЕСКИЙ ПОТЕНЦИАЛ: Хит в стиле современной электронной музыки`;
-            await pool.query('UPDATE projects SET transcription = $1, emotional_analysis = $1 WHERE id = $2', [
-                mockAnalysis,
-                id,
-            ]);
-            const updated = await getProjectWithOwner(id);
-            res.json(updated);
-            return;
-        }
-
-        const openRouterSiteUrl = OPENROUTER_SITE_URL || getRequestBaseUrl(req) || 'http://localhost:3000';
-
-        const response = await axios.post(
-            'https://openrouter.ai/api/v1/chat/completions',
-            {
-                model: OPENROUTER_ANALYSIS_MODEL,
-                messages: [
-                    {
-                        role: 'user',
-                        content: [
-                            { type: 'text', text: emotionalPrompt },
-                            {
-                                type: 'file',
-                                file: {
-                                    filename: audioFilename,
-                                    file_data: `data:${mimeType};base64,${audioBase64}`,
-                                },
-                            },
-                        ],
-                    },
-                ],
-            },
-            {
-                headers: {
-                    Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-                    'Content-Type': 'application/json',
-                    'HTTP-Referer': openRouterSiteUrl,
-                    'X-Title': OPENROUTER_APP_NAME,
-                },
+                counts[item.status] += 1;
+                if (items.length < MAX_REPORTED_ORPHANS) items.push(item);
             }
-        );
-
-        const analysis = response.data.choices[0].message.content;
-        await pool.query('UPDATE projects SET transcription = $1, emotional_analysis = $1 WHERE id = $2', [analysis, id]);
-        const updated = await getProjectWithOwner(id);
-        res.json(updated);
-    } catch (err: any) {
-        const status = err?.response?.status as number | undefined;
-        const upstreamMessage = extractErrorMessage(err?.response?.data) || extractErrorMessage(err?.message);
-        const details = upstreamMessage ? truncateText(upstreamMessage) : undefined;
-        console.error('Transcription Error:', err.response?.data || err.message);
+        }
+        await setProgress(10 + ((index + 1) / scans.length) * 90);
+    }
 
-        if (typeof status === 'number') {
-            let error = 'OpenRouter error';
-            if (status === 401) error = 'OpenRouter unauthorized';
-            else if (status === 404) error = 'OpenRouter not found';
-            else if (status === 429) error = 'OpenRouter rate limited';
-            else if (status === 400) error = 'OpenRouter bad request';
-            else if (status >= 500) error = 'OpenRouter upstream error';
+    const orphans = counts.deleted + counts.would_delete + counts.recent + counts.failed;
+    if (orphans > 0) {
+        console.log(`Orphan cleanup${dryRun ? ' (dry run)' : ''}: ${orphans} unreferenced file(s) of ${scanned}`, counts);
+    }
 
-            const hint =
-                status === 404
-                    ? 'Check OPENROUTER_ANALYSIS_MODEL and that the model exists / is available for your key.'
-                    : status === 401
-                        ? 'Check OPENROUTER_API_KEY (and that Railway env quoting is handled).'
-                        : status === 400
-                            ? 'The selected model may not support audio/file input. Try a Gemini model that supports audio.'
-                            : undefined;
+    return {
+        dryRun,
+        graceHours,
+        scanned,
+        orphans,
+        orphanBytes,
+        counts,
+        items,
+        truncated: orphans > items.length,
+    };
+};
 
-            const payload: Record<string, unknown> = { error, upstreamStatus: status };
-            if (details) payload.details = details;
-            if (hint) payload.hint = hint;
-            if (DEBUG_ERRORS_ENABLED) payload.config = getPublicRuntimeConfig();
+const scheduleStorageGc = () => {
+    if (!STORAGE_GC_INTERVAL_HOURS) return;
+    const enqueueScheduledGc = async () => {
+        try {
+            if (await findActiveJobId('collect_orphans')) return;
+            await enqueueJob({ type: 'collect_orphans', projectId: null, userId: null, payload: { dryRun: false } });
+        } catch (err) {
+            console.error('Failed to schedule orphan cleanup:', err);
+        }
+    };
+    setInterval(() => void enqueueScheduledGc(), STORAGE_GC_INTERVAL_HOURS * 60 * 60 * 1000).unref();
+};
 
-            res.status(502).json(payload);
+app.post('/api/admin/storage/gc', requireAdmin, async (req, res) => {
+    try {
+        const graceHours = req.body?.graceHours;
+        if (graceHours !== undefined && !(Number.isFinite(graceHours) && graceHours > 0)) {
+            res.status(400).json({ error: 'graceHours должен быть положительным числом' });
             return;
         }
 
-        if (details) {
-            res.status(500).json({ error: 'Failed to transcribe', details });
+        const activeJobId = await findActiveJobId('collect_orphans');
+        if (activeJobId) {
+            res.status(409).json({ error: 'Очистка уже выполняется', jobId: activeJobId });
             return;
         }
 
-        res.status(500).json({ error: 'Failed to transcribe' });
+        // Dry run unless explicitly asked to delete.
+        const job = await enqueueJob({
+            type: 'collect_orphans',
+            projectId: null,
+            userId: req.user!.id,
+            payload: { dryRun: req.body?.dryRun !== false, graceHours },
+        });
+        await recordAuditEvent(req, 'storage.gc', { type: 'storage' }, {
+            dryRun: req.body?.dryRun !== false,
+            graceHours: graceHours ?? STORAGE_GC_GRACE_HOURS,
+            jobId: job.id,
+        });
+        res.status(202).json({ jobId: job.id, job: serializeJob(job) });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось запустить очистку' });
     }
 });
 
-app.post('/api/generate-cover/:id', requireAuth, async (req, res) => {
-    const { id } = req.params;
+// Jobs
+app.get('/api/jobs/:id', requireAuth, async (req, res) => {
     try {
-        const access = await requireProjectWriteAccess(id, req.user!);
-        if (!access.ok) {
-            res.status(access.status).json({ error: access.error });
-            return;
-        }
-        const project = access.project;
-
-        const analysisText = project.emotional_analysis || project.transcription;
-        if (!analysisText) {
-            res.status(400).json({ error: 'Audio analysis required for cover generation' });
+        const job = await getJobById(req.params.id);
+        if (!job) {
+            res.status(404).json({ error: 'Задача не найдена' });
             return;
         }
 
-        const shortPrompt = `Vinyl record cardboard sleeve cover art. Square format, just the cover filling the entire frame, no background, no borders. The artwork shows a vivid scene that captures the song's emotion and style. NO TEXT, NO LETTERS, NO WORDS on the cover. Visual imagery based on: ${analysisText.substring(0, 300)}`;
-
-        let coverSourceUrl = '';
-        if (OPENROUTER_API_KEY) {
-            const openRouterSiteUrl = OPENROUTER_SITE_URL || getRequestBaseUrl(req) || 'http://localhost:3000';
-            try {
-                const imageResponse = await axios.post(
-                    'https://openrouter.ai/api/v1/chat/completions',
-                    {
-                        model: OPENROUTER_IMAGE_MODEL,
-                        modalities: ['text', 'image'],
-                        messages: [
-                            {
-                                role: 'user',
-                                content: [{ type: 'text', text: shortPrompt }],
-                            },
-                        ],
-                    },
-                    {
-                        headers: {
-                            Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-                            'Content-Type': 'application/json',
-                            'HTTP-Referer': openRouterSiteUrl,
-                            'X-Title': OPENROUTER_APP_NAME,
-                        },
-                    }
-                );
-
-                const message = imageResponse.data.choices[0].message;
-
-                if (message.images && message.images.length > 0) {
-                    coverSourceUrl = message.images[0].image_url.url;
-                } else if (message.content && Array.isArray(message.content)) {
-                    for (const part of message.content) {
-                        if (part.type === 'image_url' && part.image_url?.url) {
-                            coverSourceUrl = part.image_url.url;
-                            break;
-                        }
-                    }
-                }
-            } catch (err: any) {
-                console.error('Gemini cover error:', err.response?.data || err.message);
+        if (req.user!.role !== 'admin' && job.user_id !== req.user!.id) {
+            if (job.project_id == null && job.collection_id == null) {
+                res.status(403).json({ error: 'Доступ запрещён' });
+                return;
+            }
+            const access =
+                job.project_id != null
+                    ? await requireProjectWriteAccess(String(job.project_id), req.user!)
+                    : await requireCollectionWriteAccess(String(job.collection_id), req.user!);
+            if (!access.ok) {
+                res.status(access.status).json({ error: access.error });
+                return;
             }
         }
 
-        if (!coverSourceUrl) {
-            const seed = crypto.randomBytes(8).toString('hex');
-            coverSourceUrl = `https://image.pollinations.ai/prompt/${encodeURIComponent(shortPrompt)}?width=1024&height=1024&seed=${seed}&nologo=true`;
-        }
+        res.json(serializeJob(job));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось получить задачу' });
+    }
+});
 
-        const storedCover = await downloadCoverToStorage(coverSourceUrl, id);
-        if (R2_ENABLED && !storedCover) {
-            res.status(500).json({ error: 'Failed to store cover' });
+app.get('/api/projects/:id/jobs', requireAuth, async (req, res) => {
+    try {
+        const access = await requireProjectWriteAccess(req.params.id, req.user!);
+        if (!access.ok) {
+            res.status(access.status).json({ error: access.error });
             return;
         }
-        const coverUrlToStore = storedCover ? storedCover.url : coverSourceUrl;
-        const coverObjectKeyToStore = storedCover ? storedCover.objectKey : null;
-
-        const previousCoverUrl = project.cover_url;
-        const previousCoverObjectKey = project.cover_object_key;
-        await pool.query('UPDATE projects SET cover_url = $1, cover_object_key = $2 WHERE id = $3', [
-            coverUrlToStore,
-            coverObjectKeyToStore,
-            id,
-        ]);
-
-        if (previousCoverObjectKey && coverObjectKeyToStore && previousCoverObjectKey !== coverObjectKeyToStore) {
-            try {
-                await deleteObjectFromR2(previousCoverObjectKey);
-            } catch (err) {
-                console.error('Failed to delete previous R2 cover:', err);
-            }
-        }
-
-        if (
-            previousCoverUrl &&
-            previousCoverUrl.startsWith('/uploads/covers/') &&
-            previousCoverUrl !== coverUrlToStore
-        ) {
-            try {
-                const previousPath = resolveUploadsPath(previousCoverUrl);
-                if (fs.existsSync(previousPath)) fs.unlinkSync(previousPath);
-            } catch {
-                // ignore
-            }
-        }
 
-        const updated = await getProjectWithOwner(id);
-        res.json(updated);
-    } catch (err: any) {
-        console.error('Cover Gen Error:', err.response?.data || err.message);
-        res.status(500).json({ error: 'Failed to generate cover' });
+        const activeOnly = req.query.active === '1' || req.query.active === 'true';
+        const result = await pool.query<JobRow>(
+            `
+            SELECT * FROM jobs
+            WHERE project_id = $1 ${activeOnly ? "AND status IN ('queued', 'running')" : ''}
+            ORDER BY created_at DESC
+            LIMIT 20
+            `,
+            [req.params.id]
+        );
+        res.json(result.rows.map(serializeJob));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: 'Не удалось получить задачи' });
     }
 });
 
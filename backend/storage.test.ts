@@ -0,0 +1,138 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+    StorageDriver,
+    StorageRangeError,
+    contentTypeFromKey,
+    createLocalStorageDriver,
+    createMemoryStorageDriver,
+} from './storage';
+
+const readBody = async (body: NodeJS.ReadableStream) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    return Buffer.concat(chunks).toString();
+};
+
+const listKeys = async (driver: StorageDriver, prefix?: string) => {
+    const keys: string[] = [];
+    for await (const entry of driver.list(prefix)) keys.push(entry.key);
+    return keys.sort();
+};
+
+// Routes only rely on the StorageDriver contract, so every driver has to pass the same checks.
+const describeDriver = (name: string, createDriver: () => StorageDriver) => {
+    describe(`${name} storage driver`, () => {
+        let driver: StorageDriver;
+        before(async () => {
+            driver = createDriver();
+            await driver.put('audio/track.mp3', Buffer.from('0123456789'), { contentType: 'audio/mpeg' });
+        });
+
+        test('returns the whole object without a Range header', async () => {
+            const object = await driver.get('audio/track.mp3');
+            assert.ok(object);
+            assert.equal(object.statusCode, 200);
+            assert.equal(object.contentLength, 10);
+            assert.equal(object.contentRange, null);
+            assert.equal(object.contentType, 'audio/mpeg');
+            assert.equal(await readBody(object.body), '0123456789');
+        });
+
+        test('serves a bounded range', async () => {
+            const object = await driver.get('audio/track.mp3', { range: 'bytes=2-5' });
+            assert.ok(object);
+            assert.equal(object.statusCode, 206);
+            assert.equal(object.contentLength, 4);
+            assert.equal(object.contentRange, 'bytes 2-5/10');
+            assert.equal(await readBody(object.body), '2345');
+        });
+
+        test('serves open-ended and suffix ranges', async () => {
+            const openEnded = await driver.get('audio/track.mp3', { range: 'bytes=7-' });
+            assert.equal(await readBody(openEnded!.body), '789');
+            const suffix = await driver.get('audio/track.mp3', { range: 'bytes=-3' });
+            assert.equal(suffix!.contentRange, 'bytes 7-9/10');
+            assert.equal(await readBody(suffix!.body), '789');
+        });
+
+        test('clamps a range that runs past the end', async () => {
+            const object = await driver.get('audio/track.mp3', { range: 'bytes=8-100' });
+            assert.equal(object!.contentRange, 'bytes 8-9/10');
+            assert.equal(await readBody(object!.body), '89');
+        });
+
+        test('ignores ranges it does not support', async () => {
+            const object = await driver.get('audio/track.mp3', { range: 'bytes=0-1,4-5' });
+            assert.equal(object!.statusCode, 200);
+            assert.equal(await readBody(object!.body), '0123456789');
+        });
+
+        test('rejects a range starting past the end', async () => {
+            await assert.rejects(driver.get('audio/track.mp3', { range: 'bytes=10-' }), StorageRangeError);
+        });
+
+        test('accepts streams as well as buffers', async () => {
+            await driver.put('audio/streamed.wav', Readable.from([Buffer.from('ab'), Buffer.from('cd')]));
+            const object = await driver.get('audio/streamed.wav');
+            assert.equal(await readBody(object!.body), 'abcd');
+            assert.equal((await driver.stat('audio/streamed.wav'))?.size, 4);
+        });
+
+        test('lists keys under a prefix', async () => {
+            await driver.put('covers/a.png', Buffer.from('png'));
+            assert.deepEqual(await listKeys(driver, 'audio/'), ['audio/streamed.wav', 'audio/track.mp3']);
+            assert.deepEqual(await listKeys(driver, 'covers/'), ['covers/a.png']);
+        });
+
+        test('returns null for missing keys and deletes idempotently', async () => {
+            await driver.put('tmp/gone.json', Buffer.from('{}'));
+            await driver.delete('tmp/gone.json');
+            await driver.delete('tmp/gone.json');
+            assert.equal(await driver.get('tmp/gone.json'), null);
+            assert.equal(await driver.stat('tmp/gone.json'), null);
+        });
+    });
+};
+
+describeDriver('memory', createMemoryStorageDriver);
+
+describe('local storage driver', () => {
+    const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+    after(() => fs.rmSync(rootDir, { recursive: true, force: true }));
+
+    describeDriver('local', () => createLocalStorageDriver({ rootDir, urlPrefix: '/uploads' }));
+
+    test('builds URLs under the prefix', () => {
+        const driver = createLocalStorageDriver({ rootDir, urlPrefix: '/uploads/' });
+        assert.equal(driver.publicUrl('audio/track.mp3'), '/uploads/audio/track.mp3');
+    });
+
+    test('refuses keys that escape the root directory', async () => {
+        const driver = createLocalStorageDriver({ rootDir, urlPrefix: '/uploads' });
+        await assert.rejects(driver.put('../escaped.txt', Buffer.from('x')), /Invalid storage key/);
+        await assert.rejects(driver.get('audio/../../escaped.txt'), /Invalid storage key/);
+    });
+
+    test('leaves no temporary files behind', async () => {
+        const driver = createLocalStorageDriver({ rootDir, urlPrefix: '/uploads' });
+        await driver.put('temp-check/file.mp3', Buffer.from('data'));
+        assert.deepEqual(fs.readdirSync(path.join(rootDir, 'temp-check')), ['file.mp3']);
+    });
+});
+
+describe('contentTypeFromKey', () => {
+    test('maps known extensions case-insensitively', () => {
+        assert.equal(contentTypeFromKey('audio/x.MP3'), 'audio/mpeg');
+        assert.equal(contentTypeFromKey('covers/x.jpeg'), 'image/jpeg');
+    });
+
+    test('falls back to a binary type', () => {
+        assert.equal(contentTypeFromKey('audio/x.bin'), 'application/octet-stream');
+        assert.equal(contentTypeFromKey('audio/noext'), 'application/octet-stream');
+    });
+});
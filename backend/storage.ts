@@ -0,0 +1,346 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+    DeleteObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    ListObjectsV2Command,
+    PutObjectCommand,
+    S3Client,
+} from '@aws-sdk/client-s3';
+
+// One interface for every place files are kept. Routes talk to a StorageDriver and never branch on the backend;
+// a new backend only has to implement these six methods.
+
+export type StorageDriverName = 'local' | 's3' | 'memory';
+
+export type StoragePutOptions = {
+    contentType?: string;
+    contentLength?: number;
+    cacheControl?: string;
+};
+
+export type StorageStat = {
+    size: number;
+    contentType: string | null;
+    cacheControl: string | null;
+    etag: string | null;
+    lastModified: Date | null;
+};
+
+export type StorageListEntry = {
+    key: string;
+    size: number;
+    lastModified: Date | null;
+};
+
+export type StorageObject = StorageStat & {
+    body: Readable;
+    // 206 when a range was requested and honoured.
+    statusCode: 200 | 206;
+    contentLength: number;
+    contentRange: string | null;
+};
+
+export interface StorageDriver {
+    readonly name: StorageDriverName;
+    put(key: string, body: Buffer | Readable, options?: StoragePutOptions): Promise<void>;
+    // Resolves to null when the key does not exist. `range` is a raw HTTP Range header.
+    get(key: string, options?: { range?: string }): Promise<StorageObject | null>;
+    delete(key: string): Promise<void>;
+    stat(key: string): Promise<StorageStat | null>;
+    // Every key starting with `prefix`, in no particular order.
+    list(prefix?: string): AsyncIterable<StorageListEntry>;
+    publicUrl(key: string): string;
+}
+
+// The requested range lies outside the object; routes answer 416.
+export class StorageRangeError extends Error {}
+
+const joinUrl = (base: string, key: string) => `${base.replace(/\/+$/, '')}/${key.replace(/^\/+/, '')}`;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.flac': 'audio/flac',
+    '.m4a': 'audio/mp4',
+    '.ogg': 'audio/ogg',
+    '.oga': 'audio/ogg',
+    '.opus': 'audio/ogg',
+    '.webm': 'audio/webm',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.gif': 'image/gif',
+    '.json': 'application/json',
+};
+
+export const contentTypeFromKey = (key: string) => CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+
+// Single `bytes=` ranges only; anything fancier is served in full, which is what clients expect from a server
+// that doesn't support multipart ranges.
+const parseRange = (header: string | undefined, size: number) => {
+    const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (!match[1] && !match[2])) return null;
+
+    let start: number;
+    let end: number;
+    if (!match[1]) {
+        start = Math.max(0, size - Number(match[2]));
+        end = size - 1;
+    } else {
+        start = Number(match[1]);
+        end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    }
+    if (start >= size || start > end) throw new StorageRangeError(`Range ${header} not satisfiable for ${size} bytes`);
+    return { start, end };
+};
+
+const toBuffer = async (body: Buffer | Readable) => {
+    if (Buffer.isBuffer(body)) return body;
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    return Buffer.concat(chunks);
+};
+
+// Local disk
+
+export const createLocalStorageDriver = (options: { rootDir: string; urlPrefix: string }): StorageDriver => {
+    const root = path.resolve(options.rootDir);
+
+    const resolveKey = (key: string) => {
+        const fullPath = path.resolve(root, key.replace(/^\/+/, ''));
+        if (!fullPath.startsWith(root + path.sep)) throw new Error(`Invalid storage key: ${key}`);
+        return fullPath;
+    };
+
+    const stat = async (key: string): Promise<StorageStat | null> => {
+        try {
+            const stats = await fs.promises.stat(resolveKey(key));
+            if (!stats.isFile()) return null;
+            return {
+                size: stats.size,
+                contentType: contentTypeFromKey(key),
+                cacheControl: null,
+                etag: `W/"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+                lastModified: stats.mtime,
+            };
+        } catch (err: any) {
+            if (err?.code === 'ENOENT') return null;
+            throw err;
+        }
+    };
+
+    return {
+        name: 'local',
+        async put(key, body) {
+            const fullPath = resolveKey(key);
+            await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+            // Write next to the target and rename, so readers never see a half-written file.
+            const tempPath = `${fullPath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+            try {
+                if (Buffer.isBuffer(body)) await fs.promises.writeFile(tempPath, body);
+                else await pipeline(body, fs.createWriteStream(tempPath));
+                await fs.promises.rename(tempPath, fullPath);
+            } catch (err) {
+                await fs.promises.rm(tempPath, { force: true });
+                throw err;
+            }
+        },
+        async get(key, getOptions) {
+            const info = await stat(key);
+            if (!info) return null;
+            const range = parseRange(getOptions?.range, info.size);
+            const start = range?.start ?? 0;
+            const end = range?.end ?? info.size - 1;
+            return {
+                ...info,
+                body: fs.createReadStream(resolveKey(key), info.size > 0 ? { start, end } : undefined),
+                statusCode: range ? 206 : 200,
+                contentLength: info.size > 0 ? end - start + 1 : 0,
+                contentRange: range ? `bytes ${start}-${end}/${info.size}` : null,
+            };
+        },
+        async delete(key) {
+            await fs.promises.rm(resolveKey(key), { force: true });
+        },
+        stat,
+        async *list(prefix = '') {
+            const walk = async function* (dir: string): AsyncGenerator<StorageListEntry> {
+                let entries: fs.Dirent[];
+                try {
+                    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+                } catch (err: any) {
+                    if (err?.code === 'ENOENT') return;
+                    throw err;
+                }
+                for (const entry of entries) {
+                    const fullPath = path.join(dir, entry.name);
+                    const key = path.relative(root, fullPath).split(path.sep).join('/');
+                    if (entry.isDirectory()) {
+                        // Skip whole subtrees that cannot contain the prefix.
+                        if (prefix.startsWith(`${key}/`) || `${key}/`.startsWith(prefix)) yield* walk(fullPath);
+                    } else if (entry.isFile() && key.startsWith(prefix)) {
+                        const stats = await fs.promises.stat(fullPath);
+                        yield { key, size: stats.size, lastModified: stats.mtime };
+                    }
+                }
+            };
+            yield* walk(root);
+        },
+        publicUrl: (key) => joinUrl(options.urlPrefix, key),
+    };
+};
+
+// S3-compatible (Cloudflare R2, MinIO, AWS)
+
+export const createS3StorageDriver = (options: {
+    endpoint: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    publicBaseUrl: string;
+    region?: string;
+}): StorageDriver => {
+    const client = new S3Client({
+        region: options.region || 'auto',
+        endpoint: options.endpoint,
+        credentials: { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey },
+        forcePathStyle: true,
+    });
+
+    const isNotFound = (err: any) =>
+        err?.name === 'NoSuchKey' || err?.name === 'NotFound' || err?.$metadata?.httpStatusCode === 404;
+
+    return {
+        name: 's3',
+        async put(key, body, putOptions) {
+            await client.send(
+                new PutObjectCommand({
+                    Bucket: options.bucket,
+                    Key: key,
+                    Body: body,
+                    ContentType: putOptions?.contentType,
+                    ContentLength: putOptions?.contentLength ?? (Buffer.isBuffer(body) ? body.length : undefined),
+                    CacheControl: putOptions?.cacheControl,
+                })
+            );
+        },
+        async get(key, getOptions) {
+            try {
+                const output = await client.send(
+                    new GetObjectCommand({ Bucket: options.bucket, Key: key, Range: getOptions?.range || undefined })
+                );
+                if (!output.Body) return null;
+                const contentLength = output.ContentLength ?? 0;
+                return {
+                    size: contentLength,
+                    contentType: output.ContentType || null,
+                    cacheControl: output.CacheControl || null,
+                    etag: output.ETag || null,
+                    lastModified: output.LastModified || null,
+                    body: output.Body as Readable,
+                    statusCode: output.ContentRange ? 206 : 200,
+                    contentLength,
+                    contentRange: output.ContentRange || null,
+                };
+            } catch (err: any) {
+                if (isNotFound(err)) return null;
+                if (err?.name === 'InvalidRange' || err?.$metadata?.httpStatusCode === 416) {
+                    throw new StorageRangeError(`Range ${getOptions?.range} not satisfiable`);
+                }
+                throw err;
+            }
+        },
+        async delete(key) {
+            await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+        },
+        async stat(key) {
+            try {
+                const output = await client.send(new HeadObjectCommand({ Bucket: options.bucket, Key: key }));
+                return {
+                    size: output.ContentLength ?? 0,
+                    contentType: output.ContentType || null,
+                    cacheControl: output.CacheControl || null,
+                    etag: output.ETag || null,
+                    lastModified: output.LastModified || null,
+                };
+            } catch (err) {
+                if (isNotFound(err)) return null;
+                throw err;
+            }
+        },
+        async *list(prefix = '') {
+            let continuationToken: string | undefined;
+            do {
+                const output = await client.send(
+                    new ListObjectsV2Command({
+                        Bucket: options.bucket,
+                        Prefix: prefix || undefined,
+                        ContinuationToken: continuationToken,
+                    })
+                );
+                for (const object of output.Contents || []) {
+                    if (!object.Key) continue;
+                    yield { key: object.Key, size: object.Size ?? 0, lastModified: object.LastModified || null };
+                }
+                continuationToken = output.IsTruncated ? output.NextContinuationToken : undefined;
+            } while (continuationToken);
+        },
+        publicUrl: (key) => joinUrl(options.publicBaseUrl, key),
+    };
+};
+
+// In-memory, for tests and throwaway local runs. Everything is lost on restart.
+
+export const createMemoryStorageDriver = (): StorageDriver => {
+    const objects = new Map<string, StorageStat & { data: Buffer }>();
+
+    return {
+        name: 'memory',
+        async put(key, body, putOptions) {
+            const data = await toBuffer(body);
+            objects.set(key, {
+                data,
+                size: data.length,
+                contentType: putOptions?.contentType || contentTypeFromKey(key),
+                cacheControl: putOptions?.cacheControl || null,
+                etag: `"${crypto.createHash('md5').update(data).digest('hex')}"`,
+                lastModified: new Date(),
+            });
+        },
+        async get(key, getOptions) {
+            const object = objects.get(key);
+            if (!object) return null;
+            const { data, ...info } = object;
+            const range = parseRange(getOptions?.range, info.size);
+            const slice = range ? data.subarray(range.start, range.end + 1) : data;
+            return {
+                ...info,
+                body: Readable.from([slice]),
+                statusCode: range ? 206 : 200,
+                contentLength: slice.length,
+                contentRange: range ? `bytes ${range.start}-${range.end}/${info.size}` : null,
+            };
+        },
+        async delete(key) {
+            objects.delete(key);
+        },
+        async stat(key) {
+            const object = objects.get(key);
+            if (!object) return null;
+            const { data: _data, ...info } = object;
+            return info;
+        },
+        async *list(prefix = '') {
+            for (const [key, object] of objects) {
+                if (key.startsWith(prefix)) yield { key, size: object.size, lastModified: object.lastModified };
+            }
+        },
+        publicUrl: (key) => `memory://${key}`,
+    };
+};
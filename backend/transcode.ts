@@ -0,0 +1,83 @@
+import { spawn } from 'child_process';
+
+// Thin wrapper around the ffmpeg binary. Kept separate from the server so the argument lists
+// for each rendition live in one place.
+
+export type AudioRenditionKind = 'analysis' | 'playback';
+
+export type AudioRendition = {
+    ext: string;
+    mimeType: string;
+    args: string[];
+};
+
+export const AUDIO_RENDITIONS: Record<AudioRenditionKind, AudioRendition> = {
+    // Gemini downmixes to 16 kHz mono on its side anyway, so there is no point uploading more than that.
+    analysis: {
+        ext: '.mp3',
+        mimeType: 'audio/mpeg',
+        args: ['-vn', '-ac', '1', '-ar', '16000', '-c:a', 'libmp3lame', '-b:a', '64k'],
+    },
+    // AAC in MP4 with the index up front plays everywhere (Safari included) and seeks without a full download.
+    playback: {
+        ext: '.m4a',
+        mimeType: 'audio/mp4',
+        args: ['-vn', '-ac', '2', '-ar', '44100', '-c:a', 'aac', '-b:a', '160k', '-movflags', '+faststart'],
+    },
+};
+
+export class TranscodeError extends Error {
+    constructor(message: string, readonly stderr: string) {
+        super(message);
+    }
+}
+
+const STDERR_TAIL_LENGTH = 2000;
+
+// Resolves with whatever ffmpeg wrote to stdout (empty when the output goes to a file).
+export const runFfmpeg = (ffmpegPath: string, args: string[], timeoutMs: number) =>
+    new Promise<Buffer>((resolve, reject) => {
+        const child = spawn(ffmpegPath, ['-hide_banner', '-nostdin', '-y', ...args], { stdio: ['ignore', 'pipe', 'pipe'] });
+        const stdout: Buffer[] = [];
+        let stderr = '';
+        child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+        child.stderr.on('data', (chunk: Buffer) => {
+            stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL_LENGTH);
+        });
+
+        const timer = setTimeout(() => child.kill('SIGKILL'), timeoutMs);
+        child.on('error', (err) => {
+            clearTimeout(timer);
+            reject(new TranscodeError(`ffmpeg не запустился: ${err.message}`, stderr));
+        });
+        child.on('close', (code, signal) => {
+            clearTimeout(timer);
+            if (code === 0) {
+                resolve(Buffer.concat(stdout));
+                return;
+            }
+            const reason = signal ? `прерван (${signal})` : `код ${code}`;
+            reject(new TranscodeError(`ffmpeg завершился с ошибкой: ${reason}`, stderr));
+        });
+    });
+
+export const transcodeAudio = (
+    ffmpegPath: string,
+    inputPath: string,
+    outputPath: string,
+    kind: AudioRenditionKind,
+    timeoutMs: number
+) => runFfmpeg(ffmpegPath, ['-i', inputPath, ...AUDIO_RENDITIONS[kind].args, outputPath], timeoutMs);
+
+// Mono signed 16-bit PCM on stdout, used for waveform peaks.
+export const decodeToPcm16 = (ffmpegPath: string, inputPath: string, sampleRate: number, timeoutMs: number) =>
+    runFfmpeg(ffmpegPath, ['-i', inputPath, '-vn', '-ac', '1', '-ar', String(sampleRate), '-f', 's16le', 'pipe:1'], timeoutMs);
+
+export const isFfmpegAvailable = async (ffmpegPath: string) => {
+    try {
+        await runFfmpeg(ffmpegPath, ['-version'], 10_000);
+        return true;
+    } catch {
+        return false;
+    }
+};
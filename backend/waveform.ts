@@ -0,0 +1,91 @@
+// Downsampled peaks for drawing a waveform in the player. The client only needs the envelope,
+// so a fixed number of buckets is enough regardless of track length.
+
+export const WAVEFORM_PEAK_COUNT = 800;
+// Sample rate ffmpeg decodes to before bucketing; plenty for an 800-bar envelope.
+export const WAVEFORM_SAMPLE_RATE = 8000;
+
+export type Waveform = {
+    version: 1;
+    duration_seconds: number;
+    peaks: number[];
+};
+
+// readFrame returns the absolute amplitude of a frame in 0..1 (already mixed across channels).
+const computePeaks = (frameCount: number, sampleRate: number, readFrame: (index: number) => number): Waveform | null => {
+    if (frameCount <= 0 || sampleRate <= 0) return null;
+
+    const bucketCount = Math.min(WAVEFORM_PEAK_COUNT, frameCount);
+    const peaks = new Array<number>(bucketCount).fill(0);
+    for (let bucket = 0; bucket < bucketCount; bucket += 1) {
+        const start = Math.floor((bucket * frameCount) / bucketCount);
+        const end = Math.floor(((bucket + 1) * frameCount) / bucketCount);
+        let peak = 0;
+        for (let i = start; i < end; i += 1) {
+            const value = readFrame(i);
+            if (value > peak) peak = value;
+        }
+        peaks[bucket] = peak;
+    }
+
+    // Normalise so quiet recordings still fill the bar height.
+    const max = Math.max(...peaks);
+    return {
+        version: 1,
+        duration_seconds: frameCount / sampleRate,
+        peaks: peaks.map((peak) => (max > 0 ? Math.round((peak / max) * 100) / 100 : 0)),
+    };
+};
+
+// Mono signed 16-bit little-endian, as produced by `ffmpeg -ac 1 -f s16le`.
+export const peaksFromPcm16 = (pcm: Buffer, sampleRate: number) =>
+    computePeaks(Math.floor(pcm.length / 2), sampleRate, (i) => Math.abs(pcm.readInt16LE(i * 2)) / 32768);
+
+const readWavSample = (buf: Buffer, offset: number, format: number, bitsPerSample: number) => {
+    if (format === 3) return bitsPerSample === 64 ? buf.readDoubleLE(offset) : buf.readFloatLE(offset);
+    if (bitsPerSample === 8) return (buf[offset] - 128) / 128;
+    if (bitsPerSample === 16) return buf.readInt16LE(offset) / 32768;
+    if (bitsPerSample === 24) return buf.readIntLE(offset, 3) / 8388608;
+    return buf.readInt32LE(offset) / 2147483648;
+};
+
+// Fallback for when ffmpeg is not installed: plain PCM WAV can be read directly.
+export const peaksFromWav = (buf: Buffer) => {
+    if (buf.length < 12 || buf.toString('ascii', 0, 4) !== 'RIFF' || buf.toString('ascii', 8, 12) !== 'WAVE') return null;
+
+    let offset = 12;
+    let format = 0;
+    let channels = 0;
+    let sampleRate = 0;
+    let bitsPerSample = 0;
+    while (offset + 8 <= buf.length) {
+        const id = buf.toString('ascii', offset, offset + 4);
+        const size = buf.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (id === 'fmt ' && body + 16 <= buf.length) {
+            format = buf.readUInt16LE(body);
+            channels = buf.readUInt16LE(body + 2);
+            sampleRate = buf.readUInt32LE(body + 4);
+            bitsPerSample = buf.readUInt16LE(body + 14);
+            // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID.
+            if (format === 0xfffe && size >= 26 && body + 26 <= buf.length) format = buf.readUInt16LE(body + 24);
+        } else if (id === 'data') {
+            if (![1, 3].includes(format) || !channels || ![8, 16, 24, 32, 64].includes(bitsPerSample)) return null;
+            const bytesPerSample = bitsPerSample / 8;
+            const frameSize = bytesPerSample * channels;
+            const dataLength = size === 0 || size === 0xffffffff ? buf.length - body : Math.min(size, buf.length - body);
+            return computePeaks(Math.floor(dataLength / frameSize), sampleRate, (i) => {
+                let peak = 0;
+                for (let channel = 0; channel < channels; channel += 1) {
+                    const value = Math.abs(readWavSample(buf, body + i * frameSize + channel * bytesPerSample, format, bitsPerSample));
+                    if (value > peak) peak = value;
+                }
+                return Math.min(1, peak);
+            });
+        }
+
+        offset = body + size + (size % 2);
+    }
+    return null;
+};
@@ -1,38 +1,101 @@
 import { useEffect, useRef, useState } from 'react';
-import { Disc, LogIn, LogOut, Plus, X } from 'lucide-react';
+import {
+    Disc,
+    ListMusic,
+    LogIn,
+    LogOut,
+    Plus,
+    Repeat,
+    Repeat1,
+    Settings,
+    Shield,
+    Shuffle,
+    SkipBack,
+    SkipForward,
+    X,
+} from 'lucide-react';
 import AudioRecorder from './components/AudioRecorder';
+import AudioFileUpload from './components/AudioFileUpload';
+import Waveform from './components/Waveform';
 import ProjectList from './components/ProjectList';
 import ProjectView from './components/ProjectView';
-import AuthForm, { AuthUser } from './components/AuthForm';
-import { api, getProjectAudioUrl, getProjectCoverUrl, setAuthToken } from './api';
-
-type View = 'list' | 'create' | 'detail' | 'auth';
-
-interface Project {
-    id: number;
-    name: string;
-    created_at: string;
-    audio_url: string;
-    cover_url?: string | null;
-    owner_username?: string | null;
-    user_id?: number | null;
-}
+import ProfileView from './components/ProfileView';
+import AccountSettings from './components/AccountSettings';
+import AdminPanel from './components/AdminPanel';
+import CollectionView from './components/CollectionView';
+import BatchView from './components/BatchView';
+import PlayerQueuePanel from './components/PlayerQueuePanel';
+import AuthForm, { AuthUser, type AuthMode } from './components/AuthForm';
+import {
+    api,
+    getProjectAudioUrl,
+    getProjectCoverUrl,
+    PROJECT_VISIBILITY_LABELS,
+    setAuthToken,
+    type ProjectVisibility,
+} from './api';
+import {
+    addToQueue,
+    clearQueue,
+    createQueue,
+    loadPlayerState,
+    nextRepeatMode,
+    playNext,
+    removeFromQueue,
+    replaceTrack,
+    savePlayerState,
+    shuffleQueue,
+    unshuffleQueue,
+    type PlayerQueue,
+    type QueueTrack,
+    type RepeatMode,
+} from './playerQueue';
+
+type View = 'list' | 'create' | 'detail' | 'auth' | 'profile' | 'settings' | 'admin' | 'collection' | 'batches';
+
+// "Previous" restarts the current track unless it has only just begun.
+const RESTART_THRESHOLD_SECONDS = 3;
+const MEDIA_SEEK_STEP_SECONDS = 10;
+// The position is saved on queue changes and page hide; while playing, at most this often.
+const POSITION_SAVE_INTERVAL_MS = 5000;
+
+const REPEAT_LABELS: Record<RepeatMode, string> = {
+    off: 'Повтор выключен',
+    all: 'Повторять очередь',
+    one: 'Повторять трек',
+};
+
+const hasMediaSession = () => 'mediaSession' in navigator;
 
 function App() {
     const [view, setView] = useState<View>('list');
     const [selectedProjectId, setSelectedProjectId] = useState<number | null>(null);
-    const [projects, setProjects] = useState<Project[]>([]);
-    const [projectsError, setProjectsError] = useState<string | null>(null);
+    const [selectedUsername, setSelectedUsername] = useState<string | null>(null);
+    const [selectedCollectionId, setSelectedCollectionId] = useState<number | null>(null);
     const [uploading, setUploading] = useState(false);
+    const [createMode, setCreateMode] = useState<'record' | 'file'>('record');
+    const [createVisibility, setCreateVisibility] = useState<ProjectVisibility>('public');
 
-    const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
+    const [authMode, setAuthMode] = useState<AuthMode>('login');
     const [postAuthView, setPostAuthView] = useState<View | null>(null);
     const [user, setUser] = useState<AuthUser | null>(null);
     const [token, setToken] = useState<string | null>(() => localStorage.getItem('auth_token'));
 
     const audioRef = useRef<HTMLAudioElement | null>(null);
-    const [nowPlaying, setNowPlaying] = useState<Project | null>(null);
+    // Queue, modes and position survive a reload (see playerQueue.ts).
+    const [restoredPlayer] = useState(loadPlayerState);
+    const [queue, setQueue] = useState<PlayerQueue | null>(restoredPlayer?.queue ?? null);
+    const [shuffle, setShuffle] = useState(restoredPlayer?.shuffle ?? false);
+    const [repeat, setRepeat] = useState<RepeatMode>(restoredPlayer?.repeat ?? 'off');
     const [isPlaying, setIsPlaying] = useState(false);
+    const [showQueue, setShowQueue] = useState(false);
+    const nowPlaying = queue ? queue.tracks[queue.index] ?? null : null;
+    // Seek to apply once the current source has loaded: the saved position after a reload, or where to resume after
+    // the media token was refreshed.
+    const pendingSeekRef = useRef<number | null>(restoredPlayer?.position || null);
+    // Track whose media token was already refreshed, so a broken file doesn't retry forever.
+    const mediaRetryRef = useRef<number | null>(null);
+    const lastPositionSaveRef = useRef(0);
 
     useEffect(() => {
         setAuthToken(token);
@@ -50,28 +113,22 @@ function App() {
             });
     }, [token]);
 
-    useEffect(() => {
-        if (view === 'list') {
-            void fetchProjects();
-        }
-    }, [view]);
+    // Dated rather than numbered: the paginated gallery doesn't know how many projects there are.
+    const defaultTrackName = () => `Трек от ${new Date().toLocaleString()}`;
 
-    const fetchProjects = async () => {
-        setProjectsError(null);
-        try {
-            const res = await api.get('/projects');
-            if (!Array.isArray(res.data)) {
-                console.error('Unexpected /projects response:', res.data);
-                setProjects([]);
-                setProjectsError('Бэкенд API настроен неправильно. Проверьте адрес API в настройках деплоя фронтенда.');
-                return;
-            }
-            setProjects(res.data);
-        } catch (err) {
-            console.error('Failed to fetch projects', err);
-            setProjects([]);
-            setProjectsError('Не удалось загрузить проекты с бэкенда.');
-        }
+    const openProject = (id: number) => {
+        setSelectedProjectId(id);
+        setView('detail');
+    };
+
+    const openProfile = (username: string) => {
+        setSelectedUsername(username);
+        setView('profile');
+    };
+
+    const openCollection = (id: number) => {
+        setSelectedCollectionId(id);
+        setView('collection');
     };
 
     const openAuth = (nextViewAfterAuth: View | null) => {
@@ -102,6 +159,11 @@ function App() {
         } catch {
             // ignore
         }
+        clearSession();
+    };
+
+    // Forgets the token locally; the server side is already gone (logout, or revoked from the settings panel).
+    const clearSession = () => {
         localStorage.removeItem('auth_token');
         setAuthToken(null);
         setToken(null);
@@ -117,46 +179,245 @@ function App() {
             audio.removeAttribute('src');
             audio.load();
         }
-        setNowPlaying(null);
+        pendingSeekRef.current = null;
+        setQueue(null);
         setIsPlaying(false);
+        setShowQueue(false);
+        setMediaPlaybackState('none');
+    };
+
+    // Switches to `next` and starts its current track from the beginning.
+    const startQueue = (next: PlayerQueue) => {
+        const audio = audioRef.current;
+        const track = next.tracks[next.index];
+        if (!audio || !track) return;
+        setQueue(next);
+        pendingSeekRef.current = null;
+        mediaRetryRef.current = null;
+        audio.src = getProjectAudioUrl(track.id, undefined, track.media_token);
+        audio.play().catch(() => {});
     };
 
-    const handlePlayProject = (project: Project) => {
+    const togglePlayback = () => {
         const audio = audioRef.current;
-        if (!audio) return;
+        if (!audio || !nowPlaying) return;
+        if (audio.ended) audio.currentTime = 0;
+        if (audio.paused) audio.play().catch(() => {});
+        else audio.pause();
+    };
 
+    // Starts `project` with `tracks` (e.g. the loaded gallery page) as the queue, or toggles pause when it is already
+    // the current track.
+    const handlePlayProject = (project: QueueTrack, tracks: QueueTrack[] = [project], source: string | null = null) => {
         if (nowPlaying?.id === project.id) {
-            if (audio.ended) audio.currentTime = 0;
-            if (audio.paused) audio.play().catch(() => {});
-            else audio.pause();
+            togglePlayback();
             return;
         }
+        const start = tracks.findIndex((track) => track.id === project.id);
+        startQueue(start >= 0 ? createQueue(tracks, start, source, shuffle) : createQueue([project], 0, source, shuffle));
+    };
 
-        setNowPlaying(project);
-        audio.src = getProjectAudioUrl(project.id);
-        audio.currentTime = 0;
-        audio.play().catch(() => {});
+    const playQueue = (tracks: QueueTrack[], startIndex: number, source: string) => {
+        const track = tracks[startIndex];
+        if (track) handlePlayProject(track, tracks, source);
     };
 
-    const handleRecordingComplete = async (blob: Blob) => {
+    // With nothing playing, queueing a project just plays it.
+    const enqueueProject = (project: QueueTrack, next: boolean) => {
+        if (!queue || !nowPlaying) {
+            startQueue(createQueue([project], 0, null, shuffle));
+            return;
+        }
+        setQueue(next ? playNext(queue, project) : addToQueue(queue, project));
+    };
+
+    // Past either end of the queue playback stops, unless the whole queue repeats.
+    const skipTrack = (offset: 1 | -1) => {
+        const audio = audioRef.current;
+        if (!queue || !audio) return;
+        if (offset < 0 && audio.currentTime > RESTART_THRESHOLD_SECONDS) {
+            audio.currentTime = 0;
+            return;
+        }
+        let index = queue.index + offset;
+        if (index < 0 || index >= queue.tracks.length) {
+            if (repeat !== 'all') {
+                if (offset < 0) audio.currentTime = 0;
+                return;
+            }
+            index = (index + queue.tracks.length) % queue.tracks.length;
+        }
+        startQueue({ ...queue, index });
+    };
+
+    const toggleShuffle = () => {
+        const next = !shuffle;
+        setShuffle(next);
+        if (queue) setQueue(next ? shuffleQueue(queue) : unshuffleQueue(queue));
+    };
+
+    // Repeating a single track is the <audio> loop attribute, so "ended" only fires for "off" and "all".
+    const handleTrackEnded = () => {
+        setIsPlaying(false);
+        skipTrack(1);
+    };
+
+    // Signed links of private projects expire, e.g. in a queue restored the next day: fetch a fresh token once and
+    // resume where playback stopped.
+    const handleAudioError = async () => {
+        const audio = audioRef.current;
+        const track = nowPlaying;
+        if (!audio || !track?.media_token || mediaRetryRef.current === track.id) return;
+        mediaRetryRef.current = track.id;
+        const position = pendingSeekRef.current ?? audio.currentTime;
+        try {
+            const res = await api.get<QueueTrack>(`/projects/${track.id}`);
+            const current = playerStateRef.current.queue;
+            if (current?.tracks[current.index]?.id !== track.id) return;
+            setQueue((prev) => prev && replaceTrack(prev, res.data));
+            pendingSeekRef.current = position || null;
+            audio.src = getProjectAudioUrl(track.id, undefined, res.data.media_token);
+            audio.play().catch(() => {});
+        } catch (err) {
+            console.error('Failed to refresh media link', err);
+        }
+    };
+
+    const handleLoadedMetadata = () => {
+        const audio = audioRef.current;
+        if (audio && pendingSeekRef.current !== null) {
+            audio.currentTime = Math.min(pendingSeekRef.current, audio.duration || pendingSeekRef.current);
+            pendingSeekRef.current = null;
+        }
+        updateMediaPositionState();
+    };
+
+    // Read from event handlers that outlive the render they were created in (page hide, Media Session).
+    const playerStateRef = useRef({ queue, shuffle, repeat });
+    playerStateRef.current = { queue, shuffle, repeat };
+    const playerActionsRef = useRef({ skipTrack, stopPlayback });
+    playerActionsRef.current = { skipTrack, stopPlayback };
+
+    const persistPlayerState = () => {
+        const audio = audioRef.current;
+        lastPositionSaveRef.current = Date.now();
+        savePlayerState({
+            ...playerStateRef.current,
+            position: pendingSeekRef.current ?? audio?.currentTime ?? 0,
+        });
+    };
+
+    const handleTimeUpdate = () => {
+        if (Date.now() - lastPositionSaveRef.current >= POSITION_SAVE_INTERVAL_MS) persistPlayerState();
+    };
+
+    useEffect(persistPlayerState, [queue, shuffle, repeat]);
+
+    useEffect(() => {
+        window.addEventListener('pagehide', persistPlayerState);
+        return () => window.removeEventListener('pagehide', persistPlayerState);
+    }, []);
+
+    // A restored queue only gets its source (the element has preload="none"): nothing is downloaded, or counted as a
+    // play, until the listener presses play.
+    useEffect(() => {
+        const audio = audioRef.current;
+        const track = restoredPlayer?.queue?.tracks[restoredPlayer.queue.index];
+        if (audio && track) audio.src = getProjectAudioUrl(track.id, undefined, track.media_token);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    // Media Session: lock screen, notification and hardware media keys.
+    useEffect(() => {
+        if (!hasMediaSession()) return;
+        navigator.mediaSession.metadata = nowPlaying
+            ? new MediaMetadata({
+                  title: nowPlaying.name,
+                  artist: nowPlaying.owner_username ?? '',
+                  album: queue?.source ?? '',
+                  artwork: nowPlaying.cover_url
+                      ? [
+                            {
+                                src: new URL(
+                                    getProjectCoverUrl(nowPlaying.id, nowPlaying.cover_id, nowPlaying.media_token),
+                                    window.location.href
+                                ).href,
+                            },
+                        ]
+                      : [],
+              })
+            : null;
+    }, [nowPlaying, queue?.source]);
+
+    useEffect(() => {
+        if (!hasMediaSession()) return;
+        const seekBy = (seconds: number) => {
+            const audio = audioRef.current;
+            if (!audio) return;
+            audio.currentTime = Math.max(0, Math.min(audio.currentTime + seconds, audio.duration || Infinity));
+        };
+        const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+            ['play', () => void audioRef.current?.play().catch(() => {})],
+            ['pause', () => audioRef.current?.pause()],
+            ['stop', () => playerActionsRef.current.stopPlayback()],
+            ['previoustrack', () => playerActionsRef.current.skipTrack(-1)],
+            ['nexttrack', () => playerActionsRef.current.skipTrack(1)],
+            ['seekbackward', (details) => seekBy(-(details.seekOffset ?? MEDIA_SEEK_STEP_SECONDS))],
+            ['seekforward', (details) => seekBy(details.seekOffset ?? MEDIA_SEEK_STEP_SECONDS)],
+            [
+                'seekto',
+                (details) => {
+                    if (audioRef.current && details.seekTime !== undefined) audioRef.current.currentTime = details.seekTime;
+                },
+            ],
+        ];
+        // Browsers throw for actions they don't support.
+        for (const [action, handler] of handlers) {
+            try {
+                navigator.mediaSession.setActionHandler(action, handler);
+            } catch {
+                // ignore
+            }
+        }
+        return () => {
+            for (const [action] of handlers) {
+                try {
+                    navigator.mediaSession.setActionHandler(action, null);
+                } catch {
+                    // ignore
+                }
+            }
+        };
+    }, []);
+
+    const setMediaPlaybackState = (state: MediaSessionPlaybackState) => {
+        if (hasMediaSession()) navigator.mediaSession.playbackState = state;
+    };
+
+    const updateMediaPositionState = () => {
+        const audio = audioRef.current;
+        if (!audio || !hasMediaSession() || !Number.isFinite(audio.duration)) return;
+        try {
+            navigator.mediaSession.setPositionState({
+                duration: audio.duration,
+                playbackRate: audio.playbackRate,
+                position: Math.min(audio.currentTime, audio.duration),
+            });
+        } catch {
+            // Older implementations lack setPositionState.
+        }
+    };
+
+    const uploadAudio = async (audio: Blob, filename: string, name: string) => {
         if (!user) {
             openAuth('create');
             return;
         }
         setUploading(true);
-        const getFileExtensionFromMimeType = (mimeType: string) => {
-            const normalized = mimeType.split(';')[0]?.trim().toLowerCase();
-            if (normalized === 'audio/wav' || normalized === 'audio/x-wav') return 'wav';
-            if (normalized === 'audio/webm') return 'webm';
-            if (normalized === 'audio/ogg') return 'ogg';
-            if (normalized === 'audio/mpeg') return 'mp3';
-            if (normalized === 'audio/mp4') return 'm4a';
-            return 'wav';
-        };
         const formData = new FormData();
-        const ext = getFileExtensionFromMimeType(blob.type || '');
-        formData.append('audio', blob, `recording.${ext}`);
-        formData.append('name', `Трек #${projects.length + 1}`);
+        formData.append('audio', audio, filename);
+        formData.append('name', name);
+        formData.append('visibility', createVisibility);
 
         try {
             const res = await api.post('/projects', formData);
@@ -164,12 +425,27 @@ function App() {
             setView('detail');
         } catch (err) {
             console.error('Failed to upload', err);
-            alert('Не удалось загрузить запись.');
+            const message = (err as { response?: { data?: { error?: string } } })?.response?.data?.error;
+            alert(message || 'Не удалось загрузить запись.');
         } finally {
             setUploading(false);
         }
     };
 
+    const handleRecordingComplete = async (blob: Blob) => {
+        const getFileExtensionFromMimeType = (mimeType: string) => {
+            const normalized = mimeType.split(';')[0]?.trim().toLowerCase();
+            if (normalized === 'audio/wav' || normalized === 'audio/x-wav') return 'wav';
+            if (normalized === 'audio/webm') return 'webm';
+            if (normalized === 'audio/ogg') return 'ogg';
+            if (normalized === 'audio/mpeg') return 'mp3';
+            if (normalized === 'audio/mp4') return 'm4a';
+            return 'wav';
+        };
+        const ext = getFileExtensionFromMimeType(blob.type || '');
+        await uploadAudio(blob, `recording.${ext}`, defaultTrackName());
+    };
+
     return (
         <div className="min-h-screen bg-gray-950 text-gray-100 font-sans selection:bg-cyan-500/30 pb-24">
             <header className="border-b border-gray-800 bg-gray-900/50 backdrop-blur-md sticky top-0 z-10">
@@ -197,13 +473,38 @@ function App() {
                         {user ? (
                             <>
                                 <div className="hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-full bg-gray-900 border border-gray-800 text-sm text-gray-200">
-                                    <span className="font-medium">{user.username}</span>
+                                    <button
+                                        type="button"
+                                        onClick={() => openProfile(user.username)}
+                                        className="font-medium hover:text-cyan-300"
+                                        title="Мой профиль"
+                                    >
+                                        {user.username}
+                                    </button>
                                     {user.role === 'admin' ? (
                                         <span className="text-xs text-purple-200 bg-purple-900/40 px-2 py-0.5 rounded-full border border-purple-700/40">
                                             админ
                                         </span>
                                     ) : null}
                                 </div>
+                                {user.role === 'admin' ? (
+                                    <button
+                                        onClick={() => setView('admin')}
+                                        className="p-2 bg-gray-800 hover:bg-gray-700 text-white rounded-full transition-all"
+                                        title="Администрирование"
+                                        aria-label="Администрирование"
+                                    >
+                                        <Shield className="w-4 h-4" />
+                                    </button>
+                                ) : null}
+                                <button
+                                    onClick={() => setView('settings')}
+                                    className="p-2 bg-gray-800 hover:bg-gray-700 text-white rounded-full transition-all"
+                                    title="Настройки аккаунта"
+                                    aria-label="Настройки аккаунта"
+                                >
+                                    <Settings className="w-4 h-4" />
+                                </button>
                                 <button
                                     onClick={logout}
                                     className="flex items-center px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white rounded-full text-sm font-medium transition-all"
@@ -245,33 +546,27 @@ function App() {
                             ) : null}
                         </div>
 
-                        {projectsError ? (
-                            <div className="mb-6 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">
-                                {projectsError}
-                            </div>
-                        ) : null}
-
-                        {projects.length === 0 ? (
-                            <div className="text-center py-20">
-                                <p className="text-gray-500 mb-4">Пока нет треков.</p>
-                                <button
-                                    onClick={goToCreate}
-                                    className="px-6 py-3 bg-gray-800 hover:bg-gray-700 text-white rounded-lg transition-colors"
-                                >
-                                    Создать первый проект
-                                </button>
-                            </div>
-                        ) : (
-                            <ProjectList
-                                projects={projects}
-                                playingProjectId={isPlaying && nowPlaying ? nowPlaying.id : null}
-                                onPlayProject={handlePlayProject}
-                                onSelectProject={(id) => {
-                                    setSelectedProjectId(id);
-                                    setView('detail');
-                                }}
-                            />
-                        )}
+                        <ProjectList
+                            // Reload when the viewer changes: their own unlisted/private projects are part of the list.
+                            key={user?.id ?? 'guest'}
+                            playingProjectId={isPlaying && nowPlaying ? nowPlaying.id : null}
+                            onPlayProject={(project, tracks) => handlePlayProject(project, tracks, 'Галерея')}
+                            onQueueProject={enqueueProject}
+                            onSelectProject={openProject}
+                            onSelectOwner={openProfile}
+                            canLike={!!user}
+                            emptyState={
+                                <div className="text-center py-20">
+                                    <p className="text-gray-500 mb-4">Пока нет треков.</p>
+                                    <button
+                                        onClick={goToCreate}
+                                        className="px-6 py-3 bg-gray-800 hover:bg-gray-700 text-white rounded-lg transition-colors"
+                                    >
+                                        Создать первый проект
+                                    </button>
+                                </div>
+                            }
+                        />
                     </div>
                 ) : null}
 
@@ -309,30 +604,119 @@ function App() {
                             </div>
                         ) : (
                             <>
-                                <h2 className="text-3xl font-bold mb-8 text-center">Запиши свой шедевр</h2>
+                                <h2 className="text-3xl font-bold mb-6 text-center">Запиши свой шедевр</h2>
+
+                                <div className="flex justify-center mb-6">
+                                    <div className="inline-flex p-1 rounded-full bg-gray-900 border border-gray-800">
+                                        {(['record', 'file'] as const).map((mode) => (
+                                            <button
+                                                key={mode}
+                                                type="button"
+                                                onClick={() => setCreateMode(mode)}
+                                                disabled={uploading}
+                                                className={`px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${createMode === mode ? 'bg-cyan-600 text-white' : 'text-gray-400 hover:text-white'
+                                                    }`}
+                                            >
+                                                {mode === 'record' ? 'Запись' : 'Файл'}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="flex justify-center mb-6">
+                                    <label className="flex items-center gap-2 text-sm text-gray-400">
+                                        Видимость
+                                        <select
+                                            value={createVisibility}
+                                            onChange={(e) => setCreateVisibility(e.target.value as ProjectVisibility)}
+                                            disabled={uploading}
+                                            className="px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-800 text-white outline-none focus:ring-2 focus:ring-cyan-500/40"
+                                        >
+                                            {(Object.keys(PROJECT_VISIBILITY_LABELS) as ProjectVisibility[]).map((value) => (
+                                                <option key={value} value={value}>
+                                                    {PROJECT_VISIBILITY_LABELS[value]}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                </div>
 
                                 {uploading ? (
                                     <div className="flex flex-col items-center justify-center py-12">
                                         <div className="w-12 h-12 border-4 border-cyan-500 border-t-transparent rounded-full animate-spin mb-4"></div>
                                         <p className="text-gray-400">Загружаю аудио...</p>
                                     </div>
-                                ) : (
+                                ) : createMode === 'record' ? (
                                     <AudioRecorder onRecordingComplete={handleRecordingComplete} />
+                                ) : (
+                                    <AudioFileUpload
+                                        onUpload={(file, name) => uploadAudio(file, file.name, name || defaultTrackName())}
+                                    />
                                 )}
                             </>
                         )}
                     </div>
                 ) : null}
 
+                {view === 'settings' && user ? (
+                    <AccountSettings currentUser={user} onBack={() => setView('list')} onSignedOut={clearSession} />
+                ) : null}
+
+                {view === 'admin' && user?.role === 'admin' ? (
+                    <AdminPanel
+                        currentUser={user}
+                        onBack={() => setView('list')}
+                        onOpenProfile={openProfile}
+                        onSelectProject={openProject}
+                    />
+                ) : null}
+
+                {view === 'profile' && selectedUsername ? (
+                    <ProfileView
+                        key={selectedUsername}
+                        username={selectedUsername}
+                        currentUser={user}
+                        playingProjectId={isPlaying && nowPlaying ? nowPlaying.id : null}
+                        onBack={() => setView('list')}
+                        onSelectProject={openProject}
+                        onPlayProject={(project, tracks) => handlePlayProject(project, tracks, `Треки ${selectedUsername}`)}
+                        onQueueProject={enqueueProject}
+                        onOpenCollection={openCollection}
+                        onOpenBatches={() => setView('batches')}
+                    />
+                ) : null}
+
+                {view === 'batches' && user ? (
+                    <BatchView onBack={() => setView(selectedUsername ? 'profile' : 'list')} onSelectProject={openProject} />
+                ) : null}
+
+                {view === 'collection' && selectedCollectionId ? (
+                    <CollectionView
+                        key={selectedCollectionId}
+                        collectionId={selectedCollectionId}
+                        currentUser={user}
+                        playingProjectId={isPlaying && nowPlaying ? nowPlaying.id : null}
+                        onBack={() => (selectedUsername ? setView('profile') : setView('list'))}
+                        onDeleted={() => {
+                            setSelectedCollectionId(null);
+                            if (selectedUsername) setView('profile');
+                            else setView('list');
+                        }}
+                        onSelectProject={openProject}
+                        onOpenProfile={openProfile}
+                        onPlayCollection={playQueue}
+                    />
+                ) : null}
+
                 {view === 'detail' && selectedProjectId ? (
                     <ProjectView
                         projectId={selectedProjectId}
                         currentUser={user}
                         onBack={() => setView('list')}
+                        onOpenProfile={openProfile}
                         onDeleted={() => {
                             setSelectedProjectId(null);
                             setView('list');
-                            void fetchProjects();
                         }}
                     />
                 ) : null}
@@ -347,7 +731,7 @@ function App() {
                         <div className="w-10 h-10 rounded-lg overflow-hidden bg-gray-800 flex items-center justify-center">
                             {nowPlaying?.cover_url ? (
                                 <img
-                                    src={getProjectCoverUrl(nowPlaying.id)}
+                                    src={getProjectCoverUrl(nowPlaying.id, nowPlaying.cover_id, nowPlaying.media_token)}
                                     alt={nowPlaying.name}
                                     className="w-full h-full object-cover"
                                 />
@@ -357,23 +741,92 @@ function App() {
                         </div>
                         <div className="min-w-0">
                             <div className="text-sm font-semibold text-white truncate">{nowPlaying?.name}</div>
-                            {nowPlaying?.owner_username ? (
+                            {queue?.source ? (
+                                <div className="text-xs text-gray-400 truncate">
+                                    {queue.source} · {queue.index + 1}/{queue.tracks.length}
+                                </div>
+                            ) : nowPlaying?.owner_username ? (
                                 <div className="text-xs text-gray-400 truncate">автор: {nowPlaying.owner_username}</div>
                             ) : null}
                         </div>
                     </div>
 
-                    <div className="flex-1">
+                    <div className="flex items-center gap-1">
+                        <button
+                            type="button"
+                            onClick={toggleShuffle}
+                            className={`p-2 rounded-lg transition-colors ${shuffle ? 'bg-cyan-600/30 text-cyan-300' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}`}
+                            aria-pressed={shuffle}
+                            aria-label="Перемешать"
+                            title={shuffle ? 'Перемешивание включено' : 'Перемешать'}
+                        >
+                            <Shuffle className="w-4 h-4" />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => skipTrack(-1)}
+                            className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-white transition-colors"
+                            aria-label="Предыдущий трек"
+                        >
+                            <SkipBack className="w-4 h-4" />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => skipTrack(1)}
+                            disabled={!queue || (queue.index >= queue.tracks.length - 1 && repeat !== 'all')}
+                            className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-white transition-colors disabled:opacity-40"
+                            aria-label="Следующий трек"
+                        >
+                            <SkipForward className="w-4 h-4" />
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setRepeat(nextRepeatMode(repeat))}
+                            className={`p-2 rounded-lg transition-colors ${repeat !== 'off' ? 'bg-cyan-600/30 text-cyan-300' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}`}
+                            aria-label="Повтор"
+                            title={REPEAT_LABELS[repeat]}
+                        >
+                            {repeat === 'one' ? <Repeat1 className="w-4 h-4" /> : <Repeat className="w-4 h-4" />}
+                        </button>
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                        {nowPlaying ? <Waveform projectId={nowPlaying.id} audioRef={audioRef} height={32} className="mb-1" /> : null}
                         <audio
                             ref={audioRef}
                             controls
+                            preload="none"
+                            loop={repeat === 'one'}
                             className="w-full"
-                            onPlay={() => setIsPlaying(true)}
-                            onPause={() => setIsPlaying(false)}
-                            onEnded={() => setIsPlaying(false)}
+                            onPlay={() => {
+                                setIsPlaying(true);
+                                setMediaPlaybackState('playing');
+                                updateMediaPositionState();
+                            }}
+                            onPause={() => {
+                                setIsPlaying(false);
+                                setMediaPlaybackState('paused');
+                                persistPlayerState();
+                            }}
+                            onEnded={handleTrackEnded}
+                            onError={handleAudioError}
+                            onLoadedMetadata={handleLoadedMetadata}
+                            onSeeked={updateMediaPositionState}
+                            onRateChange={updateMediaPositionState}
+                            onTimeUpdate={handleTimeUpdate}
                         />
                     </div>
 
+                    <button
+                        type="button"
+                        onClick={() => setShowQueue((prev) => !prev)}
+                        className={`p-2 rounded-lg transition-colors ${showQueue ? 'bg-cyan-600/30 text-cyan-300' : 'bg-gray-800 hover:bg-gray-700 text-white'}`}
+                        aria-expanded={showQueue}
+                        aria-label="Очередь"
+                        title="Очередь"
+                    >
+                        <ListMusic className="w-4 h-4" />
+                    </button>
                     <button
                         type="button"
                         onClick={stopPlayback}
@@ -383,6 +836,16 @@ function App() {
                         <X className="w-4 h-4" />
                     </button>
                 </div>
+
+                {showQueue && queue ? (
+                    <PlayerQueuePanel
+                        queue={queue}
+                        onJump={(index) => startQueue({ ...queue, index })}
+                        onRemove={(index) => setQueue(removeFromQueue(queue, index))}
+                        onClear={() => setQueue(clearQueue(queue))}
+                        onClose={() => setShowQueue(false)}
+                    />
+                ) : null}
             </div>
         </div>
     );
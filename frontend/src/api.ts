@@ -20,5 +20,113 @@ export const setAuthToken = (token: string | null) => {
     delete api.defaults.headers.common.Authorization;
 };
 
-export const getProjectAudioUrl = (projectId: number) => joinUrl(API_BASE_URL, `/projects/${projectId}/audio`);
-export const getProjectCoverUrl = (projectId: number) => joinUrl(API_BASE_URL, `/projects/${projectId}/cover`);
+export type ProjectVisibility = 'public' | 'unlisted' | 'private';
+
+export const PROJECT_VISIBILITY_LABELS: Record<ProjectVisibility, string> = {
+    public: 'Публичный',
+    unlisted: 'По ссылке',
+    private: 'Приватный',
+};
+
+// Media of private projects is only served with the signed `media_token` from the project payload.
+const withQuery = (url: string, params: Record<string, string | number | null | undefined>) => {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== null && value !== undefined && value !== '') query.set(key, String(value));
+    }
+    const queryString = query.toString();
+    return queryString ? `${url}?${queryString}` : url;
+};
+
+export const getProjectAudioUrl = (projectId: number, variant?: 'original', mediaToken?: string | null) =>
+    withQuery(joinUrl(API_BASE_URL, `/projects/${projectId}/audio`), { variant, token: mediaToken });
+export const getProjectCoverUrl = (projectId: number, version?: number | null, mediaToken?: string | null) =>
+    withQuery(joinUrl(API_BASE_URL, `/projects/${projectId}/cover`), { v: version, token: mediaToken });
+export const getProjectCoverVersionUrl = (projectId: number, coverId: number, mediaToken?: string | null) =>
+    withQuery(joinUrl(API_BASE_URL, `/projects/${projectId}/covers/${coverId}/image`), { token: mediaToken });
+
+export const getCollectionCoverUrl = (collectionId: number, version?: number | null, mediaToken?: string | null) =>
+    withQuery(joinUrl(API_BASE_URL, `/collections/${collectionId}/cover`), { v: version, token: mediaToken });
+
+export const getUserAvatarUrl = (username: string, version?: number | null) =>
+    withQuery(joinUrl(API_BASE_URL, `/users/${encodeURIComponent(username)}/avatar`), { v: version });
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface Job {
+    id: number;
+    type: string;
+    status: JobStatus;
+    project_id: number | null;
+    progress: number;
+    error: string | null;
+    error_details: { details?: string; hint?: string; upstreamStatus?: number } | null;
+    result: Record<string, unknown> | null;
+    created_at: string;
+    started_at: string | null;
+    finished_at: string | null;
+}
+
+export const isJobFinished = (job: Job) => job.status === 'succeeded' || job.status === 'failed';
+
+export const getJobErrorMessage = (job: Job, fallback: string) => {
+    if (!job.error) return fallback;
+    const details = job.error_details?.details;
+    return details ? `${job.error}: ${details}` : job.error;
+};
+
+export const formatDuration = (seconds: number) => {
+    const total = Math.round(seconds);
+    const hours = Math.floor(total / 3600);
+    const mins = Math.floor((total % 3600) / 60);
+    const secs = (total % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${mins.toString().padStart(2, '0')}:${secs}` : `${mins}:${secs}`;
+};
+
+export interface AuditEvent {
+    id: number;
+    action: string;
+    actor: { id: number | null; username: string } | null;
+    target_type: string;
+    target_id: string | null;
+    // Only returned to admins.
+    ip?: string | null;
+    details: Record<string, unknown> | null;
+    created_at: string;
+}
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+    'auth.register': 'Регистрация',
+    'auth.login': 'Вход',
+    'auth.login_failed': 'Неудачный вход',
+    'auth.logout': 'Выход',
+    'auth.password_change': 'Смена пароля',
+    'auth.password_reset': 'Сброс пароля по коду',
+    'auth.session_revoke': 'Завершение сессии',
+    'auth.session_revoke_others': 'Завершение остальных сессий',
+    'project.create': 'Создание проекта',
+    'project.update': 'Изменение проекта',
+    'project.delete': 'Удаление проекта',
+    'project.analyze': 'Запуск анализа',
+    'project.cover_generate': 'Генерация обложки',
+    'project.cover_activate': 'Смена активной обложки',
+    'project.covers_keep': 'Сохранение вариантов обложки',
+    'project.covers_discard': 'Удаление вариантов обложки',
+    'project.comment_delete': 'Удаление чужого комментария',
+    'collection.create': 'Создание коллекции',
+    'collection.update': 'Изменение коллекции',
+    'collection.tracks_update': 'Изменение треков коллекции',
+    'collection.cover_generate': 'Генерация обложки коллекции',
+    'collection.delete': 'Удаление коллекции',
+    'batch.create': 'Запуск пакетной обработки',
+    'batch.retry': 'Повтор пакетной обработки',
+    'user.role_change': 'Смена роли',
+    'user.disable': 'Блокировка пользователя',
+    'user.enable': 'Разблокировка пользователя',
+    'user.password_reset': 'Выдача кода сброса',
+    'cover_preset.create': 'Новый стиль обложки',
+    'cover_preset.update': 'Изменение стиля обложки',
+    'cover_preset.delete': 'Удаление стиля обложки',
+    'storage.migrate': 'Миграция хранилища',
+    'storage.gc': 'Очистка хранилища',
+};
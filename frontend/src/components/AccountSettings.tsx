@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Loader2, Monitor, Smartphone, LogOut, KeyRound } from 'lucide-react';
+import { api } from '../api';
+import type { AuthUser } from './AuthForm';
+
+interface Session {
+    id: number;
+    user_agent: string | null;
+    ip: string | null;
+    created_at: string;
+    last_used_at: string | null;
+    expires_at: string;
+    current: boolean;
+}
+
+interface AccountSettingsProps {
+    currentUser: AuthUser;
+    onBack: () => void;
+    // Called when the current session was revoked from this panel.
+    onSignedOut: () => void;
+}
+
+// Rough "Browser · OS" label; good enough to tell your own devices apart.
+const describeUserAgent = (userAgent: string | null) => {
+    if (!userAgent) return 'Неизвестное устройство';
+    const browser = /Edg\//.test(userAgent)
+        ? 'Edge'
+        : /OPR\//.test(userAgent)
+            ? 'Opera'
+            : /Firefox\//.test(userAgent)
+                ? 'Firefox'
+                : /Chrome\//.test(userAgent)
+                    ? 'Chrome'
+                    : /Safari\//.test(userAgent)
+                        ? 'Safari'
+                        : null;
+    const os = /Android/.test(userAgent)
+        ? 'Android'
+        : /iPhone|iPad/.test(userAgent)
+            ? 'iOS'
+            : /Windows/.test(userAgent)
+                ? 'Windows'
+                : /Mac OS X/.test(userAgent)
+                    ? 'macOS'
+                    : /Linux/.test(userAgent)
+                        ? 'Linux'
+                        : null;
+    return [browser, os].filter(Boolean).join(' · ') || userAgent.slice(0, 60);
+};
+
+const isMobileUserAgent = (userAgent: string | null) => !!userAgent && /Android|iPhone|iPad|Mobile/.test(userAgent);
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+const AccountSettings: React.FC<AccountSettingsProps> = ({ currentUser, onBack, onSignedOut }) => {
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [revokingId, setRevokingId] = useState<number | null>(null);
+    const [revokingOthers, setRevokingOthers] = useState(false);
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [newPasswordRepeat, setNewPasswordRepeat] = useState('');
+    const [changingPassword, setChangingPassword] = useState(false);
+    const [passwordMessage, setPasswordMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+    const fetchSessions = async () => {
+        try {
+            const res = await api.get<Session[]>('/auth/sessions');
+            setSessions(res.data);
+        } catch (err) {
+            console.error('Failed to fetch sessions', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        void fetchSessions();
+    }, []);
+
+    const revokeSession = async (session: Session) => {
+        if (session.current && !confirm('Это текущая сессия — вы выйдете из аккаунта. Продолжить?')) return;
+        setRevokingId(session.id);
+        try {
+            await api.delete(`/auth/sessions/${session.id}`);
+            if (session.current) {
+                onSignedOut();
+                return;
+            }
+            setSessions((prev) => prev.filter((item) => item.id !== session.id));
+        } catch (err) {
+            console.error('Failed to revoke session', err);
+            alert('Не удалось завершить сессию.');
+        } finally {
+            setRevokingId(null);
+        }
+    };
+
+    const revokeOtherSessions = async () => {
+        if (!confirm('Выйти на всех остальных устройствах?')) return;
+        setRevokingOthers(true);
+        try {
+            await api.post('/auth/sessions/revoke-others');
+            setSessions((prev) => prev.filter((session) => session.current));
+        } catch (err) {
+            console.error('Failed to revoke other sessions', err);
+            alert('Не удалось завершить сессии.');
+        } finally {
+            setRevokingOthers(false);
+        }
+    };
+
+    const changePassword = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (newPassword !== newPasswordRepeat) {
+            setPasswordMessage({ type: 'error', text: 'Пароли не совпадают.' });
+            return;
+        }
+        setChangingPassword(true);
+        setPasswordMessage(null);
+        try {
+            const res = await api.post<{ revokedSessions: number }>('/auth/change-password', { currentPassword, newPassword });
+            setCurrentPassword('');
+            setNewPassword('');
+            setNewPasswordRepeat('');
+            setPasswordMessage({
+                type: 'success',
+                text: res.data.revokedSessions > 0
+                    ? `Пароль изменён. Завершено других сессий: ${res.data.revokedSessions}.`
+                    : 'Пароль изменён.',
+            });
+            setSessions((prev) => prev.filter((session) => session.current));
+        } catch (err) {
+            console.error('Failed to change password', err);
+            const message = (err as { response?: { data?: { error?: string } } })?.response?.data?.error;
+            setPasswordMessage({ type: 'error', text: message || 'Не удалось сменить пароль.' });
+        } finally {
+            setChangingPassword(false);
+        }
+    };
+
+    const otherSessions = sessions.filter((session) => !session.current);
+    const inputClassName =
+        'w-full px-3 py-2 rounded-lg bg-gray-950 border border-gray-700 text-white outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50';
+
+    return (
+        <div className="max-w-3xl mx-auto animate-fade-in">
+            <button
+                onClick={onBack}
+                className="flex items-center text-gray-400 hover:text-white mb-6 transition-colors"
+            >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Назад
+            </button>
+
+            <h2 className="text-3xl font-bold text-white mb-1">Настройки аккаунта</h2>
+            <p className="text-sm text-gray-400 mb-6">@{currentUser.username}</p>
+
+            <form onSubmit={changePassword} className="bg-gray-800 p-6 rounded-xl border border-gray-700 mb-6 space-y-3">
+                <h3 className="text-xl font-bold text-white">Смена пароля</h3>
+                <input
+                    type="password"
+                    value={currentPassword}
+                    onChange={(e) => setCurrentPassword(e.target.value)}
+                    autoComplete="current-password"
+                    placeholder="Текущий пароль"
+                    className={inputClassName}
+                />
+                <input
+                    type="password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    autoComplete="new-password"
+                    placeholder="Новый пароль (минимум 6 символов)"
+                    className={inputClassName}
+                />
+                <input
+                    type="password"
+                    value={newPasswordRepeat}
+                    onChange={(e) => setNewPasswordRepeat(e.target.value)}
+                    autoComplete="new-password"
+                    placeholder="Новый пароль ещё раз"
+                    className={inputClassName}
+                />
+                {passwordMessage ? (
+                    <div
+                        className={`text-sm rounded-lg px-3 py-2 border ${passwordMessage.type === 'error'
+                            ? 'text-red-400 bg-red-950/40 border-red-900/40'
+                            : 'text-emerald-300 bg-emerald-950/40 border-emerald-900/40'
+                            }`}
+                    >
+                        {passwordMessage.text}
+                    </div>
+                ) : null}
+                <p className="text-xs text-gray-500">После смены пароля все остальные сессии будут завершены.</p>
+                <button
+                    type="submit"
+                    disabled={changingPassword || !currentPassword || !newPassword}
+                    className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-sm font-medium transition-all disabled:opacity-50 flex items-center"
+                >
+                    {changingPassword ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <KeyRound className="w-4 h-4 mr-2" />}
+                    Сменить пароль
+                </button>
+            </form>
+
+            <div className="bg-gray-800 p-6 rounded-xl border border-gray-700">
+                <div className="flex items-center justify-between gap-4 mb-4">
+                    <h3 className="text-xl font-bold text-white">Активные сессии</h3>
+                    {otherSessions.length > 0 ? (
+                        <button
+                            onClick={revokeOtherSessions}
+                            disabled={revokingOthers}
+                            className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded-lg text-sm font-medium transition-all disabled:opacity-50 flex items-center"
+                        >
+                            {revokingOthers ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <LogOut className="w-4 h-4 mr-2" />}
+                            Выйти на остальных устройствах
+                        </button>
+                    ) : null}
+                </div>
+
+                {loading ? (
+                    <div className="flex justify-center p-6"><Loader2 className="animate-spin text-cyan-500" /></div>
+                ) : (
+                    <ul className="divide-y divide-gray-700">
+                        {sessions.map((session) => {
+                            const DeviceIcon = isMobileUserAgent(session.user_agent) ? Smartphone : Monitor;
+                            return (
+                                <li key={session.id} className="py-3 flex items-center gap-4">
+                                    <DeviceIcon className="w-5 h-5 text-gray-400 shrink-0" />
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-sm text-white flex items-center gap-2">
+                                            <span className="truncate" title={session.user_agent ?? undefined}>
+                                                {describeUserAgent(session.user_agent)}
+                                            </span>
+                                            {session.current ? (
+                                                <span className="text-xs text-cyan-300 bg-cyan-900/40 px-2 py-0.5 rounded-full border border-cyan-700/40 shrink-0">
+                                                    это устройство
+                                                </span>
+                                            ) : null}
+                                        </div>
+                                        <div className="text-xs text-gray-500 mt-0.5">
+                                            {session.ip ? `${session.ip} · ` : ''}
+                                            вход {formatDateTime(session.created_at)}
+                                            {session.last_used_at ? ` · активность ${formatDateTime(session.last_used_at)}` : ''}
+                                        </div>
+                                    </div>
+                                    <button
+                                        onClick={() => revokeSession(session)}
+                                        disabled={revokingId === session.id}
+                                        className="px-3 py-1.5 bg-gray-900 hover:bg-gray-700 text-gray-200 rounded-lg text-xs font-medium transition-all disabled:opacity-50 shrink-0"
+                                    >
+                                        {revokingId === session.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : 'Завершить'}
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AccountSettings;
@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { api, AUDIT_ACTION_LABELS, type AuditEvent } from '../api';
+
+interface ActivityLogProps {
+    // `/projects/:id/activity` or `/admin/audit`; both return `{ items, nextCursor }`.
+    endpoint: string;
+    // Actor and action filters, for the admin feed.
+    showFilters?: boolean;
+    showTarget?: boolean;
+    onOpenProfile?: (username: string) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const ACTION_GROUPS: { value: string; label: string }[] = [
+    { value: '', label: 'Все действия' },
+    { value: 'auth.', label: 'Вход и аккаунт' },
+    { value: 'project.', label: 'Проекты' },
+    { value: 'collection.', label: 'Коллекции' },
+    { value: 'batch.', label: 'Пакетная обработка' },
+    { value: 'user.', label: 'Пользователи (админ)' },
+    { value: 'cover_preset.', label: 'Стили обложек' },
+    { value: 'storage.', label: 'Хранилище' },
+];
+
+const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+// `{ field: { from, to } }` reads as "field: a → b"; everything else is shown as key: value.
+const formatDetails = (details: AuditEvent['details']) =>
+    Object.entries(details ?? {}).map(([key, value]) => {
+        if (value && typeof value === 'object' && 'from' in value && 'to' in value) {
+            const change = value as { from: unknown; to: unknown };
+            return `${key}: ${formatValue(change.from)} → ${formatValue(change.to)}`;
+        }
+        return `${key}: ${formatValue(value)}`;
+    });
+
+const ActivityLog: React.FC<ActivityLogProps> = ({ endpoint, showFilters, showTarget, onOpenProfile }) => {
+    const [events, setEvents] = useState<AuditEvent[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [actorDraft, setActorDraft] = useState('');
+    const [actor, setActor] = useState('');
+    const [action, setAction] = useState('');
+
+    const fetchEvents = useCallback(
+        async (cursor: string | null) => {
+            setLoading(true);
+            try {
+                const res = await api.get<{ items: AuditEvent[]; nextCursor: string | null }>(endpoint, {
+                    params: { actor: actor || undefined, action: action || undefined, cursor: cursor ?? undefined, limit: PAGE_SIZE },
+                });
+                setEvents((prev) => (cursor ? [...prev, ...res.data.items] : res.data.items));
+                setNextCursor(res.data.nextCursor);
+            } catch (err) {
+                console.error('Failed to fetch activity', err);
+            } finally {
+                setLoading(false);
+            }
+        },
+        [endpoint, actor, action]
+    );
+
+    useEffect(() => {
+        void fetchEvents(null);
+    }, [fetchEvents]);
+
+    return (
+        <div>
+            {showFilters ? (
+                <form
+                    className="flex flex-wrap items-center gap-3 mb-4"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        setActor(actorDraft.trim());
+                    }}
+                >
+                    <input
+                        value={actorDraft}
+                        onChange={(e) => setActorDraft(e.target.value)}
+                        onBlur={() => setActor(actorDraft.trim())}
+                        placeholder="Логин автора действия"
+                        className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white text-sm outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50"
+                    />
+                    <select
+                        value={action}
+                        onChange={(e) => setAction(e.target.value)}
+                        className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white text-sm outline-none"
+                    >
+                        {ACTION_GROUPS.map((group) => (
+                            <option key={group.value} value={group.value}>
+                                {group.label}
+                            </option>
+                        ))}
+                        {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </form>
+            ) : null}
+
+            <ul className="divide-y divide-gray-700/60">
+                {events.map((event) => (
+                    <li key={event.id} className="py-2 text-sm">
+                        <div className="flex flex-wrap items-baseline gap-x-2">
+                            <span className="text-white font-medium">{AUDIT_ACTION_LABELS[event.action] ?? event.action}</span>
+                            {event.actor ? (
+                                onOpenProfile ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => onOpenProfile(event.actor!.username)}
+                                        className="text-cyan-300 hover:text-cyan-200"
+                                    >
+                                        {event.actor.username}
+                                    </button>
+                                ) : (
+                                    <span className="text-cyan-300">{event.actor.username}</span>
+                                )
+                            ) : (
+                                <span className="text-gray-500">аноним</span>
+                            )}
+                            {showTarget && event.target_id ? (
+                                <span className="text-gray-500">
+                                    {event.target_type} #{event.target_id}
+                                </span>
+                            ) : null}
+                            <span className="text-xs text-gray-500 ml-auto">
+                                {new Date(event.created_at).toLocaleString()}
+                                {event.ip ? ` · ${event.ip}` : ''}
+                            </span>
+                        </div>
+                        {event.details ? (
+                            <div className="text-xs text-gray-400 mt-0.5 break-words">{formatDetails(event.details).join(' · ')}</div>
+                        ) : null}
+                    </li>
+                ))}
+            </ul>
+
+            {loading ? (
+                <div className="flex justify-center p-4"><Loader2 className="animate-spin text-cyan-500" /></div>
+            ) : nextCursor ? (
+                <div className="flex justify-center mt-3">
+                    <button
+                        onClick={() => void fetchEvents(nextCursor)}
+                        className="px-4 py-2 bg-gray-900 hover:bg-gray-700 text-white rounded-lg text-sm font-medium"
+                    >
+                        Показать ещё
+                    </button>
+                </div>
+            ) : events.length === 0 ? (
+                <div className="text-center py-6 text-gray-500 text-sm">Событий нет.</div>
+            ) : null}
+        </div>
+    );
+};
+
+export default ActivityLog;
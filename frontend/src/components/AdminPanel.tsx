@@ -0,0 +1,470 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Loader2, Search, Ban, CheckCircle2, Trash2, Lock, Link2, Users, Music, History } from 'lucide-react';
+import { api, PROJECT_VISIBILITY_LABELS, type ProjectVisibility } from '../api';
+import type { AuthUser } from './AuthForm';
+import ActivityLog from './ActivityLog';
+
+type UserRole = AuthUser['role'];
+
+interface AdminUser {
+    id: number;
+    username: string;
+    role: UserRole;
+    display_name: string | null;
+    created_at: string;
+    disabled_at: string | null;
+    disabled_reason: string | null;
+    project_count: number;
+    storage_bytes: number;
+    session_count: number;
+    last_seen_at: string | null;
+}
+
+interface AdminProject {
+    id: number;
+    name: string;
+    created_at: string;
+    user_id: number | null;
+    owner_username?: string | null;
+    visibility?: ProjectVisibility;
+    // BIGINT column: arrives as a string.
+    audio_size_bytes?: number | string | null;
+}
+
+type UserStatusFilter = '' | 'active' | 'disabled';
+type UserSort = 'newest' | 'username' | 'storage';
+type Tab = 'users' | 'projects' | 'audit';
+
+interface AdminPanelProps {
+    currentUser: AuthUser;
+    onBack: () => void;
+    onOpenProfile: (username: string) => void;
+    onSelectProject: (id: number) => void;
+}
+
+const USERS_PAGE_SIZE = 50;
+const PROJECTS_PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const USER_SORT_LABELS: Record<UserSort, string> = {
+    newest: 'Сначала новые',
+    username: 'По логину',
+    storage: 'По объёму файлов',
+};
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} Б`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} КБ`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} МБ`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} ГБ`;
+};
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+    (err as { response?: { data?: { error?: string } } })?.response?.data?.error || fallback;
+
+// Search box value that settles after the user stops typing.
+const useDebouncedValue = (value: string) => {
+    const [debounced, setDebounced] = useState(value);
+    useEffect(() => {
+        const timer = window.setTimeout(() => setDebounced(value), SEARCH_DEBOUNCE_MS);
+        return () => window.clearTimeout(timer);
+    }, [value]);
+    return debounced;
+};
+
+const inputClassName =
+    'px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white text-sm outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50';
+
+const AdminPanel: React.FC<AdminPanelProps> = ({ currentUser, onBack, onOpenProfile, onSelectProject }) => {
+    const [tab, setTab] = useState<Tab>('users');
+
+    return (
+        <div className="animate-fade-in">
+            <button
+                onClick={onBack}
+                className="flex items-center text-gray-400 hover:text-white mb-6 transition-colors"
+            >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Назад
+            </button>
+
+            <h2 className="text-3xl font-bold text-white mb-6">Администрирование</h2>
+
+            <div className="flex items-center gap-2 mb-6">
+                {([
+                    ['users', 'Пользователи', Users],
+                    ['projects', 'Проекты', Music],
+                    ['audit', 'Журнал', History],
+                ] as const).map(([value, label, Icon]) => (
+                    <button
+                        key={value}
+                        onClick={() => setTab(value)}
+                        className={`flex items-center px-4 py-2 rounded-full text-sm font-medium transition-all ${tab === value ? 'bg-cyan-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'
+                            }`}
+                    >
+                        <Icon className="w-4 h-4 mr-2" />
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {tab === 'users' ? <AdminUsers currentUser={currentUser} onOpenProfile={onOpenProfile} /> : null}
+            {tab === 'projects' ? <AdminProjects onOpenProfile={onOpenProfile} onSelectProject={onSelectProject} /> : null}
+            {tab === 'audit' ? (
+                <div className="bg-gray-800 p-6 rounded-xl border border-gray-700">
+                    <ActivityLog endpoint="/admin/audit" showFilters showTarget onOpenProfile={onOpenProfile} />
+                </div>
+            ) : null}
+        </div>
+    );
+};
+
+const AdminUsers: React.FC<{ currentUser: AuthUser; onOpenProfile: (username: string) => void }> = ({
+    currentUser,
+    onOpenProfile,
+}) => {
+    const [query, setQuery] = useState('');
+    const [status, setStatus] = useState<UserStatusFilter>('');
+    const [sort, setSort] = useState<UserSort>('newest');
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [total, setTotal] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [busyUserId, setBusyUserId] = useState<number | null>(null);
+    const debouncedQuery = useDebouncedValue(query);
+
+    const fetchUsers = useCallback(
+        async (offset: number) => {
+            setLoading(true);
+            try {
+                const res = await api.get<{ items: AdminUser[]; total: number }>('/admin/users', {
+                    params: {
+                        q: debouncedQuery.trim() || undefined,
+                        status: status || undefined,
+                        sort,
+                        limit: USERS_PAGE_SIZE,
+                        offset,
+                    },
+                });
+                setUsers((prev) => (offset === 0 ? res.data.items : [...prev, ...res.data.items]));
+                setTotal(res.data.total);
+            } catch (err) {
+                console.error('Failed to fetch users', err);
+            } finally {
+                setLoading(false);
+            }
+        },
+        [debouncedQuery, status, sort]
+    );
+
+    useEffect(() => {
+        void fetchUsers(0);
+    }, [fetchUsers]);
+
+    const replaceUser = (updated: AdminUser) =>
+        setUsers((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+
+    const runUserAction = async (user: AdminUser, action: () => Promise<{ data: AdminUser }>, fallbackError: string) => {
+        setBusyUserId(user.id);
+        try {
+            const res = await action();
+            replaceUser(res.data);
+        } catch (err) {
+            console.error('Admin user action failed', err);
+            alert(getErrorMessage(err, fallbackError));
+        } finally {
+            setBusyUserId(null);
+        }
+    };
+
+    const changeRole = (user: AdminUser, role: UserRole) => {
+        if (!confirm(`Сделать ${user.username} ${role === 'admin' ? 'администратором' : 'обычным пользователем'}?`)) return;
+        void runUserAction(
+            user,
+            () => api.put<AdminUser>(`/admin/users/${encodeURIComponent(user.username)}/role`, { role }),
+            'Не удалось изменить роль.'
+        );
+    };
+
+    const disableUser = (user: AdminUser) => {
+        const reason = prompt(`Заблокировать ${user.username}? Все сессии будут завершены. Причина (необязательно):`, '');
+        if (reason === null) return;
+        void runUserAction(
+            user,
+            () => api.post<AdminUser>(`/admin/users/${encodeURIComponent(user.username)}/disable`, { reason }),
+            'Не удалось заблокировать пользователя.'
+        );
+    };
+
+    const enableUser = (user: AdminUser) => {
+        void runUserAction(
+            user,
+            () => api.post<AdminUser>(`/admin/users/${encodeURIComponent(user.username)}/enable`),
+            'Не удалось разблокировать пользователя.'
+        );
+    };
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-xl border border-gray-700">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <div className="relative flex-1 min-w-[200px]">
+                    <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Логин или имя"
+                        className={`${inputClassName} w-full pl-9`}
+                    />
+                </div>
+                <select value={status} onChange={(e) => setStatus(e.target.value as UserStatusFilter)} className={inputClassName}>
+                    <option value="">Все</option>
+                    <option value="active">Активные</option>
+                    <option value="disabled">Заблокированные</option>
+                </select>
+                <select value={sort} onChange={(e) => setSort(e.target.value as UserSort)} className={inputClassName}>
+                    {(Object.keys(USER_SORT_LABELS) as UserSort[]).map((value) => (
+                        <option key={value} value={value}>
+                            {USER_SORT_LABELS[value]}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="text-xs text-gray-500 mb-2">Найдено: {total}</div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-400 border-b border-gray-700">
+                            <th className="py-2 pr-4 font-medium">Пользователь</th>
+                            <th className="py-2 pr-4 font-medium">Роль</th>
+                            <th className="py-2 pr-4 font-medium">Проекты</th>
+                            <th className="py-2 pr-4 font-medium">Файлы</th>
+                            <th className="py-2 pr-4 font-medium">Активность</th>
+                            <th className="py-2 font-medium" />
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700/60">
+                        {users.map((user) => {
+                            const isSelf = user.id === currentUser.id;
+                            const busy = busyUserId === user.id;
+                            return (
+                                <tr key={user.id} className={user.disabled_at ? 'opacity-60' : undefined}>
+                                    <td className="py-2 pr-4">
+                                        <button
+                                            type="button"
+                                            onClick={() => onOpenProfile(user.username)}
+                                            className="text-white hover:text-cyan-300 font-medium"
+                                        >
+                                            {user.username}
+                                        </button>
+                                        {user.display_name ? <div className="text-xs text-gray-500">{user.display_name}</div> : null}
+                                        {user.disabled_at ? (
+                                            <div className="text-xs text-red-400" title={user.disabled_reason ?? undefined}>
+                                                заблокирован {new Date(user.disabled_at).toLocaleDateString()}
+                                                {user.disabled_reason ? ` · ${user.disabled_reason}` : ''}
+                                            </div>
+                                        ) : null}
+                                    </td>
+                                    <td className="py-2 pr-4">
+                                        <select
+                                            value={user.role}
+                                            disabled={isSelf || busy}
+                                            onChange={(e) => changeRole(user, e.target.value as UserRole)}
+                                            className={`${inputClassName} py-1`}
+                                        >
+                                            <option value="user">user</option>
+                                            <option value="admin">admin</option>
+                                        </select>
+                                    </td>
+                                    <td className="py-2 pr-4 text-gray-300">{user.project_count}</td>
+                                    <td className="py-2 pr-4 text-gray-300">{formatBytes(user.storage_bytes)}</td>
+                                    <td className="py-2 pr-4 text-gray-400 text-xs">
+                                        {user.last_seen_at ? new Date(user.last_seen_at).toLocaleString() : '—'}
+                                        <div>сессий: {user.session_count}</div>
+                                    </td>
+                                    <td className="py-2 text-right">
+                                        {isSelf ? null : user.disabled_at ? (
+                                            <button
+                                                onClick={() => enableUser(user)}
+                                                disabled={busy}
+                                                className="inline-flex items-center px-3 py-1.5 bg-gray-900 hover:bg-gray-700 text-gray-200 rounded-lg text-xs font-medium disabled:opacity-50"
+                                            >
+                                                <CheckCircle2 className="w-3.5 h-3.5 mr-1.5" />
+                                                Разблокировать
+                                            </button>
+                                        ) : (
+                                            <button
+                                                onClick={() => disableUser(user)}
+                                                disabled={busy}
+                                                className="inline-flex items-center px-3 py-1.5 bg-red-600/80 hover:bg-red-500 text-white rounded-lg text-xs font-medium disabled:opacity-50"
+                                            >
+                                                <Ban className="w-3.5 h-3.5 mr-1.5" />
+                                                Заблокировать
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center p-6"><Loader2 className="animate-spin text-cyan-500" /></div>
+            ) : users.length < total ? (
+                <div className="flex justify-center mt-4">
+                    <button
+                        onClick={() => void fetchUsers(users.length)}
+                        className="px-4 py-2 bg-gray-900 hover:bg-gray-700 text-white rounded-lg text-sm font-medium"
+                    >
+                        Показать ещё
+                    </button>
+                </div>
+            ) : null}
+        </div>
+    );
+};
+
+const AdminProjects: React.FC<{ onOpenProfile: (username: string) => void; onSelectProject: (id: number) => void }> = ({
+    onOpenProfile,
+    onSelectProject,
+}) => {
+    const [query, setQuery] = useState('');
+    const [visibility, setVisibility] = useState<ProjectVisibility | ''>('');
+    const [projects, setProjects] = useState<AdminProject[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [deletingId, setDeletingId] = useState<number | null>(null);
+    const debouncedQuery = useDebouncedValue(query);
+
+    const fetchProjects = useCallback(
+        async (cursor: string | null) => {
+            setLoading(true);
+            try {
+                const res = await api.get<{ items: AdminProject[]; nextCursor: string | null }>('/admin/projects', {
+                    params: {
+                        q: debouncedQuery.trim() || undefined,
+                        visibility: visibility || undefined,
+                        limit: PROJECTS_PAGE_SIZE,
+                        cursor: cursor ?? undefined,
+                    },
+                });
+                setProjects((prev) => (cursor ? [...prev, ...res.data.items] : res.data.items));
+                setNextCursor(res.data.nextCursor);
+            } catch (err) {
+                console.error('Failed to fetch projects', err);
+            } finally {
+                setLoading(false);
+            }
+        },
+        [debouncedQuery, visibility]
+    );
+
+    useEffect(() => {
+        void fetchProjects(null);
+    }, [fetchProjects]);
+
+    const deleteProject = async (project: AdminProject) => {
+        if (!confirm(`Удалить проект «${project.name}»${project.owner_username ? ` пользователя ${project.owner_username}` : ''}?`)) return;
+        setDeletingId(project.id);
+        try {
+            await api.delete(`/projects/${project.id}`);
+            setProjects((prev) => prev.filter((item) => item.id !== project.id));
+        } catch (err) {
+            console.error('Failed to delete project', err);
+            alert(getErrorMessage(err, 'Не удалось удалить проект.'));
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-xl border border-gray-700">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <div className="relative flex-1 min-w-[200px]">
+                    <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Название или текст анализа"
+                        className={`${inputClassName} w-full pl-9`}
+                    />
+                </div>
+                <select
+                    value={visibility}
+                    onChange={(e) => setVisibility(e.target.value as ProjectVisibility | '')}
+                    className={inputClassName}
+                >
+                    <option value="">Любая видимость</option>
+                    {(Object.keys(PROJECT_VISIBILITY_LABELS) as ProjectVisibility[]).map((value) => (
+                        <option key={value} value={value}>
+                            {PROJECT_VISIBILITY_LABELS[value]}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <ul className="divide-y divide-gray-700/60">
+                {projects.map((project) => (
+                    <li key={project.id} className="py-2 flex items-center gap-4 text-sm">
+                        <div className="flex-1 min-w-0">
+                            <button
+                                type="button"
+                                onClick={() => onSelectProject(project.id)}
+                                className="text-white hover:text-cyan-300 font-medium truncate max-w-full text-left"
+                            >
+                                {project.name}
+                            </button>
+                            <div className="text-xs text-gray-500 flex items-center gap-2">
+                                {project.owner_username ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => onOpenProfile(project.owner_username!)}
+                                        className="hover:text-cyan-300"
+                                    >
+                                        {project.owner_username}
+                                    </button>
+                                ) : (
+                                    <span>без автора</span>
+                                )}
+                                <span>· {new Date(project.created_at).toLocaleDateString()}</span>
+                                {project.audio_size_bytes ? <span>· {formatBytes(Number(project.audio_size_bytes))}</span> : null}
+                                {project.visibility === 'private' ? (
+                                    <Lock className="w-3 h-3" aria-label={PROJECT_VISIBILITY_LABELS.private} />
+                                ) : project.visibility === 'unlisted' ? (
+                                    <Link2 className="w-3 h-3" aria-label={PROJECT_VISIBILITY_LABELS.unlisted} />
+                                ) : null}
+                            </div>
+                        </div>
+                        <button
+                            onClick={() => deleteProject(project)}
+                            disabled={deletingId === project.id}
+                            className="p-2 rounded-lg bg-gray-900 hover:bg-red-600 text-gray-300 hover:text-white disabled:opacity-50 shrink-0"
+                            title="Удалить проект"
+                        >
+                            {deletingId === project.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                        </button>
+                    </li>
+                ))}
+            </ul>
+
+            {loading ? (
+                <div className="flex justify-center p-6"><Loader2 className="animate-spin text-cyan-500" /></div>
+            ) : nextCursor ? (
+                <div className="flex justify-center mt-4">
+                    <button
+                        onClick={() => void fetchProjects(nextCursor)}
+                        className="px-4 py-2 bg-gray-900 hover:bg-gray-700 text-white rounded-lg text-sm font-medium"
+                    >
+                        Показать ещё
+                    </button>
+                </div>
+            ) : projects.length === 0 ? (
+                <div className="text-center py-10 text-gray-500">Ничего не найдено.</div>
+            ) : null}
+        </div>
+    );
+};
+
+export default AdminPanel;
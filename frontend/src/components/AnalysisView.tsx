@@ -0,0 +1,125 @@
+import React from 'react';
+import { Activity, Drum, Eye, Heart, Mic2, Sparkles, TrendingUp, Users } from 'lucide-react';
+
+export type AudioAnalysis = {
+    lyrics: string | null;
+    vibe: string;
+    emotions: { name: string; weight: number }[];
+    genre: string;
+    tempo: { bpm: number | null; description: string };
+    instruments: string[];
+    visual_associations: string[];
+    target_audience: string;
+    commercial_potential: { score: number | null; summary: string };
+};
+
+interface AnalysisViewProps {
+    analysis: AudioAnalysis;
+}
+
+const Card: React.FC<{ icon: React.ReactNode; title: string; children: React.ReactNode }> = ({ icon, title, children }) => (
+    <div className="bg-gray-900/60 border border-gray-700 rounded-lg p-4">
+        <h3 className="text-sm font-semibold text-gray-200 mb-2 flex items-center">
+            {icon}
+            {title}
+        </h3>
+        <div className="text-sm text-gray-300 leading-relaxed">{children}</div>
+    </div>
+);
+
+const Chips: React.FC<{ items: string[] }> = ({ items }) => (
+    <div className="flex flex-wrap gap-2">
+        {items.map((item) => (
+            <span key={item} className="px-2 py-0.5 rounded-full bg-gray-800 border border-gray-700 text-xs text-gray-200">
+                {item}
+            </span>
+        ))}
+    </div>
+);
+
+const AnalysisView: React.FC<AnalysisViewProps> = ({ analysis }) => {
+    const hasStyle = analysis.genre || analysis.tempo.bpm || analysis.tempo.description || analysis.instruments.length > 0;
+
+    return (
+        <div className="space-y-3">
+            {analysis.emotions.length > 0 ? (
+                <Card icon={<Heart className="w-4 h-4 mr-2 text-pink-400" />} title="Эмоциональная палитра">
+                    <div className="space-y-2">
+                        {analysis.emotions.map((emotion) => (
+                            <div key={emotion.name}>
+                                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                                    <span className="text-gray-200">{emotion.name}</span>
+                                    <span>{Math.round(emotion.weight * 100)}%</span>
+                                </div>
+                                <div className="h-1.5 rounded-full bg-gray-800 overflow-hidden">
+                                    <div
+                                        className="h-full bg-gradient-to-r from-cyan-500 to-purple-500"
+                                        style={{ width: `${Math.round(emotion.weight * 100)}%` }}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+            ) : null}
+
+            {analysis.vibe ? (
+                <Card icon={<Sparkles className="w-4 h-4 mr-2 text-yellow-300" />} title="Вайб и атмосфера">
+                    <p className="whitespace-pre-wrap">{analysis.vibe}</p>
+                </Card>
+            ) : null}
+
+            {hasStyle ? (
+                <Card icon={<Drum className="w-4 h-4 mr-2 text-orange-300" />} title="Музыкальный стиль">
+                    <div className="space-y-2">
+                        {analysis.genre ? <p className="text-gray-100 font-medium">{analysis.genre}</p> : null}
+                        {analysis.tempo.bpm || analysis.tempo.description ? (
+                            <p className="flex items-center text-gray-300">
+                                <Activity className="w-3.5 h-3.5 mr-1.5 text-gray-500" />
+                                {analysis.tempo.bpm ? <span className="font-mono mr-2">~{analysis.tempo.bpm} BPM</span> : null}
+                                {analysis.tempo.description}
+                            </p>
+                        ) : null}
+                        {analysis.instruments.length > 0 ? <Chips items={analysis.instruments} /> : null}
+                    </div>
+                </Card>
+            ) : null}
+
+            {analysis.visual_associations.length > 0 ? (
+                <Card icon={<Eye className="w-4 h-4 mr-2 text-purple-300" />} title="Визуальные ассоциации">
+                    <ul className="list-disc list-inside space-y-1">
+                        {analysis.visual_associations.map((item) => (
+                            <li key={item}>{item}</li>
+                        ))}
+                    </ul>
+                </Card>
+            ) : null}
+
+            {analysis.target_audience ? (
+                <Card icon={<Users className="w-4 h-4 mr-2 text-cyan-300" />} title="Целевая аудитория">
+                    <p>{analysis.target_audience}</p>
+                </Card>
+            ) : null}
+
+            {analysis.commercial_potential.summary || analysis.commercial_potential.score ? (
+                <Card icon={<TrendingUp className="w-4 h-4 mr-2 text-green-400" />} title="Коммерческий потенциал">
+                    {analysis.commercial_potential.score ? (
+                        <p className="text-2xl font-bold text-white mb-1">
+                            {analysis.commercial_potential.score}
+                            <span className="text-sm text-gray-500 font-normal">/10</span>
+                        </p>
+                    ) : null}
+                    <p>{analysis.commercial_potential.summary}</p>
+                </Card>
+            ) : null}
+
+            {analysis.lyrics ? (
+                <Card icon={<Mic2 className="w-4 h-4 mr-2 text-gray-300" />} title="Текст">
+                    <p className="whitespace-pre-wrap text-gray-400">{analysis.lyrics}</p>
+                </Card>
+            ) : null}
+        </div>
+    );
+};
+
+export default AnalysisView;
@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileAudio, Upload, X } from 'lucide-react';
+import { formatDuration } from '../api';
+
+interface AudioFileUploadProps {
+    onUpload: (file: File, name: string) => void;
+}
+
+const MAX_UPLOAD_MB = 50;
+const ACCEPTED_EXTENSIONS = ['.mp3', '.wav', '.flac', '.m4a', '.ogg', '.oga', '.opus', '.webm'];
+
+const getFileExtension = (filename: string) => {
+    const dot = filename.lastIndexOf('.');
+    return dot === -1 ? '' : filename.slice(dot).toLowerCase();
+};
+
+const validateAudioFile = (file: File) => {
+    if (!ACCEPTED_EXTENSIONS.includes(getFileExtension(file.name))) {
+        return `Поддерживаются только ${ACCEPTED_EXTENSIONS.join(', ')}`;
+    }
+    // Some browsers leave the type empty for flac/opus; the server checks the contents anyway.
+    if (file.type && !file.type.startsWith('audio/') && file.type !== 'video/webm' && file.type !== 'application/ogg') {
+        return 'Это не аудиофайл';
+    }
+    if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+        return `Файл слишком большой (максимум ${MAX_UPLOAD_MB} МБ)`;
+    }
+    if (file.size < 512) {
+        return 'Аудиофайл пустой';
+    }
+    return null;
+};
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} МБ`;
+
+const AudioFileUpload: React.FC<AudioFileUploadProps> = ({ onUpload }) => {
+    const inputRef = useRef<HTMLInputElement | null>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [duration, setDuration] = useState<number | null>(null);
+    const [name, setName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [dragOver, setDragOver] = useState(false);
+
+    useEffect(() => {
+        return () => {
+            if (previewUrl) URL.revokeObjectURL(previewUrl);
+        };
+    }, [previewUrl]);
+
+    const selectFile = (nextFile: File | undefined) => {
+        if (!nextFile) return;
+        const validationError = validateAudioFile(nextFile);
+        if (validationError) {
+            setError(validationError);
+            return;
+        }
+        setError(null);
+        setFile(nextFile);
+        setDuration(null);
+        setPreviewUrl(URL.createObjectURL(nextFile));
+        setName(nextFile.name.replace(/\.[^.]+$/, ''));
+    };
+
+    const clearFile = () => {
+        setFile(null);
+        setPreviewUrl(null);
+        setDuration(null);
+        setName('');
+        if (inputRef.current) inputRef.current.value = '';
+    };
+
+    if (file && previewUrl) {
+        return (
+            <div className="p-6 bg-gray-800 rounded-xl shadow-lg border border-gray-700 space-y-4">
+                <div className="flex items-start justify-between gap-3">
+                    <div className="flex items-center min-w-0">
+                        <FileAudio className="w-8 h-8 text-cyan-400 mr-3 shrink-0" />
+                        <div className="min-w-0">
+                            <div className="text-sm font-medium text-white truncate">{file.name}</div>
+                            <div className="text-xs text-gray-400">
+                                {formatSize(file.size)}
+                                {duration != null ? ` · ${formatDuration(duration)}` : ''}
+                            </div>
+                        </div>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={clearFile}
+                        className="p-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+                        aria-label="Выбрать другой файл"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <audio
+                    controls
+                    src={previewUrl}
+                    className="w-full"
+                    onLoadedMetadata={(e) => {
+                        const value = e.currentTarget.duration;
+                        if (Number.isFinite(value)) setDuration(value);
+                    }}
+                    onError={() => setError('Браузер не смог прочитать этот файл — возможно, он повреждён.')}
+                />
+
+                <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Название трека"
+                    className="w-full px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50"
+                />
+
+                {error ? (
+                    <div className="text-sm text-red-400 bg-red-950/40 border border-red-900/40 rounded-lg px-3 py-2">{error}</div>
+                ) : null}
+
+                <button
+                    type="button"
+                    onClick={() => onUpload(file, name.trim())}
+                    className="w-full px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg font-medium transition-colors flex items-center justify-center"
+                >
+                    <Upload className="w-4 h-4 mr-2" />
+                    Загрузить
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div
+            onDragOver={(e) => {
+                e.preventDefault();
+                setDragOver(true);
+            }}
+            onDragLeave={() => setDragOver(false)}
+            onDrop={(e) => {
+                e.preventDefault();
+                setDragOver(false);
+                selectFile(e.dataTransfer.files?.[0]);
+            }}
+            onClick={() => inputRef.current?.click()}
+            className={`flex flex-col items-center justify-center p-10 rounded-xl border-2 border-dashed cursor-pointer transition-colors ${dragOver ? 'border-cyan-500 bg-cyan-500/10' : 'border-gray-700 bg-gray-800 hover:border-gray-500'
+                }`}
+        >
+            <Upload className="w-10 h-10 text-cyan-400 mb-3" />
+            <p className="text-gray-200 font-medium">Перетащите аудиофайл сюда</p>
+            <p className="text-sm text-gray-400 mt-1">или нажмите, чтобы выбрать</p>
+            <p className="text-xs text-gray-500 mt-3">
+                MP3, WAV, FLAC, M4A, OGG, WEBM · до {MAX_UPLOAD_MB} МБ
+            </p>
+            {error ? <p className="text-sm text-red-400 mt-3">{error}</p> : null}
+            <input
+                ref={inputRef}
+                type="file"
+                accept={`${ACCEPTED_EXTENSIONS.join(',')},audio/*`}
+                className="hidden"
+                onChange={(e) => selectFile(e.target.files?.[0])}
+            />
+        </div>
+    );
+};
+
+export default AudioFileUpload;
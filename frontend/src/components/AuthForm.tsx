@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { LogIn, UserPlus, Loader2 } from 'lucide-react';
+import { LogIn, UserPlus, KeyRound, Loader2 } from 'lucide-react';
 import { api } from '../api';
 
 export type AuthUser = {
@@ -8,7 +8,14 @@ export type AuthUser = {
     role: 'user' | 'admin';
 };
 
-type AuthMode = 'login' | 'register';
+// 'reset' redeems a one-time code from an admin.
+export type AuthMode = 'login' | 'register' | 'reset';
+
+const TITLES: Record<AuthMode, string> = {
+    login: 'Вход',
+    register: 'Регистрация',
+    reset: 'Сброс пароля',
+};
 
 interface AuthFormProps {
     mode: AuthMode;
@@ -20,6 +27,7 @@ interface AuthFormProps {
 const AuthForm: React.FC<AuthFormProps> = ({ mode, onModeChange, onSuccess, onCancel }) => {
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
+    const [resetCode, setResetCode] = useState('');
     const [submitting, setSubmitting] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -28,11 +36,14 @@ const AuthForm: React.FC<AuthFormProps> = ({ mode, onModeChange, onSuccess, onCa
         setSubmitting(true);
         setError(null);
         try {
-            const endpoint = mode === 'login' ? '/auth/login' : '/auth/register';
-            const res = await api.post(endpoint, { username, password });
+            const res =
+                mode === 'reset'
+                    ? await api.post('/auth/reset-password', { token: resetCode, newPassword: password })
+                    : await api.post(mode === 'login' ? '/auth/login' : '/auth/register', { username, password });
             onSuccess(res.data);
-        } catch (err: any) {
-            const message = err?.response?.data?.error || 'Ошибка. Проверь логин/пароль.';
+        } catch (err) {
+            const message =
+                (err as { response?: { data?: { error?: string } } })?.response?.data?.error || 'Ошибка. Проверь логин/пароль.';
             setError(String(message));
         } finally {
             setSubmitting(false);
@@ -43,9 +54,7 @@ const AuthForm: React.FC<AuthFormProps> = ({ mode, onModeChange, onSuccess, onCa
         <div className="max-w-md mx-auto animate-fade-in">
             <div className="bg-gray-900/60 border border-gray-800 rounded-2xl p-6 shadow-xl">
                 <div className="flex items-center justify-between mb-6">
-                    <h2 className="text-2xl font-bold text-white">
-                        {mode === 'login' ? 'Вход' : 'Регистрация'}
-                    </h2>
+                    <h2 className="text-2xl font-bold text-white">{TITLES[mode]}</h2>
                     <button
                         onClick={onCancel}
                         className="text-gray-400 hover:text-white transition-colors text-sm"
@@ -56,19 +65,32 @@ const AuthForm: React.FC<AuthFormProps> = ({ mode, onModeChange, onSuccess, onCa
                 </div>
 
                 <form onSubmit={submit} className="space-y-4">
-                    <div>
-                        <label className="block text-sm text-gray-300 mb-2">Логин</label>
-                        <input
-                            value={username}
-                            onChange={(e) => setUsername(e.target.value)}
-                            autoComplete="username"
-                            className="w-full px-3 py-2 rounded-lg bg-gray-950 border border-gray-800 text-white outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50"
-                            placeholder="Введите логин"
-                        />
-                    </div>
+                    {mode === 'reset' ? (
+                        <div>
+                            <label className="block text-sm text-gray-300 mb-2">Код сброса</label>
+                            <input
+                                value={resetCode}
+                                onChange={(e) => setResetCode(e.target.value)}
+                                autoComplete="one-time-code"
+                                className="w-full px-3 py-2 rounded-lg bg-gray-950 border border-gray-800 text-white font-mono outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50"
+                                placeholder="Код от администратора"
+                            />
+                        </div>
+                    ) : (
+                        <div>
+                            <label className="block text-sm text-gray-300 mb-2">Логин</label>
+                            <input
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value)}
+                                autoComplete="username"
+                                className="w-full px-3 py-2 rounded-lg bg-gray-950 border border-gray-800 text-white outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50"
+                                placeholder="Введите логин"
+                            />
+                        </div>
+                    )}
 
                     <div>
-                        <label className="block text-sm text-gray-300 mb-2">Пароль</label>
+                        <label className="block text-sm text-gray-300 mb-2">{mode === 'reset' ? 'Новый пароль' : 'Пароль'}</label>
                         <input
                             value={password}
                             onChange={(e) => setPassword(e.target.value)}
@@ -97,6 +119,11 @@ const AuthForm: React.FC<AuthFormProps> = ({ mode, onModeChange, onSuccess, onCa
                                 <LogIn className="w-4 h-4 mr-2" />
                                 Войти
                             </>
+                        ) : mode === 'reset' ? (
+                            <>
+                                <KeyRound className="w-4 h-4 mr-2" />
+                                Сменить пароль и войти
+                            </>
                         ) : (
                             <>
                                 <UserPlus className="w-4 h-4 mr-2" />
@@ -106,15 +133,24 @@ const AuthForm: React.FC<AuthFormProps> = ({ mode, onModeChange, onSuccess, onCa
                     </button>
                 </form>
 
-                <div className="mt-6 text-sm text-gray-400">
+                <div className="mt-6 text-sm text-gray-400 flex flex-col items-start gap-2">
                     {mode === 'login' ? (
-                        <button
-                            type="button"
-                            onClick={() => onModeChange('register')}
-                            className="text-cyan-400 hover:text-cyan-300 transition-colors"
-                        >
-                            Нет аккаунта? Зарегистрироваться
-                        </button>
+                        <>
+                            <button
+                                type="button"
+                                onClick={() => onModeChange('register')}
+                                className="text-cyan-400 hover:text-cyan-300 transition-colors"
+                            >
+                                Нет аккаунта? Зарегистрироваться
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => onModeChange('reset')}
+                                className="text-gray-400 hover:text-white transition-colors"
+                            >
+                                Есть код сброса пароля?
+                            </button>
+                        </>
                     ) : (
                         <button
                             type="button"
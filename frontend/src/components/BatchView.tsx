@@ -0,0 +1,359 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, CheckCircle2, Clock, Layers, Loader2, RotateCcw, XCircle } from 'lucide-react';
+import { api } from '../api';
+
+type BatchFilter = 'missing_analysis' | 'missing_cover' | 'all';
+type BatchItemStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+type BatchStep = 'analysis' | 'cover';
+
+interface BatchCounts {
+    total: number;
+    pending: number;
+    running: number;
+    succeeded: number;
+    failed: number;
+}
+
+interface BatchSummary {
+    id: number;
+    analysis: boolean;
+    cover: boolean;
+    preset: string;
+    created_at: string;
+    finished_at: string | null;
+    counts: BatchCounts;
+}
+
+interface BatchItem {
+    project_id: number;
+    project_name: string;
+    status: BatchItemStatus;
+    step: BatchStep | null;
+    error: string | null;
+    job_progress: number | null;
+}
+
+interface Batch extends BatchSummary {
+    items: BatchItem[];
+}
+
+interface CoverPreset {
+    slug: string;
+    name: string;
+}
+
+interface BatchViewProps {
+    onBack: () => void;
+    onSelectProject: (id: number) => void;
+}
+
+const BATCH_POLL_INTERVAL_MS = 2000;
+
+const FILTER_LABELS: Record<BatchFilter, string> = {
+    missing_analysis: 'Мои треки без анализа',
+    missing_cover: 'Мои треки без обложки',
+    all: 'Все мои треки',
+};
+
+const STEP_LABELS: Record<BatchStep, string> = {
+    analysis: 'анализ',
+    cover: 'обложка',
+};
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+    (err as { response?: { data?: { error?: string } } })?.response?.data?.error || fallback;
+
+const describeSteps = (batch: BatchSummary) =>
+    [batch.analysis ? 'анализ' : null, batch.cover ? 'обложка' : null].filter(Boolean).join(' + ');
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+    if (status === 'succeeded') return <CheckCircle2 className="w-4 h-4 text-green-400" />;
+    if (status === 'failed') return <XCircle className="w-4 h-4 text-red-400" />;
+    if (status === 'running') return <Loader2 className="w-4 h-4 text-cyan-400 animate-spin" />;
+    return <Clock className="w-4 h-4 text-gray-500" />;
+};
+
+const BatchView: React.FC<BatchViewProps> = ({ onBack, onSelectProject }) => {
+    const [batches, setBatches] = useState<BatchSummary[]>([]);
+    const [batch, setBatch] = useState<Batch | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [presets, setPresets] = useState<CoverPreset[]>([]);
+    const [filter, setFilter] = useState<BatchFilter>('missing_analysis');
+    const [runAnalysis, setRunAnalysis] = useState(true);
+    const [runCover, setRunCover] = useState(true);
+    const [preset, setPreset] = useState('');
+    const [starting, setStarting] = useState(false);
+    const [retrying, setRetrying] = useState(false);
+
+    const showBatch = (next: Batch) => {
+        setBatch(next);
+        const { items: _items, ...summary } = next;
+        setBatches((prev) => [summary, ...prev.filter((item) => item.id !== summary.id)].sort((a, b) => b.id - a.id));
+    };
+
+    useEffect(() => {
+        api.get<BatchSummary[]>('/batches')
+            .then((res) => {
+                setBatches(res.data);
+                const latest = res.data[0];
+                if (latest) return api.get<Batch>(`/batches/${latest.id}`).then((detail) => setBatch(detail.data));
+            })
+            .catch((err) => console.error('Failed to fetch batches', err))
+            .finally(() => setLoading(false));
+        api.get<{ defaultPreset: string; presets: CoverPreset[] }>('/cover-presets')
+            .then((res) => {
+                setPresets(res.data.presets);
+                setPreset(res.data.defaultPreset);
+            })
+            .catch((err) => console.error('Failed to fetch cover presets', err));
+    }, []);
+
+    useEffect(() => {
+        if (!batch || batch.finished_at) return;
+        const timer = window.setTimeout(async () => {
+            try {
+                const res = await api.get<Batch>(`/batches/${batch.id}`);
+                showBatch(res.data);
+            } catch (err) {
+                console.error('Failed to poll batch', err);
+            }
+        }, BATCH_POLL_INTERVAL_MS);
+        return () => window.clearTimeout(timer);
+    }, [batch]);
+
+    const openBatch = async (id: number) => {
+        try {
+            const res = await api.get<Batch>(`/batches/${id}`);
+            setBatch(res.data);
+        } catch (err) {
+            console.error('Failed to fetch batch', err);
+            alert(getErrorMessage(err, 'Не удалось загрузить пакет.'));
+        }
+    };
+
+    const startBatch = async () => {
+        setStarting(true);
+        try {
+            const res = await api.post<Batch>('/batches', {
+                filter,
+                analysis: runAnalysis,
+                cover: runCover,
+                preset: preset || undefined,
+            });
+            showBatch(res.data);
+        } catch (err) {
+            console.error('Failed to start batch', err);
+            alert(getErrorMessage(err, 'Не удалось запустить обработку.'));
+        } finally {
+            setStarting(false);
+        }
+    };
+
+    const retry = async (projectIds?: number[]) => {
+        if (!batch) return;
+        setRetrying(true);
+        try {
+            const res = await api.post<Batch>(`/batches/${batch.id}/retry`, projectIds ? { projectIds } : {});
+            showBatch(res.data);
+        } catch (err) {
+            console.error('Failed to retry batch', err);
+            alert(getErrorMessage(err, 'Не удалось повторить обработку.'));
+        } finally {
+            setRetrying(false);
+        }
+    };
+
+    const done = batch ? batch.counts.succeeded + batch.counts.failed : 0;
+    const percent = batch && batch.counts.total > 0 ? Math.round((done / batch.counts.total) * 100) : 0;
+
+    return (
+        <div className="max-w-4xl mx-auto animate-fade-in">
+            <button onClick={onBack} className="flex items-center text-gray-400 hover:text-white mb-6 transition-colors">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Назад
+            </button>
+
+            <h2 className="text-2xl font-bold text-white mb-2">Пакетная обработка</h2>
+            <p className="text-sm text-gray-500 mb-6">
+                Анализ и обложки для многих треков сразу. Треки обрабатываются по несколько за раз и расходуют обычные
+                лимиты AI; то, что не получилось, можно повторить.
+            </p>
+
+            <div className="bg-gray-800 border border-gray-700 rounded-xl p-5 mb-8 space-y-4">
+                <div className="flex flex-wrap items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        Треки
+                        <select
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value as BatchFilter)}
+                            disabled={starting}
+                            className="px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-700 text-white outline-none focus:ring-2 focus:ring-cyan-500/40"
+                        >
+                            {(Object.keys(FILTER_LABELS) as BatchFilter[]).map((value) => (
+                                <option key={value} value={value} disabled={value === 'missing_analysis' && !runAnalysis}>
+                                    {FILTER_LABELS[value]}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={runAnalysis}
+                            onChange={(e) => {
+                                setRunAnalysis(e.target.checked);
+                                // A cover needs an analysis, so a cover-only batch can't target tracks without one.
+                                if (!e.target.checked && filter === 'missing_analysis') setFilter('missing_cover');
+                            }}
+                            disabled={starting}
+                            className="accent-cyan-500"
+                        />
+                        Анализ
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={runCover}
+                            onChange={(e) => setRunCover(e.target.checked)}
+                            disabled={starting}
+                            className="accent-cyan-500"
+                        />
+                        Обложка
+                    </label>
+                    {runCover && presets.length > 0 ? (
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            Стиль
+                            <select
+                                value={preset}
+                                onChange={(e) => setPreset(e.target.value)}
+                                disabled={starting}
+                                className="px-3 py-1.5 rounded-lg bg-gray-900 border border-gray-700 text-white outline-none focus:ring-2 focus:ring-cyan-500/40"
+                            >
+                                {presets.map((item) => (
+                                    <option key={item.slug} value={item.slug}>
+                                        {item.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    ) : null}
+                </div>
+                <button
+                    type="button"
+                    onClick={startBatch}
+                    disabled={starting || (!runAnalysis && !runCover)}
+                    className="flex items-center px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                >
+                    {starting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Layers className="w-4 h-4 mr-2" />}
+                    Запустить
+                </button>
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center py-10">
+                    <Loader2 className="animate-spin text-cyan-500" />
+                </div>
+            ) : batches.length === 0 ? (
+                <p className="text-gray-500 text-center py-10">Пакетов пока не было.</p>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-6">
+                    <div className="space-y-2">
+                        {batches.map((item) => (
+                            <button
+                                key={item.id}
+                                type="button"
+                                onClick={() => openBatch(item.id)}
+                                className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${batch?.id === item.id
+                                    ? 'bg-cyan-500/10 border-cyan-500/40'
+                                    : 'bg-gray-900 border-gray-800 hover:border-gray-700'
+                                    }`}
+                            >
+                                <div className="text-sm text-white">
+                                    #{item.id} · {describeSteps(item)}
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                    {new Date(item.created_at).toLocaleString()} · {item.counts.succeeded}/{item.counts.total}
+                                    {item.counts.failed ? ` · ошибок: ${item.counts.failed}` : ''}
+                                    {item.finished_at ? '' : ' · идёт'}
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+
+                    {batch ? (
+                        <div className="bg-gray-800 border border-gray-700 rounded-xl p-5">
+                            <div className="flex items-center justify-between gap-4 mb-3">
+                                <div>
+                                    <div className="text-lg font-semibold text-white">
+                                        Пакет #{batch.id}: {describeSteps(batch)}
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                        готово {batch.counts.succeeded}, ошибок {batch.counts.failed}, в работе {batch.counts.running}, в
+                                        очереди {batch.counts.pending}
+                                    </div>
+                                </div>
+                                {batch.counts.failed > 0 ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => retry()}
+                                        disabled={retrying}
+                                        className="flex items-center px-3 py-1.5 bg-gray-900 hover:bg-gray-700 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+                                    >
+                                        <RotateCcw className="w-4 h-4 mr-2" />
+                                        Повторить неудачные
+                                    </button>
+                                ) : null}
+                            </div>
+
+                            <div className="h-2 rounded-full bg-gray-900 overflow-hidden mb-4">
+                                <div className="h-full bg-cyan-500 transition-all" style={{ width: `${percent}%` }} />
+                            </div>
+
+                            <ul className="divide-y divide-gray-700/60">
+                                {batch.items.map((item) => (
+                                    <li key={item.project_id} className="flex items-center gap-3 py-2">
+                                        <StatusIcon status={item.status} />
+                                        <div className="min-w-0 flex-1">
+                                            <button
+                                                type="button"
+                                                onClick={() => onSelectProject(item.project_id)}
+                                                className="text-sm text-gray-200 hover:text-cyan-300 truncate max-w-full text-left"
+                                            >
+                                                {item.project_name}
+                                            </button>
+                                            {item.status === 'failed' && item.error ? (
+                                                <div className="text-xs text-red-300 truncate" title={item.error}>
+                                                    {item.step ? `${STEP_LABELS[item.step]}: ` : ''}
+                                                    {item.error}
+                                                </div>
+                                            ) : item.status === 'running' && item.step ? (
+                                                <div className="text-xs text-gray-400">
+                                                    {STEP_LABELS[item.step]}
+                                                    {item.job_progress ? ` · ${item.job_progress}%` : ''}
+                                                </div>
+                                            ) : null}
+                                        </div>
+                                        {item.status === 'failed' ? (
+                                            <button
+                                                type="button"
+                                                onClick={() => retry([item.project_id])}
+                                                disabled={retrying}
+                                                className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-50"
+                                                title="Повторить"
+                                                aria-label="Повторить"
+                                            >
+                                                <RotateCcw className="w-4 h-4" />
+                                            </button>
+                                        ) : null}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ) : null}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BatchView;
@@ -0,0 +1,500 @@
+import React, { useEffect, useState } from 'react';
+import {
+    ArrowLeft,
+    ArrowDown,
+    ArrowUp,
+    Check,
+    Disc,
+    Loader2,
+    Pause,
+    Pencil,
+    Play,
+    Plus,
+    Trash2,
+    Wand2,
+    X,
+} from 'lucide-react';
+import {
+    api,
+    formatDuration,
+    getCollectionCoverUrl,
+    getJobErrorMessage,
+    isJobFinished,
+    PROJECT_VISIBILITY_LABELS,
+    type Job,
+    type ProjectVisibility,
+} from '../api';
+import type { AuthUser } from './AuthForm';
+import CoverSettings, { type CoverSettingsValue } from './CoverSettings';
+
+export interface CollectionTrack {
+    id: number;
+    name: string;
+    created_at: string;
+    audio_url: string;
+    cover_url?: string | null;
+    cover_id?: number | null;
+    duration_seconds?: number | null;
+    owner_username?: string | null;
+    visibility?: ProjectVisibility;
+    media_token?: string | null;
+}
+
+interface Collection {
+    id: number;
+    user_id: number;
+    title: string;
+    description: string | null;
+    visibility: ProjectVisibility;
+    cover_url: string | null;
+    cover_updated_at: string | null;
+    media_token?: string | null;
+    owner_username: string;
+    track_count: number;
+    tracks: CollectionTrack[];
+}
+
+interface OwnerProject {
+    id: number;
+    name: string;
+}
+
+interface CollectionViewProps {
+    collectionId: number;
+    currentUser: AuthUser | null;
+    playingProjectId?: number | null;
+    onBack: () => void;
+    onDeleted: () => void;
+    onSelectProject: (id: number) => void;
+    onOpenProfile?: (username: string) => void;
+    // Hands the visible tracks to the global player, starting at `startIndex`.
+    onPlayCollection: (tracks: CollectionTrack[], startIndex: number, title: string) => void;
+}
+
+const JOB_POLL_INTERVAL_MS = 1500;
+// Large enough for any real album; the backend caps a collection at 100 tracks anyway.
+const OWNER_PROJECTS_LIMIT = 100;
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+    (err as { response?: { data?: { error?: string } } })?.response?.data?.error || fallback;
+
+const CollectionView: React.FC<CollectionViewProps> = ({
+    collectionId,
+    currentUser,
+    playingProjectId,
+    onBack,
+    onDeleted,
+    onSelectProject,
+    onOpenProfile,
+    onPlayCollection,
+}) => {
+    const [collection, setCollection] = useState<Collection | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [editing, setEditing] = useState(false);
+    const [titleDraft, setTitleDraft] = useState('');
+    const [descriptionDraft, setDescriptionDraft] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [ownerProjects, setOwnerProjects] = useState<OwnerProject[]>([]);
+    const [projectToAdd, setProjectToAdd] = useState('');
+    const [coverSettings, setCoverSettings] = useState<CoverSettingsValue>({ count: 1, preset: null, subject: null });
+    const [coverJob, setCoverJob] = useState<Job | null>(null);
+    const [startingCover, setStartingCover] = useState(false);
+
+    const canEdit =
+        !!currentUser && !!collection && (currentUser.role === 'admin' || collection.user_id === currentUser.id);
+
+    const fetchCollection = async () => {
+        try {
+            const res = await api.get<Collection>(`/collections/${collectionId}`);
+            setCollection(res.data);
+        } catch (err) {
+            console.error('Failed to fetch collection', err);
+            setCollection(null);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        setLoading(true);
+        setEditing(false);
+        setCoverJob(null);
+        void fetchCollection();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [collectionId]);
+
+    useEffect(() => {
+        if (!canEdit || !collection) return;
+        api.get<{ items: OwnerProject[] }>(`/users/${encodeURIComponent(collection.owner_username)}/projects`, {
+            params: { limit: OWNER_PROJECTS_LIMIT, sort: 'name' },
+        })
+            .then((res) => setOwnerProjects(res.data.items))
+            .catch((err) => console.error('Failed to fetch owner projects', err));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [canEdit, collection?.owner_username]);
+
+    useEffect(() => {
+        if (!coverJob || isJobFinished(coverJob)) return;
+        const timer = window.setTimeout(async () => {
+            try {
+                const res = await api.get<Job>(`/jobs/${coverJob.id}`);
+                setCoverJob(res.data);
+                if (res.data.status === 'succeeded') void fetchCollection();
+                else if (res.data.status === 'failed') alert(getJobErrorMessage(res.data, 'Не удалось сгенерировать обложку.'));
+            } catch (err) {
+                console.error('Failed to poll job', err);
+            }
+        }, JOB_POLL_INTERVAL_MS);
+        return () => window.clearTimeout(timer);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [coverJob]);
+
+    if (loading) return <div className="flex justify-center p-10"><Loader2 className="animate-spin text-cyan-500" /></div>;
+    if (!collection) return <div className="text-red-500 p-10">Коллекция не найдена</div>;
+
+    const tracks = collection.tracks;
+    const totalSeconds = tracks.reduce((sum, track) => sum + (track.duration_seconds ?? 0), 0);
+    const availableProjects = ownerProjects.filter((project) => !tracks.some((track) => track.id === project.id));
+    const generatingCover = startingCover || (!!coverJob && !isJobFinished(coverJob));
+
+    const saveDetails = async (changes: { title?: string; description?: string; visibility?: ProjectVisibility }) => {
+        setSaving(true);
+        try {
+            const res = await api.put<Collection>(`/collections/${collection.id}`, changes);
+            setCollection(res.data);
+            setEditing(false);
+        } catch (err) {
+            console.error('Failed to update collection', err);
+            alert(getErrorMessage(err, 'Не удалось сохранить коллекцию.'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const saveTracks = async (projectIds: number[]) => {
+        setSaving(true);
+        try {
+            const res = await api.put<Collection>(`/collections/${collection.id}/tracks`, { projectIds });
+            setCollection(res.data);
+        } catch (err) {
+            console.error('Failed to update collection tracks', err);
+            alert(getErrorMessage(err, 'Не удалось сохранить треки.'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const moveTrack = (index: number, offset: number) => {
+        const ids = tracks.map((track) => track.id);
+        const target = index + offset;
+        if (target < 0 || target >= ids.length) return;
+        [ids[index], ids[target]] = [ids[target], ids[index]];
+        void saveTracks(ids);
+    };
+
+    const addTrack = () => {
+        const id = Number(projectToAdd);
+        if (!id) return;
+        setProjectToAdd('');
+        void saveTracks([...tracks.map((track) => track.id), id]);
+    };
+
+    const deleteCollection = async () => {
+        if (!confirm('Удалить коллекцию? Треки останутся на месте.')) return;
+        try {
+            await api.delete(`/collections/${collection.id}`);
+            onDeleted();
+        } catch (err) {
+            console.error('Failed to delete collection', err);
+            alert('Не удалось удалить коллекцию.');
+        }
+    };
+
+    const generateCover = async () => {
+        setStartingCover(true);
+        try {
+            const res = await api.post<{ jobId: number; job: Job }>(`/collections/${collection.id}/generate-cover`, {
+                preset: coverSettings.preset || undefined,
+                prompt: coverSettings.subject?.trim() || undefined,
+            });
+            setCoverJob(res.data.job);
+        } catch (err) {
+            console.error('Failed to generate collection cover', err);
+            alert(getErrorMessage(err, 'Не удалось сгенерировать обложку.'));
+        } finally {
+            setStartingCover(false);
+        }
+    };
+
+    const coverVersion = collection.cover_updated_at ? Date.parse(collection.cover_updated_at) : null;
+
+    return (
+        <div className="animate-fade-in">
+            <button
+                onClick={onBack}
+                className="flex items-center text-gray-400 hover:text-white mb-6 transition-colors"
+            >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Назад
+            </button>
+
+            <div className="flex flex-col md:flex-row gap-6 mb-8">
+                <div className="w-full md:w-64 shrink-0">
+                    <div className="aspect-square rounded-xl overflow-hidden bg-gray-800 border border-gray-700 flex items-center justify-center">
+                        {collection.cover_url ? (
+                            <img
+                                src={getCollectionCoverUrl(collection.id, coverVersion, collection.media_token)}
+                                alt={collection.title}
+                                className="w-full h-full object-cover"
+                            />
+                        ) : (
+                            <Disc className="w-16 h-16 text-gray-600" />
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex-1 min-w-0">
+                    {editing ? (
+                        <div className="space-y-3">
+                            <input
+                                value={titleDraft}
+                                onChange={(e) => setTitleDraft(e.target.value)}
+                                maxLength={200}
+                                placeholder="Название"
+                                className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50 w-full"
+                            />
+                            <textarea
+                                value={descriptionDraft}
+                                onChange={(e) => setDescriptionDraft(e.target.value)}
+                                maxLength={2000}
+                                rows={4}
+                                placeholder="Описание"
+                                className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50 w-full"
+                            />
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => saveDetails({ title: titleDraft, description: descriptionDraft })}
+                                    disabled={saving || !titleDraft.trim()}
+                                    className="px-3 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-sm disabled:opacity-50 flex items-center"
+                                >
+                                    <Check className="w-4 h-4 mr-2" />
+                                    Сохранить
+                                </button>
+                                <button
+                                    onClick={() => setEditing(false)}
+                                    disabled={saving}
+                                    className="px-3 py-2 rounded-lg bg-gray-900 hover:bg-gray-700 text-white text-sm disabled:opacity-50 flex items-center"
+                                >
+                                    <X className="w-4 h-4 mr-2" />
+                                    Отмена
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="text-xs uppercase tracking-wide text-gray-500">Коллекция</div>
+                            <h2 className="text-3xl font-bold text-white mt-1 break-words">{collection.title}</h2>
+                            <div className="text-sm text-gray-400 mt-1">
+                                {onOpenProfile ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => onOpenProfile(collection.owner_username)}
+                                        className="hover:text-cyan-300 hover:underline"
+                                    >
+                                        {collection.owner_username}
+                                    </button>
+                                ) : (
+                                    collection.owner_username
+                                )}
+                                {' · '}
+                                {tracks.length} трек(ов)
+                                {totalSeconds > 0 ? ` · ${formatDuration(totalSeconds)}` : ''}
+                                {collection.visibility !== 'public' ? (
+                                    <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-800 text-xs text-gray-300">
+                                        {PROJECT_VISIBILITY_LABELS[collection.visibility]}
+                                    </span>
+                                ) : null}
+                            </div>
+                            {collection.description ? (
+                                <p className="text-gray-300 whitespace-pre-wrap leading-relaxed text-sm mt-4">{collection.description}</p>
+                            ) : null}
+                        </>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-2 mt-6">
+                        <button
+                            onClick={() => onPlayCollection(tracks, 0, collection.title)}
+                            disabled={tracks.length === 0}
+                            className="px-5 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-full text-sm font-medium transition-all disabled:opacity-50 flex items-center"
+                        >
+                            <Play className="w-4 h-4 mr-2" />
+                            Слушать
+                        </button>
+                        {canEdit && !editing ? (
+                            <>
+                                <select
+                                    value={collection.visibility}
+                                    onChange={(e) => void saveDetails({ visibility: e.target.value as ProjectVisibility })}
+                                    disabled={saving}
+                                    className="px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-white text-sm outline-none focus:ring-2 focus:ring-cyan-500/40 disabled:opacity-50"
+                                    aria-label="Видимость"
+                                >
+                                    {(Object.keys(PROJECT_VISIBILITY_LABELS) as ProjectVisibility[]).map((value) => (
+                                        <option key={value} value={value}>
+                                            {PROJECT_VISIBILITY_LABELS[value]}
+                                        </option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => {
+                                        setTitleDraft(collection.title);
+                                        setDescriptionDraft(collection.description ?? '');
+                                        setEditing(true);
+                                    }}
+                                    className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white rounded-lg text-sm font-medium transition-all flex items-center"
+                                >
+                                    <Pencil className="w-4 h-4 mr-2" />
+                                    Редактировать
+                                </button>
+                                <button
+                                    onClick={deleteCollection}
+                                    className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded-lg text-sm font-medium transition-all flex items-center"
+                                >
+                                    <Trash2 className="w-4 h-4 mr-2" />
+                                    Удалить
+                                </button>
+                            </>
+                        ) : null}
+                    </div>
+                </div>
+            </div>
+
+            <div className="bg-gray-800 rounded-xl border border-gray-700 mb-6">
+                {tracks.length === 0 ? (
+                    <div className="text-center py-10 text-gray-500 text-sm">В коллекции пока нет треков.</div>
+                ) : (
+                    <ol className="divide-y divide-gray-700/60">
+                        {tracks.map((track, index) => {
+                            const isPlaying = playingProjectId === track.id;
+                            return (
+                                <li key={track.id} className="flex items-center gap-3 px-4 py-3">
+                                    <button
+                                        type="button"
+                                        onClick={() => onPlayCollection(tracks, index, collection.title)}
+                                        className="w-8 h-8 rounded-full bg-gray-900 hover:bg-cyan-600 text-gray-300 hover:text-white flex items-center justify-center shrink-0 transition-colors"
+                                        aria-label={isPlaying ? 'Играет' : 'Слушать с этого трека'}
+                                    >
+                                        {isPlaying ? <Pause className="w-4 h-4" /> : <span className="text-xs font-mono">{index + 1}</span>}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => onSelectProject(track.id)}
+                                        className={`flex-1 min-w-0 text-left truncate hover:text-cyan-300 ${isPlaying ? 'text-cyan-300' : 'text-white'}`}
+                                    >
+                                        {track.name}
+                                    </button>
+                                    {track.duration_seconds ? (
+                                        <span className="text-xs text-gray-500 font-mono shrink-0">{formatDuration(track.duration_seconds)}</span>
+                                    ) : null}
+                                    {canEdit ? (
+                                        <div className="flex items-center gap-1 shrink-0">
+                                            <button
+                                                type="button"
+                                                onClick={() => moveTrack(index, -1)}
+                                                disabled={saving || index === 0}
+                                                className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30"
+                                                aria-label="Выше"
+                                            >
+                                                <ArrowUp className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => moveTrack(index, 1)}
+                                                disabled={saving || index === tracks.length - 1}
+                                                className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30"
+                                                aria-label="Ниже"
+                                            >
+                                                <ArrowDown className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => void saveTracks(tracks.filter((item) => item.id !== track.id).map((item) => item.id))}
+                                                disabled={saving}
+                                                className="p-1.5 rounded-lg text-gray-400 hover:text-red-400 hover:bg-gray-700 disabled:opacity-30"
+                                                aria-label="Убрать из коллекции"
+                                            >
+                                                <X className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ) : null}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                )}
+
+                {canEdit ? (
+                    <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-t border-gray-700">
+                        <select
+                            value={projectToAdd}
+                            onChange={(e) => setProjectToAdd(e.target.value)}
+                            disabled={saving || availableProjects.length === 0}
+                            className="flex-1 min-w-[200px] px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white text-sm outline-none disabled:opacity-50"
+                        >
+                            <option value="">{availableProjects.length > 0 ? 'Выберите трек' : 'Все треки уже в коллекции'}</option>
+                            {availableProjects.map((project) => (
+                                <option key={project.id} value={project.id}>
+                                    {project.name}
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={addTrack}
+                            disabled={saving || !projectToAdd}
+                            className="px-4 py-2 bg-gray-900 hover:bg-gray-700 text-white rounded-lg text-sm font-medium transition-all disabled:opacity-50 flex items-center"
+                        >
+                            <Plus className="w-4 h-4 mr-2" />
+                            Добавить
+                        </button>
+                    </div>
+                ) : null}
+            </div>
+
+            {canEdit ? (
+                <div className="bg-gray-800 p-6 rounded-xl border border-gray-700">
+                    <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-xl font-bold text-white flex items-center">
+                            <Wand2 className="w-5 h-5 mr-2 text-purple-400" />
+                            Обложка коллекции
+                        </h2>
+                        <button
+                            onClick={generateCover}
+                            disabled={generatingCover || tracks.length === 0}
+                            className="px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white rounded-lg text-sm font-medium transition-all disabled:opacity-50 flex items-center shadow-lg shadow-purple-500/20"
+                        >
+                            {generatingCover ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+                            {generatingCover
+                                ? `Создаю обложку...${coverJob && coverJob.status === 'running' ? ` ${coverJob.progress}%` : ''}`
+                                : collection.cover_url
+                                    ? '🔄 Перегенерировать'
+                                    : '🔥 Создать обложку'}
+                        </button>
+                    </div>
+                    <CoverSettings
+                        promptUrl={`/collections/${collection.id}/cover-prompt`}
+                        value={coverSettings}
+                        onChange={setCoverSettings}
+                        finalPrompt={null}
+                        disabled={generatingCover}
+                        maxCount={1}
+                    />
+                    <p className="text-xs text-gray-500">
+                        По умолчанию описание собирается из анализа треков коллекции.
+                    </p>
+                </div>
+            ) : null}
+        </div>
+    );
+};
+
+export default CollectionView;
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Pencil, RotateCcw } from 'lucide-react';
+import { api } from '../api';
+
+export interface CoverPreset {
+    slug: string;
+    name: string;
+    prompt: string;
+    builtin: boolean;
+}
+
+export interface CoverSettingsValue {
+    count: number;
+    preset: string | null;
+    // null means "derive the subject from the analysis on the server".
+    subject: string | null;
+}
+
+interface CoverSettingsProps {
+    // `/projects/:id/cover-prompt` or `/collections/:id/cover-prompt`: the subject the server would use.
+    promptUrl: string;
+    value: CoverSettingsValue;
+    onChange: (value: CoverSettingsValue) => void;
+    finalPrompt: string | null;
+    disabled?: boolean;
+    // Collections get a single cover, so the count picker is hidden for them.
+    maxCount?: number;
+}
+
+const COVER_COUNT_OPTIONS = [1, 2, 3, 4];
+
+const CoverSettings: React.FC<CoverSettingsProps> = ({ promptUrl, value, onChange, finalPrompt, disabled, maxCount = 4 }) => {
+    const [presets, setPresets] = useState<CoverPreset[]>([]);
+    const [editingPrompt, setEditingPrompt] = useState(false);
+    const [loadingSubject, setLoadingSubject] = useState(false);
+
+    useEffect(() => {
+        api.get<{ defaultPreset: string; presets: CoverPreset[] }>('/cover-presets')
+            .then((res) => {
+                setPresets(res.data.presets);
+                if (!value.preset) onChange({ ...value, preset: res.data.defaultPreset });
+            })
+            .catch((err) => console.error('Failed to fetch cover presets', err));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    const openPromptEditor = async () => {
+        setEditingPrompt(true);
+        if (value.subject !== null) return;
+        setLoadingSubject(true);
+        try {
+            const res = await api.get<{ subject: string | null }>(promptUrl, {
+                params: { preset: value.preset || undefined },
+            });
+            onChange({ ...value, subject: res.data.subject || '' });
+        } catch (err) {
+            console.error('Failed to fetch cover prompt', err);
+            onChange({ ...value, subject: '' });
+        } finally {
+            setLoadingSubject(false);
+        }
+    };
+
+    const resetSubject = () => {
+        onChange({ ...value, subject: null });
+        setEditingPrompt(false);
+    };
+
+    return (
+        <div className="mb-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={value.preset || ''}
+                    onChange={(e) => onChange({ ...value, preset: e.target.value })}
+                    disabled={disabled}
+                    className="px-2 py-2 rounded-lg bg-gray-900 border border-gray-700 text-sm text-white outline-none disabled:opacity-50"
+                    title="Стиль обложки"
+                >
+                    {presets.map((preset) => (
+                        <option key={preset.slug} value={preset.slug}>
+                            {preset.name}
+                        </option>
+                    ))}
+                </select>
+                {maxCount > 1 ? (
+                    <select
+                        value={value.count}
+                        onChange={(e) => onChange({ ...value, count: Number(e.target.value) })}
+                        disabled={disabled}
+                        className="px-2 py-2 rounded-lg bg-gray-900 border border-gray-700 text-sm text-white outline-none disabled:opacity-50"
+                        title="Сколько вариантов сгенерировать"
+                    >
+                        {COVER_COUNT_OPTIONS.filter((n) => n <= maxCount).map((n) => (
+                            <option key={n} value={n}>
+                                {n === 1 ? '1 вариант' : `${n} варианта`}
+                            </option>
+                        ))}
+                    </select>
+                ) : null}
+                <button
+                    type="button"
+                    onClick={editingPrompt ? () => setEditingPrompt(false) : openPromptEditor}
+                    disabled={disabled}
+                    className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50 flex items-center"
+                >
+                    <Pencil className="w-3.5 h-3.5 mr-1.5" />
+                    {editingPrompt ? 'Скрыть промпт' : value.subject !== null ? 'Свой промпт' : 'Изменить промпт'}
+                </button>
+            </div>
+
+            {editingPrompt ? (
+                <div>
+                    {loadingSubject ? (
+                        <div className="flex items-center text-sm text-gray-400">
+                            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                            Загружаю промпт...
+                        </div>
+                    ) : (
+                        <>
+                            <textarea
+                                value={value.subject ?? ''}
+                                onChange={(e) => onChange({ ...value, subject: e.target.value })}
+                                disabled={disabled}
+                                rows={4}
+                                maxLength={1000}
+                                className="w-full px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-sm text-white outline-none focus:ring-2 focus:ring-purple-500/40 focus:border-purple-500/50 disabled:opacity-50"
+                                placeholder="Что изобразить на обложке"
+                            />
+                            <div className="flex items-center justify-between mt-1">
+                                <span className="text-xs text-gray-500">Стиль добавляется к описанию автоматически.</span>
+                                <button
+                                    type="button"
+                                    onClick={resetSubject}
+                                    disabled={disabled}
+                                    className="text-xs text-gray-400 hover:text-white flex items-center disabled:opacity-50"
+                                >
+                                    <RotateCcw className="w-3 h-3 mr-1" />
+                                    Из анализа
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            ) : null}
+
+            {finalPrompt ? (
+                <details className="text-xs text-gray-400">
+                    <summary className="cursor-pointer hover:text-gray-200">Итоговый промпт</summary>
+                    <p className="mt-2 p-2 rounded-lg bg-gray-900 border border-gray-700 whitespace-pre-wrap text-gray-300">
+                        {finalPrompt}
+                    </p>
+                </details>
+            ) : null}
+        </div>
+    );
+};
+
+export default CoverSettings;
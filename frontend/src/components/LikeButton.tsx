@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { Heart } from 'lucide-react';
+import { api } from '../api';
+
+interface LikeButtonProps {
+    projectId: number;
+    liked: boolean;
+    likeCount: number;
+    // Guests see the counter but can't like.
+    canLike: boolean;
+    size?: 'sm' | 'md';
+}
+
+const LikeButton: React.FC<LikeButtonProps> = ({ projectId, liked: initialLiked, likeCount: initialCount, canLike, size = 'sm' }) => {
+    const [liked, setLiked] = useState(initialLiked);
+    const [likeCount, setLikeCount] = useState(initialCount);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        setLiked(initialLiked);
+        setLikeCount(initialCount);
+    }, [initialLiked, initialCount]);
+
+    const toggle = async (e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (!canLike || saving) return;
+        const next = !liked;
+        // Optimistic; the server's count replaces the guess once it answers.
+        setLiked(next);
+        setLikeCount((prev) => Math.max(0, prev + (next ? 1 : -1)));
+        setSaving(true);
+        try {
+            const res = next
+                ? await api.put<{ liked: boolean; like_count: number }>(`/projects/${projectId}/like`)
+                : await api.delete<{ liked: boolean; like_count: number }>(`/projects/${projectId}/like`);
+            setLiked(res.data.liked);
+            setLikeCount(res.data.like_count);
+        } catch (err) {
+            console.error('Failed to update like', err);
+            setLiked(!next);
+            setLikeCount((prev) => Math.max(0, prev + (next ? -1 : 1)));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const iconClassName = size === 'md' ? 'w-5 h-5' : 'w-3.5 h-3.5';
+    return (
+        <button
+            type="button"
+            onClick={toggle}
+            disabled={!canLike}
+            title={canLike ? (liked ? 'Убрать лайк' : 'Нравится') : 'Войдите, чтобы ставить лайки'}
+            aria-pressed={liked}
+            className={`flex items-center gap-1 transition-colors disabled:cursor-default ${liked ? 'text-pink-400' : 'text-gray-400 enabled:hover:text-pink-300'
+                } ${size === 'md' ? 'text-sm' : 'text-xs'}`}
+        >
+            <Heart className={`${iconClassName} ${liked ? 'fill-pink-400' : ''}`} />
+            {likeCount}
+        </button>
+    );
+};
+
+export default LikeButton;
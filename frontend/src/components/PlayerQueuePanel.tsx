@@ -0,0 +1,103 @@
+import React from 'react';
+import { Disc, Trash2, X } from 'lucide-react';
+import { getProjectCoverUrl } from '../api';
+import type { PlayerQueue } from '../playerQueue';
+
+interface PlayerQueuePanelProps {
+    queue: PlayerQueue;
+    onJump: (index: number) => void;
+    onRemove: (index: number) => void;
+    onClear: () => void;
+    onClose: () => void;
+}
+
+const PlayerQueuePanel: React.FC<PlayerQueuePanelProps> = ({ queue, onJump, onRemove, onClear, onClose }) => {
+    const upcomingCount = queue.tracks.length - queue.index - 1;
+
+    return (
+        <div className="absolute bottom-full right-6 mb-2 w-80 max-w-[calc(100vw-3rem)] bg-gray-900 border border-gray-800 rounded-xl shadow-2xl overflow-hidden">
+            <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-gray-800">
+                <div className="min-w-0">
+                    <div className="text-sm font-semibold text-white">Очередь</div>
+                    <div className="text-xs text-gray-500 truncate">
+                        {queue.source ? `${queue.source} · ` : ''}
+                        {upcomingCount > 0 ? `дальше ${upcomingCount}` : 'дальше ничего'}
+                    </div>
+                </div>
+                <div className="flex items-center gap-1">
+                    {queue.tracks.length > 1 ? (
+                        <button
+                            type="button"
+                            onClick={onClear}
+                            className="px-2 py-1 rounded-lg text-xs text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+                        >
+                            Очистить
+                        </button>
+                    ) : null}
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+                        aria-label="Скрыть очередь"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <ol className="max-h-80 overflow-y-auto py-1">
+                {queue.tracks.map((track, index) => {
+                    const isCurrent = index === queue.index;
+                    return (
+                        <li
+                            key={track.id}
+                            className={`group flex items-center gap-3 px-4 py-2 ${isCurrent ? 'bg-cyan-500/10' : 'hover:bg-gray-800/60'} ${index < queue.index ? 'opacity-50' : ''
+                                }`}
+                        >
+                            <button
+                                type="button"
+                                onClick={() => onJump(index)}
+                                disabled={isCurrent}
+                                className="min-w-0 flex-1 flex items-center gap-3 text-left disabled:cursor-default"
+                            >
+                                <div className="w-8 h-8 shrink-0 rounded overflow-hidden bg-gray-800 flex items-center justify-center">
+                                    {track.cover_url ? (
+                                        <img
+                                            src={getProjectCoverUrl(track.id, track.cover_id, track.media_token)}
+                                            alt={track.name}
+                                            loading="lazy"
+                                            className="w-full h-full object-cover"
+                                        />
+                                    ) : (
+                                        <Disc className="w-4 h-4 text-gray-500" />
+                                    )}
+                                </div>
+                                <div className="min-w-0">
+                                    <div className={`text-sm truncate ${isCurrent ? 'text-cyan-300 font-semibold' : 'text-gray-200'}`}>
+                                        {track.name}
+                                    </div>
+                                    {track.owner_username ? (
+                                        <div className="text-xs text-gray-500 truncate">{track.owner_username}</div>
+                                    ) : null}
+                                </div>
+                            </button>
+                            {!isCurrent ? (
+                                <button
+                                    type="button"
+                                    onClick={() => onRemove(index)}
+                                    className="p-1.5 rounded-lg text-gray-500 hover:text-red-300 hover:bg-gray-800 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all"
+                                    aria-label="Убрать из очереди"
+                                    title="Убрать из очереди"
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            ) : null}
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
+
+export default PlayerQueuePanel;
@@ -0,0 +1,425 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Loader2, Pencil, Check, X, Upload, Trash2, User, KeyRound, Disc, Plus, Layers } from 'lucide-react';
+import { api, getCollectionCoverUrl, getUserAvatarUrl, PROJECT_VISIBILITY_LABELS, type ProjectVisibility } from '../api';
+import type { AuthUser } from './AuthForm';
+import ProjectList from './ProjectList';
+
+interface UserProfile {
+    username: string;
+    display_name: string | null;
+    bio: string | null;
+    has_avatar: boolean;
+    project_count: number;
+    created_at: string;
+}
+
+interface ProfileProject {
+    id: number;
+    name: string;
+    created_at: string;
+    audio_url: string;
+    cover_url?: string | null;
+    cover_id?: number | null;
+    owner_username?: string | null;
+    media_token?: string | null;
+}
+
+interface ProfileCollection {
+    id: number;
+    title: string;
+    visibility: ProjectVisibility;
+    cover_url: string | null;
+    cover_updated_at: string | null;
+    media_token?: string | null;
+    track_count: number;
+}
+
+interface ProfileViewProps {
+    username: string;
+    currentUser: AuthUser | null;
+    playingProjectId?: number | null;
+    onBack: () => void;
+    onSelectProject: (id: number) => void;
+    onPlayProject: (project: ProfileProject, projects: ProfileProject[]) => void;
+    onQueueProject?: (project: ProfileProject, next: boolean) => void;
+    onOpenCollection: (id: number) => void;
+    onOpenBatches?: () => void;
+}
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+    (err as { response?: { data?: { error?: string } } })?.response?.data?.error || fallback;
+
+const ProfileView: React.FC<ProfileViewProps> = ({
+    username,
+    currentUser,
+    playingProjectId,
+    onBack,
+    onSelectProject,
+    onPlayProject,
+    onQueueProject,
+    onOpenCollection,
+    onOpenBatches,
+}) => {
+    const [profile, setProfile] = useState<UserProfile | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [editing, setEditing] = useState(false);
+    const [displayNameDraft, setDisplayNameDraft] = useState('');
+    const [bioDraft, setBioDraft] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [uploadingAvatar, setUploadingAvatar] = useState(false);
+    // Bumped after an avatar change so the <img> skips the cached picture.
+    const [avatarVersion, setAvatarVersion] = useState<number | null>(null);
+    const avatarInputRef = useRef<HTMLInputElement | null>(null);
+    const [resetCode, setResetCode] = useState<{ token: string; expiresAt: string } | null>(null);
+    const [creatingResetCode, setCreatingResetCode] = useState(false);
+    const [collections, setCollections] = useState<ProfileCollection[]>([]);
+    const [creatingCollection, setCreatingCollection] = useState(false);
+
+    const isOwnProfile = !!currentUser && currentUser.username === profile?.username;
+    const canResetPassword = !!currentUser && currentUser.role === 'admin' && !!profile && !isOwnProfile;
+
+    useEffect(() => {
+        let cancelled = false;
+        setLoading(true);
+        setEditing(false);
+        setResetCode(null);
+        api.get<UserProfile>(`/users/${encodeURIComponent(username)}`)
+            .then((res) => {
+                if (!cancelled) setProfile(res.data);
+            })
+            .catch((err) => {
+                console.error('Failed to fetch profile', err);
+                if (!cancelled) setProfile(null);
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+        api.get<ProfileCollection[]>(`/users/${encodeURIComponent(username)}/collections`)
+            .then((res) => {
+                if (!cancelled) setCollections(res.data);
+            })
+            .catch((err) => console.error('Failed to fetch collections', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [username]);
+
+    const startEditing = () => {
+        if (!profile) return;
+        setDisplayNameDraft(profile.display_name ?? '');
+        setBioDraft(profile.bio ?? '');
+        setEditing(true);
+    };
+
+    const saveProfile = async () => {
+        setSaving(true);
+        try {
+            const res = await api.put<UserProfile>('/users/me', { displayName: displayNameDraft, bio: bioDraft });
+            setProfile(res.data);
+            setEditing(false);
+        } catch (err) {
+            console.error('Failed to save profile', err);
+            alert(getErrorMessage(err, 'Не удалось сохранить профиль.'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const uploadAvatar = async (file: File) => {
+        setUploadingAvatar(true);
+        const formData = new FormData();
+        formData.append('avatar', file, file.name);
+        try {
+            const res = await api.put<UserProfile>('/users/me/avatar', formData);
+            setProfile(res.data);
+            setAvatarVersion(Date.now());
+        } catch (err) {
+            console.error('Failed to upload avatar', err);
+            alert(getErrorMessage(err, 'Не удалось загрузить аватар.'));
+        } finally {
+            setUploadingAvatar(false);
+        }
+    };
+
+    const removeAvatar = async () => {
+        if (!confirm('Удалить аватар?')) return;
+        setUploadingAvatar(true);
+        try {
+            const res = await api.delete<UserProfile>('/users/me/avatar');
+            setProfile(res.data);
+            setAvatarVersion(Date.now());
+        } catch (err) {
+            console.error('Failed to remove avatar', err);
+            alert(getErrorMessage(err, 'Не удалось удалить аватар.'));
+        } finally {
+            setUploadingAvatar(false);
+        }
+    };
+
+    const createResetCode = async () => {
+        if (!profile || !confirm(`Создать одноразовый код сброса пароля для ${profile.username}?`)) return;
+        setCreatingResetCode(true);
+        try {
+            const res = await api.post<{ token: string; expiresAt: string }>(
+                `/admin/users/${encodeURIComponent(profile.username)}/password-reset`
+            );
+            setResetCode(res.data);
+        } catch (err) {
+            console.error('Failed to create reset code', err);
+            alert(getErrorMessage(err, 'Не удалось создать код сброса.'));
+        } finally {
+            setCreatingResetCode(false);
+        }
+    };
+
+    const createCollection = async () => {
+        const title = prompt('Название коллекции (альбом, EP, плейлист)')?.trim();
+        if (!title) return;
+        setCreatingCollection(true);
+        try {
+            const res = await api.post<{ id: number }>('/collections', { title });
+            onOpenCollection(res.data.id);
+        } catch (err) {
+            console.error('Failed to create collection', err);
+            alert(getErrorMessage(err, 'Не удалось создать коллекцию.'));
+        } finally {
+            setCreatingCollection(false);
+        }
+    };
+
+    if (loading) return <div className="flex justify-center p-10"><Loader2 className="animate-spin text-cyan-500" /></div>;
+
+    return (
+        <div className="animate-fade-in">
+            <button
+                onClick={onBack}
+                className="flex items-center text-gray-400 hover:text-white mb-6 transition-colors"
+            >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Назад к галерее
+            </button>
+
+            {!profile ? (
+                <div className="text-red-500 p-10">Пользователь не найден</div>
+            ) : (
+                <>
+                    <div className="flex flex-col sm:flex-row gap-6 mb-8 bg-gray-800 p-6 rounded-xl border border-gray-700">
+                        <div className="flex flex-col items-center gap-2 shrink-0">
+                            <div className="w-28 h-28 rounded-full overflow-hidden bg-gray-900 border border-gray-700 flex items-center justify-center">
+                                {profile.has_avatar ? (
+                                    <img
+                                        src={getUserAvatarUrl(profile.username, avatarVersion)}
+                                        alt={profile.display_name || profile.username}
+                                        className="w-full h-full object-cover"
+                                    />
+                                ) : (
+                                    <User className="w-12 h-12 text-gray-600" />
+                                )}
+                            </div>
+                            {isOwnProfile ? (
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        ref={avatarInputRef}
+                                        type="file"
+                                        accept="image/png,image/jpeg,image/webp,image/gif"
+                                        className="hidden"
+                                        onChange={(e) => {
+                                            const file = e.target.files?.[0];
+                                            e.target.value = '';
+                                            if (file) void uploadAvatar(file);
+                                        }}
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => avatarInputRef.current?.click()}
+                                        disabled={uploadingAvatar}
+                                        className="p-2 rounded-lg bg-gray-900 hover:bg-gray-700 text-gray-300 disabled:opacity-50"
+                                        title="Загрузить аватар"
+                                    >
+                                        {uploadingAvatar ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                                    </button>
+                                    {profile.has_avatar ? (
+                                        <button
+                                            type="button"
+                                            onClick={removeAvatar}
+                                            disabled={uploadingAvatar}
+                                            className="p-2 rounded-lg bg-gray-900 hover:bg-gray-700 text-gray-300 disabled:opacity-50"
+                                            title="Удалить аватар"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    ) : null}
+                                </div>
+                            ) : null}
+                        </div>
+
+                        <div className="flex-1 min-w-0">
+                            {editing ? (
+                                <div className="space-y-3">
+                                    <input
+                                        value={displayNameDraft}
+                                        onChange={(e) => setDisplayNameDraft(e.target.value)}
+                                        maxLength={64}
+                                        placeholder="Имя"
+                                        className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50 w-full sm:w-[360px]"
+                                    />
+                                    <textarea
+                                        value={bioDraft}
+                                        onChange={(e) => setBioDraft(e.target.value)}
+                                        maxLength={1000}
+                                        rows={4}
+                                        placeholder="О себе"
+                                        className="px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50 w-full"
+                                    />
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={saveProfile}
+                                            disabled={saving}
+                                            className="px-3 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-sm disabled:opacity-50 flex items-center"
+                                        >
+                                            <Check className="w-4 h-4 mr-2" />
+                                            Сохранить
+                                        </button>
+                                        <button
+                                            onClick={() => setEditing(false)}
+                                            disabled={saving}
+                                            className="px-3 py-2 rounded-lg bg-gray-900 hover:bg-gray-700 text-white text-sm disabled:opacity-50 flex items-center"
+                                        >
+                                            <X className="w-4 h-4 mr-2" />
+                                            Отмена
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="flex items-start justify-between gap-4">
+                                        <div className="min-w-0">
+                                            <h2 className="text-3xl font-bold text-white truncate">
+                                                {profile.display_name || profile.username}
+                                            </h2>
+                                            <div className="text-sm text-gray-400 mt-1">
+                                                @{profile.username} · {profile.project_count} трек(ов) · с{' '}
+                                                {new Date(profile.created_at).toLocaleDateString()}
+                                            </div>
+                                        </div>
+                                        {canResetPassword ? (
+                                            <button
+                                                onClick={createResetCode}
+                                                disabled={creatingResetCode}
+                                                className="px-4 py-2 bg-gray-900 hover:bg-gray-700 text-white rounded-lg text-sm font-medium transition-all flex items-center shrink-0 disabled:opacity-50"
+                                            >
+                                                <KeyRound className="w-4 h-4 mr-2" />
+                                                Код сброса пароля
+                                            </button>
+                                        ) : null}
+                                        {isOwnProfile ? (
+                                            <button
+                                                onClick={startEditing}
+                                                className="px-4 py-2 bg-gray-900 hover:bg-gray-700 text-white rounded-lg text-sm font-medium transition-all flex items-center shrink-0"
+                                            >
+                                                <Pencil className="w-4 h-4 mr-2" />
+                                                Редактировать
+                                            </button>
+                                        ) : null}
+                                    </div>
+                                    {profile.bio ? (
+                                        <p className="text-gray-300 whitespace-pre-wrap leading-relaxed text-sm mt-4">{profile.bio}</p>
+                                    ) : null}
+                                    {resetCode ? (
+                                        <div className="mt-4 text-sm text-gray-300 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2">
+                                            Код сброса: <span className="font-mono text-white select-all">{resetCode.token}</span>
+                                            <div className="text-xs text-gray-500 mt-1">
+                                                Одноразовый, действует до {new Date(resetCode.expiresAt).toLocaleString()}. Передайте его
+                                                пользователю — он введёт код на странице входа.
+                                            </div>
+                                        </div>
+                                    ) : null}
+                                </>
+                            )}
+                        </div>
+                    </div>
+
+                    {collections.length > 0 || isOwnProfile ? (
+                        <div className="mb-8">
+                            <div className="flex items-center justify-between gap-4 mb-4">
+                                <h3 className="text-xl font-bold text-white">Коллекции</h3>
+                                {isOwnProfile ? (
+                                    <button
+                                        onClick={createCollection}
+                                        disabled={creatingCollection}
+                                        className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white rounded-lg text-sm font-medium transition-all flex items-center disabled:opacity-50"
+                                    >
+                                        <Plus className="w-4 h-4 mr-2" />
+                                        Новая коллекция
+                                    </button>
+                                ) : null}
+                            </div>
+                            {collections.length === 0 ? (
+                                <p className="text-sm text-gray-500">Соберите треки в альбом, EP или плейлист.</p>
+                            ) : (
+                                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+                                    {collections.map((collection) => (
+                                        <button
+                                            key={collection.id}
+                                            type="button"
+                                            onClick={() => onOpenCollection(collection.id)}
+                                            className="text-left group"
+                                        >
+                                            <div className="aspect-square rounded-xl overflow-hidden bg-gray-800 border border-gray-700 group-hover:border-cyan-500/50 flex items-center justify-center transition-colors">
+                                                {collection.cover_url ? (
+                                                    <img
+                                                        src={getCollectionCoverUrl(
+                                                            collection.id,
+                                                            collection.cover_updated_at ? Date.parse(collection.cover_updated_at) : null,
+                                                            collection.media_token
+                                                        )}
+                                                        alt={collection.title}
+                                                        className="w-full h-full object-cover"
+                                                        loading="lazy"
+                                                    />
+                                                ) : (
+                                                    <Disc className="w-10 h-10 text-gray-600" />
+                                                )}
+                                            </div>
+                                            <div className="mt-2 text-sm font-semibold text-white truncate">{collection.title}</div>
+                                            <div className="text-xs text-gray-500">
+                                                {collection.track_count} трек(ов)
+                                                {collection.visibility !== 'public'
+                                                    ? ` · ${PROJECT_VISIBILITY_LABELS[collection.visibility]}`
+                                                    : ''}
+                                            </div>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ) : null}
+
+                    {isOwnProfile && onOpenBatches ? (
+                        <div className="flex justify-end mb-4">
+                            <button
+                                onClick={onOpenBatches}
+                                className="px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white rounded-lg text-sm font-medium transition-all flex items-center"
+                            >
+                                <Layers className="w-4 h-4 mr-2" />
+                                Пакетная обработка
+                            </button>
+                        </div>
+                    ) : null}
+
+                    <ProjectList
+                        owner={profile.username}
+                        playingProjectId={playingProjectId}
+                        onPlayProject={onPlayProject}
+                        onQueueProject={onQueueProject}
+                        onSelectProject={onSelectProject}
+                        canLike={!!currentUser}
+                        emptyState={<div className="text-center py-20 text-gray-500">Пока нет треков.</div>}
+                    />
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ProfileView;
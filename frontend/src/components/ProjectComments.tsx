@@ -0,0 +1,393 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, MessageSquare, Clock, Reply, Pencil, Trash2, X, User } from 'lucide-react';
+import { api, formatDuration, getUserAvatarUrl } from '../api';
+import type { AuthUser } from './AuthForm';
+
+export interface ProjectComment {
+    id: number;
+    parent_id: number | null;
+    // null once deleted: the placeholder only keeps the thread together.
+    body: string | null;
+    timestamp_seconds: number | null;
+    author: { username: string; display_name: string | null; has_avatar: boolean } | null;
+    created_at: string;
+    edited_at: string | null;
+    deleted: boolean;
+}
+
+interface ProjectCommentsProps {
+    projectId: number;
+    currentUser: AuthUser | null;
+    // Project owner or admin: may remove anyone's comments.
+    canModerate: boolean;
+    // The project player; new comments are stamped with its position and timestamps seek it.
+    audioRef: React.RefObject<HTMLAudioElement | null>;
+    onCommentsChange?: (comments: ProjectComment[]) => void;
+    onOpenProfile?: (username: string) => void;
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+    (err as { response?: { data?: { error?: string } } })?.response?.data?.error || fallback;
+
+const textareaClassName =
+    'w-full px-3 py-2 rounded-lg bg-gray-900 border border-gray-700 text-white text-sm outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50';
+
+const ProjectComments: React.FC<ProjectCommentsProps> = ({
+    projectId,
+    currentUser,
+    canModerate,
+    audioRef,
+    onCommentsChange,
+    onOpenProfile,
+}) => {
+    const [comments, setComments] = useState<ProjectComment[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [draft, setDraft] = useState('');
+    const [timestampDraft, setTimestampDraft] = useState<number | null>(null);
+    const [replyingTo, setReplyingTo] = useState<number | null>(null);
+    const [replyDraft, setReplyDraft] = useState('');
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [editDraft, setEditDraft] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const updateComments = (next: ProjectComment[]) => {
+        setComments(next);
+        onCommentsChange?.(next);
+    };
+
+    const fetchComments = async () => {
+        try {
+            const res = await api.get<ProjectComment[]>(`/projects/${projectId}/comments`);
+            updateComments(res.data);
+        } catch (err) {
+            console.error('Failed to fetch comments', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        setLoading(true);
+        setDraft('');
+        setTimestampDraft(null);
+        setReplyingTo(null);
+        setEditingId(null);
+        void fetchComments();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [projectId]);
+
+    const getPlayerPosition = () => {
+        const audio = audioRef.current;
+        return audio && audio.currentTime > 0 ? Math.round(audio.currentTime * 10) / 10 : null;
+    };
+
+    const seekTo = (seconds: number) => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        audio.currentTime = seconds;
+        void audio.play().catch(() => {});
+    };
+
+    const submitComment = async (body: string, parentId: number | null, timestampSeconds: number | null) => {
+        setSaving(true);
+        try {
+            await api.post(`/projects/${projectId}/comments`, {
+                body,
+                parentId: parentId ?? undefined,
+                timestampSeconds: timestampSeconds ?? undefined,
+            });
+            await fetchComments();
+            return true;
+        } catch (err) {
+            console.error('Failed to add comment', err);
+            alert(getErrorMessage(err, 'Не удалось добавить комментарий.'));
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const postComment = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.trim()) return;
+        if (await submitComment(draft, null, timestampDraft)) {
+            setDraft('');
+            setTimestampDraft(null);
+        }
+    };
+
+    const postReply = async (parentId: number) => {
+        if (!replyDraft.trim()) return;
+        if (await submitComment(replyDraft, parentId, null)) {
+            setReplyDraft('');
+            setReplyingTo(null);
+        }
+    };
+
+    const saveEdit = async (comment: ProjectComment) => {
+        if (!editDraft.trim()) return;
+        setSaving(true);
+        try {
+            const res = await api.put<ProjectComment>(`/projects/${projectId}/comments/${comment.id}`, { body: editDraft });
+            updateComments(comments.map((item) => (item.id === comment.id ? res.data : item)));
+            setEditingId(null);
+        } catch (err) {
+            console.error('Failed to edit comment', err);
+            alert(getErrorMessage(err, 'Не удалось изменить комментарий.'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const deleteComment = async (comment: ProjectComment) => {
+        if (!confirm('Удалить комментарий?')) return;
+        try {
+            await api.delete(`/projects/${projectId}/comments/${comment.id}`);
+            // Deleting may blank the comment or take its emptied thread with it; the server knows which.
+            await fetchComments();
+        } catch (err) {
+            console.error('Failed to delete comment', err);
+            alert(getErrorMessage(err, 'Не удалось удалить комментарий.'));
+        }
+    };
+
+    const roots = comments.filter((comment) => comment.parent_id === null);
+    const repliesByParent = new Map<number, ProjectComment[]>();
+    for (const comment of comments) {
+        if (comment.parent_id === null) continue;
+        repliesByParent.set(comment.parent_id, [...(repliesByParent.get(comment.parent_id) ?? []), comment]);
+    }
+    const visibleCount = comments.filter((comment) => !comment.deleted).length;
+
+    const renderComment = (comment: ProjectComment, isReply: boolean) => {
+        if (comment.deleted || !comment.author) {
+            return <div className="text-sm text-gray-500 italic py-2">Комментарий удалён</div>;
+        }
+        const author = comment.author;
+        const isAuthor = !!currentUser && currentUser.username === author.username;
+        return (
+            <div className="flex gap-3 py-2">
+                <div className={`${isReply ? 'w-7 h-7' : 'w-9 h-9'} rounded-full overflow-hidden bg-gray-900 border border-gray-700 flex items-center justify-center shrink-0`}>
+                    {author.has_avatar ? (
+                        <img src={getUserAvatarUrl(author.username)} alt={author.username} className="w-full h-full object-cover" />
+                    ) : (
+                        <User className="w-4 h-4 text-gray-600" />
+                    )}
+                </div>
+                <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                        {onOpenProfile ? (
+                            <button
+                                type="button"
+                                onClick={() => onOpenProfile(author.username)}
+                                className="text-white font-medium hover:text-cyan-300"
+                            >
+                                {author.display_name || author.username}
+                            </button>
+                        ) : (
+                            <span className="text-white font-medium">{author.display_name || author.username}</span>
+                        )}
+                        {comment.timestamp_seconds !== null ? (
+                            <button
+                                type="button"
+                                onClick={() => seekTo(comment.timestamp_seconds!)}
+                                className="text-xs text-pink-300 hover:text-pink-200 font-mono"
+                                title="Перейти к этому месту"
+                            >
+                                на {formatDuration(comment.timestamp_seconds)}
+                            </button>
+                        ) : null}
+                        <span className="text-xs text-gray-500">
+                            {new Date(comment.created_at).toLocaleString()}
+                            {comment.edited_at ? ' · изменён' : ''}
+                        </span>
+                    </div>
+
+                    {editingId === comment.id ? (
+                        <div className="mt-1 space-y-2">
+                            <textarea
+                                value={editDraft}
+                                onChange={(e) => setEditDraft(e.target.value)}
+                                maxLength={MAX_COMMENT_LENGTH}
+                                rows={3}
+                                className={textareaClassName}
+                            />
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => saveEdit(comment)}
+                                    disabled={saving || !editDraft.trim()}
+                                    className="px-3 py-1.5 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-xs disabled:opacity-50"
+                                >
+                                    Сохранить
+                                </button>
+                                <button
+                                    onClick={() => setEditingId(null)}
+                                    disabled={saving}
+                                    className="px-3 py-1.5 rounded-lg bg-gray-900 hover:bg-gray-700 text-white text-xs disabled:opacity-50"
+                                >
+                                    Отмена
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-300 whitespace-pre-wrap break-words mt-0.5">{comment.body}</p>
+                    )}
+
+                    {editingId !== comment.id ? (
+                        <div className="flex items-center gap-3 mt-1 text-xs text-gray-500">
+                            {currentUser ? (
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setReplyingTo(comment.parent_id ?? comment.id);
+                                        setReplyDraft(isReply && !isAuthor ? `@${author.username} ` : '');
+                                    }}
+                                    className="flex items-center hover:text-white"
+                                >
+                                    <Reply className="w-3.5 h-3.5 mr-1" />
+                                    Ответить
+                                </button>
+                            ) : null}
+                            {isAuthor ? (
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        setEditingId(comment.id);
+                                        setEditDraft(comment.body ?? '');
+                                    }}
+                                    className="flex items-center hover:text-white"
+                                >
+                                    <Pencil className="w-3.5 h-3.5 mr-1" />
+                                    Изменить
+                                </button>
+                            ) : null}
+                            {isAuthor || canModerate ? (
+                                <button
+                                    type="button"
+                                    onClick={() => deleteComment(comment)}
+                                    className="flex items-center hover:text-red-400"
+                                >
+                                    <Trash2 className="w-3.5 h-3.5 mr-1" />
+                                    Удалить
+                                </button>
+                            ) : null}
+                        </div>
+                    ) : null}
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="mt-8 bg-gray-800 p-6 rounded-xl border border-gray-700">
+            <h2 className="text-xl font-bold text-white mb-4 flex items-center">
+                <MessageSquare className="w-5 h-5 mr-2 text-cyan-400" />
+                Комментарии{visibleCount > 0 ? ` (${visibleCount})` : ''}
+            </h2>
+
+            {currentUser ? (
+                <form onSubmit={postComment} className="mb-6 space-y-2">
+                    <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        // Stamp the comment with the moment the listener started writing it.
+                        onFocus={() => {
+                            if (!draft && timestampDraft === null) setTimestampDraft(getPlayerPosition());
+                        }}
+                        maxLength={MAX_COMMENT_LENGTH}
+                        rows={3}
+                        placeholder="Напишите комментарий"
+                        className={textareaClassName}
+                    />
+                    <div className="flex flex-wrap items-center gap-3">
+                        {timestampDraft !== null ? (
+                            <span className="flex items-center text-xs text-pink-300 bg-pink-950/40 border border-pink-900/40 rounded-full px-2 py-0.5">
+                                <Clock className="w-3.5 h-3.5 mr-1" />
+                                на {formatDuration(timestampDraft)}
+                                <button
+                                    type="button"
+                                    onClick={() => setTimestampDraft(null)}
+                                    className="ml-1 hover:text-white"
+                                    title="Без метки времени"
+                                >
+                                    <X className="w-3.5 h-3.5" />
+                                </button>
+                            </span>
+                        ) : (
+                            <button
+                                type="button"
+                                onClick={() => setTimestampDraft(getPlayerPosition() ?? 0)}
+                                className="flex items-center text-xs text-gray-400 hover:text-white"
+                            >
+                                <Clock className="w-3.5 h-3.5 mr-1" />
+                                Привязать к текущему моменту
+                            </button>
+                        )}
+                        <button
+                            type="submit"
+                            disabled={saving || !draft.trim()}
+                            className="ml-auto px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-sm font-medium transition-all disabled:opacity-50"
+                        >
+                            Отправить
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <p className="text-sm text-gray-500 mb-6">Войдите, чтобы оставить комментарий.</p>
+            )}
+
+            {loading ? (
+                <div className="flex justify-center p-4"><Loader2 className="animate-spin text-cyan-500" /></div>
+            ) : roots.length === 0 ? (
+                <div className="text-center py-6 text-gray-500 text-sm">Комментариев пока нет.</div>
+            ) : (
+                <ul className="divide-y divide-gray-700/60">
+                    {roots.map((root) => (
+                        <li key={root.id} className="py-1">
+                            {renderComment(root, false)}
+                            {(repliesByParent.get(root.id)?.length ?? 0) > 0 || replyingTo === root.id ? (
+                                <div className="ml-12 border-l border-gray-700 pl-4">
+                                    {(repliesByParent.get(root.id) ?? []).map((reply) => (
+                                        <div key={reply.id}>{renderComment(reply, true)}</div>
+                                    ))}
+                                    {replyingTo === root.id ? (
+                                        <div className="py-2 space-y-2">
+                                            <textarea
+                                                value={replyDraft}
+                                                onChange={(e) => setReplyDraft(e.target.value)}
+                                                maxLength={MAX_COMMENT_LENGTH}
+                                                rows={2}
+                                                autoFocus
+                                                placeholder="Ваш ответ"
+                                                className={textareaClassName}
+                                            />
+                                            <div className="flex gap-2">
+                                                <button
+                                                    onClick={() => postReply(root.id)}
+                                                    disabled={saving || !replyDraft.trim()}
+                                                    className="px-3 py-1.5 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-xs disabled:opacity-50"
+                                                >
+                                                    Ответить
+                                                </button>
+                                                <button
+                                                    onClick={() => setReplyingTo(null)}
+                                                    className="px-3 py-1.5 rounded-lg bg-gray-900 hover:bg-gray-700 text-white text-xs"
+                                                >
+                                                    Отмена
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ) : null}
+                                </div>
+                            ) : null}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ProjectComments;
@@ -1,6 +1,7 @@
-import React from 'react';
-import { Play, Pause, Music, Calendar } from 'lucide-react';
-import { getProjectCoverUrl } from '../api';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Play, Pause, Music, Calendar, Clock, Lock, Link2, Search, SlidersHorizontal, Loader2, Headphones, ListStart, ListEnd } from 'lucide-react';
+import { api, formatDuration, getProjectCoverUrl, PROJECT_VISIBILITY_LABELS, type ProjectVisibility } from '../api';
+import LikeButton from './LikeButton';
 
 interface Project {
     id: number;
@@ -8,69 +9,413 @@ interface Project {
     created_at: string;
     audio_url: string;
     cover_url?: string | null;
+    cover_id?: number | null;
+    duration_seconds?: number | null;
     owner_username?: string | null;
+    visibility?: ProjectVisibility;
+    media_token?: string | null;
+    like_count?: number;
+    play_count?: number;
+    liked?: boolean;
+}
+
+interface ProjectPage {
+    items: Project[];
+    nextCursor: string | null;
+}
+
+type ProjectSort = 'newest' | 'oldest' | 'name' | 'trending';
+
+interface ProjectFilters {
+    q: string;
+    sort: ProjectSort;
+    owner: string;
+    hasCover: boolean;
+    hasAnalysis: boolean;
+    from: string;
+    to: string;
 }
 
 interface ProjectListProps {
-    projects: Project[];
     onSelectProject: (id: number) => void;
-    onPlayProject: (project: Project) => void;
+    // Gets the loaded projects too, so the player can continue through them.
+    onPlayProject: (project: Project, projects: Project[]) => void;
+    // "Play next" (next = true) and "add to queue"; the buttons are hidden without it.
+    onQueueProject?: (project: Project, next: boolean) => void;
     playingProjectId?: number | null;
+    onSelectOwner?: (username: string) => void;
+    // Logged-in viewers can like from the card.
+    canLike?: boolean;
+    // Fixed owner filter, e.g. on a profile page; hides the owner field.
+    owner?: string;
+    // Shown instead of the grid when nothing matches and no filters are set.
+    emptyState?: React.ReactNode;
 }
 
-const ProjectList: React.FC<ProjectListProps> = ({ projects, onSelectProject, onPlayProject, playingProjectId }) => {
+const PAGE_SIZE = 24;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_LABELS: Record<ProjectSort, string> = {
+    newest: 'Сначала новые',
+    oldest: 'Сначала старые',
+    name: 'По названию',
+    trending: 'В тренде',
+};
+
+const DEFAULT_FILTERS: ProjectFilters = {
+    q: '',
+    sort: 'newest',
+    owner: '',
+    hasCover: false,
+    hasAnalysis: false,
+    from: '',
+    to: '',
+};
+
+const hasActiveFilters = (filters: ProjectFilters) =>
+    Boolean(filters.q.trim() || filters.owner.trim() || filters.hasCover || filters.hasAnalysis || filters.from || filters.to);
+
+const ProjectList: React.FC<ProjectListProps> = ({
+    onSelectProject,
+    onPlayProject,
+    onQueueProject,
+    onSelectOwner,
+    playingProjectId,
+    canLike = false,
+    owner,
+    emptyState,
+}) => {
+    const [filters, setFilters] = useState<ProjectFilters>(DEFAULT_FILTERS);
+    const [appliedFilters, setAppliedFilters] = useState<ProjectFilters>(DEFAULT_FILTERS);
+    const [showFilters, setShowFilters] = useState(false);
+    const [projects, setProjects] = useState<Project[]>([]);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [loaded, setLoaded] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const sentinelRef = useRef<HTMLDivElement | null>(null);
+    // Responses to superseded requests (filters changed mid-flight) are dropped.
+    const requestIdRef = useRef(0);
+
+    // Typing in the search box is debounced; everything else applies immediately.
+    useEffect(() => {
+        const delay = filters.q !== appliedFilters.q || filters.owner !== appliedFilters.owner ? SEARCH_DEBOUNCE_MS : 0;
+        const timer = window.setTimeout(() => setAppliedFilters(filters), delay);
+        return () => window.clearTimeout(timer);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [filters]);
+
+    const fetchPage = useCallback(
+        async (cursor: string | null) => {
+            const requestId = ++requestIdRef.current;
+            setLoading(true);
+            setError(null);
+            try {
+                const res = await api.get<ProjectPage>(owner ? `/users/${encodeURIComponent(owner)}/projects` : '/projects', {
+                    params: {
+                        limit: PAGE_SIZE,
+                        cursor: cursor || undefined,
+                        sort: appliedFilters.sort,
+                        q: appliedFilters.q.trim() || undefined,
+                        owner: owner ? undefined : appliedFilters.owner.trim() || undefined,
+                        hasCover: appliedFilters.hasCover ? 1 : undefined,
+                        hasAnalysis: appliedFilters.hasAnalysis ? 1 : undefined,
+                        from: appliedFilters.from || undefined,
+                        to: appliedFilters.to || undefined,
+                    },
+                });
+                if (requestId !== requestIdRef.current) return;
+                if (!Array.isArray(res.data?.items)) {
+                    console.error('Unexpected /projects response:', res.data);
+                    setError('Бэкенд API настроен неправильно. Проверьте адрес API в настройках деплоя фронтенда.');
+                    return;
+                }
+                setProjects((prev) => (cursor ? [...prev, ...res.data.items] : res.data.items));
+                setNextCursor(res.data.nextCursor);
+            } catch (err) {
+                if (requestId !== requestIdRef.current) return;
+                console.error('Failed to fetch projects', err);
+                const message = (err as { response?: { data?: { error?: string } } })?.response?.data?.error;
+                setError(message || 'Не удалось загрузить проекты с бэкенда.');
+            } finally {
+                if (requestId === requestIdRef.current) {
+                    setLoading(false);
+                    setLoaded(true);
+                }
+            }
+        },
+        [appliedFilters, owner]
+    );
+
+    useEffect(() => {
+        setProjects([]);
+        setNextCursor(null);
+        void fetchPage(null);
+    }, [fetchPage]);
+
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !nextCursor || loading) return;
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (entries.some((entry) => entry.isIntersecting)) void fetchPage(nextCursor);
+            },
+            { rootMargin: '400px' }
+        );
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [nextCursor, loading, fetchPage]);
+
+    const updateFilter = <K extends keyof ProjectFilters>(key: K, value: ProjectFilters[K]) =>
+        setFilters((prev) => ({ ...prev, [key]: value }));
+
+    const filtersActive = hasActiveFilters(appliedFilters);
+    const inputClassName =
+        'px-3 py-2 rounded-lg bg-gray-900 border border-gray-800 text-white text-sm outline-none focus:ring-2 focus:ring-cyan-500/40 focus:border-cyan-500/50';
+
     return (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {projects.map((project) => (
-                <div
-                    key={project.id}
-                    onClick={() => onSelectProject(project.id)}
-                    className="group relative bg-gray-800 rounded-xl overflow-hidden cursor-pointer border border-gray-700 hover:border-cyan-500/50 transition-all duration-300 hover:shadow-[0_0_30px_rgba(6,182,212,0.15)]"
-                >
-                    <div className="aspect-square bg-gray-900 relative overflow-hidden">
-                        {project.cover_url ? (
-                            <img
-                                src={getProjectCoverUrl(project.id)}
-                                alt={project.name}
-                                className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
-                            />
-                        ) : (
-                            <div className="w-full h-full flex items-center justify-center text-gray-700">
-                                <Music className="w-16 h-16" />
-                            </div>
-                        )}
+        <div>
+            <div className="mb-6 space-y-3">
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <div className="relative flex-1">
+                        <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                        <input
+                            type="search"
+                            value={filters.q}
+                            onChange={(e) => updateFilter('q', e.target.value)}
+                            placeholder="Поиск по названию и анализу"
+                            className={`${inputClassName} w-full pl-9`}
+                        />
+                    </div>
+                    <select
+                        value={filters.sort}
+                        onChange={(e) => updateFilter('sort', e.target.value as ProjectSort)}
+                        className={inputClassName}
+                        aria-label="Сортировка"
+                    >
+                        {(Object.keys(SORT_LABELS) as ProjectSort[]).map((sort) => (
+                            <option key={sort} value={sort}>
+                                {SORT_LABELS[sort]}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        type="button"
+                        onClick={() => setShowFilters((prev) => !prev)}
+                        className={`px-3 py-2 rounded-lg border text-sm flex items-center justify-center transition-colors ${showFilters || filtersActive
+                            ? 'border-cyan-500/50 text-cyan-300 bg-cyan-500/10'
+                            : 'border-gray-800 text-gray-300 bg-gray-900 hover:text-white'
+                            }`}
+                    >
+                        <SlidersHorizontal className="w-4 h-4 mr-2" />
+                        Фильтры
+                    </button>
+                </div>
 
-                        <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center">
+                {showFilters ? (
+                    <div className="flex flex-wrap items-center gap-3 p-3 rounded-xl bg-gray-900/60 border border-gray-800 text-sm text-gray-300">
+                        {!owner ? (
+                            <input
+                                value={filters.owner}
+                                onChange={(e) => updateFilter('owner', e.target.value)}
+                                placeholder="Автор"
+                                className={`${inputClassName} w-40`}
+                            />
+                        ) : null}
+                        <label className="flex items-center gap-2">
+                            с
+                            <input
+                                type="date"
+                                value={filters.from}
+                                onChange={(e) => updateFilter('from', e.target.value)}
+                                className={inputClassName}
+                            />
+                        </label>
+                        <label className="flex items-center gap-2">
+                            по
+                            <input
+                                type="date"
+                                value={filters.to}
+                                onChange={(e) => updateFilter('to', e.target.value)}
+                                className={inputClassName}
+                            />
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={filters.hasCover}
+                                onChange={(e) => updateFilter('hasCover', e.target.checked)}
+                                className="accent-cyan-500"
+                            />
+                            С обложкой
+                        </label>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={filters.hasAnalysis}
+                                onChange={(e) => updateFilter('hasAnalysis', e.target.checked)}
+                                className="accent-cyan-500"
+                            />
+                            С анализом
+                        </label>
+                        {hasActiveFilters(filters) ? (
                             <button
                                 type="button"
-                                onClick={(e) => {
-                                    e.stopPropagation();
-                                    onPlayProject(project);
-                                }}
-                                className="w-16 h-16 rounded-full bg-white/10 hover:bg-white/20 border border-white/20 flex items-center justify-center transition-colors"
-                                aria-label={playingProjectId === project.id ? 'Пауза' : 'Воспроизвести'}
+                                onClick={() => setFilters((prev) => ({ ...DEFAULT_FILTERS, sort: prev.sort }))}
+                                className="text-gray-400 hover:text-white"
                             >
-                                {playingProjectId === project.id ? (
-                                    <Pause className="w-10 h-10 text-white fill-white" />
-                                ) : (
-                                    <Play className="w-10 h-10 text-white fill-white" />
-                                )}
+                                Сбросить
                             </button>
-                        </div>
+                        ) : null}
                     </div>
+                ) : null}
+            </div>
 
-                    <div className="p-4">
-                        <h3 className="text-lg font-bold text-white truncate">{project.name}</h3>
-                        <div className="flex items-center text-gray-400 text-xs mt-2">
-                            <Calendar className="w-3 h-3 mr-1" />
-                            {new Date(project.created_at).toLocaleDateString()}
+            {error ? (
+                <div className="mb-6 rounded-xl border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-200">{error}</div>
+            ) : null}
+
+            {loaded && !loading && !error && projects.length === 0 ? (
+                filtersActive || !emptyState ? (
+                    <div className="text-center py-20 text-gray-500">Ничего не найдено.</div>
+                ) : (
+                    emptyState
+                )
+            ) : null}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {projects.map((project) => (
+                    <div
+                        key={project.id}
+                        onClick={() => onSelectProject(project.id)}
+                        className="group relative bg-gray-800 rounded-xl overflow-hidden cursor-pointer border border-gray-700 hover:border-cyan-500/50 transition-all duration-300 hover:shadow-[0_0_30px_rgba(6,182,212,0.15)]"
+                    >
+                        <div className="aspect-square bg-gray-900 relative overflow-hidden">
+                            {project.cover_url ? (
+                                <img
+                                    src={getProjectCoverUrl(project.id, project.cover_id, project.media_token)}
+                                    alt={project.name}
+                                    loading="lazy"
+                                    className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
+                                />
+                            ) : (
+                                <div className="w-full h-full flex items-center justify-center text-gray-700">
+                                    <Music className="w-16 h-16" />
+                                </div>
+                            )}
+
+                            <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-center justify-center">
+                                <button
+                                    type="button"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onPlayProject(project, projects);
+                                    }}
+                                    className="w-16 h-16 rounded-full bg-white/10 hover:bg-white/20 border border-white/20 flex items-center justify-center transition-colors"
+                                    aria-label={playingProjectId === project.id ? 'Пауза' : 'Воспроизвести'}
+                                >
+                                    {playingProjectId === project.id ? (
+                                        <Pause className="w-10 h-10 text-white fill-white" />
+                                    ) : (
+                                        <Play className="w-10 h-10 text-white fill-white" />
+                                    )}
+                                </button>
+                                {onQueueProject ? (
+                                    <div className="absolute bottom-3 right-3 flex gap-2">
+                                        <button
+                                            type="button"
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                onQueueProject(project, true);
+                                            }}
+                                            className="p-2 rounded-full bg-black/50 hover:bg-black/70 text-white transition-colors"
+                                            aria-label="Слушать следующим"
+                                            title="Слушать следующим"
+                                        >
+                                            <ListStart className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                onQueueProject(project, false);
+                                            }}
+                                            className="p-2 rounded-full bg-black/50 hover:bg-black/70 text-white transition-colors"
+                                            aria-label="Добавить в очередь"
+                                            title="Добавить в очередь"
+                                        >
+                                            <ListEnd className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ) : null}
+                            </div>
+                        </div>
+
+                        <div className="p-4">
+                            <div className="flex items-center gap-2">
+                                <h3 className="text-lg font-bold text-white truncate">{project.name}</h3>
+                                {project.visibility && project.visibility !== 'public' ? (
+                                    <span
+                                        className="shrink-0 text-gray-500"
+                                        title={PROJECT_VISIBILITY_LABELS[project.visibility]}
+                                        aria-label={PROJECT_VISIBILITY_LABELS[project.visibility]}
+                                    >
+                                        {project.visibility === 'private' ? <Lock className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+                                    </span>
+                                ) : null}
+                            </div>
+                            <div className="flex items-center text-gray-400 text-xs mt-2">
+                                <Calendar className="w-3 h-3 mr-1" />
+                                {new Date(project.created_at).toLocaleDateString()}
+                                {project.duration_seconds ? (
+                                    <>
+                                        <Clock className="w-3 h-3 ml-3 mr-1" />
+                                        {formatDuration(project.duration_seconds)}
+                                    </>
+                                ) : null}
+                                <span className="ml-auto flex items-center gap-3">
+                                    <span className="flex items-center gap-1" title="Прослушивания">
+                                        <Headphones className="w-3.5 h-3.5" />
+                                        {project.play_count ?? 0}
+                                    </span>
+                                    <LikeButton
+                                        projectId={project.id}
+                                        liked={Boolean(project.liked)}
+                                        likeCount={project.like_count ?? 0}
+                                        canLike={canLike}
+                                    />
+                                </span>
+                            </div>
+                            {project.owner_username && !owner ? (
+                                <div className="text-xs text-gray-500 mt-1">
+                                    автор:{' '}
+                                    {onSelectOwner ? (
+                                        <button
+                                            type="button"
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                onSelectOwner(project.owner_username!);
+                                            }}
+                                            className="hover:text-cyan-300 hover:underline"
+                                        >
+                                            {project.owner_username}
+                                        </button>
+                                    ) : (
+                                        project.owner_username
+                                    )}
+                                </div>
+                            ) : null}
                         </div>
-                        {project.owner_username ? (
-                            <div className="text-xs text-gray-500 mt-1">автор: {project.owner_username}</div>
-                        ) : null}
                     </div>
+                ))}
+            </div>
+
+            <div ref={sentinelRef} className="h-1" />
+            {loading ? (
+                <div className="flex justify-center py-8">
+                    <Loader2 className="animate-spin text-cyan-500" />
                 </div>
-            ))}
+            ) : null}
         </div>
     );
 };
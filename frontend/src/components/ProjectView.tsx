@@ -1,7 +1,24 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Wand2, FileText, Music, Loader2, Pencil, Trash2, Check, X } from 'lucide-react';
-import { api, getProjectAudioUrl, getProjectCoverUrl } from '../api';
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Wand2, FileText, Music, Loader2, Pencil, Trash2, Check, X, Download, History, ChevronDown, Headphones } from 'lucide-react';
+import {
+    api,
+    formatDuration,
+    getJobErrorMessage,
+    getProjectAudioUrl,
+    getProjectCoverUrl,
+    getProjectCoverVersionUrl,
+    isJobFinished,
+    PROJECT_VISIBILITY_LABELS,
+    type Job,
+    type ProjectVisibility,
+} from '../api';
+import ActivityLog from './ActivityLog';
+import LikeButton from './LikeButton';
 import type { AuthUser } from './AuthForm';
+import AnalysisView, { type AudioAnalysis } from './AnalysisView';
+import CoverSettings, { type CoverSettingsValue } from './CoverSettings';
+import ProjectComments, { type ProjectComment } from './ProjectComments';
+import Waveform, { type WaveformMarker } from './Waveform';
 
 interface Project {
     id: number;
@@ -9,33 +26,178 @@ interface Project {
     audio_url: string;
     transcription: string | null;
     emotional_analysis: string | null;
+    analysis: AudioAnalysis | null;
     cover_url: string | null;
+    cover_id?: number | null;
+    duration_seconds: number | null;
+    sample_rate: number | null;
+    channels: number | null;
+    bitrate: number | null;
+    audio_codec: string | null;
+    visibility: ProjectVisibility;
+    media_token?: string | null;
+    like_count: number;
+    play_count: number;
+    liked?: boolean;
     created_at: string;
     user_id: number | null;
     owner_username?: string | null;
 }
 
+interface ProjectCover {
+    id: number;
+    prompt: string | null;
+    model: string | null;
+    seed: string | null;
+    created_at: string;
+    status: 'candidate' | 'kept';
+    is_active: boolean;
+}
+
 interface ProjectViewProps {
     projectId: number;
     currentUser: AuthUser | null;
     onBack: () => void;
     onDeleted: () => void;
+    onOpenProfile?: (username: string) => void;
 }
 
-const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBack, onDeleted }) => {
+const JOB_POLL_INTERVAL_MS = 1500;
+
+const formatAudioDetails = (project: Project) =>
+    [
+        project.duration_seconds ? formatDuration(project.duration_seconds) : null,
+        project.audio_codec ? project.audio_codec.toUpperCase() : null,
+        project.sample_rate ? `${(project.sample_rate / 1000).toLocaleString()} кГц` : null,
+        project.channels ? (project.channels === 1 ? 'моно' : project.channels === 2 ? 'стерео' : `${project.channels} кан.`) : null,
+        project.bitrate ? `${Math.round(project.bitrate / 1000)} кбит/с` : null,
+    ]
+        .filter(Boolean)
+        .join(' · ');
+
+const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBack, onDeleted, onOpenProfile }) => {
     const [project, setProject] = useState<Project | null>(null);
+    const audioRef = useRef<HTMLAudioElement | null>(null);
     const [loading, setLoading] = useState(true);
-    const [transcribing, setTranscribing] = useState(false);
-    const [generatingCover, setGeneratingCover] = useState(false);
+    const [startingTranscribe, setStartingTranscribe] = useState(false);
+    const [startingCover, setStartingCover] = useState(false);
+    const [showActivity, setShowActivity] = useState(false);
+    const [commentMarkers, setCommentMarkers] = useState<WaveformMarker[]>([]);
+    const [transcribeJob, setTranscribeJob] = useState<Job | null>(null);
+    const [coverJob, setCoverJob] = useState<Job | null>(null);
+    const [covers, setCovers] = useState<ProjectCover[]>([]);
+    const [activatingCoverId, setActivatingCoverId] = useState<number | null>(null);
+    const [coverSettings, setCoverSettings] = useState<CoverSettingsValue>({ count: 1, preset: null, subject: null });
+    const [resolvingCandidates, setResolvingCandidates] = useState(false);
     const [editingName, setEditingName] = useState(false);
     const [nameDraft, setNameDraft] = useState('');
     const [savingName, setSavingName] = useState(false);
+    const [savingVisibility, setSavingVisibility] = useState(false);
     const [deleting, setDeleting] = useState(false);
 
     useEffect(() => {
         fetchProject();
+        setCommentMarkers([]);
+        void fetchCovers();
+        setTranscribeJob(null);
+        setCoverJob(null);
+        setCoverSettings((prev) => ({ ...prev, subject: null }));
+        if (currentUser) void resumeActiveJobs();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [projectId]);
 
+    useEffect(() => {
+        const activeJobs = [transcribeJob, coverJob].filter((job): job is Job => !!job && !isJobFinished(job));
+        if (activeJobs.length === 0) return;
+
+        const timer = window.setTimeout(async () => {
+            for (const job of activeJobs) {
+                try {
+                    const res = await api.get<Job>(`/jobs/${job.id}`);
+                    handleJobUpdate(res.data);
+                } catch (err) {
+                    console.error('Failed to poll job', err);
+                }
+            }
+        }, JOB_POLL_INTERVAL_MS);
+        return () => window.clearTimeout(timer);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [transcribeJob, coverJob]);
+
+    const fetchCovers = async () => {
+        try {
+            const res = await api.get<ProjectCover[]>(`/projects/${projectId}/covers`);
+            setCovers(res.data);
+        } catch (err) {
+            console.error('Failed to fetch cover history', err);
+        }
+    };
+
+    const activateCover = async (coverId: number) => {
+        if (!project) return;
+        setActivatingCoverId(coverId);
+        try {
+            const res = await api.post(`/projects/${project.id}/covers/${coverId}/activate`);
+            setProject(res.data);
+            setCovers((prev) =>
+                prev.map((cover) => ({
+                    ...cover,
+                    is_active: cover.id === coverId,
+                    status: cover.id === coverId ? 'kept' : cover.status,
+                }))
+            );
+        } catch (err) {
+            console.error('Failed to activate cover', err);
+            alert('Не удалось выбрать обложку.');
+        } finally {
+            setActivatingCoverId(null);
+        }
+    };
+
+    const resolveCandidates = async (action: 'keep' | 'discard') => {
+        if (!project) return;
+        if (action === 'discard' && !confirm('Удалить невыбранные варианты обложки?')) return;
+        setResolvingCandidates(true);
+        try {
+            await api.post(`/projects/${project.id}/covers/candidates/${action}`);
+            await fetchCovers();
+        } catch (err) {
+            console.error('Failed to resolve cover candidates', err);
+            alert(action === 'keep' ? 'Не удалось сохранить варианты.' : 'Не удалось удалить варианты.');
+        } finally {
+            setResolvingCandidates(false);
+        }
+    };
+
+    const resumeActiveJobs = async () => {
+        try {
+            const res = await api.get<Job[]>(`/projects/${projectId}/jobs`, { params: { active: 1 } });
+            for (const job of res.data) {
+                if (job.type === 'transcribe') setTranscribeJob((prev) => prev ?? job);
+                if (job.type === 'generate_cover') setCoverJob((prev) => prev ?? job);
+            }
+        } catch {
+            // not the owner — nothing to resume
+        }
+    };
+
+    const handleJobUpdate = (job: Job) => {
+        if (job.type === 'transcribe') setTranscribeJob(job);
+        else setCoverJob(job);
+
+        if (job.status === 'succeeded') {
+            void fetchProject();
+            if (job.type === 'generate_cover') void fetchCovers();
+        } else if (job.status === 'failed') {
+            alert(
+                getJobErrorMessage(
+                    job,
+                    job.type === 'transcribe' ? 'Не удалось выполнить анализ.' : 'Не удалось сгенерировать обложку.'
+                )
+            );
+        }
+    };
+
     const fetchProject = async () => {
         try {
             const res = await api.get(`/projects/${projectId}`);
@@ -50,10 +212,10 @@ const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBac
 
     const handleTranscribe = async () => {
         if (!project) return;
-        setTranscribing(true);
+        setStartingTranscribe(true);
         try {
-            const res = await api.post(`/transcribe/${project.id}`);
-            setProject(res.data);
+            const res = await api.post<{ jobId: number; job: Job }>(`/transcribe/${project.id}`);
+            setTranscribeJob(res.data.job);
         } catch (err) {
             console.error('Не удалось выполнить анализ', err);
             const responseData = (err as { response?: { data?: { error?: string; details?: string } } })?.response?.data;
@@ -64,16 +226,20 @@ const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBac
                 : 'Не удалось выполнить анализ.';
             alert(message);
         } finally {
-            setTranscribing(false);
+            setStartingTranscribe(false);
         }
     };
 
     const handleGenerateCover = async () => {
         if (!project) return;
-        setGeneratingCover(true);
+        setStartingCover(true);
         try {
-            const res = await api.post(`/generate-cover/${project.id}`);
-            setProject(res.data);
+            const res = await api.post<{ jobId: number; job: Job }>(`/generate-cover/${project.id}`, {
+                count: coverSettings.count,
+                preset: coverSettings.preset || undefined,
+                prompt: coverSettings.subject?.trim() || undefined,
+            });
+            setCoverJob(res.data.job);
         } catch (err) {
             console.error('Не удалось сгенерировать обложку', err);
             const responseData = (err as { response?: { data?: { error?: string; details?: string } } })?.response?.data;
@@ -84,13 +250,23 @@ const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBac
                 : 'Не удалось сгенерировать обложку.';
             alert(message);
         } finally {
-            setGeneratingCover(false);
+            setStartingCover(false);
         }
     };
 
     if (loading) return <div className="flex justify-center p-10"><Loader2 className="animate-spin text-cyan-500" /></div>;
     if (!project) return <div className="text-red-500 p-10">Проект не найден</div>;
 
+    const transcribing = startingTranscribe || (!!transcribeJob && !isJobFinished(transcribeJob));
+    const generatingCover = startingCover || (!!coverJob && !isJobFinished(coverJob));
+    const candidates = covers.filter((cover) => cover.status === 'candidate');
+    const history = covers.filter((cover) => cover.status === 'kept');
+    const lastJobPrompt = coverJob?.status === 'succeeded' ? coverJob.result?.prompt : null;
+    const finalCoverPrompt =
+        typeof lastJobPrompt === 'string' ? lastJobPrompt : covers.find((cover) => cover.is_active)?.prompt ?? null;
+    const formatJobProgress = (job: Job | null) =>
+        job && !isJobFinished(job) ? (job.status === 'queued' ? ' (в очереди)' : ` ${job.progress}%`) : '';
+
     const canEdit =
         !!currentUser && (currentUser.role === 'admin' || (project.user_id != null && project.user_id === currentUser.id));
 
@@ -110,6 +286,33 @@ const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBac
         }
     };
 
+    const saveVisibility = async (visibility: ProjectVisibility) => {
+        if (!project || visibility === project.visibility) return;
+        setSavingVisibility(true);
+        try {
+            const res = await api.put(`/projects/${project.id}`, { visibility });
+            setProject(res.data);
+            // Cover URLs of private projects carry the media token, which changes with visibility.
+            void fetchCovers();
+        } catch (err) {
+            console.error('Failed to change visibility', err);
+            alert('Не удалось изменить видимость.');
+        } finally {
+            setSavingVisibility(false);
+        }
+    };
+
+    const updateCommentMarkers = (comments: ProjectComment[]) =>
+        setCommentMarkers(
+            comments
+                .filter((comment) => comment.timestamp_seconds !== null && comment.author)
+                .map((comment) => ({
+                    id: comment.id,
+                    seconds: comment.timestamp_seconds!,
+                    label: `${comment.author!.display_name || comment.author!.username}: ${comment.body ?? ''}`,
+                }))
+        );
+
     const deleteProject = async () => {
         if (!project) return;
         const ok = confirm('Удалить проект? Это действие нельзя отменить.');
@@ -169,12 +372,61 @@ const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBac
                         <h2 className="text-3xl font-bold text-white">{project.name}</h2>
                     )}
                     <div className="text-sm text-gray-400 mt-1">
-                        {project.owner_username ? `автор: ${project.owner_username}` : null}
+                        {project.owner_username ? (
+                            <>
+                                автор:{' '}
+                                {onOpenProfile ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => onOpenProfile(project.owner_username!)}
+                                        className="hover:text-cyan-300 hover:underline"
+                                    >
+                                        {project.owner_username}
+                                    </button>
+                                ) : (
+                                    project.owner_username
+                                )}
+                            </>
+                        ) : null}
+                        {project.visibility !== 'public' ? (
+                            <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-800 text-xs text-gray-300">
+                                {PROJECT_VISIBILITY_LABELS[project.visibility]}
+                            </span>
+                        ) : null}
+                    </div>
+                    {formatAudioDetails(project) ? (
+                        <div className="text-xs text-gray-500 mt-1 font-mono">{formatAudioDetails(project)}</div>
+                    ) : null}
+                    <div className="flex items-center gap-4 mt-3 text-sm text-gray-400">
+                        <LikeButton
+                            projectId={project.id}
+                            liked={Boolean(project.liked)}
+                            likeCount={project.like_count ?? 0}
+                            canLike={!!currentUser}
+                            size="md"
+                        />
+                        <span className="flex items-center gap-1" title="Прослушивания">
+                            <Headphones className="w-5 h-5" />
+                            {project.play_count ?? 0}
+                        </span>
                     </div>
                 </div>
 
                 {canEdit ? (
                     <div className="flex items-center gap-2">
+                        <select
+                            value={project.visibility}
+                            onChange={(e) => void saveVisibility(e.target.value as ProjectVisibility)}
+                            disabled={savingVisibility || deleting}
+                            className="px-3 py-2 rounded-lg bg-gray-800 border border-gray-700 text-white text-sm outline-none focus:ring-2 focus:ring-cyan-500/40 disabled:opacity-50"
+                            aria-label="Видимость"
+                        >
+                            {(Object.keys(PROJECT_VISIBILITY_LABELS) as ProjectVisibility[]).map((value) => (
+                                <option key={value} value={value}>
+                                    {PROJECT_VISIBILITY_LABELS[value]}
+                                </option>
+                            ))}
+                        </select>
                         <button
                             onClick={() => setEditingName(true)}
                             disabled={deleting}
@@ -203,11 +455,22 @@ const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBac
                             <Music className="w-5 h-5 mr-2 text-cyan-400" />
                             Аудио
                         </h2>
+                        <Waveform projectId={project.id} audioRef={audioRef} markers={commentMarkers} className="mb-3" />
                         <audio
+                            ref={audioRef}
                             controls
-                            src={getProjectAudioUrl(project.id)}
+                            preload="none"
+                            src={getProjectAudioUrl(project.id, undefined, project.media_token)}
                             className="w-full"
                         />
+                        <a
+                            href={getProjectAudioUrl(project.id, 'original', project.media_token)}
+                            download
+                            className="inline-flex items-center mt-3 text-xs text-gray-400 hover:text-white"
+                        >
+                            <Download className="w-3.5 h-3.5 mr-1" />
+                            Скачать оригинал
+                        </a>
                     </div>
 
                     <div className="bg-gray-800 p-6 rounded-xl border border-gray-700 min-h-[300px]">
@@ -224,7 +487,7 @@ const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBac
                                 >
                                     {transcribing ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
                                     {transcribing
-                                        ? 'Анализирую...'
+                                        ? `Анализирую...${formatJobProgress(transcribeJob)}`
                                         : project.emotional_analysis || project.transcription
                                             ? '🔄 Переанализировать'
                                             : '🎵 Анализировать'}
@@ -232,7 +495,9 @@ const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBac
                             ) : null}
                         </div>
 
-                        {project.emotional_analysis || project.transcription ? (
+                        {project.analysis ? (
+                            <AnalysisView analysis={project.analysis} />
+                        ) : project.emotional_analysis || project.transcription ? (
                             <div className="prose prose-invert max-w-none">
                                 <p className="text-gray-300 whitespace-pre-wrap leading-relaxed text-sm">
                                     {project.emotional_analysis || project.transcription}
@@ -261,15 +526,25 @@ const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBac
                                     className="px-4 py-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 text-white rounded-lg text-sm font-medium transition-all disabled:opacity-50 flex items-center shadow-lg shadow-purple-500/20"
                                 >
                                     {generatingCover ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
-                                    {generatingCover ? 'Создаю шедевр с Gemini...' : project.cover_url ? '🔄 Перегенерировать' : '🔥 Создать обложку на миллион!'}
+                                    {generatingCover ? `Создаю шедевр с Gemini...${formatJobProgress(coverJob)}` : project.cover_url ? '🔄 Перегенерировать' : '🔥 Создать обложку на миллион!'}
                                 </button>
                             ) : null}
                         </div>
 
+                        {canEdit && (project.transcription || project.emotional_analysis) ? (
+                            <CoverSettings
+                                promptUrl={`/projects/${project.id}/cover-prompt`}
+                                value={coverSettings}
+                                onChange={setCoverSettings}
+                                finalPrompt={finalCoverPrompt}
+                                disabled={generatingCover}
+                            />
+                        ) : null}
+
                         <div className="flex-1 flex items-center justify-center bg-gray-900 rounded-lg overflow-hidden relative min-h-[400px] max-h-[500px]">
                             {project.cover_url ? (
                                 <img
-                                    src={getProjectCoverUrl(project.id)}
+                                    src={getProjectCoverUrl(project.id, project.cover_id, project.media_token)}
                                     alt="Обложка"
                                     className="w-full h-full object-contain"
                                 />
@@ -286,9 +561,127 @@ const ProjectView: React.FC<ProjectViewProps> = ({ projectId, currentUser, onBac
                                 </div>
                             )}
                         </div>
+
+                        {candidates.length > 0 ? (
+                            <div className="mt-4">
+                                <div className="text-xs text-gray-400 mb-2">
+                                    {canEdit ? 'Новые варианты — выберите обложку' : 'Новые варианты обложки'}
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {candidates.map((cover) => (
+                                        <button
+                                            key={cover.id}
+                                            type="button"
+                                            onClick={() => activateCover(cover.id)}
+                                            disabled={!canEdit || activatingCoverId !== null || resolvingCandidates}
+                                            title={cover.prompt ?? undefined}
+                                            className="relative aspect-square rounded-lg overflow-hidden border-2 border-transparent hover:border-purple-500 disabled:hover:border-transparent transition-all"
+                                        >
+                                            <img
+                                                src={getProjectCoverVersionUrl(project.id, cover.id, project.media_token)}
+                                                alt="Вариант обложки"
+                                                className="w-full h-full object-cover"
+                                            />
+                                            {activatingCoverId === cover.id ? (
+                                                <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                                                    <Loader2 className="w-5 h-5 animate-spin text-white" />
+                                                </div>
+                                            ) : null}
+                                        </button>
+                                    ))}
+                                </div>
+                                {canEdit ? (
+                                    <div className="flex flex-wrap gap-2 mt-2">
+                                        <button
+                                            type="button"
+                                            onClick={() => resolveCandidates('keep')}
+                                            disabled={resolvingCandidates}
+                                            className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                                        >
+                                            Сохранить {candidates.length === 1 ? 'вариант' : 'варианты'} в историю
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => resolveCandidates('discard')}
+                                            disabled={resolvingCandidates}
+                                            className="px-3 py-1.5 bg-red-700/80 hover:bg-red-600 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                                        >
+                                            Удалить {candidates.length === 1 ? 'вариант' : 'варианты'}
+                                        </button>
+                                    </div>
+                                ) : null}
+                            </div>
+                        ) : null}
+
+                        {history.length > 1 ? (
+                            <div className="mt-4">
+                                <div className="text-xs text-gray-400 mb-2">
+                                    История обложек{canEdit ? ' — нажмите, чтобы сделать активной' : ''}
+                                </div>
+                                <div className="flex gap-2 overflow-x-auto pb-1">
+                                    {history.map((cover) => (
+                                        <button
+                                            key={cover.id}
+                                            type="button"
+                                            onClick={() => activateCover(cover.id)}
+                                            disabled={!canEdit || cover.is_active || activatingCoverId !== null}
+                                            title={[new Date(cover.created_at).toLocaleString(), cover.model, cover.seed ? `seed ${cover.seed}` : null]
+                                                .filter(Boolean)
+                                                .join(' · ')}
+                                            className={`relative shrink-0 w-16 h-16 rounded-lg overflow-hidden border-2 transition-all ${cover.is_active
+                                                ? 'border-purple-500'
+                                                : 'border-transparent hover:border-gray-500 disabled:hover:border-transparent'
+                                                }`}
+                                        >
+                                            <img
+                                                src={getProjectCoverVersionUrl(project.id, cover.id, project.media_token)}
+                                                alt="Версия обложки"
+                                                className="w-full h-full object-cover"
+                                                loading="lazy"
+                                            />
+                                            {activatingCoverId === cover.id ? (
+                                                <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                                                    <Loader2 className="w-4 h-4 animate-spin text-white" />
+                                                </div>
+                                            ) : null}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ) : null}
                     </div>
                 </div>
             </div>
+
+            <ProjectComments
+                projectId={project.id}
+                currentUser={currentUser}
+                canModerate={canEdit}
+                audioRef={audioRef}
+                onCommentsChange={updateCommentMarkers}
+                onOpenProfile={onOpenProfile}
+            />
+
+            {canEdit ? (
+                <div className="mt-8 bg-gray-800 rounded-xl border border-gray-700">
+                    <button
+                        type="button"
+                        onClick={() => setShowActivity((prev) => !prev)}
+                        className="w-full flex items-center justify-between px-6 py-4 text-left"
+                    >
+                        <span className="flex items-center text-lg font-bold text-white">
+                            <History className="w-5 h-5 mr-2 text-gray-400" />
+                            История изменений
+                        </span>
+                        <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${showActivity ? 'rotate-180' : ''}`} />
+                    </button>
+                    {showActivity ? (
+                        <div className="px-6 pb-6">
+                            <ActivityLog endpoint={`/projects/${project.id}/activity`} onOpenProfile={onOpenProfile} />
+                        </div>
+                    ) : null}
+                </div>
+            ) : null}
         </div>
     );
 };
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { api, formatDuration } from '../api';
+
+interface WaveformProps {
+    projectId: number;
+    // The element being played; the waveform follows its position and seeks it on click.
+    audioRef: React.RefObject<HTMLAudioElement | null>;
+    height?: number;
+    className?: string;
+    // Points of interest (timed comments) drawn over the waveform; clicking one seeks there.
+    markers?: WaveformMarker[];
+}
+
+export interface WaveformMarker {
+    id: number;
+    seconds: number;
+    label: string;
+}
+
+interface WaveformData {
+    duration_seconds: number;
+    peaks: number[];
+}
+
+const KEYBOARD_SEEK_SECONDS = 5;
+
+const Waveform: React.FC<WaveformProps> = ({ projectId, audioRef, height = 64, className = '', markers = [] }) => {
+    const [peaks, setPeaks] = useState<number[] | null>(null);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        setPeaks(null);
+        api.get<WaveformData>(`/projects/${projectId}/waveform`)
+            .then((res) => {
+                if (cancelled) return;
+                setPeaks(res.data.peaks);
+                setDuration((current) => current || res.data.duration_seconds);
+            })
+            // 404 just means the peaks aren't ready (or can't be computed); the plain player still works.
+            .catch(() => {});
+        return () => {
+            cancelled = true;
+        };
+    }, [projectId]);
+
+    useEffect(() => {
+        const audio = audioRef.current;
+        if (!audio) return;
+
+        const sync = () => {
+            setCurrentTime(audio.currentTime);
+            if (Number.isFinite(audio.duration) && audio.duration > 0) setDuration(audio.duration);
+        };
+        sync();
+        audio.addEventListener('timeupdate', sync);
+        audio.addEventListener('loadedmetadata', sync);
+        audio.addEventListener('durationchange', sync);
+        audio.addEventListener('seeked', sync);
+        return () => {
+            audio.removeEventListener('timeupdate', sync);
+            audio.removeEventListener('loadedmetadata', sync);
+            audio.removeEventListener('durationchange', sync);
+            audio.removeEventListener('seeked', sync);
+        };
+    }, [audioRef, projectId]);
+
+    // Without peaks the markers still get a plain track to sit on.
+    const hasPeaks = !!peaks && peaks.length > 0;
+    if (!hasPeaks && markers.length === 0) return null;
+
+    const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+    const playedBars = hasPeaks ? Math.round(progress * peaks.length) : 0;
+
+    const seekTo = (seconds: number) => {
+        const audio = audioRef.current;
+        if (!audio || !duration) return;
+        audio.currentTime = Math.max(0, Math.min(duration, seconds));
+        setCurrentTime(audio.currentTime);
+    };
+
+    const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        seekTo(((e.clientX - rect.left) / rect.width) * duration);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        if (e.key === 'ArrowLeft') seekTo(currentTime - KEYBOARD_SEEK_SECONDS);
+        else if (e.key === 'ArrowRight') seekTo(currentTime + KEYBOARD_SEEK_SECONDS);
+        else return;
+        e.preventDefault();
+    };
+
+    return (
+        <div
+            role="slider"
+            tabIndex={0}
+            aria-label="Позиция воспроизведения"
+            aria-valuemin={0}
+            aria-valuemax={Math.round(duration)}
+            aria-valuenow={Math.round(currentTime)}
+            onClick={handleClick}
+            onKeyDown={handleKeyDown}
+            className={`relative cursor-pointer outline-none focus-visible:ring-2 focus-visible:ring-cyan-500/50 rounded ${className}`}
+            style={{ height }}
+        >
+            {hasPeaks ? (
+                <svg viewBox={`0 0 ${peaks.length} 100`} preserveAspectRatio="none" className="w-full h-full">
+                    {peaks.map((peak, index) => {
+                        const barHeight = Math.max(2, peak * 100);
+                        return (
+                            <rect
+                                key={index}
+                                x={index + 0.15}
+                                y={(100 - barHeight) / 2}
+                                width={0.7}
+                                height={barHeight}
+                                className={index < playedBars ? 'fill-cyan-400' : 'fill-gray-600'}
+                            />
+                        );
+                    })}
+                </svg>
+            ) : (
+                <div className="absolute inset-x-0 top-1/2 h-1 -translate-y-1/2 rounded-full bg-gray-600 overflow-hidden">
+                    <div className="h-full bg-cyan-400" style={{ width: `${progress * 100}%` }} />
+                </div>
+            )}
+            {duration > 0
+                ? markers
+                      .filter((marker) => marker.seconds <= duration)
+                      .map((marker) => (
+                          <button
+                              key={marker.id}
+                              type="button"
+                              title={`${formatDuration(marker.seconds)} · ${marker.label}`}
+                              onClick={(e) => {
+                                  e.stopPropagation();
+                                  seekTo(marker.seconds);
+                              }}
+                              className="absolute bottom-0 w-2.5 h-2.5 -translate-x-1/2 translate-y-1/2 rounded-full bg-pink-400 border border-gray-900 hover:scale-150 transition-transform"
+                              style={{ left: `${(marker.seconds / duration) * 100}%` }}
+                          />
+                      ))
+                : null}
+        </div>
+    );
+};
+
+export default Waveform;
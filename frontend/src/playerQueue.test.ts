@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import {
+    PlayerQueue,
+    QueueTrack,
+    addToQueue,
+    clearQueue,
+    createQueue,
+    loadPlayerState,
+    nextRepeatMode,
+    playNext,
+    removeFromQueue,
+    replaceTrack,
+    savePlayerState,
+    shuffleQueue,
+    unshuffleQueue,
+} from './playerQueue';
+
+const track = (id: number): QueueTrack => ({ id, name: `Трек ${id}` });
+const tracks = (...ids: number[]) => ids.map(track);
+const ids = (items: QueueTrack[] | null) => items?.map((item) => item.id) ?? null;
+const currentId = (queue: PlayerQueue) => queue.tracks[queue.index].id;
+
+describe('createQueue', () => {
+    test('starts at the chosen track and drops duplicates', () => {
+        const queue = createQueue(tracks(1, 2, 1, 3), 3, 'Галерея', false);
+        expect(ids(queue.tracks)).toEqual([1, 2, 3]);
+        expect(currentId(queue)).toBe(3);
+        expect(queue.source).toBe('Галерея');
+        expect(queue.unshuffled).toBeNull();
+    });
+
+    test('keeps only the queue fields of a project', () => {
+        const project = { ...track(1), audio_url: '/uploads/a.mp3', owner_username: 'user' };
+        expect(createQueue([project], 0, null, false).tracks[0]).not.toHaveProperty('audio_url');
+    });
+
+    test('with shuffle plays the chosen track first and remembers the order', () => {
+        const queue = createQueue(tracks(1, 2, 3, 4), 2, null, true);
+        expect(queue.index).toBe(0);
+        expect(currentId(queue)).toBe(3);
+        expect(ids(queue.tracks)!.sort()).toEqual([1, 2, 3, 4]);
+        expect(ids(queue.unshuffled)).toEqual([1, 2, 3, 4]);
+    });
+});
+
+describe('shuffle', () => {
+    test('only reorders the upcoming tracks', () => {
+        const queue = shuffleQueue(createQueue(tracks(1, 2, 3, 4, 5), 1, null, false));
+        expect(ids(queue.tracks.slice(0, 2))).toEqual([1, 2]);
+        expect(ids(queue.tracks.slice(2))!.sort()).toEqual([3, 4, 5]);
+        expect(ids(queue.unshuffled)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test('turning it off restores the order and keeps the current track', () => {
+        const shuffled = createQueue(tracks(1, 2, 3, 4), 2, null, true);
+        const queue = unshuffleQueue(shuffled);
+        expect(ids(queue.tracks)).toEqual([1, 2, 3, 4]);
+        expect(currentId(queue)).toBe(3);
+        expect(queue.unshuffled).toBeNull();
+        expect(unshuffleQueue(queue)).toBe(queue);
+    });
+});
+
+describe('queue editing', () => {
+    const queue = createQueue(tracks(1, 2, 3), 1, null, false);
+
+    test('playNext puts the track right after the current one and moves an earlier copy', () => {
+        expect(ids(playNext(queue, track(4)).tracks)).toEqual([1, 2, 4, 3]);
+        const moved = playNext(queue, track(1));
+        expect(ids(moved.tracks)).toEqual([2, 1, 3]);
+        expect(currentId(moved)).toBe(2);
+    });
+
+    test('addToQueue appends to the end', () => {
+        expect(ids(addToQueue(queue, track(4)).tracks)).toEqual([1, 2, 3, 4]);
+        expect(ids(addToQueue(queue, track(1)).tracks)).toEqual([2, 3, 1]);
+    });
+
+    test('leaves the queue alone for the current track', () => {
+        expect(playNext(queue, track(2))).toBe(queue);
+        expect(addToQueue(queue, track(2))).toBe(queue);
+    });
+
+    test('keeps the unshuffled order in sync', () => {
+        const shuffled = createQueue(tracks(1, 2, 3), 0, null, true);
+        expect(ids(addToQueue(shuffled, track(4)).unshuffled)).toEqual([1, 2, 3, 4]);
+        expect(ids(playNext(shuffled, track(4)).unshuffled)).toEqual([1, 4, 2, 3]);
+    });
+
+    test('removeFromQueue shifts the index and never removes the current track', () => {
+        const removed = removeFromQueue(queue, 0);
+        expect(ids(removed.tracks)).toEqual([2, 3]);
+        expect(currentId(removed)).toBe(2);
+        expect(ids(removeFromQueue(queue, 2).tracks)).toEqual([1, 2]);
+        expect(removeFromQueue(queue, 1)).toBe(queue);
+        expect(removeFromQueue(queue, 10)).toBe(queue);
+    });
+
+    test('clearQueue keeps only the current track', () => {
+        const cleared = clearQueue(queue);
+        expect(ids(cleared.tracks)).toEqual([2]);
+        expect(cleared.index).toBe(0);
+    });
+
+    test('replaceTrack swaps every copy of the track', () => {
+        const shuffled = createQueue(tracks(1, 2, 3), 0, null, true);
+        const replaced = replaceTrack(shuffled, { ...track(2), media_token: 'fresh' });
+        expect(replaced.tracks.find((item) => item.id === 2)?.media_token).toBe('fresh');
+        expect(replaced.unshuffled?.find((item) => item.id === 2)?.media_token).toBe('fresh');
+    });
+});
+
+test('repeat mode cycles off, all, one', () => {
+    expect(nextRepeatMode('off')).toBe('all');
+    expect(nextRepeatMode('all')).toBe('one');
+    expect(nextRepeatMode('one')).toBe('off');
+});
+
+describe('saved player state', () => {
+    const storage = new Map<string, string>();
+
+    beforeEach(() => {
+        storage.clear();
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => storage.set(key, value),
+        });
+    });
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    test('round-trips through localStorage', () => {
+        const state = { queue: createQueue(tracks(1, 2), 1, 'Коллекция', false), shuffle: false, repeat: 'all' as const, position: 12.5 };
+        savePlayerState(state);
+        expect(loadPlayerState()).toEqual(state);
+    });
+
+    test('is empty without a saved value or with unreadable JSON', () => {
+        expect(loadPlayerState()).toBeNull();
+        storage.set('player_state', '{not json');
+        expect(loadPlayerState()).toBeNull();
+    });
+
+    test('drops an invalid queue and falls back to defaults', () => {
+        storage.set(
+            'player_state',
+            JSON.stringify({ queue: { tracks: tracks(1), index: 5, unshuffled: null }, shuffle: 'yes', repeat: 'sometimes', position: 30 }),
+        );
+        expect(loadPlayerState()).toEqual({ queue: null, shuffle: false, repeat: 'off', position: 0 });
+    });
+});
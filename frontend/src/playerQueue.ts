@@ -0,0 +1,175 @@
+import type { ProjectVisibility } from './api';
+
+// Only what the player bar and Media Session need; the queue is persisted, so full project payloads stay out of it.
+export interface QueueTrack {
+    id: number;
+    name: string;
+    cover_url?: string | null;
+    cover_id?: number | null;
+    owner_username?: string | null;
+    visibility?: ProjectVisibility;
+    media_token?: string | null;
+}
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface PlayerQueue {
+    // Where the queue came from ("Галерея", a collection title); shown in the player bar.
+    source: string | null;
+    tracks: QueueTrack[];
+    index: number;
+    // Queue order before shuffling, so turning shuffle off restores it; null while shuffle is off.
+    unshuffled: QueueTrack[] | null;
+}
+
+export interface PlayerState {
+    queue: PlayerQueue | null;
+    shuffle: boolean;
+    repeat: RepeatMode;
+    // Seconds into the current track.
+    position: number;
+}
+
+const PLAYER_STATE_KEY = 'player_state';
+const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+
+export const nextRepeatMode = (mode: RepeatMode) => REPEAT_MODES[(REPEAT_MODES.indexOf(mode) + 1) % REPEAT_MODES.length];
+
+export const toQueueTrack = ({ id, name, cover_url, cover_id, owner_username, visibility, media_token }: QueueTrack): QueueTrack => ({
+    id,
+    name,
+    cover_url,
+    cover_id,
+    owner_username,
+    visibility,
+    media_token,
+});
+
+const shuffled = <T>(items: T[]) => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+const withoutTrack = (tracks: QueueTrack[], id: number) => tracks.filter((track) => track.id !== id);
+
+// A project is queued at most once; `start` is the index in `tracks`. With shuffle on the chosen track plays first
+// and the rest follow in random order.
+export const createQueue = (tracks: QueueTrack[], start: number, source: string | null, shuffle: boolean): PlayerQueue => {
+    const current = toQueueTrack(tracks[start]);
+    const unique = tracks.filter((track, index) => tracks.findIndex((other) => other.id === track.id) === index).map(toQueueTrack);
+    if (!shuffle) {
+        return { source, tracks: unique, index: unique.findIndex((track) => track.id === current.id), unshuffled: null };
+    }
+    return { source, tracks: [current, ...shuffled(withoutTrack(unique, current.id))], index: 0, unshuffled: unique };
+};
+
+// Already played tracks keep their place; only the upcoming part is shuffled.
+export const shuffleQueue = (queue: PlayerQueue): PlayerQueue => ({
+    ...queue,
+    tracks: [...queue.tracks.slice(0, queue.index + 1), ...shuffled(queue.tracks.slice(queue.index + 1))],
+    unshuffled: queue.tracks,
+});
+
+export const unshuffleQueue = (queue: PlayerQueue): PlayerQueue => {
+    if (!queue.unshuffled) return queue;
+    const currentId = queue.tracks[queue.index]?.id;
+    return {
+        ...queue,
+        tracks: queue.unshuffled,
+        index: Math.max(0, queue.unshuffled.findIndex((track) => track.id === currentId)),
+        unshuffled: null,
+    };
+};
+
+// Inserts `track` into `tracks` right after the track with `afterId`, or at the end; an earlier copy is moved.
+const insertTrack = (tracks: QueueTrack[], track: QueueTrack, afterId: number | null) => {
+    const rest = withoutTrack(tracks, track.id);
+    const afterIndex = afterId === null ? -1 : rest.findIndex((item) => item.id === afterId);
+    if (afterIndex < 0) return [...rest, track];
+    return [...rest.slice(0, afterIndex + 1), track, ...rest.slice(afterIndex + 1)];
+};
+
+// Both helpers leave the queue alone when `project` is the current track.
+const queueTrack = (queue: PlayerQueue, project: QueueTrack, next: boolean): PlayerQueue => {
+    const current = queue.tracks[queue.index];
+    if (!current || current.id === project.id) return queue;
+    const track = toQueueTrack(project);
+    const tracks = insertTrack(queue.tracks, track, next ? current.id : null);
+    return {
+        ...queue,
+        tracks,
+        index: tracks.findIndex((item) => item.id === current.id),
+        unshuffled: queue.unshuffled && insertTrack(queue.unshuffled, track, next ? current.id : null),
+    };
+};
+
+export const playNext = (queue: PlayerQueue, project: QueueTrack) => queueTrack(queue, project, true);
+export const addToQueue = (queue: PlayerQueue, project: QueueTrack) => queueTrack(queue, project, false);
+
+export const removeFromQueue = (queue: PlayerQueue, index: number): PlayerQueue => {
+    const track = queue.tracks[index];
+    if (!track || index === queue.index) return queue;
+    return {
+        ...queue,
+        tracks: queue.tracks.filter((_, i) => i !== index),
+        index: index < queue.index ? queue.index - 1 : queue.index,
+        unshuffled: queue.unshuffled && withoutTrack(queue.unshuffled, track.id),
+    };
+};
+
+// Drops everything but the current track.
+export const clearQueue = (queue: PlayerQueue): PlayerQueue => {
+    const current = queue.tracks[queue.index];
+    if (!current) return queue;
+    return { ...queue, tracks: [current], index: 0, unshuffled: queue.unshuffled && [current] };
+};
+
+// Swaps in a fresh copy of a track, e.g. with a new media token.
+export const replaceTrack = (queue: PlayerQueue, project: QueueTrack): PlayerQueue => {
+    const track = toQueueTrack(project);
+    const replace = (tracks: QueueTrack[]) => tracks.map((item) => (item.id === track.id ? track : item));
+    return { ...queue, tracks: replace(queue.tracks), unshuffled: queue.unshuffled && replace(queue.unshuffled) };
+};
+
+const isQueueTrack = (value: unknown): value is QueueTrack => {
+    const track = value as QueueTrack | null;
+    return Boolean(track) && Number.isSafeInteger(track!.id) && typeof track!.name === 'string';
+};
+
+// Anything unreadable (old format, edited by hand) is treated as no saved state.
+export const loadPlayerState = (): PlayerState | null => {
+    try {
+        const raw = localStorage.getItem(PLAYER_STATE_KEY);
+        if (!raw) return null;
+        const state = JSON.parse(raw) as Partial<PlayerState>;
+        const queue = state.queue;
+        const validQueue =
+            queue &&
+            Array.isArray(queue.tracks) &&
+            queue.tracks.every(isQueueTrack) &&
+            Number.isSafeInteger(queue.index) &&
+            queue.index >= 0 &&
+            queue.index < queue.tracks.length &&
+            (queue.unshuffled === null || (Array.isArray(queue.unshuffled) && queue.unshuffled.every(isQueueTrack)));
+        return {
+            queue: validQueue ? { ...queue, source: typeof queue.source === 'string' ? queue.source : null } : null,
+            shuffle: state.shuffle === true,
+            repeat: REPEAT_MODES.includes(state.repeat as RepeatMode) ? (state.repeat as RepeatMode) : 'off',
+            position: validQueue && Number.isFinite(state.position) && state.position! > 0 ? state.position! : 0,
+        };
+    } catch {
+        return null;
+    }
+};
+
+export const savePlayerState = (state: PlayerState) => {
+    try {
+        localStorage.setItem(PLAYER_STATE_KEY, JSON.stringify(state));
+    } catch {
+        // Storage full or disabled: the player just won't survive a reload.
+    }
+};